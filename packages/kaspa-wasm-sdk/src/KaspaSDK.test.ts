@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { SpendingPolicy, SpendingPolicyError } from './config';
+import { KaspaSDK } from './KaspaSDK';
+import { MockKaspaNode } from './network/MockKaspaNode';
+import { BatchPaymentOutput } from './types';
+import { KaspaWallet } from './wallet/KaspaWallet';
+
+const KAS = BigInt(100000000);
+// BIP39 test vectors, so the addresses are the same on every run
+const SENDER_MNEMONIC = `${'abandon '.repeat(11)}about`;
+const RECIPIENT_MNEMONIC = 'legal winner thank year wave sausage worth useful legal winner thank yellow';
+
+describe('KaspaSDK.sendBatch', () => {
+  let node: MockKaspaNode;
+  let sdk: KaspaSDK;
+  let wallet: KaspaWallet;
+  let recipients: KaspaWallet;
+
+  // One payment of `amount` KAS to each of `count` recipient addresses
+  function batch(count: number, amount: bigint): BatchPaymentOutput[] {
+    return Array.from({ length: count }, (_, index) => ({
+      address: recipients.getReceiveAddress(index),
+      amount: amount * KAS
+    }));
+  }
+
+  beforeEach(async () => {
+    node = new MockKaspaNode({ network: 'testnet-10' });
+    sdk = new KaspaSDK('testnet-10');
+    await sdk.initialize(node.url);
+    wallet = sdk.createWallet({ mnemonic: SENDER_MNEMONIC });
+    recipients = new KaspaWallet({ mnemonic: RECIPIENT_MNEMONIC, networkType: 'testnet-10' });
+  });
+
+  afterEach(async () => {
+    await sdk.dispose();
+    node.close();
+  });
+
+  it('puts fewer small payments in a transaction, since they carry more storage mass', async () => {
+    node.seedBalance(wallet.getReceiveAddress(0), BigInt(100000) * KAS);
+
+    const small = await sdk.sendBatch(batch(40, BigInt(1)), { dryRun: true });
+    const large = await sdk.sendBatch(batch(40, BigInt(1000)), { dryRun: true });
+
+    const groups = (result: typeof small) => new Set(result.payments.map(payment => payment.transactionId)).size;
+    expect(groups(small)).toBeGreaterThan(1);
+    expect(groups(small)).toBeGreaterThan(groups(large));
+    expect(node.getMempoolTransactionIds()).toEqual([]);
+  });
+
+  it('reports each payment by its position in the outputs and in its transaction', async () => {
+    node.seedBalance(wallet.getReceiveAddress(0), BigInt(1000) * KAS);
+    const outputs = batch(5, BigInt(10));
+
+    const result = await sdk.sendBatch(outputs, { maxOutputsPerTransaction: 2 });
+
+    expect(result.payments.map(payment => payment.outputIndex)).toEqual([0, 1, 2, 3, 4]);
+    expect(result.payments.map(payment => payment.transactionOutputIndex)).toEqual([0, 1, 0, 1, 0]);
+    expect(new Set(result.payments.map(payment => payment.transactionId)).size).toBe(3);
+    for (const output of outputs) {
+      expect(node.getBalance(output.address)).toBe(output.amount);
+    }
+  });
+
+  it('spends UTXOs from every wallet address', async () => {
+    node.seedBalance(wallet.getReceiveAddress(0), BigInt(60) * KAS);
+    node.seedBalance(wallet.getReceiveAddress(1), BigInt(60) * KAS);
+
+    const result = await sdk.sendBatch(batch(2, BigInt(50)));
+
+    expect(result.inputAddresses.sort()).toEqual([wallet.getReceiveAddress(0), wallet.getReceiveAddress(1)].sort());
+    expect(result.changeAddress).toBe(wallet.getChangeAddress(0));
+    expect(node.getBalance(recipients.getReceiveAddress(1))).toBe(BigInt(50) * KAS);
+  });
+
+  it('applies the per-transaction limit to each transaction of the batch', async () => {
+    node.seedBalance(wallet.getReceiveAddress(0), BigInt(1000) * KAS);
+    sdk.setSpendingPolicy(new SpendingPolicy({ global: { maxPerTransaction: '60' } }));
+
+    await expect(sdk.sendBatch(batch(2, BigInt(50)))).rejects.toThrow(SpendingPolicyError);
+    expect(node.getMempoolTransactionIds()).toEqual([]);
+
+    const result = await sdk.sendBatch(batch(2, BigInt(50)), { maxOutputsPerTransaction: 1 });
+    expect(result.payments).toHaveLength(2);
+  });
+
+  it('applies the rolling caps to the whole batch before submitting anything', async () => {
+    node.seedBalance(wallet.getReceiveAddress(0), BigInt(1000) * KAS);
+    sdk.setSpendingPolicy(new SpendingPolicy({ global: { dailyCap: '80' } }));
+
+    const error = await sdk.sendBatch(batch(2, BigInt(50)), { maxOutputsPerTransaction: 1 }).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(SpendingPolicyError);
+    expect((error as SpendingPolicyError).violations.map(violation => violation.rule)).toEqual(['dailyCap']);
+    expect(node.getBalance(recipients.getReceiveAddress(0))).toBe(BigInt(0));
+  });
+});
@@ -1,15 +1,54 @@
 import * as kaspa from '../wasm/kaspa';
 import { KaspaWallet } from './wallet/KaspaWallet';
+import { MultisigWallet } from './wallet/MultisigWallet';
+import { Keystore } from './wallet/Keystore';
 import { TransactionBuilder } from './transaction/TransactionBuilder';
+import { PsktBuilder } from './transaction/PsktBuilder';
 import { RpcClient } from './network/RpcClient';
 import { UtxoManager } from './utxo/UtxoManager';
+import { ChainIndexer } from './indexer/ChainIndexer';
+import { HistoryStore } from './indexer/HistoryStore';
+import { ConfirmationTracker } from './indexer/ConfirmationTracker';
+import { TransactionTracker } from './indexer/TransactionTracker';
 import { 
   NetworkType, 
   WalletConfig, 
   TransactionConfig, 
   SendTransactionResult,
+  ChainedTransactionInfo,
   BalanceInfo,
-  FeeEstimate 
+  UTXOInfo,
+  FeeEstimate,
+  BatchPaymentOutput,
+  BatchSendOptions,
+  BatchPaymentReport,
+  BatchSendResult,
+  WalletDiscoveryOptions,
+  WalletDiscoveryResult,
+  WalletSendConfig,
+  WalletSendResult,
+  UnsignedTransactionInfo,
+  UnsignedTransactionResult,
+  MultisigWalletConfig,
+  MultisigSigningStatus,
+  PsktDocument,
+  PsktInput,
+  SerializedPskt,
+  OfflineTransactionBundle,
+  OfflineVerificationResult,
+  OfflineVerificationOptions,
+  SpendPayment,
+  SpendRecord,
+  SpendingPolicyDecision,
+  SpendingPolicyViolation,
+  SimulatedTransaction,
+  BroadcastEvent,
+  RpcConnectionStatus,
+  AddressHistoryPage,
+  AddressHistoryQuery,
+  TransactionConfirmation,
+  TrackedTransaction,
+  NetworkInfo
 } from './types';
 import { 
   initializeWASM, 
@@ -19,18 +58,52 @@ import {
   generateMnemonic,
   validateMnemonic 
 } from './utils';
-import { Configuration, SDKConfig } from './config';
+import { Logger } from './utils/logger';
+import { Configuration, SDKConfig, SpendingPolicy, SpendingPolicyError } from './config';
+
+/**
+ * How long to wait for an intermediate chained transaction to be accepted
+ */
+const CHAIN_ACCEPTANCE_TIMEOUT_MS = 60000;
+
+/**
+ * Confirmations waitForConfirmation() waits for by default
+ */
+const DEFAULT_CONFIRMATIONS = 10;
+
+/**
+ * Default ceiling for offline fee verification, as a multiple of the minimum network fee
+ */
+const OFFLINE_MAX_FEE_MULTIPLIER = BigInt(10);
+
+/**
+ * A transaction of a chain to submit: a generator PendingTransaction, or an
+ * already signed transaction described by the same fields
+ */
+type ChainTransaction = Pick<kaspa.PendingTransaction, 'transaction' | 'feeAmount' | 'mass' | 'changeAmount'> &
+  Partial<Pick<kaspa.PendingTransaction, 'sign'>>;
 
 export class KaspaSDK {
   private networkType: NetworkType;
   private rpcClient?: RpcClient;
   private wallet?: KaspaWallet;
+  private multisigWallet?: MultisigWallet;
   private transactionBuilder: TransactionBuilder;
   private utxoManager: UtxoManager;
+  private psktBuilder: PsktBuilder;
+  private spendingPolicy?: SpendingPolicy;
+  private spendingScope?: string;
+  private indexer?: ChainIndexer;
+  private confirmationTracker?: ConfirmationTracker;
+  private transactionTracker?: TransactionTracker;
   private initialized: boolean = false;
+  private offline: boolean = false;
   private utxoProcessor?: kaspa.UtxoProcessor;
   private utxoContext?: kaspa.UtxoContext;
   private eventListeners: Map<string, Set<Function>> = new Map();
+  // RPC notification listeners are added on the first address subscription only
+  private notificationListenersAdded = false;
+  private log: Logger;
 
   constructor(networkType?: NetworkType, config?: Partial<SDKConfig>) {
     // Apply configuration if provided
@@ -42,15 +115,37 @@ export class KaspaSDK {
     this.networkType = networkType || Configuration.getDefaultNetwork();
     this.transactionBuilder = new TransactionBuilder(this.networkType);
     this.utxoManager = new UtxoManager(this.networkType);
+    this.psktBuilder = new PsktBuilder(this.networkType);
+    this.log = new Logger('kaspa-sdk', { network: this.networkType });
     
     // Initialize WASM
     initializeWASM();
   }
 
+  /**
+   * Create an SDK for an air-gapped machine. It never creates an RpcClient;
+   * wallets, verification and signing work without calling initialize().
+   */
+  static offline(networkType?: NetworkType): KaspaSDK {
+    const sdk = new KaspaSDK(networkType);
+    sdk.offline = true;
+    return sdk;
+  }
+
+  /**
+   * Check whether this SDK was created for offline use
+   */
+  isOffline(): boolean {
+    return this.offline;
+  }
+
   /**
    * Initialize SDK with RPC connection
    */
   async initialize(rpcUrl?: string): Promise<void> {
+    if (this.offline) {
+      throw new Error('Offline SDK cannot connect to the network');
+    }
     if (this.initialized) {
       return;
     }
@@ -59,22 +154,32 @@ export class KaspaSDK {
     this.rpcClient = new RpcClient(this.networkType, rpcUrl);
     await this.rpcClient.connect();
 
-    // Initialize UTXO manager
-    await this.utxoManager.initialize(this.rpcClient.getInternalClient());
+    // Connection health: the client reconnects and replays subscriptions itself
+    for (const event of ['rpc:disconnected', 'rpc:reconnected']) {
+      this.rpcClient.addEventListener(event, (data: any) => this.emit(event, data));
+    }
 
-    // Initialize UTXO processor for monitoring
-    this.utxoProcessor = new kaspa.UtxoProcessor({
-      rpc: this.rpcClient.getInternalClient(),
-      networkId: this.networkType,
-    });
-    await this.utxoProcessor.start();
+    // The UTXO processor needs the WASM client; in-process nodes such as
+    // MockKaspaNode only serve the RPC calls and notifications
+    const wasmClient = this.rpcClient.getWasmClient();
+    if (wasmClient) {
+      // Initialize UTXO manager
+      await this.utxoManager.initialize(wasmClient);
+
+      // Initialize UTXO processor for monitoring
+      this.utxoProcessor = new kaspa.UtxoProcessor({
+        rpc: wasmClient,
+        networkId: this.networkType,
+      });
+      await this.utxoProcessor.start();
 
-    this.utxoContext = new kaspa.UtxoContext({ 
-      processor: this.utxoProcessor 
-    });
+      this.utxoContext = new kaspa.UtxoContext({ 
+        processor: this.utxoProcessor 
+      });
 
-    // Set up UTXO processor event listeners
-    this.setupUtxoProcessorEvents();
+      // Set up UTXO processor event listeners
+      this.setupUtxoProcessorEvents();
+    }
 
     this.initialized = true;
   }
@@ -128,6 +233,11 @@ export class KaspaSDK {
       await this.utxoContext.trackAddresses(addressObjects);
     }
 
+    if (this.notificationListenersAdded) {
+      return;
+    }
+    this.notificationListenersAdded = true;
+
     // Set up RPC event listener for UTXO changes
     this.rpcClient.addEventListener('utxos-changed', (data: any) => {
       // Parse incoming transaction data
@@ -220,7 +330,7 @@ export class KaspaSDK {
     if (this.utxoContext) {
       // Note: WASM SDK doesn't have untrackAddresses, we'll clear and re-track remaining
       // For now, just log a warning
-      console.warn('Address untracking not fully implemented - consider recreating UTXO context');
+      this.log.warn('Address untracking not fully implemented - consider recreating UTXO context');
     }
   }
 
@@ -276,7 +386,7 @@ export class KaspaSDK {
         try {
           handler(data);
         } catch (error) {
-          console.error(`Error in event handler for ${event}:`, error);
+          this.log.error(`Error in event handler for ${event}`, { error });
         }
       });
     }
@@ -306,8 +416,9 @@ export class KaspaSDK {
         const blockDagInfo = await this.rpcClient.getBlockDagInfo();
         const tipHashes = blockDagInfo.tipHashes;
 
-        // Search recent blocks first
-        for (const hash of tipHashes) {
+        // The block the indexer saw it in, then recent blocks
+        const indexed = this.indexer?.getTransaction(transactionId);
+        for (const hash of indexed ? [indexed.blockHash, ...tipHashes] : tipHashes) {
           try {
             const block = await this.rpcClient.getBlock(hash, true);
             const foundTx = block.block.transactions.find((tx: any) => 
@@ -318,14 +429,10 @@ export class KaspaSDK {
               transaction = foundTx;
               blockHash = hash;
               blockTime = block.block.header.timestamp;
-              // Calculate confirmations based on block depth
-              const currentDaaScore = blockDagInfo.virtualDaaScore;
-              const txDaaScore = block.block.header.daaScore;
-              confirmations = Math.max(0, Number(currentDaaScore - txDaaScore));
               break;
             }
           } catch (blockError: any) {
-            console.warn(`Failed to get block ${hash}:`, blockError?.message);
+            this.log.warn(`Failed to get block ${hash}`, { txId: transactionId, error: blockError?.message });
           }
         }
       }
@@ -334,6 +441,14 @@ export class KaspaSDK {
         throw new Error(`Transaction ${transactionId} not found`);
       }
 
+      // Confirmations count from the chain block that accepted it
+      let acceptingBlockHash: string | undefined;
+      if (blockHash) {
+        const confirmation = await this.getTransactionConfirmation(transactionId, blockHash);
+        confirmations = confirmation.confirmations;
+        acceptingBlockHash = confirmation.acceptingBlockHash;
+      }
+
       // Parse transaction details
       const inputs = [];
       const outputs = [];
@@ -393,7 +508,7 @@ export class KaspaSDK {
               totalInputAmount += amount;
             }
           } catch (error: any) {
-            console.warn('Error parsing input:', error?.message);
+            this.log.warn('Error parsing input', { txId: transactionId, error: error?.message });
           }
         }
       }
@@ -425,7 +540,7 @@ export class KaspaSDK {
             
             totalOutputAmount += amount;
           } catch (error: any) {
-            console.warn('Error parsing output:', error?.message);
+            this.log.warn('Error parsing output', { txId: transactionId, index: i, error: error?.message });
           }
         }
       }
@@ -461,6 +576,7 @@ export class KaspaSDK {
         transactionId: transactionId,
         blockHash: blockHash,
         blockTime: blockTime,
+        acceptingBlockHash: acceptingBlockHash,
         confirmations: confirmations,
         inputs: inputs,
         outputs: outputs,
@@ -497,11 +613,12 @@ export class KaspaSDK {
       const mempoolEntry = await this.rpcClient.getMempoolEntry(transactionId);
       return (mempoolEntry as any).transaction || mempoolEntry;
     } catch (error) {
-      // Search in recent blocks
+      // Search the indexed block and recent blocks
       const blockDagInfo = await this.rpcClient.getBlockDagInfo();
       const tipHashes = blockDagInfo.tipHashes;
+      const indexed = this.indexer?.getTransaction(transactionId);
 
-      for (const blockHash of tipHashes) {
+      for (const blockHash of indexed ? [indexed.blockHash, ...tipHashes] : tipHashes) {
         try {
           const block = await this.rpcClient.getBlock(blockHash, true);
           const transaction = block.block.transactions.find((tx: any) => 
@@ -524,10 +641,156 @@ export class KaspaSDK {
    * Get transaction details from block (deprecated - use getTransactionDetails)
    */
   async getTransactionFromBlock(transactionId: string): Promise<any> {
-    console.warn('getTransactionFromBlock is deprecated. Use getTransactionDetails instead.');
+    this.log.warn('getTransactionFromBlock is deprecated. Use getTransactionDetails instead.');
     return this.getTransactionDetails(transactionId);
   }
 
+  /**
+   * Index the transaction history of addresses from now on. It is kept under
+   * the configured indexer path (KASPA_INDEXER_PATH), or in memory without one.
+   */
+  async watchAddressHistory(addresses: string[]): Promise<void> {
+    const indexer = await this.getIndexer();
+    await indexer.watch(addresses);
+  }
+
+  /**
+   * Check whether the history of an address is being indexed
+   */
+  async isAddressHistoryWatched(address: string): Promise<boolean> {
+    return (await this.getIndexer()).isWatched(address);
+  }
+
+  /**
+   * Indexed history of an address, newest first. Only transactions accepted
+   * after watchAddressHistory() was first called for it are included, and
+   * none from the `gaps` in which no indexer ran.
+   */
+  async getAddressHistory(address: string, query?: AddressHistoryQuery): Promise<AddressHistoryPage> {
+    return (await this.getIndexer()).getHistory(address, query);
+  }
+
+  /**
+   * Confirmations of a transaction: the blue score of the sink minus the blue
+   * score of the chain block that accepted it. `blockHash` is a block that
+   * contains the transaction, used when it was accepted before tracking began.
+   */
+  async getTransactionConfirmation(transactionId: string, blockHash?: string): Promise<TransactionConfirmation> {
+    const tracker = this.getConfirmationTracker();
+    const indexed = this.indexer?.getTransaction(transactionId);
+    return tracker.getConfirmation(transactionId, {
+      acceptingBlockHash: indexed?.acceptingBlockHash,
+      blockHash: blockHash || indexed?.blockHash
+    });
+  }
+
+  /**
+   * Wait until a transaction has `confirmations` confirmations. Resolves with
+   * its last status and `timedOut` set when `timeoutMs` passes first, and
+   * early when the transaction was dropped.
+   */
+  async waitForConfirmation(
+    transactionId: string,
+    confirmations: number = DEFAULT_CONFIRMATIONS,
+    timeoutMs: number = CHAIN_ACCEPTANCE_TIMEOUT_MS
+  ): Promise<TransactionConfirmation> {
+    const tracker = this.getConfirmationTracker();
+    const indexed = this.indexer?.getTransaction(transactionId);
+    return tracker.waitForConfirmation(transactionId, confirmations, timeoutMs, {
+      acceptingBlockHash: indexed?.acceptingBlockHash,
+      blockHash: indexed?.blockHash
+    });
+  }
+
+  /**
+   * Lifecycle state of a transaction. Transactions this SDK submitted are
+   * tracked from submission; any other is looked up once and has no
+   * `submittedAt` or transitions before now.
+   */
+  async getTransactionStatus(transactionId: string): Promise<TrackedTransaction> {
+    const tracked = await this.getTransactionTracker().getStatus(transactionId);
+    if (tracked) {
+      return tracked;
+    }
+
+    const confirmation = await this.getTransactionConfirmation(transactionId);
+    const state = TransactionTracker.toState(confirmation, DEFAULT_CONFIRMATIONS);
+    const now = Date.now();
+    return {
+      transactionId,
+      state,
+      confirmations: confirmation.confirmations,
+      requiredConfirmations: DEFAULT_CONFIRMATIONS,
+      acceptingBlockHash: confirmation.acceptingBlockHash,
+      updatedAt: now,
+      transitions: [{ state, at: now }]
+    };
+  }
+
+  private getConfirmationTracker(): ConfirmationTracker {
+    if (!this.rpcClient) {
+      throw new Error('SDK not initialized. Call initialize() first.');
+    }
+    if (!this.confirmationTracker) {
+      this.confirmationTracker = new ConfirmationTracker(this.rpcClient, this.networkType);
+    }
+    return this.confirmationTracker;
+  }
+
+  /**
+   * Tracks submitted transactions and emits `transaction:status` when one
+   * changes state
+   */
+  private getTransactionTracker(): TransactionTracker {
+    if (!this.rpcClient) {
+      throw new Error('SDK not initialized. Call initialize() first.');
+    }
+    if (!this.transactionTracker) {
+      this.transactionTracker = new TransactionTracker(
+        this.rpcClient,
+        this.getConfirmationTracker(),
+        this.networkType,
+        DEFAULT_CONFIRMATIONS,
+        event => this.emit('transaction:status', event),
+        transactionId => {
+          const indexed = this.indexer?.getTransaction(transactionId);
+          return { acceptingBlockHash: indexed?.acceptingBlockHash, blockHash: indexed?.blockHash };
+        }
+      );
+    }
+    return this.transactionTracker;
+  }
+
+  /**
+   * Follow acceptances before submitting, so that none is missed
+   */
+  private async startConfirmationTracking(): Promise<void> {
+    try {
+      await this.getTransactionTracker().start();
+    } catch (error) {
+      this.log.warn('Could not follow virtual chain changes', { error });
+    }
+  }
+
+  private async getIndexer(): Promise<ChainIndexer> {
+    if (!this.rpcClient) {
+      throw new Error('SDK not initialized. Call initialize() first.');
+    }
+    if (!this.indexer) {
+      const store = await HistoryStore.open(this.networkType, Configuration.getIndexerConfig()?.path);
+      this.indexer = new ChainIndexer(this.rpcClient, this.networkType, store);
+      // Addresses watched in an earlier run keep being indexed
+      if (store.getWatchedAddresses().length > 0) {
+        try {
+          await this.indexer.start();
+        } catch (error) {
+          this.log.warn('Could not resume indexing the address history', { error });
+        }
+      }
+    }
+    return this.indexer;
+  }
+
   /**
    * Create or import wallet
    */
@@ -569,6 +832,31 @@ export class KaspaSDK {
     return !!(credentials && (credentials.mnemonic || credentials.privateKey));
   }
 
+  /**
+   * Create wallet from an unlocked keystore entry
+   */
+  createWalletFromKeystore(keystore: Keystore, name: string): KaspaWallet {
+    const credentials = keystore.getCredentials(name);
+    if (!credentials) {
+      throw new Error(`Keystore entry "${name}" is locked. Unlock it first.`);
+    }
+
+    this.wallet = new KaspaWallet({
+      networkType: this.networkType,
+      mnemonic: credentials.mnemonic,
+      privateKey: credentials.privateKey
+    });
+    return this.wallet;
+  }
+
+  /**
+   * Dispose the current wallet and drop its keys, e.g. when its keystore entry is locked
+   */
+  closeWallet(): void {
+    this.wallet?.dispose();
+    this.wallet = undefined;
+  }
+
   /**
    * Get current wallet
    */
@@ -576,6 +864,61 @@ export class KaspaSDK {
     return this.wallet;
   }
 
+  /**
+   * Scan the current wallet for used receive and change addresses
+   */
+  async scanWallet(options?: WalletDiscoveryOptions): Promise<WalletDiscoveryResult> {
+    if (!this.rpcClient) {
+      throw new Error('SDK not initialized. Call initialize() first.');
+    }
+    if (!this.wallet) {
+      throw new Error('No wallet available. Create or import a wallet first.');
+    }
+    return this.wallet.discover(this.rpcClient, options);
+  }
+
+  /**
+   * Get the UTXOs held by every discovered wallet address, newest first.
+   * Works for watch-only wallets; run scanWallet() first.
+   */
+  async getWalletUtxos(): Promise<UTXOInfo[]> {
+    if (!this.rpcClient) {
+      throw new Error('SDK not initialized. Call initialize() first.');
+    }
+    if (!this.wallet) {
+      throw new Error('No wallet available. Create or import a wallet first.');
+    }
+
+    return this.getAddressUtxos(this.wallet.getUsedAddresses().map(info => info.address));
+  }
+
+  /**
+   * Get the UTXOs of any addresses, newest first
+   */
+  async getAddressUtxos(addresses: string[]): Promise<UTXOInfo[]> {
+    if (!this.rpcClient) {
+      throw new Error('SDK not initialized. Call initialize() first.');
+    }
+    if (addresses.length === 0) {
+      return [];
+    }
+
+    const entries = await this.rpcClient.getUTXOs(addresses);
+    return entries
+      .map(entry => ({
+        address: entry.address?.toString() || '',
+        outpoint: {
+          transactionId: entry.outpoint.transactionId,
+          index: entry.outpoint.index
+        },
+        amount: entry.amount,
+        scriptPublicKey: entry.scriptPublicKey,
+        blockDaaScore: entry.blockDaaScore,
+        isCoinbase: entry.isCoinbase
+      }))
+      .sort((a, b) => (a.blockDaaScore < b.blockDaaScore ? 1 : a.blockDaaScore > b.blockDaaScore ? -1 : 0));
+  }
+
   /**
    * Generate new mnemonic
    */
@@ -704,7 +1047,7 @@ export class KaspaSDK {
       if (!this.wallet) {
         throw new Error('No wallet available. Create or import a wallet first.');
       }
-      senderPrivateKey = this.wallet.getReceivePrivateKey(0);
+      senderPrivateKey = this.wallet.getPrivateKeyForAddress(config.from);
     } else {
       senderPrivateKey = config.from;
     }
@@ -746,10 +1089,11 @@ export class KaspaSDK {
       ? customTotalFee - baseFeeEstimate.baseFee 
       : BigInt(0);
 
-    console.error(`[Debug] Custom fee calculation:`);
-    console.error(`[Debug] - Requested total fee: ${KaspaSDK.sompiToKas(customTotalFee)} KAS`);
-    console.error(`[Debug] - Estimated base fee: ${KaspaSDK.sompiToKas(baseFeeEstimate.baseFee)} KAS`);
-    console.error(`[Debug] - Calculated priority fee: ${KaspaSDK.sompiToKas(priorityFee)} KAS`);
+    this.log.debug('Custom fee calculation', {
+      requestedFee: KaspaSDK.sompiToKas(customTotalFee),
+      baseFee: KaspaSDK.sompiToKas(baseFeeEstimate.baseFee),
+      priorityFee: KaspaSDK.sompiToKas(priorityFee)
+    });
 
     // Build transaction with calculated priority fee
     const pendingTransactions = await this.transactionBuilder.buildWithGenerator(
@@ -764,31 +1108,25 @@ export class KaspaSDK {
       throw new Error('Failed to create transaction');
     }
 
-    const pendingTx = pendingTransactions[0];
-    
-    // Sign and submit transaction
-    pendingTx.sign([senderPrivateKey], true);
-    const signedTx = pendingTx.transaction;
-    const txId = signedTx.id;
-
-    await this.rpcClient.submitTransaction(signedTx);
-
-    // Calculate actual fee from the transaction
-    const mass = this.transactionBuilder.calculateMass(signedTx);
-    const totalInputAmount = utxos.reduce((sum, utxo) => sum + utxo.amount, BigInt(0));
-    const actualOutputAmount = signedTx.outputs.reduce((sum, output) => sum + output.value, BigInt(0));
-    const actualFee = totalInputAmount - actualOutputAmount;
+    // Sign and submit the whole transaction chain
+    const result = await this.submitWithSpendingPolicy(
+      [{ address: recipientAddress, amount: config.amount }],
+      pendingTransactions,
+      [senderPrivateKey],
+      changeAddress,
+      { dryRun: config.dryRun }
+    );
 
-    console.error(`[Debug] Transaction with custom fee created:`);
-    console.error(`[Debug] - Requested fee: ${KaspaSDK.sompiToKas(customTotalFee)} KAS`);
-    console.error(`[Debug] - Actual fee: ${KaspaSDK.sompiToKas(actualFee)} KAS`);
-    console.error(`[Debug] - Fee difference: ${KaspaSDK.sompiToKas(actualFee - customTotalFee)} KAS`);
+    this.log.debug('Transaction with custom fee created', {
+      txId: result.transactionId,
+      requestedFee: KaspaSDK.sompiToKas(customTotalFee),
+      fee: KaspaSDK.sompiToKas(result.fee),
+      feeDifference: KaspaSDK.sompiToKas(result.fee - customTotalFee),
+      chainedTransactions: pendingTransactions.length,
+      dryRun: !!config.dryRun
+    });
 
-    return {
-      transactionId: txId,
-      fee: actualFee,
-      mass
-    };
+    return result;
   }
 
   /**
@@ -810,8 +1148,7 @@ export class KaspaSDK {
       if (!this.wallet) {
         throw new Error('No wallet available. Create or import a wallet first.');
       }
-      // Find the address index (simplified - assumes it's the first address)
-      senderPrivateKey = this.wallet.getReceivePrivateKey(0);
+      senderPrivateKey = this.wallet.getPrivateKeyForAddress(config.from);
     } else {
       senderPrivateKey = config.from;
     }
@@ -865,127 +1202,1425 @@ export class KaspaSDK {
       throw new Error('Failed to create transaction');
     }
 
-    const pendingTx = pendingTransactions[0];
+    // Sign and submit the whole transaction chain
+    const result = await this.submitWithSpendingPolicy(
+      [{ address: recipientAddress, amount: config.amount }],
+      pendingTransactions,
+      [senderPrivateKey],
+      changeAddress,
+      { dryRun: config.dryRun }
+    );
     
-    // Sign transaction
-    pendingTx.sign([senderPrivateKey], true);
-    const signedTx = pendingTx.transaction;
+    this.log.debug('Transaction created', {
+      txId: result.transactionId,
+      amount: KaspaSDK.sompiToKas(config.amount),
+      fee: KaspaSDK.sompiToKas(result.fee),
+      chainedTransactions: pendingTransactions.length,
+      dryRun: !!config.dryRun
+    });
 
-    // Get transaction ID
-    const txId = signedTx.id;
+    return result;
+  }
 
-    // Submit transaction
-    await this.rpcClient.submitTransaction(signedTx);
+  /**
+   * Set the spending policy every send is checked against. `scope` selects
+   * the policy's session limits (e.g. the MCP session id).
+   */
+  setSpendingPolicy(policy: SpendingPolicy | undefined, scope?: string): void {
+    this.spendingPolicy = policy;
+    this.spendingScope = scope;
+  }
 
-    // Get transaction mass (computational weight)
-    const mass = this.transactionBuilder.calculateMass(signedTx);
+  /**
+   * Get the spending policy, if one is set
+   */
+  getSpendingPolicy(): SpendingPolicy | undefined {
+    return this.spendingPolicy;
+  }
 
-    // Calculate total fee using actual transaction inputs/outputs (including change)
-    const totalInputAmount = utxos.reduce((sum, utxo) => sum + utxo.amount, BigInt(0));
-    
-    // Get actual output amounts from the signed transaction (includes change outputs)
-    const actualOutputAmount = signedTx.outputs.reduce((sum, output) => sum + output.value, BigInt(0));
-    const fee = totalInputAmount - actualOutputAmount;
-    
-    // Debug logging
-    console.error(`[Debug] Transaction created:`);
-    console.error(`[Debug] - Total inputs: ${KaspaSDK.sompiToKas(totalInputAmount)} KAS`);
-    console.error(`[Debug] - Payment amount: ${KaspaSDK.sompiToKas(config.amount)} KAS`);
-    console.error(`[Debug] - Total actual outputs: ${KaspaSDK.sompiToKas(actualOutputAmount)} KAS`);
-    console.error(`[Debug] - Calculated fee: ${KaspaSDK.sompiToKas(fee)} KAS`);
-    console.error(`[Debug] - Transaction outputs count: ${signedTx.outputs.length}`);
+  /**
+   * Whether any output of the transactions pays an address; a change address
+   * only counts as used once one does
+   */
+  private paysAddress(transactions: ChainTransaction[], address: string): boolean {
+    return transactions.some(item =>
+      item.transaction.outputs.some(output => this.transactionBuilder.getOutputAddress(output) === address)
+    );
+  }
 
-    return {
-      transactionId: txId,
+  /**
+   * Check a built send against the spending policy (including its fee),
+   * reserve it toward the rolling caps, submit it and emit
+   * `transaction:broadcast`. The reservation is released when nothing was
+   * submitted and otherwise settled with what was, so an interrupted chain
+   * still counts its fees. A dry run signs the transactions and reports the
+   * policy decision instead.
+   */
+  private async submitWithSpendingPolicy(
+    payments: SpendPayment[],
+    pendingTransactions: ChainTransaction[],
+    privateKeys: kaspa.PrivateKey[] | null,
+    changeAddress: string,
+    options: { approved?: boolean; dryRun?: boolean } = {}
+  ): Promise<SendTransactionResult> {
+    const fee = pendingTransactions.reduce((sum, pendingTx) => sum + pendingTx.feeAmount, BigInt(0));
+    if (options.dryRun) {
+      const policy = this.spendingPolicy?.evaluate({
+        scope: this.spendingScope,
+        network: this.networkType,
+        payments,
+        fee,
+        approved: options.approved
+      });
+      return this.simulatePendingTransactions(pendingTransactions, privateKeys, changeAddress, policy);
+    }
+    const reservation = this.spendingPolicy?.reserve({
+      scope: this.spendingScope,
+      network: this.networkType,
+      payments,
       fee,
-      mass
-    };
+      approved: options.approved
+    });
+
+    const submitted: ChainedTransactionInfo[] = [];
+    let result: SendTransactionResult;
+    try {
+      result = await this.submitPendingTransactions(pendingTransactions, privateKeys, changeAddress, submitted);
+    } catch (error) {
+      if (reservation) {
+        await this.settleSpend(reservation, payments, submitted);
+      }
+      throw error;
+    }
+
+    this.emitBroadcast(payments, result.transactionId, result.transactions || [], result.fee);
+    if (reservation) {
+      await this.settleSpend(reservation, payments, submitted);
+    }
+    return result;
   }
 
   /**
-   * Estimate transaction fee
+   * Settle a spending reservation with the transactions that were submitted:
+   * their fees, plus the payments once the final transaction went out.
+   * Releases it when nothing was submitted.
    */
-  async estimateFee(from: string, to: string, amount: bigint): Promise<FeeEstimate> {
-    if (!this.rpcClient) {
-      throw new Error('SDK not initialized. Call initialize() first.');
+  private async settleSpend(
+    reservation: SpendRecord,
+    payments: SpendPayment[],
+    submitted: ChainedTransactionInfo[]
+  ): Promise<void> {
+    const policy = this.spendingPolicy!;
+    if (submitted.length === 0) {
+      policy.release(reservation);
+      return;
     }
 
-    // Get UTXOs for estimation
-    const utxos = await this.rpcClient.getUTXOs([from]);
-    if (utxos.length === 0) {
-      throw new Error('No UTXOs available for estimation');
+    const paid = submitted.some(tx => tx.isFinal)
+      ? payments.reduce((sum, payment) => sum + payment.amount, BigInt(0))
+      : BigInt(0);
+    const total = submitted.reduce((sum, tx) => sum + tx.fee, paid);
+    const transactionIds = submitted.map(tx => tx.transactionId);
+    try {
+      await policy.settle(reservation, transactionIds, total);
+    } catch (error) {
+      throw new Error(`Submitted ${transactionIds.join(', ')}, but ${(error as Error).message}`);
     }
+  }
 
-    // Get fee estimate from network
-    const feeEstimateResponse = await this.rpcClient.getFeeEstimate();
-    
-    // Extract the feerate from the response
-    // Use priority bucket for fastest inclusion, or normal bucket if available
-    let feerate: number = 0;
-    
-    if (feeEstimateResponse?.estimate) {
-      const estimate = feeEstimateResponse.estimate;
-      
-      // Priority bucket for fastest inclusion
-      if (estimate.priorityBucket?.feerate) {
-        feerate = estimate.priorityBucket.feerate;
-      }
-      // Fall back to normal bucket
-      else if (estimate.normalBuckets && estimate.normalBuckets.length > 0 && estimate.normalBuckets[0]?.feerate) {
-        feerate = estimate.normalBuckets[0].feerate;
-      }
-      // Fall back to low bucket
-      else if (estimate.lowBuckets && estimate.lowBuckets.length > 0 && estimate.lowBuckets[0]?.feerate) {
-        feerate = estimate.lowBuckets[0].feerate;
+  /**
+   * Tell listeners a send was submitted
+   */
+  private emitBroadcast(
+    payments: SpendPayment[],
+    transactionId: string,
+    transactions: ChainedTransactionInfo[],
+    fee: bigint
+  ): void {
+    const event: BroadcastEvent = {
+      network: this.networkType,
+      scope: this.spendingScope,
+      transactionId,
+      transactions,
+      payments,
+      amount: payments.reduce((sum, payment) => sum + payment.amount, BigInt(0)),
+      fee
+    };
+    this.emit('transaction:broadcast', event);
+  }
+
+  /**
+   * Sign every transaction produced by the generator and describe it without
+   * submitting anything. The transactions are returned unsigned.
+   */
+  private simulatePendingTransactions(
+    pendingTransactions: ChainTransaction[],
+    privateKeys: kaspa.PrivateKey[] | null,
+    changeAddress: string,
+    policy?: SpendingPolicyDecision
+  ): SendTransactionResult {
+    const transactions: SimulatedTransaction[] = pendingTransactions.map((pendingTx, i) => {
+      const serialized = pendingTx.transaction.serializeToSafeJSON();
+      // Sign anyway so a missing key or a bad input fails the dry run like a real send
+      if (privateKeys) {
+        if (!pendingTx.sign) {
+          throw new Error('Transaction cannot be signed here');
+        }
+        pendingTx.sign(privateKeys, true);
       }
-    }
-    
-    // If we still don't have a feerate, use a minimum default
-    if (!feerate || feerate === 0) {
-      console.warn('No feerate available from network, using default minimum');
-      feerate = 1; // 1 sompi per gram minimum
-    }
-    
-    // Create a dummy transaction to estimate mass
-    const outputs: kaspa.IPaymentOutput[] = [{
-      address: to,
-      amount
-    }];
+      const transaction = pendingTx.transaction;
 
-    const transaction = await this.transactionBuilder.buildTransaction(
-      utxos,
-      outputs,
-      from,
-      BigInt(0),
-      undefined
-    );
+      return {
+        transactionId: transaction.id,
+        fee: pendingTx.feeAmount,
+        mass: pendingTx.mass,
+        isFinal: i === pendingTransactions.length - 1,
+        inputs: transaction.inputs.map(input => ({
+          transactionId: input.previousOutpoint.transactionId,
+          index: input.previousOutpoint.index,
+          address: input.utxo?.address?.toString(),
+          amount: input.utxo?.amount ?? BigInt(0)
+        })),
+        outputs: transaction.outputs.map(output => {
+          const address = this.transactionBuilder.getOutputAddress(output);
+          return { address, amount: output.value, isChange: address === changeAddress };
+        }),
+        serialized
+      };
+    });
 
-    const mass = this.transactionBuilder.calculateMass(transaction);
-    
-    // Calculate fee: feerate (sompi/gram) * mass (grams)
-    const baseFee = BigInt(Math.ceil(feerate * Number(mass)));
+    const finalTx = pendingTransactions[pendingTransactions.length - 1];
 
     return {
-      baseFee,
-      totalFee: baseFee,
-      estimatedMass: mass,
-      massLimit: BigInt(100000) // Standard mass limit
+      transactionId: transactions[transactions.length - 1].transactionId,
+      fee: transactions.reduce((sum, tx) => sum + tx.fee, BigInt(0)),
+      mass: finalTx.mass,
+      changeAmount: finalTx.changeAmount,
+      transactions: transactions.map(({ transactionId, fee, mass, isFinal }) => ({ transactionId, fee, mass, isFinal })),
+      simulation: { transactions, policy }
     };
   }
 
   /**
-   * Get network type
+   * Sign and submit every transaction produced by the generator, in order.
+   * Pass `null` for privateKeys when the inputs are already filled.
+   * Intermediate (compounding) transactions send their funds to the change
+   * address and must be accepted before the next one can be submitted;
+   * the last transaction carries the actual payment. Submitted
+   * transactions are added to `transactions`, which still lists them when
+   * the chain is interrupted.
    */
-  getNetworkType(): NetworkType {
-    return this.networkType;
+  private async submitPendingTransactions(
+    pendingTransactions: ChainTransaction[],
+    privateKeys: kaspa.PrivateKey[] | null,
+    changeAddress: string,
+    transactions: ChainedTransactionInfo[] = []
+  ): Promise<SendTransactionResult> {
+    if (!this.rpcClient) {
+      throw new Error('SDK not initialized. Call initialize() first.');
+    }
+
+    let tracking: TrackedTransaction | undefined;
+    await this.startConfirmationTracking();
+
+    for (let i = 0; i < pendingTransactions.length; i++) {
+      const pendingTx = pendingTransactions[i];
+      const isFinal = i === pendingTransactions.length - 1;
+
+      try {
+        if (privateKeys) {
+          if (!pendingTx.sign) {
+            throw new Error('Transaction cannot be signed here');
+          }
+          pendingTx.sign(privateKeys, true);
+        }
+        const txId = await this.rpcClient.submitTransaction(pendingTx.transaction);
+
+        transactions.push({
+          transactionId: txId,
+          fee: pendingTx.feeAmount,
+          mass: pendingTx.mass,
+          isFinal
+        });
+        tracking = await this.getTransactionTracker().track(txId);
+
+        if (!isFinal) {
+          await this.rpcClient.waitForTransactionOutput(changeAddress, txId, CHAIN_ACCEPTANCE_TIMEOUT_MS);
+        }
+      } catch (error: any) {
+        const submitted = transactions.map(tx => tx.transactionId).join(', ') || 'none';
+        throw new Error(
+          `Transaction chain interrupted at ${i + 1} of ${pendingTransactions.length} (submitted: ${submitted}): ${error?.message || error}`
+        );
+      }
+    }
+
+    const finalTx = pendingTransactions[pendingTransactions.length - 1];
+
+    return {
+      transactionId: transactions[transactions.length - 1].transactionId,
+      fee: transactions.reduce((sum, tx) => sum + tx.fee, BigInt(0)),
+      mass: finalTx.mass,
+      changeAmount: finalTx.changeAmount,
+      transactions,
+      tracking
+    };
   }
 
   /**
-   * Dispose SDK resources
+   * Send from the whole wallet: gather UTXOs from every discovered receive and
+   * change address, sign each input with its derived key and send change to
+   * the next unused change address
    */
-  async dispose(): Promise<void> {
-    // Clear event listeners
-    this.eventListeners.clear();
+  async sendFromWallet(config: WalletSendConfig): Promise<WalletSendResult> {
+    const wallet = this.wallet;
+    if (wallet?.isWatchOnly()) {
+      throw new Error('Watch-only wallet cannot sign. Use buildUnsignedTransaction() instead.');
+    }
+
+    const { pendingTransactions, inputAddresses, changeAddress } = await this.prepareWalletTransactions(config);
+    const privateKeys = inputAddresses.map(address => wallet!.getPrivateKeyForAddress(address));
+
+    const recipientAddress = typeof config.to === 'string' ? config.to : config.to.toString();
+    const result = await this.submitWithSpendingPolicy(
+      [{ address: recipientAddress, amount: config.amount }],
+      pendingTransactions,
+      privateKeys,
+      changeAddress,
+      { dryRun: config.dryRun }
+    );
+    if (!config.dryRun && this.paysAddress(pendingTransactions, changeAddress)) {
+      wallet!.markAddressUsed(changeAddress);
+    }
+
+    this.log.debug('Wallet transaction created', {
+      txId: result.transactionId,
+      inputAddresses: inputAddresses.length,
+      changeAddress,
+      fee: KaspaSDK.sompiToKas(result.fee),
+      dryRun: !!config.dryRun
+    });
+
+    return {
+      ...result,
+      inputAddresses,
+      changeAddress
+    };
+  }
+
+  /**
+   * Build the transactions for a wallet payment without signing them.
+   * Works with watch-only wallets; the serialized transactions carry their
+   * UTXO entries so they can be signed elsewhere.
+   */
+  async buildUnsignedTransaction(config: WalletSendConfig): Promise<UnsignedTransactionResult> {
+    const { pendingTransactions, inputAddresses, changeAddress } = await this.prepareWalletTransactions(config);
+
+    const transactions: UnsignedTransactionInfo[] = pendingTransactions.map((pendingTx, i) => ({
+      transactionId: pendingTx.id,
+      fee: pendingTx.feeAmount,
+      mass: pendingTx.mass,
+      isFinal: i === pendingTransactions.length - 1,
+      serialized: pendingTx.serializeToSafeJSON()
+    }));
+
+    return {
+      transactions,
+      totalFee: transactions.reduce((sum, tx) => sum + tx.fee, BigInt(0)),
+      inputAddresses,
+      changeAddress
+    };
+  }
+
+  /**
+   * Sign transactions built earlier with buildUnsignedTransaction() using the
+   * current wallet and submit them in order, once a human approved them.
+   * Nothing is signed unless the final transaction pays exactly `payments`
+   * and every other output goes to the wallet's `changeAddress`. The
+   * approval threshold is skipped; every other policy limit is checked
+   * again before anything is submitted.
+   */
+  async submitUnsignedTransaction(
+    serializedTransactions: string[],
+    inputAddresses: string[],
+    changeAddress: string,
+    payments: SpendPayment[]
+  ): Promise<SendTransactionResult> {
+    const wallet = this.wallet;
+    if (!wallet) {
+      throw new Error('No wallet available. Create or import a wallet first.');
+    }
+
+    if (serializedTransactions.length === 0) {
+      throw new Error('No transactions to submit');
+    }
+    if (!wallet.findAddress(changeAddress)) {
+      throw new Error(`Change address ${changeAddress} does not belong to the wallet`);
+    }
+
+    const privateKeys = inputAddresses.map(address => wallet.getPrivateKeyForAddress(address));
+    const unsigned: kaspa.Transaction[] = [];
+    try {
+      serializedTransactions.forEach(json => unsigned.push(kaspa.Transaction.deserializeFromSafeJSON(json)));
+      this.assertPaysExactly(unsigned, payments, changeAddress);
+    } catch (error) {
+      unsigned.forEach(transaction => transaction.free());
+      throw error;
+    }
+
+    const transactions: ChainTransaction[] = unsigned.map(item => {
+      const transaction = this.transactionBuilder.signTransaction(item, privateKeys, true);
+      return {
+        transaction,
+        feeAmount: this.transactionBuilder.getPaidFee(transaction),
+        mass: this.transactionBuilder.calculateMass(transaction),
+        changeAmount: transaction.outputs
+          .filter(output => this.transactionBuilder.getOutputAddress(output) === changeAddress)
+          .reduce((sum, output) => sum + output.value, BigInt(0))
+      };
+    });
+
+    try {
+      const result = await this.submitWithSpendingPolicy(payments, transactions, null, changeAddress, { approved: true });
+      if (this.paysAddress(transactions, changeAddress)) {
+        wallet.markAddressUsed(changeAddress);
+      }
+      return result;
+    } finally {
+      transactions.forEach(item => item.transaction.free());
+    }
+  }
+
+  /**
+   * Throw unless the final transaction pays exactly `payments` and every
+   * other output of the chain goes to the change address
+   */
+  private assertPaysExactly(transactions: kaspa.Transaction[], payments: SpendPayment[], changeAddress: string): void {
+    const unpaid = [...payments];
+    transactions.forEach((transaction, i) => {
+      const isFinal = i === transactions.length - 1;
+      for (const output of transaction.outputs) {
+        const address = this.transactionBuilder.getOutputAddress(output);
+        const payment = isFinal
+          ? unpaid.findIndex(item => item.address === address && item.amount === output.value)
+          : -1;
+        if (payment >= 0) {
+          unpaid.splice(payment, 1);
+        } else if (address !== changeAddress) {
+          throw new Error(
+            `Transaction ${i + 1} pays ${KaspaSDK.sompiToKas(output.value)} KAS to ${address}, which is neither an approved payment nor the change address`
+          );
+        }
+      }
+    });
+    if (unpaid.length > 0) {
+      throw new Error(`Transactions do not pay ${unpaid.map(item => `${KaspaSDK.sompiToKas(item.amount)} KAS to ${item.address}`).join(', ')}`);
+    }
+  }
+
+  /**
+   * Gather UTXOs from every discovered wallet address and build the
+   * generator transactions for a payment, sending change to the next
+   * unused change address
+   */
+  private async prepareWalletTransactions(config: WalletSendConfig): Promise<{
+    pendingTransactions: kaspa.PendingTransaction[];
+    inputAddresses: string[];
+    changeAddress: string;
+  }> {
+    if (!this.rpcClient) {
+      throw new Error('SDK not initialized. Call initialize() first.');
+    }
+    if (!this.wallet) {
+      throw new Error('No wallet available. Create or import a wallet first.');
+    }
+
+    const wallet = this.wallet;
+    if (config.rescan !== false || wallet.getUsedAddresses().length === 0) {
+      await wallet.discover(this.rpcClient, { gapLimit: config.gapLimit });
+    }
+
+    const fundedAddresses = config.fromAddresses || wallet.getUsedAddresses().map(info => info.address);
+    if (fundedAddresses.length === 0) {
+      throw new Error('No UTXOs available for spending on any wallet address');
+    }
+
+    const utxos = await this.rpcClient.getUTXOs(fundedAddresses);
+    if (utxos.length === 0) {
+      throw new Error('No UTXOs available for spending on any wallet address');
+    }
+
+    const recipientAddress = typeof config.to === 'string' ? config.to : config.to.toString();
+    const changeAddress = wallet.getChangeAddress(wallet.getNextChangeIndex());
+
+    const outputs: kaspa.IPaymentOutput[] = [{
+      address: recipientAddress,
+      amount: config.amount
+    }];
+
+    let priorityFee = config.priorityFee || BigInt(0);
+    if (config.customTotalFee !== undefined) {
+      const baseFeeEstimate = await this.transactionBuilder.estimateFee(utxos, outputs, changeAddress);
+      priorityFee = config.customTotalFee > baseFeeEstimate.baseFee
+        ? config.customTotalFee - baseFeeEstimate.baseFee
+        : BigInt(0);
+    }
+
+    const pendingTransactions = await this.transactionBuilder.buildWithGenerator(
+      utxos,
+      outputs,
+      changeAddress,
+      priorityFee,
+      config.payload
+    );
+
+    if (!pendingTransactions || pendingTransactions.length === 0) {
+      throw new Error('Failed to create transaction');
+    }
+
+    return {
+      pendingTransactions,
+      inputAddresses: this.getInputAddresses(pendingTransactions),
+      changeAddress
+    };
+  }
+
+  /**
+   * Collect every address that funds an input of the transactions
+   */
+  private getInputAddresses(pendingTransactions: kaspa.PendingTransaction[]): string[] {
+    const inputAddresses = new Set<string>();
+    for (const pendingTx of pendingTransactions) {
+      for (const address of pendingTx.addresses()) {
+        inputAddresses.add(address.toString());
+      }
+    }
+    return Array.from(inputAddresses);
+  }
+
+  /**
+   * Create an M-of-N multisig wallet from the cosigners' extended public keys
+   */
+  createMultisigWallet(config: Omit<MultisigWalletConfig, 'networkType'>): MultisigWallet {
+    this.multisigWallet?.dispose();
+    this.multisigWallet = new MultisigWallet({
+      networkType: this.networkType,
+      ...config
+    });
+    return this.multisigWallet;
+  }
+
+  /**
+   * Get current multisig wallet
+   */
+  getMultisigWallet(): MultisigWallet | undefined {
+    return this.multisigWallet;
+  }
+
+  /**
+   * Build a payment from the multisig wallet and register it for co-signing.
+   * Change goes to the next unused multisig change address.
+   */
+  async createMultisigTransaction(config: WalletSendConfig): Promise<MultisigSigningStatus> {
+    const { pendingTransactions, changeAddress } = await this.prepareMultisigTransactions(config);
+    const recipientAddress = typeof config.to === 'string' ? config.to : config.to.toString();
+    return this.multisigWallet!.addProposal(pendingTransactions, recipientAddress, config.amount, changeAddress);
+  }
+
+  /**
+   * Gather UTXOs from every used multisig address and build the generator
+   * transactions for a payment, sending change to the next unused change address
+   */
+  private async prepareMultisigTransactions(config: WalletSendConfig): Promise<{
+    pendingTransactions: kaspa.PendingTransaction[];
+    changeAddress: string;
+  }> {
+    if (!this.rpcClient) {
+      throw new Error('SDK not initialized. Call initialize() first.');
+    }
+    if (!this.multisigWallet) {
+      throw new Error('No multisig wallet available. Create one first.');
+    }
+
+    const multisig = this.multisigWallet;
+    if (config.rescan !== false || multisig.getUsedAddresses().length === 0) {
+      await multisig.discover(this.rpcClient, { gapLimit: config.gapLimit });
+    }
+
+    const fundedAddresses = multisig.getUsedAddresses().map(info => info.address);
+    const utxos = fundedAddresses.length > 0 ? await this.rpcClient.getUTXOs(fundedAddresses) : [];
+    if (utxos.length === 0) {
+      throw new Error('No UTXOs available for spending on any multisig address');
+    }
+
+    const recipientAddress = typeof config.to === 'string' ? config.to : config.to.toString();
+    const changeAddress = multisig.getChangeAddress(multisig.getNextChangeIndex());
+
+    const pendingTransactions = await this.transactionBuilder.buildWithGenerator(
+      utxos,
+      [{ address: recipientAddress, amount: config.amount }],
+      changeAddress,
+      config.priorityFee || BigInt(0),
+      config.payload,
+      {
+        minimumSignatures: multisig.getThreshold(),
+        sigOpCount: multisig.getXPubs().length
+      }
+    );
+
+    if (!pendingTransactions || pendingTransactions.length === 0) {
+      throw new Error('Failed to create transaction');
+    }
+
+    return { pendingTransactions, changeAddress };
+  }
+
+  /**
+   * Add the signatures of a cosigner wallet (the current wallet by default)
+   * to a multisig proposal
+   */
+  signMultisigTransaction(proposalId: string, signer?: KaspaWallet): MultisigSigningStatus {
+    if (!this.multisigWallet) {
+      throw new Error('No multisig wallet available. Create one first.');
+    }
+    const wallet = signer || this.wallet;
+    if (!wallet) {
+      throw new Error('No wallet available. Create or import a wallet first.');
+    }
+
+    this.multisigWallet.sign(proposalId, wallet);
+    return this.multisigWallet.getSigningStatus(proposalId);
+  }
+
+  /**
+   * Submit a multisig proposal once every input has M signatures
+   */
+  async submitMultisigTransaction(proposalId: string): Promise<SendTransactionResult> {
+    if (!this.multisigWallet) {
+      throw new Error('No multisig wallet available. Create one first.');
+    }
+
+    const multisig = this.multisigWallet;
+    const { changeAddress, to, amount } = multisig.getSigningStatus(proposalId);
+    const pendingTransactions = multisig.finalize(proposalId);
+
+    const result = await this.submitWithSpendingPolicy([{ address: to, amount }], pendingTransactions, null, changeAddress);
+    multisig.markSubmitted(proposalId);
+    if (this.paysAddress(pendingTransactions, changeAddress)) {
+      multisig.markAddressUsed(changeAddress);
+    }
+    return result;
+  }
+
+  /**
+   * Create unsigned PSKTs for a payment from the current wallet (which may be
+   * watch-only) or from the multisig wallet. Chained transactions produce one
+   * PSKT each; they must be broadcast in order.
+   */
+  async createPskt(config: WalletSendConfig, options: { multisig?: boolean } = {}): Promise<SerializedPskt[]> {
+    let pendingTransactions: kaspa.PendingTransaction[];
+    let describeInput: (address: string) => Partial<PsktInput> | undefined;
+
+    if (options.multisig) {
+      ({ pendingTransactions } = await this.prepareMultisigTransactions(config));
+      const multisig = this.multisigWallet!;
+      describeInput = address => {
+        const info = multisig.getAddressInfo(address);
+        return info && {
+          minimumSignatures: multisig.getThreshold(),
+          redeemScript: multisig.getRedeemScript(info),
+          publicKeys: info.publicKeys,
+          derivation: { change: info.change, index: info.index }
+        };
+      };
+    } else {
+      ({ pendingTransactions } = await this.prepareWalletTransactions(config));
+      const wallet = this.wallet!;
+      describeInput = address => {
+        const info = wallet.findAddress(address);
+        return info && { derivation: { change: info.change, index: info.index } };
+      };
+    }
+
+    return pendingTransactions.map(pendingTx =>
+      this.toSerializedPskt(this.psktBuilder.create(pendingTx, describeInput))
+    );
+  }
+
+  /**
+   * Parse a PSKT created or signed elsewhere and report its signing state
+   */
+  importPskt(serialized: string): SerializedPskt {
+    return this.toSerializedPskt(this.psktBuilder.deserialize(serialized));
+  }
+
+  /**
+   * Sign every PSKT input controlled by a wallet (the current wallet by
+   * default). The PSKT's payments are checked against the spending policy
+   * first, since a signed PSKT can be broadcast anywhere: a PSKT above a
+   * limit or the approval threshold is not signed. Signing does not count
+   * toward the caps; broadcastPskt() does.
+   */
+  signPskt(serialized: string, signer?: KaspaWallet): SerializedPskt & { signedInputs: number } {
+    const wallet = signer || this.wallet;
+    if (!wallet) {
+      throw new Error('No wallet available. Create or import a wallet first.');
+    }
+
+    const document = this.psktBuilder.deserialize(serialized);
+    if (this.spendingPolicy) {
+      const transaction = this.psktBuilder.getTransaction(document);
+      try {
+        // Outputs back to the signing wallet are change as well
+        const payments = this.getExternalPayments([transaction], document.inputs.map(input => input.address))
+          .filter(payment => !wallet.findAddress(payment.address));
+        this.spendingPolicy.assertAllowed({
+          scope: this.spendingScope,
+          network: this.networkType,
+          payments,
+          fee: this.psktBuilder.getStatus(document).fee
+        });
+      } finally {
+        transaction.free();
+      }
+    }
+    const privateKeys: kaspa.PrivateKey[] = [];
+    const seen = new Set<string>();
+
+    for (const input of document.inputs) {
+      let privateKey: kaspa.PrivateKey | undefined;
+      if (input.publicKeys && input.derivation) {
+        // Multisig inputs are signed with the cosigner key at the same derivation
+        privateKey = input.derivation.change
+          ? wallet.getChangePrivateKey(input.derivation.index)
+          : wallet.getReceivePrivateKey(input.derivation.index);
+      } else if (wallet.findAddress(input.address)) {
+        privateKey = wallet.getPrivateKeyForAddress(input.address);
+      }
+
+      if (privateKey && !seen.has(privateKey.toString())) {
+        seen.add(privateKey.toString());
+        privateKeys.push(privateKey);
+      }
+    }
+
+    if (privateKeys.length === 0) {
+      throw new Error('Wallet controls none of the PSKT inputs');
+    }
+
+    const { document: signed, signedInputs } = this.psktBuilder.sign(document, privateKeys);
+    return { ...this.toSerializedPskt(signed), signedInputs };
+  }
+
+  /**
+   * Merge the signatures of several copies of the same PSKT
+   */
+  combinePskts(serialized: string[]): SerializedPskt {
+    const documents = serialized.map(value => this.psktBuilder.deserialize(value));
+    return this.toSerializedPskt(this.psktBuilder.combine(documents));
+  }
+
+  /**
+   * Build the final signature scripts of a fully signed PSKT
+   */
+  finalizePskt(serialized: string): SerializedPskt {
+    const document = this.psktBuilder.deserialize(serialized);
+    return this.toSerializedPskt(this.psktBuilder.finalize(document));
+  }
+
+  /**
+   * Extract the transaction of a finalized PSKT and submit it
+   */
+  async broadcastPskt(serialized: string): Promise<string> {
+    if (!this.rpcClient) {
+      throw new Error('SDK not initialized. Call initialize() first.');
+    }
+
+    const document = this.psktBuilder.deserialize(serialized);
+    const transaction = this.psktBuilder.extract(document);
+    try {
+      const payments = this.getExternalPayments([transaction], document.inputs.map(input => input.address));
+      const fee = this.transactionBuilder.getPaidFee(transaction);
+      const reservation = this.spendingPolicy?.reserve({
+        scope: this.spendingScope,
+        network: this.networkType,
+        payments,
+        fee
+      });
+
+      let transactionId: string;
+      try {
+        await this.startConfirmationTracking();
+        transactionId = await this.rpcClient.submitTransaction(transaction);
+      } catch (error) {
+        if (reservation) {
+          this.spendingPolicy!.release(reservation);
+        }
+        throw error;
+      }
+
+      const submitted: ChainedTransactionInfo[] = [{
+        transactionId,
+        fee,
+        mass: this.transactionBuilder.calculateMass(transaction),
+        isFinal: true
+      }];
+      this.emitBroadcast(payments, transactionId, submitted, fee);
+      if (reservation) {
+        await this.settleSpend(reservation, payments, submitted);
+      }
+      await this.getTransactionTracker().track(transactionId);
+      return transactionId;
+    } finally {
+      transaction.free();
+    }
+  }
+
+  /**
+   * The outputs of signed transactions that leave our control. Outputs back
+   * to a spent address, to `ownAddresses` or to our own wallets are change.
+   */
+  private getExternalPayments(transactions: kaspa.Transaction[], ownAddresses: string[] = []): SpendPayment[] {
+    const own = new Set(ownAddresses);
+    for (const transaction of transactions) {
+      for (const input of transaction.inputs) {
+        const address = input.utxo?.address?.toString();
+        if (address) {
+          own.add(address);
+        }
+      }
+    }
+
+    return transactions
+      .flatMap(transaction => transaction.outputs)
+      .map(output => ({ address: this.transactionBuilder.getOutputAddress(output) || '', amount: output.value }))
+      .filter(payment => !own.has(payment.address)
+        && !this.wallet?.findAddress(payment.address)
+        && !this.multisigWallet?.getAddressInfo(payment.address));
+  }
+
+  /**
+   * Serialize a PSKT together with its signing state
+   */
+  private toSerializedPskt(document: PsktDocument): SerializedPskt {
+    return {
+      serialized: this.psktBuilder.serialize(document),
+      status: this.psktBuilder.getStatus(document)
+    };
+  }
+
+  /**
+   * Build a wallet payment on an online machine and export it for signing on
+   * an offline one. Works with watch-only wallets.
+   */
+  async exportUnsignedTransaction(config: WalletSendConfig): Promise<string> {
+    const { pendingTransactions, inputAddresses, changeAddress } = await this.prepareWalletTransactions(config);
+    const wallet = this.wallet!;
+
+    const derivations = new Map(wallet.getUsedAddresses().map(info => [info.address, info]));
+    const inputs = inputAddresses.map(address => {
+      const info = derivations.get(address) || wallet.findAddress(address);
+      if (!info) {
+        throw new Error(`Input address ${address} does not belong to the wallet`);
+      }
+      return { address: info.address, change: info.change, index: info.index, derivationPath: info.derivationPath };
+    });
+
+    const bundle: OfflineTransactionBundle = {
+      version: 1,
+      network: this.networkType,
+      to: typeof config.to === 'string' ? config.to : config.to.toString(),
+      amount: config.amount.toString(),
+      change: { address: changeAddress, change: true, index: wallet.getNextChangeIndex() },
+      inputs,
+      transactions: pendingTransactions.map(pendingTx => this.transactionBuilder.serializeToJSON(pendingTx)),
+      signed: false
+    };
+
+    return JSON.stringify(bundle);
+  }
+
+  /**
+   * Check an exported bundle against the current wallet without any network
+   * access: every input and the change address must derive from this wallet,
+   * the final transaction must pay exactly the stated amount to the stated
+   * recipient, and the total fee must stay under the limit.
+   */
+  verifyOfflineTransaction(serialized: string, options: OfflineVerificationOptions = {}): OfflineVerificationResult {
+    if (!this.wallet) {
+      throw new Error('No wallet available. Create or import a wallet first.');
+    }
+
+    const wallet = this.wallet;
+    const bundle = this.parseOfflineBundle(serialized);
+    const amount = BigInt(bundle.amount);
+
+    for (const derivation of [bundle.change, ...bundle.inputs]) {
+      const derived = derivation.change
+        ? wallet.getChangeAddress(derivation.index)
+        : wallet.getReceiveAddress(derivation.index);
+      if (derived !== derivation.address) {
+        throw new Error(`Address ${derivation.address} does not derive from this wallet`);
+      }
+    }
+
+    const inputAddresses = new Set(bundle.inputs.map(input => input.address));
+    let totalFee = BigInt(0);
+    let minimumFee = BigInt(0);
+    let changeAmount = BigInt(0);
+
+    bundle.transactions.forEach((json, i) => {
+      const isFinal = i === bundle.transactions.length - 1;
+      const transaction = this.transactionBuilder.deserializeFromJSON(json);
+
+      try {
+        transaction.inputs.forEach((input, index) => {
+          const address = input.utxo?.address?.toString();
+          // Earlier transactions of the chain fund later ones through the change address
+          if (!address || (!inputAddresses.has(address) && address !== bundle.change.address)) {
+            throw new Error(`Transaction ${i + 1} input ${index} spends from ${address || 'an unknown address'}, which is not a wallet address`);
+          }
+        });
+
+        let paid = false;
+        for (const output of transaction.outputs) {
+          const address = this.transactionBuilder.getOutputAddress(output);
+          if (isFinal && !paid && address === bundle.to && output.value === amount) {
+            paid = true;
+          } else if (address === bundle.change.address) {
+            if (isFinal) {
+              changeAmount += output.value;
+            }
+          } else {
+            throw new Error(`Transaction ${i + 1} has an unexpected output of ${KaspaSDK.sompiToKas(output.value)} KAS to ${address || 'a non-standard script'}`);
+          }
+        }
+        if (isFinal && !paid) {
+          throw new Error(`Final transaction does not pay ${KaspaSDK.sompiToKas(amount)} KAS to ${bundle.to}`);
+        }
+
+        const fee = this.transactionBuilder.getPaidFee(transaction);
+        if (fee < BigInt(0)) {
+          throw new Error(`Transaction ${i + 1} spends more than its inputs`);
+        }
+        totalFee += fee;
+        minimumFee += this.transactionBuilder.calculateFee(transaction);
+      } finally {
+        transaction.free();
+      }
+    });
+
+    const maxFee = options.maxFee ?? minimumFee * OFFLINE_MAX_FEE_MULTIPLIER;
+    if (totalFee > maxFee) {
+      throw new Error(`Total fee ${KaspaSDK.sompiToKas(totalFee)} KAS exceeds the limit of ${KaspaSDK.sompiToKas(maxFee)} KAS`);
+    }
+
+    return {
+      to: bundle.to,
+      amount,
+      totalFee,
+      changeAddress: bundle.change.address,
+      changeAmount,
+      inputAddresses: Array.from(inputAddresses),
+      transactionCount: bundle.transactions.length
+    };
+  }
+
+  /**
+   * Verify and sign an exported bundle with the current wallet. Intended for
+   * an offline SDK; the signed bundle is submitted with submitSignedTransaction().
+   */
+  signOfflineTransaction(
+    serialized: string,
+    options: OfflineVerificationOptions = {}
+  ): { bundle: string; verification: OfflineVerificationResult } {
+    const verification = this.verifyOfflineTransaction(serialized, options);
+    const wallet = this.wallet!;
+    const bundle = this.parseOfflineBundle(serialized);
+
+    const privateKeys = [bundle.change.address, ...verification.inputAddresses]
+      .map(address => wallet.getPrivateKeyForAddress(address));
+
+    const transactions = bundle.transactions.map(json => {
+      const transaction = this.transactionBuilder.deserializeFromJSON(json);
+      try {
+        // Keys that control none of a transaction's inputs are ignored
+        return this.transactionBuilder.serializeToJSON(
+          this.transactionBuilder.signTransaction(transaction, privateKeys, true)
+        );
+      } finally {
+        transaction.free();
+      }
+    });
+
+    return {
+      bundle: JSON.stringify({ ...bundle, transactions, signed: true }),
+      verification
+    };
+  }
+
+  /**
+   * Submit a bundle signed offline, in chain order. The bundle's `to` and
+   * `amount` fields are not covered by the signatures, so the spending
+   * policy is checked against the signed outputs instead: everything not
+   * paid back to a spent address or to the current wallet counts as a
+   * payment, including change to an address that does not derive from the
+   * current wallet.
+   */
+  async submitSignedTransaction(serialized: string): Promise<SendTransactionResult> {
+    const bundle = this.parseOfflineBundle(serialized);
+    if (!bundle.signed) {
+      throw new Error('Transaction bundle is not signed');
+    }
+
+    const wallet = this.wallet;
+    const ownsChange = !!wallet && Number.isInteger(bundle.change.index) && bundle.change.index >= 0
+      && wallet.getChangeAddress(bundle.change.index) === bundle.change.address;
+
+    const transactions: ChainTransaction[] = bundle.transactions.map(json => {
+      const transaction = this.transactionBuilder.deserializeFromJSON(json);
+      const changeAmount = transaction.outputs
+        .filter(output => this.transactionBuilder.getOutputAddress(output) === bundle.change.address)
+        .reduce((sum, output) => sum + output.value, BigInt(0));
+
+      return {
+        transaction,
+        feeAmount: this.transactionBuilder.getPaidFee(transaction),
+        mass: this.transactionBuilder.calculateMass(transaction),
+        changeAmount
+      };
+    });
+
+    try {
+      const payments = this.getExternalPayments(
+        transactions.map(item => item.transaction),
+        ownsChange ? [bundle.change.address] : []
+      );
+      return await this.submitWithSpendingPolicy(payments, transactions, null, bundle.change.address);
+    } finally {
+      transactions.forEach(item => item.transaction.free());
+    }
+  }
+
+  /**
+   * Parse and validate an offline transaction bundle
+   */
+  private parseOfflineBundle(serialized: string): OfflineTransactionBundle {
+    let bundle: OfflineTransactionBundle;
+    try {
+      bundle = JSON.parse(serialized);
+    } catch (error) {
+      throw new Error(`Invalid transaction bundle: ${(error as Error).message}`);
+    }
+
+    if (bundle.version !== 1) {
+      throw new Error(`Unsupported transaction bundle version: ${bundle.version}`);
+    }
+    if (bundle.network !== this.networkType) {
+      throw new Error(`Transaction bundle is for ${bundle.network}, but this SDK is on ${this.networkType}`);
+    }
+    if (!Array.isArray(bundle.transactions) || bundle.transactions.length === 0 || !bundle.change) {
+      throw new Error('Transaction bundle contains no transactions');
+    }
+    return bundle;
+  }
+
+  /**
+   * Send a batch of payments to multiple recipients.
+   * Outputs are split into groups whose estimated mass fits under the
+   * standard mass limit; each group is built with the generator, submitted
+   * as its own send under the spending policy and spends the change of the
+   * previous group. Without `from`, the UTXOs of every discovered wallet
+   * address are spent and change goes to the next unused change address,
+   * as in sendFromWallet().
+   */
+  async sendBatch(outputs: BatchPaymentOutput[], options: BatchSendOptions = {}): Promise<BatchSendResult> {
+    if (!this.rpcClient) {
+      throw new Error('SDK not initialized. Call initialize() first.');
+    }
+
+    if (!outputs || outputs.length === 0) {
+      throw new Error('Batch must contain at least one output');
+    }
+
+    // Validate every recipient before touching any UTXOs
+    const invalid: string[] = [];
+    outputs.forEach((output, index) => {
+      if (!validateAddress(output.address, this.networkType)) {
+        invalid.push(`[${index}] invalid address for ${this.networkType}: ${output.address}`);
+      } else if (output.amount <= BigInt(0)) {
+        invalid.push(`[${index}] amount must be greater than 0: ${output.address}`);
+      }
+    });
+    if (invalid.length > 0) {
+      throw new Error(`Invalid batch outputs:\n${invalid.join('\n')}`);
+    }
+
+    if (options.maxOutputsPerTransaction !== undefined && options.maxOutputsPerTransaction < 1) {
+      throw new Error('maxOutputsPerTransaction must be at least 1');
+    }
+
+    const funding = await this.prepareBatchFunding(options);
+    const { changeAddress } = funding;
+    let utxos = funding.utxos;
+    if (utxos.length === 0) {
+      throw new Error('No UTXOs available for spending');
+    }
+
+    const totalAmount = outputs.reduce((sum, output) => sum + output.amount, BigInt(0));
+    const totalAvailable = utxos.reduce((sum, utxo) => sum + utxo.amount, BigInt(0));
+    if (totalAvailable < totalAmount) {
+      throw new Error(`Insufficient funds for batch. Need ${KaspaSDK.sompiToKas(totalAmount)} KAS, have ${KaspaSDK.sompiToKas(totalAvailable)} KAS`);
+    }
+
+    const groups = this.groupBatchOutputs(outputs, changeAddress, options.payload, options.maxOutputsPerTransaction);
+
+    // Check every group before paying any, so a batch is not cut off halfway by the policy
+    if (!options.dryRun) {
+      const decision = this.evaluateBatchSpendingPolicy(groups);
+      if (decision && !decision.allowed) {
+        throw new SpendingPolicyError(decision.violations);
+      }
+    }
+
+    const transactions: ChainedTransactionInfo[] = [];
+    const simulated: SimulatedTransaction[] = [];
+    const payments: BatchPaymentReport[] = [];
+    const inputAddresses = new Set<string>();
+
+    for (const group of groups) {
+      const first = group[0].index;
+      const last = group[group.length - 1].index;
+      const paymentOutputs: kaspa.IPaymentOutput[] = group.map(({ output }) => ({
+        address: output.address,
+        amount: output.amount
+      }));
+
+      const pendingTransactions = await this.transactionBuilder.buildWithGenerator(
+        utxos,
+        paymentOutputs,
+        changeAddress,
+        options.priorityFee || BigInt(0),
+        options.payload
+      );
+
+      if (!pendingTransactions || pendingTransactions.length === 0) {
+        throw new Error(`Failed to create transaction for outputs ${first}-${last}`);
+      }
+
+      const groupInputAddresses = this.getInputAddresses(pendingTransactions);
+      groupInputAddresses.forEach(address => inputAddresses.add(address));
+
+      // Intermediate transactions compound UTXOs; the last one pays the group
+      const groupResult = await this.submitWithSpendingPolicy(
+        group.map(({ output }) => output),
+        pendingTransactions,
+        funding.getPrivateKeys(groupInputAddresses),
+        changeAddress,
+        { dryRun: options.dryRun }
+      );
+      transactions.push(...(groupResult.transactions || []));
+      simulated.push(...(groupResult.simulation?.transactions || []));
+      if (!options.dryRun && funding.wallet && this.paysAddress(pendingTransactions, changeAddress)) {
+        funding.wallet.markAddressUsed(changeAddress);
+      }
+
+      const spent = new Set<string>();
+      for (const pendingTx of pendingTransactions) {
+        for (const entry of pendingTx.getUtxoEntries()) {
+          spent.add(this.transactionBuilder.getOutpointKey(entry));
+        }
+      }
+
+      // The generator keeps the payment outputs in order and appends change last
+      group.forEach(({ output, index }, position) => {
+        payments.push({
+          ...output,
+          transactionId: groupResult.transactionId,
+          outputIndex: index,
+          transactionOutputIndex: position
+        });
+      });
+
+      // Continue with the untouched UTXOs plus the change of the final transaction
+      utxos = utxos.filter(utxo => !spent.has(this.transactionBuilder.getOutpointKey(utxo)));
+      const changeEntry = this.transactionBuilder.getChangeEntry(
+        pendingTransactions[pendingTransactions.length - 1],
+        changeAddress
+      );
+      if (changeEntry) {
+        utxos.push(changeEntry);
+      }
+
+      if (last < outputs.length - 1 && utxos.length === 0) {
+        throw new Error(`Funds exhausted after paying ${payments.length} of ${outputs.length} outputs`);
+      }
+    }
+
+    const totalFee = transactions.reduce((sum, tx) => sum + tx.fee, BigInt(0));
+
+    return {
+      transactions,
+      payments,
+      inputAddresses: Array.from(inputAddresses),
+      changeAddress,
+      totalAmount,
+      totalFee,
+      simulation: options.dryRun
+        ? {
+          transactions: simulated,
+          policy: this.evaluateBatchSpendingPolicy(groups, totalFee)
+        }
+        : undefined
+    };
+  }
+
+  /**
+   * Gather the UTXOs a batch spends and the keys that sign them: those of
+   * `from` only, or of every discovered wallet address
+   */
+  private async prepareBatchFunding(options: BatchSendOptions): Promise<{
+    utxos: kaspa.IUtxoEntry[];
+    changeAddress: string;
+    wallet?: KaspaWallet;
+    getPrivateKeys: (inputAddresses: string[]) => kaspa.PrivateKey[];
+  }> {
+    const rpcClient = this.rpcClient!;
+    const requestedChange = options.changeAddress
+      ? (typeof options.changeAddress === 'string' ? options.changeAddress : options.changeAddress.toString())
+      : undefined;
+
+    if (options.from === undefined) {
+      const wallet = this.wallet;
+      if (!wallet) {
+        throw new Error('No wallet available. Create or import a wallet first.');
+      }
+      if (wallet.isWatchOnly()) {
+        throw new Error('Watch-only wallet cannot sign a batch');
+      }
+      if (options.rescan !== false || wallet.getUsedAddresses().length === 0) {
+        await wallet.discover(rpcClient, { gapLimit: options.gapLimit });
+      }
+
+      const fundedAddresses = wallet.getUsedAddresses().map(info => info.address);
+      return {
+        utxos: fundedAddresses.length > 0 ? await rpcClient.getUTXOs(fundedAddresses) : [],
+        changeAddress: requestedChange || wallet.getChangeAddress(wallet.getNextChangeIndex()),
+        wallet,
+        getPrivateKeys: inputAddresses => inputAddresses.map(address => wallet.getPrivateKeyForAddress(address))
+      };
+    }
+
+    let senderPrivateKey: kaspa.PrivateKey;
+    if (typeof options.from === 'string') {
+      if (!this.wallet) {
+        throw new Error('No wallet available. Create or import a wallet first.');
+      }
+      senderPrivateKey = this.wallet.getPrivateKeyForAddress(options.from);
+    } else {
+      senderPrivateKey = options.from;
+    }
+
+    const senderAddress = senderPrivateKey.toAddress(this.networkType).toString();
+    return {
+      utxos: await rpcClient.getUTXOs([senderAddress]),
+      changeAddress: requestedChange || senderAddress,
+      getPrivateKeys: () => [senderPrivateKey]
+    };
+  }
+
+  /**
+   * Split batch outputs, in order, into groups whose estimated mass stays
+   * within half the standard mass limit, leaving the rest for the inputs
+   * the generator adds
+   */
+  private groupBatchOutputs(
+    outputs: BatchPaymentOutput[],
+    changeAddress: string,
+    payload?: string | Uint8Array,
+    maxOutputs?: number
+  ): { output: BatchPaymentOutput; index: number }[][] {
+    const massBudget = kaspa.maximumStandardTransactionMass() / BigInt(2);
+    const groups: { output: BatchPaymentOutput; index: number }[][] = [];
+    let group: { output: BatchPaymentOutput; index: number }[] = [];
+
+    outputs.forEach((output, index) => {
+      const candidate = [...group, { output, index }];
+      const mass = this.transactionBuilder.estimatePaymentMass(
+        candidate.map(item => ({ address: item.output.address, amount: item.output.amount })),
+        changeAddress,
+        payload
+      );
+      const full = (maxOutputs !== undefined && group.length >= maxOutputs) || mass > massBudget;
+      if (group.length > 0 && full) {
+        groups.push(group);
+        group = [{ output, index }];
+      } else {
+        group = candidate;
+      }
+    });
+    groups.push(group);
+    return groups;
+  }
+
+  /**
+   * Check a batch against the spending policy the way it is submitted: each
+   * group as one send, and the whole batch (with `fee` when known) against
+   * the rolling caps
+   */
+  private evaluateBatchSpendingPolicy(
+    groups: { output: BatchPaymentOutput }[][],
+    fee?: bigint
+  ): SpendingPolicyDecision | undefined {
+    const policy = this.spendingPolicy;
+    if (!policy) {
+      return undefined;
+    }
+
+    const request = { scope: this.spendingScope, network: this.networkType };
+    const isCap = (violation: SpendingPolicyViolation) => violation.rule === 'dailyCap' || violation.rule === 'weeklyCap';
+    const violations = groups.flatMap(group =>
+      policy.evaluate({ ...request, payments: group.map(({ output }) => output) }).violations
+        .filter(violation => !isCap(violation))
+    );
+    violations.push(
+      ...policy.evaluate({ ...request, payments: groups.flat().map(({ output }) => output), fee }).violations
+        .filter(isCap)
+    );
+    return { allowed: violations.length === 0, violations };
+  }
+
+  /**
+   * Estimate transaction fee (pass several addresses to estimate a wallet-wide send)
+   */
+  async estimateFee(from: string | string[], to: string, amount: bigint): Promise<FeeEstimate> {
+    if (!this.rpcClient) {
+      throw new Error('SDK not initialized. Call initialize() first.');
+    }
+
+    // Get UTXOs for estimation
+    const fromAddresses = Array.isArray(from) ? from : [from];
+    const utxos = await this.rpcClient.getUTXOs(fromAddresses);
+    if (utxos.length === 0) {
+      throw new Error('No UTXOs available for estimation');
+    }
+
+    // Get fee estimate from network
+    const feeEstimateResponse = await this.rpcClient.getFeeEstimate();
+    
+    // Extract the feerate from the response
+    // Use priority bucket for fastest inclusion, or normal bucket if available
+    let feerate: number = 0;
+    
+    if (feeEstimateResponse?.estimate) {
+      const estimate = feeEstimateResponse.estimate;
+      
+      // Priority bucket for fastest inclusion
+      if (estimate.priorityBucket?.feerate) {
+        feerate = estimate.priorityBucket.feerate;
+      }
+      // Fall back to normal bucket
+      else if (estimate.normalBuckets && estimate.normalBuckets.length > 0 && estimate.normalBuckets[0]?.feerate) {
+        feerate = estimate.normalBuckets[0].feerate;
+      }
+      // Fall back to low bucket
+      else if (estimate.lowBuckets && estimate.lowBuckets.length > 0 && estimate.lowBuckets[0]?.feerate) {
+        feerate = estimate.lowBuckets[0].feerate;
+      }
+    }
+    
+    // If we still don't have a feerate, use a minimum default
+    if (!feerate || feerate === 0) {
+      this.log.warn('No feerate available from network, using default minimum');
+      feerate = 1; // 1 sompi per gram minimum
+    }
+    
+    // Create a dummy transaction to estimate mass
+    const outputs: kaspa.IPaymentOutput[] = [{
+      address: to,
+      amount
+    }];
+
+    const transaction = await this.transactionBuilder.buildTransaction(
+      utxos,
+      outputs,
+      fromAddresses[0],
+      BigInt(0),
+      undefined
+    );
+
+    const mass = this.transactionBuilder.calculateMass(transaction);
+    
+    // Calculate fee: feerate (sompi/gram) * mass (grams)
+    const baseFee = BigInt(Math.ceil(feerate * Number(mass)));
+
+    return {
+      baseFee,
+      totalFee: baseFee,
+      estimatedMass: mass,
+      massLimit: BigInt(100000) // Standard mass limit
+    };
+  }
+
+  /**
+   * Describe the connected node and the state of its DAG
+   */
+  async getNetworkInfo(): Promise<NetworkInfo> {
+    if (!this.rpcClient) {
+      throw new Error('SDK not initialized. Call initialize() first.');
+    }
+
+    const [server, node, dag, sinkBlueScore] = await Promise.all([
+      this.rpcClient.getServerInfo(),
+      this.rpcClient.getNodeInfo(),
+      this.rpcClient.getBlockDagInfo(),
+      this.rpcClient.getSinkBlueScore()
+    ]);
+    return {
+      network: this.networkType,
+      serverVersion: server.serverVersion,
+      isSynced: server.isSynced,
+      hasUtxoIndex: server.hasUtxoIndex,
+      virtualDaaScore: BigInt(dag.virtualDaaScore),
+      sinkBlueScore,
+      sink: dag.sink,
+      blockCount: BigInt(dag.blockCount),
+      headerCount: BigInt(dag.headerCount),
+      difficulty: dag.difficulty,
+      pastMedianTime: BigInt(dag.pastMedianTime),
+      mempoolSize: BigInt(node.mempoolSize)
+    };
+  }
+
+  /**
+   * Get network type
+   */
+  getNetworkType(): NetworkType {
+    return this.networkType;
+  }
+
+  /**
+   * Get the health of the RPC connection; undefined before initialize()
+   * and for offline SDKs
+   */
+  getConnectionStatus(): RpcConnectionStatus | undefined {
+    return this.rpcClient?.getStatus();
+  }
+
+  /**
+   * Dispose SDK resources
+   */
+  async dispose(): Promise<void> {
+    // Clear event listeners
+    this.eventListeners.clear();
+
+    // Stop indexing; the history stays in its store
+    this.indexer?.stop();
+    this.indexer = undefined;
+    this.transactionTracker?.stop();
+    this.transactionTracker = undefined;
+    this.confirmationTracker?.stop();
+    this.confirmationTracker = undefined;
 
     // Stop UTXO processor
     if (this.utxoProcessor) {
@@ -1008,6 +2643,9 @@ export class KaspaSDK {
     if (this.wallet) {
       this.wallet.dispose();
     }
+    if (this.multisigWallet) {
+      this.multisigWallet.dispose();
+    }
 
     this.initialized = false;
   }
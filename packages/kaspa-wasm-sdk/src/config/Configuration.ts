@@ -1,8 +1,15 @@
-import { NetworkType } from '../types';
+import { HealthCheckOptions, LogFormat, LogLevel, NetworkType, ReconnectOptions } from '../types';
+import { configureLogger } from '../utils/logger';
 import * as kaspa from '../../wasm/kaspa';
 
 export interface NetworkConfig {
   rpcUrl: string;
+  /** Further endpoints, tried in order when rpcUrl is down, unsynced or slow */
+  rpcUrls?: string[];
+  /** Find a public node with the WASM Resolver when no listed endpoint is healthy */
+  useResolver?: boolean;
+  /** Resolver URLs (default: the public resolvers built into the WASM SDK) */
+  resolverUrls?: string[];
   encoding?: kaspa.Encoding;
 }
 
@@ -11,6 +18,16 @@ export interface WalletCredentials {
   privateKey?: string;
 }
 
+export interface KeystoreConfig {
+  path: string;
+  relockAfterMs?: number;
+}
+
+export interface IndexerConfig {
+  /** Directory of the transaction history files, one per network */
+  path: string;
+}
+
 export interface SDKConfig {
   networks: {
     mainnet?: NetworkConfig;
@@ -19,9 +36,20 @@ export interface SDKConfig {
     simnet?: NetworkConfig;
   };
   defaultNetwork?: NetworkType;
-  logLevel?: 'off' | 'error' | 'warn' | 'info' | 'debug' | 'trace';
+  logLevel?: LogLevel;
+  /** Output format of the SDK logger */
+  logFormat?: LogFormat;
   autoConnect?: boolean;
   walletCredentials?: WalletCredentials;
+  keystore?: KeystoreConfig;
+  /** Where the chain indexer persists address history (default: memory only) */
+  indexer?: IndexerConfig;
+  /** JSON file with the spending policy (see SpendingPolicy) */
+  spendingPolicyPath?: string;
+  /** Backoff for reconnecting dropped RPC connections */
+  reconnect?: ReconnectOptions;
+  /** Endpoint health checks used for failover */
+  healthCheck?: HealthCheckOptions;
 }
 
 /**
@@ -47,10 +75,12 @@ export class Configuration {
       networks: {
         mainnet: {
           rpcUrl: DEFAULT_RPC_URLS.mainnet,
+          useResolver: false,
           encoding: kaspa.Encoding.Borsh
         },
         'testnet-10': {
           rpcUrl: DEFAULT_RPC_URLS['testnet-10'],
+          useResolver: false,
           encoding: kaspa.Encoding.Borsh
         },
         devnet: {
@@ -117,6 +147,14 @@ export class Configuration {
     return instance.config.networks[network]?.rpcUrl || DEFAULT_RPC_URLS[network];
   }
 
+  /**
+   * Get the endpoints of a network in failover order, without duplicates
+   */
+  static getNetworkEndpoints(network: NetworkType): string[] {
+    const { rpcUrl, rpcUrls = [] } = Configuration.getNetworkConfig(network);
+    return Array.from(new Set([rpcUrl, ...rpcUrls].map(url => url?.trim()).filter((url): url is string => !!url)));
+  }
+
   /**
    * Get network configuration
    */
@@ -145,9 +183,10 @@ export class Configuration {
   /**
    * Set log level
    */
-  static setLogLevel(level: 'off' | 'error' | 'warn' | 'info' | 'debug' | 'trace'): void {
+  static setLogLevel(level: LogLevel): void {
     Configuration.getInstance().config.logLevel = level;
     kaspa.setLogLevel(level);
+    configureLogger({ level });
   }
 
   /**
@@ -171,6 +210,41 @@ export class Configuration {
     delete Configuration.getInstance().config.walletCredentials;
   }
 
+  /**
+   * Get the path of the spending policy file
+   */
+  static getSpendingPolicyPath(): string | undefined {
+    return Configuration.getInstance().config.spendingPolicyPath;
+  }
+
+  /**
+   * Get the RPC reconnect backoff
+   */
+  static getReconnectOptions(): ReconnectOptions {
+    return Configuration.getInstance().config.reconnect || {};
+  }
+
+  /**
+   * Get the endpoint health check settings
+   */
+  static getHealthCheckOptions(): HealthCheckOptions {
+    return Configuration.getInstance().config.healthCheck || {};
+  }
+
+  /**
+   * Get encrypted keystore settings
+   */
+  static getKeystoreConfig(): KeystoreConfig | undefined {
+    return Configuration.getInstance().config.keystore;
+  }
+
+  /**
+   * Get chain indexer settings
+   */
+  static getIndexerConfig(): IndexerConfig | undefined {
+    return Configuration.getInstance().config.indexer;
+  }
+
   /**
    * Reset to default configuration
    */
@@ -186,28 +260,37 @@ export class Configuration {
       networks: {}
     };
 
-    // Load mainnet RPC URL
-    if (process.env.KASPA_MAINNET_RPC_URL) {
-      config.networks!.mainnet = {
-        rpcUrl: process.env.KASPA_MAINNET_RPC_URL,
-        encoding: kaspa.Encoding.Borsh
-      };
-    }
-
-    // Load testnet RPC URL
-    if (process.env.KASPA_TESTNET_RPC_URL) {
-      config.networks!['testnet-10'] = {
-        rpcUrl: process.env.KASPA_TESTNET_RPC_URL,
-        encoding: kaspa.Encoding.Borsh
-      };
+    // Load RPC endpoints; a comma-separated list is tried in order
+    const envUrls: [NetworkType, string][] = [
+      ['mainnet', 'KASPA_MAINNET_RPC_URL'],
+      ['testnet-10', 'KASPA_TESTNET_RPC_URL'],
+      ['devnet', 'KASPA_DEVNET_RPC_URL'],
+      ['simnet', 'KASPA_SIMNET_RPC_URL']
+    ];
+    for (const [network, variable] of envUrls) {
+      const urls = (process.env[variable] || '').split(',').map(url => url.trim()).filter(Boolean);
+      if (urls.length > 0) {
+        config.networks![network] = {
+          rpcUrl: urls[0],
+          rpcUrls: urls.slice(1),
+          useResolver: false,
+          encoding: kaspa.Encoding.Borsh
+        };
+      }
     }
 
-    // Load devnet RPC URL
-    if (process.env.KASPA_DEVNET_RPC_URL) {
-      config.networks!.devnet = {
-        rpcUrl: process.env.KASPA_DEVNET_RPC_URL,
-        encoding: kaspa.Encoding.Borsh
-      };
+    // Public-node discovery through the Resolver is off unless KASPA_USE_RESOLVER=true
+    if (process.env.KASPA_USE_RESOLVER || process.env.KASPA_RESOLVER_URLS) {
+      const useResolver = process.env.KASPA_USE_RESOLVER ? process.env.KASPA_USE_RESOLVER === 'true' : undefined;
+      const resolverUrls = process.env.KASPA_RESOLVER_URLS?.split(',').map(url => url.trim()).filter(Boolean);
+      for (const network of Object.keys(DEFAULT_RPC_URLS) as NetworkType[]) {
+        config.networks![network] = {
+          ...Configuration.getNetworkConfig(network),
+          ...config.networks![network],
+          ...(useResolver !== undefined ? { useResolver } : {}),
+          ...(resolverUrls ? { resolverUrls } : {})
+        };
+      }
     }
 
     // Load default network
@@ -219,6 +302,9 @@ export class Configuration {
     if (process.env.KASPA_LOG_LEVEL) {
       config.logLevel = process.env.KASPA_LOG_LEVEL as any;
     }
+    if (process.env.KASPA_LOG_FORMAT) {
+      config.logFormat = process.env.KASPA_LOG_FORMAT as LogFormat;
+    }
 
     // Load wallet credentials from environment
     if (process.env.KASPA_WALLET_MNEMONIC || process.env.KASPA_WALLET_PRIVATE_KEY) {
@@ -233,6 +319,42 @@ export class Configuration {
       }
     }
 
+    // Load encrypted keystore location; its passphrase is never read from config
+    if (process.env.KASPA_KEYSTORE_PATH) {
+      config.keystore = { path: process.env.KASPA_KEYSTORE_PATH };
+      if (process.env.KASPA_KEYSTORE_RELOCK_SECONDS) {
+        // A whole number of seconds; anything else would silently never relock
+        const seconds = Number(process.env.KASPA_KEYSTORE_RELOCK_SECONDS.trim());
+        if (!Number.isInteger(seconds) || seconds < 0) {
+          throw new Error(
+            `Invalid KASPA_KEYSTORE_RELOCK_SECONDS: "${process.env.KASPA_KEYSTORE_RELOCK_SECONDS}". Must be a whole number of seconds, 0 to disable.`
+          );
+        }
+        config.keystore.relockAfterMs = seconds * 1000;
+      }
+    }
+
+    // Load address history location
+    if (process.env.KASPA_INDEXER_PATH) {
+      config.indexer = { path: process.env.KASPA_INDEXER_PATH };
+    }
+
+    // Load spending policy location
+    if (process.env.KASPA_SPENDING_POLICY_PATH) {
+      config.spendingPolicyPath = process.env.KASPA_SPENDING_POLICY_PATH;
+    }
+
+    // Load RPC reconnect behavior
+    if (process.env.KASPA_RPC_RECONNECT || process.env.KASPA_RPC_RECONNECT_MAX_ATTEMPTS) {
+      config.reconnect = {};
+      if (process.env.KASPA_RPC_RECONNECT) {
+        config.reconnect.enabled = process.env.KASPA_RPC_RECONNECT !== 'false';
+      }
+      if (process.env.KASPA_RPC_RECONNECT_MAX_ATTEMPTS) {
+        config.reconnect.maxAttempts = parseInt(process.env.KASPA_RPC_RECONNECT_MAX_ATTEMPTS, 10);
+      }
+    }
+
     Configuration.setConfig(config);
   }
 
@@ -251,12 +373,13 @@ export class Configuration {
   }
 
   /**
-   * Save configuration to JSON file
+   * Save configuration to JSON file. Wallet credentials are never written;
+   * store them in an encrypted Keystore instead.
    */
   static async saveToFile(filePath: string): Promise<void> {
     try {
       const fs = await import('fs/promises');
-      const config = Configuration.getConfig();
+      const { walletCredentials, ...config } = Configuration.getConfig();
       await fs.writeFile(filePath, JSON.stringify(config, null, 2));
     } catch (error) {
       throw new Error(`Failed to save configuration to ${filePath}: ${error}`);
@@ -286,6 +409,12 @@ export class Configuration {
     if (config.logLevel !== undefined) {
       this.config.logLevel = config.logLevel;
       kaspa.setLogLevel(config.logLevel);
+      configureLogger({ level: config.logLevel });
+    }
+
+    if (config.logFormat !== undefined) {
+      this.config.logFormat = config.logFormat;
+      configureLogger({ format: config.logFormat });
     }
 
     if (config.autoConnect !== undefined) {
@@ -295,5 +424,25 @@ export class Configuration {
     if (config.walletCredentials !== undefined) {
       this.config.walletCredentials = config.walletCredentials;
     }
+
+    if (config.keystore !== undefined) {
+      this.config.keystore = config.keystore;
+    }
+
+    if (config.indexer !== undefined) {
+      this.config.indexer = config.indexer;
+    }
+
+    if (config.spendingPolicyPath !== undefined) {
+      this.config.spendingPolicyPath = config.spendingPolicyPath;
+    }
+
+    if (config.reconnect !== undefined) {
+      this.config.reconnect = { ...this.config.reconnect, ...config.reconnect };
+    }
+
+    if (config.healthCheck !== undefined) {
+      this.config.healthCheck = { ...this.config.healthCheck, ...config.healthCheck };
+    }
   }
 }
\ No newline at end of file
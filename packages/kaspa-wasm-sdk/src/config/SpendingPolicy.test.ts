@@ -0,0 +1,162 @@
+import { describe, expect, it } from '@jest/globals';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SpendRequest } from '../types';
+import { SpendingPolicy, SpendingPolicyError } from './SpendingPolicy';
+
+const KAS = BigInt(100000000);
+// The policy compares recipients as strings; they are not decoded
+const RECIPIENT = 'kaspatest:recipient';
+const OTHER = 'kaspatest:other';
+
+function send(kas: number, fee: bigint = BigInt(0), extra: Partial<SpendRequest> = {}): SpendRequest {
+  return {
+    network: 'testnet-10',
+    payments: [{ address: RECIPIENT, amount: BigInt(kas) * KAS }],
+    fee,
+    ...extra
+  };
+}
+
+function rules(policy: SpendingPolicy, request: SpendRequest): string[] {
+  return policy.evaluate(request).violations.map(violation => violation.rule);
+}
+
+describe('SpendingPolicy.evaluate', () => {
+  it('allows sends within every limit', () => {
+    const policy = new SpendingPolicy({ global: { maxPerTransaction: '10', dailyCap: '100' } });
+    expect(policy.evaluate(send(10))).toEqual({ allowed: true, violations: [] });
+  });
+
+  it('rejects a send above the per-transaction limit', () => {
+    const policy = new SpendingPolicy({ global: { maxPerTransaction: '10' } });
+    const decision = policy.evaluate(send(11));
+    expect(decision.allowed).toBe(false);
+    expect(decision.violations).toEqual([expect.objectContaining({ rule: 'maxPerTransaction', scope: 'global', limit: '10' })]);
+  });
+
+  it('counts fees and recorded spends toward the rolling caps', async () => {
+    const policy = new SpendingPolicy({ global: { dailyCap: '10' } });
+    await policy.record(send(6));
+    expect(rules(policy, send(4))).toEqual([]);
+    expect(rules(policy, send(4, BigInt(1)))).toEqual(['dailyCap']);
+  });
+
+  it('keeps caps per network', async () => {
+    const policy = new SpendingPolicy({ global: { dailyCap: '10' } });
+    await policy.record(send(10));
+    expect(rules(policy, send(5, BigInt(0), { network: 'mainnet' }))).toEqual([]);
+  });
+
+  it('forgets spends older than the window', async () => {
+    const policy = new SpendingPolicy({ global: { dailyCap: '10' } });
+    await policy.record(send(10));
+    const tomorrow = Date.now() + 24 * 60 * 60 * 1000 + 1;
+    expect(policy.evaluate(send(10), tomorrow).allowed).toBe(true);
+  });
+
+  it('applies session limits only to their session', () => {
+    const policy = new SpendingPolicy({ sessions: { agent: { maxPerTransaction: '1' } } });
+    expect(rules(policy, send(2, BigInt(0), { scope: 'agent' }))).toEqual(['maxPerTransaction']);
+    expect(rules(policy, send(2, BigInt(0), { scope: 'other' }))).toEqual([]);
+  });
+
+  it('applies the default session limits to every session without its own', () => {
+    const policy = new SpendingPolicy({
+      sessions: { agent: { maxPerTransaction: '5' } },
+      defaultSession: { maxPerTransaction: '1' }
+    });
+    expect(rules(policy, send(2, BigInt(0), { scope: 'agent' }))).toEqual([]);
+    expect(rules(policy, send(2, BigInt(0), { scope: 'made-up' }))).toEqual(['maxPerTransaction']);
+    expect(rules(policy, send(2))).toEqual(['maxPerTransaction']);
+    expect(policy.evaluate(send(2, BigInt(0), { scope: 'made-up' })).violations[0].message).toMatch(/^Default session/);
+  });
+
+  it('shares the default session caps, so a new session gets no fresh allowance', async () => {
+    const policy = new SpendingPolicy({
+      sessions: { agent: { dailyCap: '100' } },
+      defaultSession: { dailyCap: '10' }
+    });
+    await policy.record(send(8, BigInt(0), { scope: 'first' }));
+    await policy.record(send(50, BigInt(0), { scope: 'agent' }));
+
+    expect(rules(policy, send(3, BigInt(0), { scope: 'second' }))).toEqual(['dailyCap']);
+    expect(rules(policy, send(2, BigInt(0), { scope: 'second' }))).toEqual([]);
+    expect(policy.getSessionSpent(24 * 60 * 60 * 1000, 'testnet-10', 'third')).toBe(BigInt(8) * KAS);
+    expect(policy.getSessionSpent(24 * 60 * 60 * 1000, 'testnet-10', 'agent')).toBe(BigInt(50) * KAS);
+  });
+
+  it('checks recipients against the allow and deny lists', () => {
+    const denied = new SpendingPolicy({ global: { deniedRecipients: [RECIPIENT] } });
+    expect(rules(denied, send(1))).toEqual(['deniedRecipients']);
+
+    const allowed = new SpendingPolicy({ global: { allowedRecipients: [OTHER] } });
+    expect(rules(allowed, send(1))).toEqual(['allowedRecipients']);
+  });
+
+  it('rejects disallowed networks and high fees', () => {
+    const policy = new SpendingPolicy({ global: { allowedNetworks: ['mainnet'], maxFeePercent: 1 } });
+    expect(rules(policy, send(1, KAS / BigInt(50)))).toEqual(['allowedNetworks', 'maxFeePercent']);
+  });
+
+  it('holds sends above the approval threshold until they are approved', () => {
+    const policy = new SpendingPolicy({ global: { approvalThreshold: '5' } });
+    expect(policy.requiresApproval(send(6))).toBe(true);
+    expect(rules(policy, send(6, BigInt(0), { approved: true }))).toEqual([]);
+    expect(policy.requiresApproval(send(5))).toBe(false);
+  });
+
+  it('rejects an unparsable amount when the policy is created', () => {
+    expect(() => new SpendingPolicy({ global: { dailyCap: 'ten' } })).toThrow('Invalid dailyCap for global limits');
+  });
+});
+
+describe('SpendingPolicy reservations', () => {
+  it('holds a reserved send against the caps until it is released', () => {
+    const policy = new SpendingPolicy({ global: { dailyCap: '10' } });
+    const reservation = policy.reserve(send(6));
+    expect(() => policy.reserve(send(6))).toThrow(SpendingPolicyError);
+
+    policy.release(reservation);
+    expect(policy.getSpent(24 * 60 * 60 * 1000, 'testnet-10')).toBe(BigInt(0));
+    expect(() => policy.reserve(send(6))).not.toThrow();
+  });
+
+  it('settles a reservation with what was actually submitted', async () => {
+    const policy = new SpendingPolicy({ global: { dailyCap: '10' } });
+    const reservation = policy.reserve(send(6));
+    await policy.settle(reservation, ['a', 'b'], BigInt(1000));
+
+    expect(policy.getSpent(24 * 60 * 60 * 1000, 'testnet-10')).toBe(BigInt(1000));
+    expect(reservation).toMatchObject({ transactionId: 'b', transactionIds: ['a', 'b'] });
+    await expect(policy.settle(reservation, ['c'], BigInt(0))).rejects.toThrow('not pending');
+  });
+
+  it('persists settled spends only and reloads them', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'spending-policy-'));
+    try {
+      const ledgerPath = join(directory, 'ledger.json');
+      const policyPath = join(directory, 'policy.json');
+      const config = { global: { dailyCap: '10' }, ledgerPath };
+      const policy = new SpendingPolicy(config);
+
+      await policy.record(send(3), 'tx1');
+      policy.reserve(send(2));
+      await policy.record(send(1), 'tx2');
+      const saved = JSON.parse(await readFile(ledgerPath, 'utf-8'));
+      expect(saved.map((entry: { transactionId: string }) => entry.transactionId)).toEqual(['tx1', 'tx2']);
+
+      await writeFile(policyPath, JSON.stringify(config));
+      const reloaded = await SpendingPolicy.loadFromFile(policyPath);
+      expect(reloaded.getSpent(24 * 60 * 60 * 1000, 'testnet-10')).toBe(BigInt(4) * KAS);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('raises a ledger write failure to the caller', async () => {
+    const policy = new SpendingPolicy({ global: { dailyCap: '10' }, ledgerPath: join(tmpdir(), 'missing-dir', 'x', 'ledger.json') });
+    await expect(policy.record(send(1), 'tx')).rejects.toThrow('Failed to save spending ledger');
+  });
+});
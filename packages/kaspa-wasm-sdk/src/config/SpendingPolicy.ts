@@ -0,0 +1,374 @@
+import * as fs from 'fs/promises';
+import {
+  SpendingLimits,
+  SpendingPolicyConfig,
+  SpendingPolicyDecision,
+  SpendingPolicyViolation,
+  SpendRecord,
+  SpendRequest
+} from '../types';
+import { kasToSompi, sompiToKas } from '../utils';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+/**
+ * Thrown when a send violates the spending policy. `violations` lists every
+ * rule that was broken, in a form that can be shown to a human.
+ */
+export class SpendingPolicyError extends Error {
+  readonly violations: SpendingPolicyViolation[];
+
+  constructor(violations: SpendingPolicyViolation[]) {
+    super(`Spending policy rejected the transaction: ${violations.map(violation => violation.message).join('; ')}`);
+    this.name = 'SpendingPolicyError';
+    this.violations = violations;
+  }
+}
+
+/**
+ * Guards sends with global and per-session limits, with default limits for
+ * sessions that have none of their own: a maximum per send,
+ * rolling daily and weekly caps, recipient allow/deny lists, a maximum fee
+ * percentage and allowed networks. Spends are kept in a ledger so the
+ * rolling caps survive restarts when `ledgerPath` is set.
+ */
+export class SpendingPolicy {
+  private config: SpendingPolicyConfig;
+  private ledger: SpendRecord[] = [];
+  /** Ledger entries of sends that are still being submitted */
+  private reservations = new Set<SpendRecord>();
+
+  constructor(config: SpendingPolicyConfig) {
+    this.config = config;
+    // Parse every amount up front so a typo fails at load time, not at send time
+    for (const [scope, limits] of this.getAllLimits()) {
+      for (const rule of ['maxPerTransaction', 'dailyCap', 'weeklyCap', 'approvalThreshold'] as const) {
+        if (limits[rule] !== undefined) {
+          try {
+            kasToSompi(String(limits[rule]));
+          } catch (error) {
+            throw new Error(`Invalid ${rule} for ${scope}: ${(error as Error).message}`);
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Load a policy from a JSON file, together with its ledger
+   */
+  static async loadFromFile(filePath: string): Promise<SpendingPolicy> {
+    let config: SpendingPolicyConfig;
+    try {
+      config = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Failed to load spending policy from ${filePath}: ${error}`);
+    }
+
+    const policy = new SpendingPolicy(config);
+    await policy.loadLedger();
+    return policy;
+  }
+
+  /**
+   * Get the policy configuration
+   */
+  getConfig(): SpendingPolicyConfig {
+    return this.config;
+  }
+
+  /**
+   * Check a send against the global limits and the limits of its scope
+   */
+  evaluate(request: SpendRequest, now: number = Date.now()): SpendingPolicyDecision {
+    const violations: SpendingPolicyViolation[] = [];
+
+    if (this.config.global) {
+      violations.push(...this.evaluateLimits(this.config.global, 'global', request, undefined, now));
+    }
+    const sessionLimits = this.getSessionLimits(request.scope);
+    if (sessionLimits) {
+      violations.push(...this.evaluateLimits(sessionLimits, 'session', request, request.scope, now));
+    }
+
+    return { allowed: violations.length === 0, violations };
+  }
+
+  /**
+   * Throw a SpendingPolicyError unless the send is allowed
+   */
+  assertAllowed(request: SpendRequest): void {
+    const decision = this.evaluate(request);
+    if (!decision.allowed) {
+      throw new SpendingPolicyError(decision.violations);
+    }
+  }
+
+  /**
+   * Check whether a send is above an approval threshold. Such sends should be
+   * proposed to a human instead of submitted; once approved, the other
+   * limits still apply.
+   */
+  requiresApproval(request: SpendRequest): boolean {
+    return this.evaluate({ ...request, approved: false }).violations
+      .some(violation => violation.rule === 'approvalThreshold');
+  }
+
+  /**
+   * Check a send and hold its amount and fee in the ledger in the same step,
+   * so sends submitted at the same time cannot pass a cap together. Settle
+   * the reservation once the send was submitted, or release it when nothing
+   * was. Throws a SpendingPolicyError unless the send is allowed.
+   */
+  reserve(request: SpendRequest): SpendRecord {
+    this.assertAllowed(request);
+    const reservation = this.createRecord(request);
+    this.ledger.push(reservation);
+    this.reservations.add(reservation);
+    return reservation;
+  }
+
+  /**
+   * Record what a reserved send actually submitted, e.g. only the fees of a
+   * chain that was interrupted before its final transaction, and save the
+   * ledger. Throws when the ledger cannot be saved.
+   */
+  async settle(reservation: SpendRecord, transactionIds: string[], total: bigint): Promise<void> {
+    if (!this.reservations.delete(reservation)) {
+      throw new Error('Spending reservation is not pending');
+    }
+    reservation.timestamp = Date.now();
+    reservation.total = total.toString();
+    reservation.transactionId = transactionIds[transactionIds.length - 1];
+    if (transactionIds.length > 1) {
+      reservation.transactionIds = transactionIds;
+    }
+    await this.saveLedger();
+  }
+
+  /**
+   * Drop a reservation whose send submitted nothing
+   */
+  release(reservation: SpendRecord): void {
+    if (this.reservations.delete(reservation)) {
+      this.ledger = this.ledger.filter(entry => entry !== reservation);
+    }
+  }
+
+  /**
+   * Record a completed send so it counts toward the rolling caps. Throws
+   * when the ledger cannot be saved.
+   */
+  async record(request: SpendRequest, transactionId?: string): Promise<void> {
+    this.ledger.push({ ...this.createRecord(request), transactionId });
+    await this.saveLedger();
+  }
+
+  /**
+   * Get the total spent in a window, in sompi
+   */
+  getSpent(windowMs: number, network: string, scope?: string, now: number = Date.now()): bigint {
+    return this.sumSpent(windowMs, network, entry => scope === undefined || entry.scope === scope, now);
+  }
+
+  /**
+   * Session limits that apply to a scope: its own, or the default ones
+   */
+  getSessionLimits(scope?: string): SpendingLimits | undefined {
+    return this.hasOwnLimits(scope) ? this.config.sessions![scope!] : this.config.defaultSession;
+  }
+
+  /**
+   * Get the total in a window that counts toward the session caps of a
+   * scope: its own sends, or those of every scope under the default limits
+   */
+  getSessionSpent(windowMs: number, network: string, scope?: string, now: number = Date.now()): bigint {
+    if (this.hasOwnLimits(scope)) {
+      return this.getSpent(windowMs, network, scope, now);
+    }
+    return this.sumSpent(windowMs, network, entry => !this.hasOwnLimits(entry.scope), now);
+  }
+
+  private sumSpent(windowMs: number, network: string, matches: (entry: SpendRecord) => boolean, now: number): bigint {
+    return this.ledger
+      .filter(entry => now - entry.timestamp < windowMs)
+      .filter(entry => entry.network === network && matches(entry))
+      .reduce((sum, entry) => sum + BigInt(entry.total), BigInt(0));
+  }
+
+  private hasOwnLimits(scope?: string): boolean {
+    return scope !== undefined && Object.prototype.hasOwnProperty.call(this.config.sessions || {}, scope);
+  }
+
+  private evaluateLimits(
+    limits: SpendingLimits,
+    scope: 'global' | 'session',
+    request: SpendRequest,
+    spendScope: string | undefined,
+    now: number
+  ): SpendingPolicyViolation[] {
+    const violations: SpendingPolicyViolation[] = [];
+    const label = scope === 'global'
+      ? 'Global'
+      : this.hasOwnLimits(spendScope) ? `Session "${spendScope}"` : 'Default session';
+    const amount = this.getAmount(request);
+    const fee = request.fee || BigInt(0);
+
+    if (limits.allowedNetworks && !limits.allowedNetworks.includes(request.network)) {
+      violations.push({
+        rule: 'allowedNetworks',
+        scope,
+        message: `${label} policy does not allow sends on ${request.network}`,
+        limit: limits.allowedNetworks.join(', '),
+        actual: request.network
+      });
+    }
+
+    for (const payment of request.payments) {
+      const address = payment.address.trim();
+      if (limits.deniedRecipients?.some(denied => denied.trim() === address)) {
+        violations.push({
+          rule: 'deniedRecipients',
+          scope,
+          message: `${label} policy denies payments to ${address}`,
+          actual: address
+        });
+      }
+      if (limits.allowedRecipients && !limits.allowedRecipients.some(allowed => allowed.trim() === address)) {
+        violations.push({
+          rule: 'allowedRecipients',
+          scope,
+          message: `${label} policy only allows payments to listed recipients; ${address} is not listed`,
+          actual: address
+        });
+      }
+    }
+
+    if (limits.maxPerTransaction !== undefined) {
+      const max = kasToSompi(String(limits.maxPerTransaction));
+      if (amount > max) {
+        violations.push({
+          rule: 'maxPerTransaction',
+          scope,
+          message: `${label} limit per transaction is ${sompiToKas(max)} KAS, this send is ${sompiToKas(amount)} KAS`,
+          limit: sompiToKas(max),
+          actual: sompiToKas(amount)
+        });
+      }
+    }
+
+    if (limits.approvalThreshold !== undefined && !request.approved) {
+      const threshold = kasToSompi(String(limits.approvalThreshold));
+      if (amount > threshold) {
+        violations.push({
+          rule: 'approvalThreshold',
+          scope,
+          message: `${label} policy needs human approval for sends above ${sompiToKas(threshold)} KAS, this send is ${sompiToKas(amount)} KAS`,
+          limit: sompiToKas(threshold),
+          actual: sompiToKas(amount)
+        });
+      }
+    }
+
+    const caps = [
+      { rule: 'dailyCap' as const, windowMs: DAY_MS, period: '24 hours' },
+      { rule: 'weeklyCap' as const, windowMs: WEEK_MS, period: '7 days' }
+    ];
+    for (const { rule, windowMs, period } of caps) {
+      if (limits[rule] === undefined) {
+        continue;
+      }
+      const cap = kasToSompi(String(limits[rule]));
+      const spent = scope === 'global'
+        ? this.getSpent(windowMs, request.network, undefined, now)
+        : this.getSessionSpent(windowMs, request.network, spendScope, now);
+      if (spent + amount + fee > cap) {
+        violations.push({
+          rule,
+          scope,
+          message: `${label} cap is ${sompiToKas(cap)} KAS per ${period}; ${sompiToKas(spent)} KAS already sent, this send needs ${sompiToKas(amount + fee)} KAS`,
+          limit: sompiToKas(cap),
+          actual: sompiToKas(spent + amount + fee)
+        });
+      }
+    }
+
+    if (limits.maxFeePercent !== undefined && request.fee !== undefined && amount > BigInt(0)) {
+      // Basis points keep the comparison in integers
+      const feeBasisPoints = Number((request.fee * BigInt(10000)) / amount);
+      if (feeBasisPoints > limits.maxFeePercent * 100) {
+        violations.push({
+          rule: 'maxFeePercent',
+          scope,
+          message: `${label} policy allows fees up to ${limits.maxFeePercent}% of the amount, this fee is ${(feeBasisPoints / 100).toFixed(2)}%`,
+          limit: `${limits.maxFeePercent}%`,
+          actual: `${(feeBasisPoints / 100).toFixed(2)}%`
+        });
+      }
+    }
+
+    return violations;
+  }
+
+  private createRecord(request: SpendRequest): SpendRecord {
+    return {
+      timestamp: Date.now(),
+      scope: request.scope,
+      network: request.network,
+      total: (this.getAmount(request) + (request.fee || BigInt(0))).toString()
+    };
+  }
+
+  private getAmount(request: SpendRequest): bigint {
+    return request.payments.reduce((sum, payment) => sum + payment.amount, BigInt(0));
+  }
+
+  private getAllLimits(): [string, SpendingLimits][] {
+    const limits: [string, SpendingLimits][] = [];
+    if (this.config.global) {
+      limits.push(['global limits', this.config.global]);
+    }
+    for (const [scope, sessionLimits] of Object.entries(this.config.sessions || {})) {
+      limits.push([`session "${scope}"`, sessionLimits]);
+    }
+    if (this.config.defaultSession) {
+      limits.push(['default session limits', this.config.defaultSession]);
+    }
+    return limits;
+  }
+
+  /**
+   * Forget spends older than the longest window and write the settled
+   * entries to the ledger file
+   */
+  private async saveLedger(): Promise<void> {
+    const now = Date.now();
+    this.ledger = this.ledger.filter(entry => this.reservations.has(entry) || now - entry.timestamp < WEEK_MS);
+    if (!this.config.ledgerPath) {
+      return;
+    }
+    const settled = this.ledger.filter(entry => !this.reservations.has(entry));
+    try {
+      await fs.writeFile(this.config.ledgerPath, JSON.stringify(settled, null, 2), { mode: 0o600 });
+    } catch (error) {
+      throw new Error(`Failed to save spending ledger to ${this.config.ledgerPath}: ${error}`);
+    }
+  }
+
+  /**
+   * Read the ledger; a missing file is an empty history
+   */
+  private async loadLedger(): Promise<void> {
+    if (!this.config.ledgerPath) {
+      return;
+    }
+    try {
+      this.ledger = JSON.parse(await fs.readFile(this.config.ledgerPath, 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw new Error(`Failed to load spending ledger from ${this.config.ledgerPath}: ${error}`);
+      }
+    }
+  }
+}
@@ -1,2 +1,3 @@
 export { Configuration } from './Configuration';
-export type { SDKConfig, NetworkConfig } from './Configuration';
\ No newline at end of file
+export { SpendingPolicy, SpendingPolicyError } from './SpendingPolicy';
+export type { SDKConfig, NetworkConfig, WalletCredentials, KeystoreConfig, IndexerConfig } from './Configuration';
\ No newline at end of file
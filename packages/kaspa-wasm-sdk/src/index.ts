@@ -2,19 +2,31 @@
 export { KaspaSDK } from './KaspaSDK';
 
 // Wallet exports
-export { KaspaWallet } from './wallet/KaspaWallet';
+export { KaspaWallet, DEFAULT_GAP_LIMIT } from './wallet/KaspaWallet';
+export { MultisigWallet } from './wallet/MultisigWallet';
+export { Keystore, DEFAULT_RELOCK_MS } from './wallet/Keystore';
 
 // Transaction exports
 export { TransactionBuilder } from './transaction/TransactionBuilder';
+export { PsktBuilder } from './transaction/PsktBuilder';
 
 // Network exports
 export { RpcClient } from './network/RpcClient';
+export { RpcTransport, registerRpcTransport } from './network/RpcTransport';
+export { MockKaspaNode } from './network/MockKaspaNode';
+export { LocalNetwork } from './network/LocalNetwork';
+
+// Indexer exports
+export { ChainIndexer } from './indexer/ChainIndexer';
+export { HistoryStore } from './indexer/HistoryStore';
 
 // UTXO exports
 export { UtxoManager } from './utxo/UtxoManager';
 
 // Utility exports
 export * from './utils';
+export { redactSecrets, REDACTED } from './utils/redaction';
+export { Logger, configureLogger, getLogLevel, addLogSink, withLogContext } from './utils/logger';
 
 // Configuration exports
 export * from './config';
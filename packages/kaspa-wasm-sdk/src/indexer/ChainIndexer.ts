@@ -0,0 +1,218 @@
+import * as kaspa from '../../wasm/kaspa';
+import { RpcClient } from '../network/RpcClient';
+import {
+  AddressHistoryPage,
+  AddressHistoryQuery,
+  IndexedOutput,
+  IndexedTransaction,
+  NetworkType
+} from '../types';
+import { Logger } from '../utils/logger';
+import { getWasmNetworkId } from '../utils/network';
+import { HistoryStore, ParsedTransaction, outpointKey } from './HistoryStore';
+
+// Transactions from added blocks that wait for their acceptance
+const MAX_PENDING_TRANSACTIONS = 10000;
+
+/**
+ * Builds the transaction history of watched addresses from the node's
+ * notifications. Added blocks supply the transactions, virtual chain changes
+ * with accepted transaction IDs say which of them were accepted, and reorgs
+ * undo acceptances. Only transactions after an address is first watched are
+ * indexed.
+ */
+export class ChainIndexer {
+  private pending = new Map<string, ParsedTransaction>();
+  private started = false;
+  private log: Logger;
+  private onBlockAdded = (data: any) => this.handleBlockAdded(data);
+  private onChainChanged = (data: any) => this.handleChainChanged(data);
+
+  constructor(
+    private rpcClient: RpcClient,
+    private networkType: NetworkType,
+    private store: HistoryStore
+  ) {
+    this.log = new Logger('chain-indexer', { network: networkType });
+  }
+
+  /**
+   * Index the given addresses from now on, starting the indexer if needed
+   */
+  async watch(addresses: string[]): Promise<void> {
+    const added = addresses.filter(address => !this.store.isWatched(address));
+    for (const address of added) {
+      this.store.watch(address, await this.getUnspent(address));
+    }
+    await this.start();
+    if (added.length > 0) {
+      this.log.info('Watching address history', { addresses: added });
+      await this.store.save();
+    }
+  }
+
+  isWatched(address: string): boolean {
+    return this.store.isWatched(address);
+  }
+
+  getHistory(address: string, query?: AddressHistoryQuery): AddressHistoryPage {
+    return this.store.query(address, query);
+  }
+
+  getTransaction(transactionId: string): IndexedTransaction | undefined {
+    return this.store.getTransaction(transactionId);
+  }
+
+  /**
+   * Follow added blocks and virtual chain changes. The RpcClient replays the
+   * subscriptions after a reconnect. When no indexer followed the chain
+   * since the history was last saved, the time in between is recorded as a
+   * gap and the unspent outputs of watched addresses are read again.
+   */
+  async start(): Promise<void> {
+    if (this.started) {
+      return;
+    }
+    this.rpcClient.addEventListener('block-added', this.onBlockAdded);
+    this.rpcClient.addEventListener('virtual-chain-changed', this.onChainChanged);
+    try {
+      await this.rpcClient.subscribeToBlocks();
+      await this.rpcClient.subscribeToChainChanges(true);
+    } catch (error) {
+      this.rpcClient.removeEventListener('block-added', this.onBlockAdded);
+      this.rpcClient.removeEventListener('virtual-chain-changed', this.onChainChanged);
+      throw error;
+    }
+    this.started = true;
+
+    const gap = this.store.attachIndexer();
+    if (gap) {
+      this.log.warn('Address history has a gap; transactions accepted in it are missing', {
+        from: new Date(gap.from).toISOString(),
+        to: new Date(gap.to).toISOString()
+      });
+      for (const address of this.store.getWatchedAddresses()) {
+        this.store.refreshUnspent(address, await this.getUnspent(address));
+      }
+    }
+    await this.store.save();
+  }
+
+  /**
+   * Stop listening; the history stays in the store
+   */
+  stop(): void {
+    this.rpcClient.removeEventListener('block-added', this.onBlockAdded);
+    this.rpcClient.removeEventListener('virtual-chain-changed', this.onChainChanged);
+    this.pending.clear();
+    if (this.started) {
+      this.store.detachIndexer();
+      this.store.save().catch(error => this.log.error('Failed to save address history', { error }));
+    }
+    this.started = false;
+  }
+
+  private async getUnspent(address: string): Promise<IndexedOutput[]> {
+    const entries = await this.rpcClient.getUTXOs([address]);
+    return entries.map(entry => ({
+      outpoint: outpointKey(entry.outpoint.transactionId, entry.outpoint.index),
+      address,
+      amount: BigInt(entry.amount)
+    }));
+  }
+
+  private handleBlockAdded(data: any): void {
+    const block = data?.block;
+    if (!block) {
+      return;
+    }
+    const blockHash = block.header?.hash || block.verboseData?.hash;
+    const timestamp = Number(block.header?.timestamp ?? 0);
+
+    for (const transaction of block.transactions || []) {
+      const parsed = this.parse(transaction, blockHash, timestamp);
+      // Spending a pending transaction counts too, its outputs are not indexed yet
+      if (parsed && !this.pending.has(parsed.transactionId) &&
+        (this.store.isRelevant(parsed) || parsed.inputs.some(key => this.pending.has(key.split(':')[0])))) {
+        this.pending.set(parsed.transactionId, parsed);
+      }
+    }
+
+    // Transactions that were never accepted, e.g. double spends, age out
+    for (const id of this.pending.keys()) {
+      if (this.pending.size <= MAX_PENDING_TRANSACTIONS) {
+        break;
+      }
+      this.pending.delete(id);
+    }
+  }
+
+  private handleChainChanged(data: any): void {
+    let changed = false;
+    this.store.markIndexed();
+
+    const removed: string[] = data?.removedChainBlockHashes || [];
+    if (removed.length > 0) {
+      const reverted = this.store.revert(new Set(removed));
+      for (const transaction of reverted) {
+        this.pending.set(transaction.transactionId, transaction);
+      }
+      if (reverted.length > 0) {
+        this.log.info('Reverted transactions of removed chain blocks', { count: reverted.length });
+        changed = true;
+      }
+    }
+
+    for (const accepted of data?.acceptedTransactionIds || []) {
+      for (const id of accepted.acceptedTransactionIds || []) {
+        const transaction = this.pending.get(id);
+        if (!transaction) {
+          continue;
+        }
+        this.pending.delete(id);
+        if (this.store.accept(transaction, accepted.acceptingBlockHash)) {
+          this.log.debug('Indexed accepted transaction', { txId: id, acceptingBlockHash: accepted.acceptingBlockHash });
+          changed = true;
+        }
+      }
+    }
+
+    if (changed) {
+      this.store.save().catch(error => this.log.error('Failed to save address history', { error }));
+    }
+  }
+
+  private parse(transaction: any, blockHash: string, timestamp: number): ParsedTransaction | undefined {
+    const transactionId = transaction.verboseData?.transactionId;
+    if (!transactionId || !blockHash) {
+      return undefined;
+    }
+
+    const outputs: IndexedOutput[] = [];
+    (transaction.outputs || []).forEach((output: any, index: number) => {
+      const address = output.verboseData?.scriptPublicKeyAddress || this.addressOf(output.scriptPublicKey);
+      if (address) {
+        outputs.push({ outpoint: outpointKey(transactionId, index), address, amount: BigInt(output.value ?? 0) });
+      }
+    });
+
+    return {
+      transactionId,
+      blockHash,
+      timestamp,
+      inputs: (transaction.inputs || [])
+        .filter((input: any) => input.previousOutpoint)
+        .map((input: any) => outpointKey(input.previousOutpoint.transactionId, input.previousOutpoint.index)),
+      outputs
+    };
+  }
+
+  private addressOf(scriptPublicKey: any): string | undefined {
+    try {
+      return kaspa.addressFromScriptPublicKey(scriptPublicKey, getWasmNetworkId(this.networkType))?.toString();
+    } catch {
+      // Not a standard script
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,201 @@
+import { RpcClient } from '../network/RpcClient';
+import { NetworkType, TransactionConfirmation } from '../types';
+import { Logger } from '../utils/logger';
+
+// Recent acceptances kept, and chain block blue scores cached
+const MAX_ACCEPTANCES = 100000;
+const MAX_BLUE_SCORES = 1000;
+
+/**
+ * Follows virtual chain changes with accepted transaction IDs to tell which
+ * chain block accepted a transaction. Its confirmations are the blue score
+ * of the sink minus the blue score of that block, so a reorg that removes
+ * the accepting block takes them back to zero.
+ */
+export class ConfirmationTracker {
+  private acceptances = new Map<string, string>();
+  private blueScores = new Map<string, bigint>();
+  private waiters = new Set<() => void>();
+  private started = false;
+  private log: Logger;
+  private onChainChanged = (data: any) => this.handleChainChanged(data);
+
+  constructor(private rpcClient: RpcClient, networkType: NetworkType) {
+    this.log = new Logger('confirmations', { network: networkType });
+  }
+
+  /**
+   * Subscribe to virtual chain changes. Acceptances before this are only
+   * found from a hint.
+   */
+  async start(): Promise<void> {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+    this.rpcClient.addEventListener('virtual-chain-changed', this.onChainChanged);
+    try {
+      await this.rpcClient.subscribeToChainChanges(true);
+    } catch (error) {
+      this.stop();
+      throw error;
+    }
+  }
+
+  stop(): void {
+    this.rpcClient.removeEventListener('virtual-chain-changed', this.onChainChanged);
+    this.started = false;
+    this.wake();
+  }
+
+  /**
+   * Current status of a transaction. `hint` names the accepting block or the
+   * block containing the transaction when it was accepted before tracking.
+   */
+  async getConfirmation(
+    transactionId: string,
+    hint: { acceptingBlockHash?: string; blockHash?: string } = {}
+  ): Promise<TransactionConfirmation> {
+    await this.start();
+
+    let acceptingBlockHash = this.acceptances.get(transactionId) || hint.acceptingBlockHash;
+    if (!acceptingBlockHash && hint.blockHash) {
+      acceptingBlockHash = await this.findAcceptance(transactionId, hint.blockHash);
+    }
+
+    if (acceptingBlockHash) {
+      const [acceptingBlueScore, sinkBlueScore] = await Promise.all([
+        this.getBlueScore(acceptingBlockHash),
+        this.rpcClient.getSinkBlueScore()
+      ]);
+      if (acceptingBlueScore !== undefined) {
+        return {
+          transactionId,
+          status: 'accepted',
+          confirmations: sinkBlueScore > acceptingBlueScore ? Number(sinkBlueScore - acceptingBlueScore) : 0,
+          acceptingBlockHash,
+          acceptingBlueScore,
+          sinkBlueScore
+        };
+      }
+    }
+
+    const inMempool = await this.rpcClient.getMempoolEntry(transactionId).then(() => true, () => false);
+    return { transactionId, status: inMempool ? 'pending' : 'dropped', confirmations: 0 };
+  }
+
+  /**
+   * Resolve once the transaction has `confirmations` confirmations, or with
+   * its last status and `timedOut` after `timeoutMs`. A transaction that is
+   * still neither accepted nor in the mempool after a further chain change
+   * is reported as dropped right away.
+   */
+  async waitForConfirmation(
+    transactionId: string,
+    confirmations: number,
+    timeoutMs: number,
+    hint: { acceptingBlockHash?: string; blockHash?: string } = {}
+  ): Promise<TransactionConfirmation> {
+    const deadline = Date.now() + timeoutMs;
+    let droppedBefore = false;
+
+    while (true) {
+      const status = await this.getConfirmation(transactionId, hint);
+      if (status.status === 'accepted' && status.confirmations >= confirmations) {
+        return status;
+      }
+      if (status.status === 'dropped' && droppedBefore) {
+        return status;
+      }
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0 || !this.started) {
+        return { ...status, timedOut: true };
+      }
+      const changed = await this.nextChainChange(remaining);
+      droppedBefore = changed && status.status === 'dropped';
+    }
+  }
+
+  private handleChainChanged(data: any): void {
+    const removed = new Set<string>(data?.removedChainBlockHashes || []);
+    if (removed.size > 0) {
+      for (const [transactionId, blockHash] of this.acceptances) {
+        if (removed.has(blockHash)) {
+          this.acceptances.delete(transactionId);
+        }
+      }
+      removed.forEach(hash => this.blueScores.delete(hash));
+      this.log.debug('Chain blocks removed', { count: removed.size });
+    }
+
+    for (const accepted of data?.acceptedTransactionIds || []) {
+      for (const transactionId of accepted.acceptedTransactionIds || []) {
+        this.acceptances.delete(transactionId);
+        this.acceptances.set(transactionId, accepted.acceptingBlockHash);
+      }
+    }
+    for (const transactionId of this.acceptances.keys()) {
+      if (this.acceptances.size <= MAX_ACCEPTANCES) {
+        break;
+      }
+      this.acceptances.delete(transactionId);
+    }
+
+    this.wake();
+  }
+
+  /**
+   * Resolves with true on the next chain change, false on timeout
+   */
+  private nextChainChange(timeoutMs: number): Promise<boolean> {
+    return new Promise(resolve => {
+      const done = (changed: boolean) => {
+        clearTimeout(timer);
+        this.waiters.delete(wake);
+        resolve(changed);
+      };
+      const wake = () => done(true);
+      const timer = setTimeout(() => done(false), timeoutMs);
+      this.waiters.add(wake);
+    });
+  }
+
+  private wake(): void {
+    Array.from(this.waiters).forEach(waiter => waiter());
+  }
+
+  /**
+   * Look for the acceptance in the chain blocks added after the block
+   * that contains the transaction
+   */
+  private async findAcceptance(transactionId: string, blockHash: string): Promise<string | undefined> {
+    try {
+      const chain = await this.rpcClient.getVirtualChainFromBlock(blockHash);
+      return chain.acceptedTransactionIds
+        .find(accepted => accepted.acceptedTransactionIds.includes(transactionId))
+        ?.acceptingBlockHash;
+    } catch (error) {
+      this.log.debug('Could not read the virtual chain', { txId: transactionId, blockHash, error });
+      return undefined;
+    }
+  }
+
+  private async getBlueScore(blockHash: string): Promise<bigint | undefined> {
+    let blueScore = this.blueScores.get(blockHash);
+    if (blueScore === undefined) {
+      try {
+        const { block } = await this.rpcClient.getBlock(blockHash);
+        blueScore = BigInt(block.header.blueScore);
+      } catch (error) {
+        this.log.debug('Accepting block not found', { blockHash, error });
+        return undefined;
+      }
+      this.blueScores.set(blockHash, blueScore);
+      if (this.blueScores.size > MAX_BLUE_SCORES) {
+        this.blueScores.delete(this.blueScores.keys().next().value!);
+      }
+    }
+    return blueScore;
+  }
+}
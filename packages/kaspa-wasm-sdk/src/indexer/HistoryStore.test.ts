@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { copyFile, mkdir, mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { HistoryStore } from './HistoryStore';
+
+const ADDRESS = 'kaspatest:watched';
+
+describe('HistoryStore gaps', () => {
+  let directory: string;
+
+  // Stores are cached per file, so a restart reads a copy from another directory
+  async function restart(from: string = directory): Promise<{ store: HistoryStore; path: string }> {
+    const path = join(directory, `copy-${Math.random().toString(36).slice(2)}`);
+    await mkdir(path);
+    await copyFile(join(from, 'testnet-10.json'), join(path, 'testnet-10.json'));
+    return { store: await HistoryStore.open('testnet-10', path), path };
+  }
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'history-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('records no gap while some indexer keeps following the chain', async () => {
+    const store = await HistoryStore.open('testnet-10', directory);
+    store.watch(ADDRESS, []);
+
+    expect(store.attachIndexer(1000)).toBeUndefined();
+    expect(store.attachIndexer(2000)).toBeUndefined();
+    store.detachIndexer(3000);
+    expect(store.attachIndexer(4000)).toBeUndefined();
+    expect(store.query(ADDRESS).gaps).toEqual([]);
+  });
+
+  it('records the time between the last indexed moment and a restart', async () => {
+    const store = await HistoryStore.open('testnet-10', directory);
+    store.watch(ADDRESS, []);
+    const watchedSince = store.getWatchedSince(ADDRESS)!;
+    store.attachIndexer(watchedSince + 1000);
+    store.markIndexed(watchedSince + 2000);
+    await store.save();
+
+    const { store: restarted } = await restart();
+    expect(restarted.getWatchedAddresses()).toEqual([ADDRESS]);
+    expect(restarted.attachIndexer(watchedSince + 5000)).toEqual({ from: watchedSince + 2000, to: watchedSince + 5000 });
+    expect(restarted.query(ADDRESS).gaps).toEqual([{ from: watchedSince + 2000, to: watchedSince + 5000 }]);
+  });
+
+  it('keeps gaps across restarts', async () => {
+    const store = await HistoryStore.open('testnet-10', directory);
+    store.watch(ADDRESS, []);
+    const watchedSince = store.getWatchedSince(ADDRESS)!;
+    store.attachIndexer(watchedSince + 1000);
+    store.detachIndexer(watchedSince + 2000);
+    await store.save();
+
+    const restarted = await restart();
+    restarted.store.attachIndexer(watchedSince + 3000);
+    await restarted.store.save();
+    const { store: later } = await restart(restarted.path);
+
+    expect(later.query(ADDRESS).gaps).toEqual([{ from: watchedSince + 2000, to: watchedSince + 3000 }]);
+  });
+
+  it('hides gaps that ended before an address was watched', async () => {
+    const store = await HistoryStore.open('testnet-10', directory);
+    store.watch(ADDRESS, []);
+    const watchedSince = store.getWatchedSince(ADDRESS)!;
+    store.attachIndexer(watchedSince - 3000);
+    store.detachIndexer(watchedSince - 2000);
+
+    expect(store.attachIndexer(watchedSince - 1000)).toEqual({ from: watchedSince - 2000, to: watchedSince - 1000 });
+    expect(store.query(ADDRESS).gaps).toEqual([]);
+  });
+
+  it('replaces the unspent outputs of an address after a gap', async () => {
+    const store = await HistoryStore.open('testnet-10', directory);
+    store.watch(ADDRESS, [{ outpoint: 'a:0', address: ADDRESS, amount: BigInt(5) }]);
+    store.refreshUnspent(ADDRESS, [{ outpoint: 'b:1', address: ADDRESS, amount: BigInt(7) }]);
+
+    const spends = (outpoint: string) => store.isRelevant({
+      transactionId: 'spend',
+      blockHash: 'block',
+      timestamp: 0,
+      inputs: [outpoint],
+      outputs: []
+    });
+    expect(spends('a:0')).toBe(false);
+    expect(spends('b:1')).toBe(true);
+  });
+});
@@ -0,0 +1,370 @@
+import * as fs from 'fs/promises';
+import { dirname, join } from 'path';
+import {
+  AddressHistoryEntry,
+  AddressHistoryPage,
+  AddressHistoryQuery,
+  HistoryGap,
+  IndexedOutput,
+  IndexedTransaction,
+  NetworkType
+} from '../types';
+
+const DEFAULT_HISTORY_LIMIT = 50;
+
+/** A transaction from an added block, before it is accepted */
+export interface ParsedTransaction {
+  transactionId: string;
+  blockHash: string;
+  timestamp: number;
+  /** Outpoint keys of the inputs */
+  inputs: string[];
+  /** Outputs with a standard address */
+  outputs: IndexedOutput[];
+}
+
+interface StoredOutput {
+  outpoint: string;
+  address: string;
+  amount: string;
+}
+
+interface HistoryFile {
+  version: 1;
+  network: NetworkType;
+  addresses: Record<string, { watchedSince: number; transactionIds: string[] }>;
+  transactions: Record<string, Omit<IndexedTransaction, 'spent' | 'created'> & { spent: StoredOutput[]; created: StoredOutput[] }>;
+  /** Unspent outputs of watched addresses, to recognize spends */
+  outputs: Record<string, Omit<StoredOutput, 'outpoint'>>;
+  /** Last time an indexer was known to follow the chain (ms) */
+  indexedAt?: number;
+  gaps?: HistoryGap[];
+}
+
+// Stores are shared so that every indexer of a network writes the same file
+const stores = new Map<string, HistoryStore>();
+
+export function outpointKey(transactionId: string, index: number): string {
+  return `${transactionId}:${index}`;
+}
+
+/**
+ * Accepted transactions of watched addresses, kept in memory and written to
+ * `<directory>/<network>.json` when a directory is given
+ */
+export class HistoryStore {
+  private addresses = new Map<string, { watchedSince: number; transactionIds: string[] }>();
+  private transactions = new Map<string, IndexedTransaction>();
+  private outputs = new Map<string, IndexedOutput>();
+  private indexedAt?: number;
+  private gaps: HistoryGap[] = [];
+  // Indexers following the chain for this store, across SDK instances
+  private indexers = 0;
+  private writing: Promise<void> = Promise.resolve();
+
+  private constructor(readonly network: NetworkType, private filePath?: string) {}
+
+  /**
+   * Open the store of a network, loading its file on first use
+   */
+  static async open(network: NetworkType, directory?: string): Promise<HistoryStore> {
+    const filePath = directory ? join(directory, `${network}.json`) : undefined;
+    const key = filePath || `memory:${network}`;
+    let store = stores.get(key);
+    if (!store) {
+      store = new HistoryStore(network, filePath);
+      await store.load();
+      stores.set(key, store);
+    }
+    return store;
+  }
+
+  isWatched(address: string): boolean {
+    return this.addresses.has(address);
+  }
+
+  getWatchedSince(address: string): number | undefined {
+    return this.addresses.get(address)?.watchedSince;
+  }
+
+  getWatchedAddresses(): string[] {
+    return Array.from(this.addresses.keys());
+  }
+
+  /**
+   * Register an indexer that starts following the chain. When none ran
+   * since the history was last known to be complete, the time in between
+   * is recorded as a gap and returned.
+   */
+  attachIndexer(now: number = Date.now()): HistoryGap | undefined {
+    let gap: HistoryGap | undefined;
+    if (this.indexers === 0 && this.indexedAt !== undefined && this.indexedAt < now && this.addresses.size > 0) {
+      gap = { from: this.indexedAt, to: now };
+      this.gaps.push(gap);
+    }
+    this.indexers++;
+    this.indexedAt = now;
+    return gap;
+  }
+
+  /**
+   * Unregister an indexer that stopped following the chain
+   */
+  detachIndexer(now: number = Date.now()): void {
+    this.indexers = Math.max(0, this.indexers - 1);
+    this.indexedAt = now;
+  }
+
+  /**
+   * Note that an indexer saw the chain advance, so the history is complete
+   * up to now
+   */
+  markIndexed(now: number = Date.now()): void {
+    if (this.indexers > 0) {
+      this.indexedAt = now;
+    }
+  }
+
+  /**
+   * Replace the known unspent outputs of a watched address with its current
+   * UTXOs, after a gap in which spends and receipts were missed
+   */
+  refreshUnspent(address: string, unspent: IndexedOutput[]): void {
+    if (!this.addresses.has(address)) {
+      return;
+    }
+    for (const [outpoint, output] of this.outputs) {
+      if (output.address === address) {
+        this.outputs.delete(outpoint);
+      }
+    }
+    for (const output of unspent) {
+      this.outputs.set(output.outpoint, output);
+    }
+  }
+
+  /**
+   * Start indexing an address. `unspent` are its current UTXOs, so that
+   * spending them later shows up as outgoing.
+   */
+  watch(address: string, unspent: IndexedOutput[]): void {
+    if (this.addresses.has(address)) {
+      return;
+    }
+    this.addresses.set(address, { watchedSince: Date.now(), transactionIds: [] });
+    for (const output of unspent) {
+      this.outputs.set(output.outpoint, output);
+    }
+  }
+
+  /**
+   * Whether a transaction spends or pays a watched address
+   */
+  isRelevant(transaction: ParsedTransaction): boolean {
+    return transaction.inputs.some(key => this.outputs.has(key)) ||
+      transaction.outputs.some(output => this.addresses.has(output.address));
+  }
+
+  /**
+   * Record an accepted transaction. Returns undefined when it is already
+   * recorded or does not touch a watched address.
+   */
+  accept(transaction: ParsedTransaction, acceptingBlockHash: string): IndexedTransaction | undefined {
+    if (this.transactions.has(transaction.transactionId)) {
+      return undefined;
+    }
+
+    const spent = transaction.inputs
+      .map(key => this.outputs.get(key))
+      .filter((output): output is IndexedOutput => output !== undefined);
+    const created = transaction.outputs.filter(output => this.addresses.has(output.address));
+    if (spent.length === 0 && created.length === 0) {
+      return undefined;
+    }
+
+    const indexed: IndexedTransaction = {
+      transactionId: transaction.transactionId,
+      blockHash: transaction.blockHash,
+      acceptingBlockHash,
+      timestamp: transaction.timestamp,
+      spent,
+      created
+    };
+    spent.forEach(output => this.outputs.delete(output.outpoint));
+    created.forEach(output => this.outputs.set(output.outpoint, output));
+    this.transactions.set(indexed.transactionId, indexed);
+    for (const address of new Set([...spent, ...created].map(output => output.address))) {
+      this.addresses.get(address)?.transactionIds.push(indexed.transactionId);
+    }
+    return indexed;
+  }
+
+  /**
+   * Undo the transactions accepted by chain blocks that a reorg removed.
+   * Returns them as parsed transactions so they can be accepted again.
+   */
+  revert(removedChainBlockHashes: Set<string>): ParsedTransaction[] {
+    const reverted = Array.from(this.transactions.values())
+      .filter(transaction => removedChainBlockHashes.has(transaction.acceptingBlockHash))
+      .reverse();
+
+    for (const transaction of reverted) {
+      transaction.created.forEach(output => this.outputs.delete(output.outpoint));
+      transaction.spent.forEach(output => this.outputs.set(output.outpoint, output));
+      this.transactions.delete(transaction.transactionId);
+      for (const entry of this.addresses.values()) {
+        entry.transactionIds = entry.transactionIds.filter(id => id !== transaction.transactionId);
+      }
+    }
+
+    return reverted.map(transaction => ({
+      transactionId: transaction.transactionId,
+      blockHash: transaction.blockHash,
+      timestamp: transaction.timestamp,
+      inputs: transaction.spent.map(output => output.outpoint),
+      outputs: transaction.created
+    }));
+  }
+
+  getTransaction(transactionId: string): IndexedTransaction | undefined {
+    return this.transactions.get(transactionId);
+  }
+
+  /**
+   * History of an address, newest first
+   */
+  query(address: string, query: AddressHistoryQuery = {}): AddressHistoryPage {
+    const { direction, minAmount, maxAmount, since, until, offset = 0, limit = DEFAULT_HISTORY_LIMIT } = query;
+    const watched = this.addresses.get(address);
+
+    const matching = (watched?.transactionIds || [])
+      .map(id => this.toEntry(address, this.transactions.get(id)!))
+      .filter(entry =>
+        (direction === undefined || entry.direction === direction) &&
+        (minAmount === undefined || entry.amount >= minAmount) &&
+        (maxAmount === undefined || entry.amount <= maxAmount) &&
+        (since === undefined || entry.timestamp >= since) &&
+        (until === undefined || entry.timestamp <= until))
+      .reverse();
+
+    return {
+      address,
+      entries: matching.slice(offset, offset + limit),
+      total: matching.length,
+      offset,
+      watchedSince: watched?.watchedSince,
+      gaps: watched ? this.gaps.filter(gap => gap.to > watched.watchedSince) : []
+    };
+  }
+
+  /**
+   * Write the store to its file, after any write still in progress
+   */
+  save(): Promise<void> {
+    if (!this.filePath) {
+      return Promise.resolve();
+    }
+    this.writing = this.writing.catch(() => undefined).then(() => this.writeFile());
+    return this.writing;
+  }
+
+  private toEntry(address: string, transaction: IndexedTransaction): AddressHistoryEntry {
+    const sum = (outputs: IndexedOutput[]) => outputs
+      .filter(output => output.address === address)
+      .reduce((total, output) => total + output.amount, BigInt(0));
+    const received = sum(transaction.created);
+    const sent = sum(transaction.spent);
+
+    return {
+      transactionId: transaction.transactionId,
+      address,
+      direction: received >= sent ? 'in' : 'out',
+      amount: received >= sent ? received - sent : sent - received,
+      received,
+      sent,
+      blockHash: transaction.blockHash,
+      acceptingBlockHash: transaction.acceptingBlockHash,
+      timestamp: transaction.timestamp
+    };
+  }
+
+  /**
+   * Read the history file; a missing file is an empty history
+   */
+  private async load(): Promise<void> {
+    if (!this.filePath) {
+      return;
+    }
+
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw new Error(`Failed to read history ${this.filePath}: ${error}`);
+    }
+
+    let file: HistoryFile;
+    try {
+      file = JSON.parse(content);
+    } catch (error) {
+      throw new Error(`Invalid history ${this.filePath}: ${(error as Error).message}`);
+    }
+    if (file.version !== 1 || file.network !== this.network) {
+      throw new Error(`Unsupported history format in ${this.filePath}`);
+    }
+
+    const toOutput = (output: StoredOutput): IndexedOutput => ({ ...output, amount: BigInt(output.amount) });
+    for (const [address, entry] of Object.entries(file.addresses)) {
+      this.addresses.set(address, entry);
+    }
+    for (const [id, transaction] of Object.entries(file.transactions)) {
+      this.transactions.set(id, {
+        ...transaction,
+        spent: transaction.spent.map(toOutput),
+        created: transaction.created.map(toOutput)
+      });
+    }
+    for (const [outpoint, output] of Object.entries(file.outputs)) {
+      this.outputs.set(outpoint, toOutput({ outpoint, ...output }));
+    }
+    this.indexedAt = file.indexedAt;
+    this.gaps = file.gaps || [];
+  }
+
+  /**
+   * Write the history file atomically
+   */
+  private async writeFile(): Promise<void> {
+    const filePath = this.filePath!;
+    const toStored = (output: IndexedOutput): StoredOutput => ({ ...output, amount: output.amount.toString() });
+    const file: HistoryFile = {
+      version: 1,
+      network: this.network,
+      addresses: Object.fromEntries(this.addresses),
+      transactions: Object.fromEntries(Array.from(this.transactions, ([id, transaction]) => [id, {
+        ...transaction,
+        spent: transaction.spent.map(toStored),
+        created: transaction.created.map(toStored)
+      }])),
+      outputs: Object.fromEntries(Array.from(this.outputs, ([outpoint, output]) => [outpoint, {
+        address: output.address,
+        amount: output.amount.toString()
+      }])),
+      indexedAt: this.indexedAt,
+      gaps: this.gaps
+    };
+
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    try {
+      await fs.mkdir(dirname(filePath), { recursive: true });
+      await fs.writeFile(tempPath, JSON.stringify(file), { mode: 0o600 });
+      await fs.rename(tempPath, filePath);
+    } catch (error) {
+      await fs.rm(tempPath, { force: true });
+      throw new Error(`Failed to write history ${filePath}: ${error}`);
+    }
+  }
+}
@@ -0,0 +1,203 @@
+import { RpcClient } from '../network/RpcClient';
+import {
+  NetworkType,
+  TrackedTransaction,
+  TransactionConfirmation,
+  TransactionState,
+  TransactionStatusEvent
+} from '../types';
+import { Logger } from '../utils/logger';
+import { ConfirmationTracker } from './ConfirmationTracker';
+
+// Oldest transactions are forgotten beyond this
+const MAX_TRACKED_TRANSACTIONS = 1000;
+
+type ConfirmationHint = { acceptingBlockHash?: string; blockHash?: string };
+
+interface TrackedEntry extends TrackedTransaction {
+  /** Chain change count when the transaction was first missing from both chain and mempool */
+  missingSince?: number;
+}
+
+/**
+ * Follows submitted transactions through submitted → in-mempool → accepted
+ * → confirmed, or dropped. Every virtual chain change refreshes the
+ * transactions that are not final yet from the ConfirmationTracker and the
+ * mempool, and `onChange` hears about each change of state.
+ *
+ * A transaction that is neither accepted nor in the mempool only counts as
+ * dropped when it is still missing after a further chain change, since it
+ * briefly is both between leaving the mempool and its acceptance.
+ */
+export class TransactionTracker {
+  private transactions = new Map<string, TrackedEntry>();
+  private chainChanges = 0;
+  private refreshing = false;
+  private refreshAgain = false;
+  private started = false;
+  private log: Logger;
+  private onChainChanged = () => this.handleChainChanged();
+
+  constructor(
+    private rpcClient: RpcClient,
+    private confirmations: ConfirmationTracker,
+    networkType: NetworkType,
+    private requiredConfirmations: number,
+    private onChange: (event: TransactionStatusEvent) => void,
+    private getHint: (transactionId: string) => ConfirmationHint = () => ({})
+  ) {
+    this.log = new Logger('transaction-tracker', { network: networkType });
+  }
+
+  /**
+   * Follow virtual chain changes. The ConfirmationTracker starts first so
+   * that it records the acceptances of a change before this refreshes.
+   */
+  async start(): Promise<void> {
+    if (this.started) {
+      return;
+    }
+    await this.confirmations.start();
+    this.rpcClient.addEventListener('virtual-chain-changed', this.onChainChanged);
+    this.started = true;
+  }
+
+  stop(): void {
+    this.rpcClient.removeEventListener('virtual-chain-changed', this.onChainChanged);
+    this.started = false;
+  }
+
+  /**
+   * Register a transaction that was just submitted and resolve with its state
+   * after a first refresh
+   */
+  async track(transactionId: string): Promise<TrackedTransaction> {
+    let entry = this.transactions.get(transactionId);
+    if (!entry) {
+      const now = Date.now();
+      entry = {
+        transactionId,
+        state: 'submitted',
+        confirmations: 0,
+        requiredConfirmations: this.requiredConfirmations,
+        submittedAt: now,
+        updatedAt: now,
+        transitions: [{ state: 'submitted', at: now }]
+      };
+      this.transactions.set(transactionId, entry);
+      this.evict();
+      this.onChange(this.snapshot(entry));
+    }
+    await this.refresh(entry);
+    return this.snapshot(entry);
+  }
+
+  isTracked(transactionId: string): boolean {
+    return this.transactions.has(transactionId);
+  }
+
+  /**
+   * Refresh a tracked transaction and return its state, or undefined when it
+   * is not tracked
+   */
+  async getStatus(transactionId: string): Promise<TrackedTransaction | undefined> {
+    const entry = this.transactions.get(transactionId);
+    if (!entry) {
+      return undefined;
+    }
+    await this.refresh(entry);
+    return this.snapshot(entry);
+  }
+
+  /**
+   * State of a transaction from its confirmation, as reported for one that
+   * is not tracked
+   */
+  static toState(confirmation: TransactionConfirmation, requiredConfirmations: number): TransactionState {
+    switch (confirmation.status) {
+      case 'accepted':
+        return confirmation.confirmations >= requiredConfirmations ? 'confirmed' : 'accepted';
+      case 'pending':
+        return 'in-mempool';
+      default:
+        return 'dropped';
+    }
+  }
+
+  private handleChainChanged(): void {
+    this.chainChanges++;
+    if (this.refreshing) {
+      this.refreshAgain = true;
+      return;
+    }
+    this.refreshOpen().catch(error => this.log.error('Failed to refresh tracked transactions', { error }));
+  }
+
+  /**
+   * Refresh every transaction that is not final, once more when chain
+   * changes arrived meanwhile
+   */
+  private async refreshOpen(): Promise<void> {
+    this.refreshing = true;
+    try {
+      do {
+        this.refreshAgain = false;
+        const open = Array.from(this.transactions.values())
+          .filter(entry => entry.state !== 'confirmed' && entry.state !== 'dropped');
+        for (const entry of open) {
+          await this.refresh(entry);
+        }
+      } while (this.refreshAgain && this.started);
+    } finally {
+      this.refreshing = false;
+    }
+  }
+
+  private async refresh(entry: TrackedEntry): Promise<void> {
+    let confirmation: TransactionConfirmation;
+    try {
+      confirmation = await this.confirmations.getConfirmation(entry.transactionId, this.getHint(entry.transactionId));
+    } catch (error) {
+      this.log.debug('Could not refresh transaction', { txId: entry.transactionId, error });
+      return;
+    }
+
+    let state = TransactionTracker.toState(confirmation, entry.requiredConfirmations);
+    if (state === 'dropped') {
+      entry.missingSince ??= this.chainChanges;
+      if (this.chainChanges === entry.missingSince) {
+        state = entry.state;
+      }
+    } else {
+      entry.missingSince = undefined;
+    }
+
+    entry.confirmations = confirmation.confirmations;
+    entry.acceptingBlockHash = confirmation.acceptingBlockHash;
+    if (state === entry.state) {
+      return;
+    }
+
+    const previousState = entry.state;
+    const now = Date.now();
+    entry.state = state;
+    entry.updatedAt = now;
+    entry.transitions.push({ state, at: now });
+    this.log.debug('Transaction state changed', { txId: entry.transactionId, from: previousState, to: state });
+    this.onChange({ ...this.snapshot(entry), previousState });
+  }
+
+  private evict(): void {
+    for (const transactionId of this.transactions.keys()) {
+      if (this.transactions.size <= MAX_TRACKED_TRANSACTIONS) {
+        break;
+      }
+      this.transactions.delete(transactionId);
+    }
+  }
+
+  private snapshot(entry: TrackedEntry): TrackedTransaction {
+    const { missingSince, ...tracked } = entry;
+    return { ...tracked, transitions: entry.transitions.map(transition => ({ ...transition })) };
+  }
+}
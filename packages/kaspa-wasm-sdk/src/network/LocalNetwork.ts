@@ -0,0 +1,310 @@
+import { ChildProcess, spawn } from 'child_process';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import * as kaspa from '../../wasm/kaspa';
+import { KaspaSDK } from '../KaspaSDK';
+import { KaspaWallet } from '../wallet/KaspaWallet';
+import { LocalNetworkOptions } from '../types';
+import { Logger } from '../utils/logger';
+import { getWasmNetworkId } from '../utils/network';
+
+const DEFAULT_RPC_PORTS = { simnet: 16510, devnet: 16610 };
+const DEFAULT_START_TIMEOUT_MS = 30000;
+const DEFAULT_COINBASE_MATURITY = 1000;
+const STOP_TIMEOUT_MS = 10000;
+const ACCEPTANCE_TIMEOUT_MS = 30000;
+// Node output kept for error messages
+const OUTPUT_LINES = 50;
+// Blocks mined to the faucet per top-up, and top-ups before giving up
+const TOP_UP_BLOCKS = 10;
+const MAX_TOP_UPS = 20;
+// Left in the faucet on top of a funding amount to pay the fee
+const FEE_RESERVE = BigInt(100000000);
+const MAX_NONCE_ATTEMPTS = 100000000;
+
+const log = new Logger('local-network');
+
+/**
+ * Runs a kaspad simnet or devnet node on this machine for integration tests.
+ * It mines blocks itself, funds wallets from a faucet wallet and removes
+ * everything again on stop().
+ *
+ * Coinbase rewards only go to the faucet address when it is topped up, after
+ * which enough blocks are mined elsewhere for all of them to mature. That
+ * keeps every faucet UTXO spendable for KaspaSDK.sendTransaction().
+ */
+export class LocalNetwork {
+  readonly network: 'simnet' | 'devnet';
+  readonly rpcUrl: string;
+  private binaryPath: string;
+  private args: string[];
+  private startTimeoutMs: number;
+  private coinbaseMaturity: number;
+  private dataDir?: string;
+  private ownsDataDir: boolean = false;
+  private child?: ChildProcess;
+  private exited?: Promise<void>;
+  private output: string[] = [];
+  private rpc?: kaspa.RpcClient;
+  private faucetSdk?: KaspaSDK;
+  private faucetWallet?: KaspaWallet;
+  private sdks: KaspaSDK[] = [];
+
+  constructor(private options: LocalNetworkOptions = {}) {
+    const binaryPath = options.binaryPath || process.env.KASPA_KASPAD_PATH;
+    if (!binaryPath) {
+      throw new Error('No kaspad binary configured. Pass binaryPath or set KASPA_KASPAD_PATH.');
+    }
+    this.binaryPath = binaryPath;
+    this.network = options.network || 'simnet';
+    this.rpcUrl = `ws://127.0.0.1:${options.rpcPort ?? DEFAULT_RPC_PORTS[this.network]}`;
+    this.args = options.args || [];
+    this.startTimeoutMs = options.startTimeoutMs ?? DEFAULT_START_TIMEOUT_MS;
+    this.coinbaseMaturity = options.coinbaseMaturity ?? DEFAULT_COINBASE_MATURITY;
+  }
+
+  /**
+   * Start the node and wait until it serves RPC
+   */
+  async start(): Promise<void> {
+    if (this.child) {
+      throw new Error('Local network is already running');
+    }
+
+    this.ownsDataDir = !this.options.dataDir;
+    this.dataDir = this.options.dataDir || await mkdtemp(join(tmpdir(), `kaspad-${this.network}-`));
+    this.output = [];
+
+    const args = [
+      `--${this.network}`,
+      `--appdir=${this.dataDir}`,
+      `--rpclisten-borsh=${this.rpcUrl.replace('ws://', '')}`,
+      '--utxoindex',
+      '--enable-unsynced-mining',
+      '--nologfiles',
+      '--nodnsseed',
+      '--disable-upnp',
+      ...this.args
+    ];
+    log.info('Starting kaspad', { binary: this.binaryPath, network: this.network, url: this.rpcUrl });
+
+    const child = spawn(this.binaryPath, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+    this.child = child;
+    const collect = (chunk: Buffer) => {
+      this.output.push(...chunk.toString().split('\n').filter(line => line.length > 0));
+      this.output.splice(0, Math.max(0, this.output.length - OUTPUT_LINES));
+    };
+    child.stdout?.on('data', collect);
+    child.stderr?.on('data', collect);
+    // A binary that cannot be spawned only emits 'error'
+    this.exited = new Promise(resolve => {
+      child.once('error', error => {
+        collect(Buffer.from(error.message));
+        this.child = undefined;
+        resolve();
+      });
+      child.once('exit', (code, signal) => {
+        log.info('kaspad exited', { code, signal });
+        this.child = undefined;
+        resolve();
+      });
+    });
+    // Never leave a node behind when the test process ends early
+    process.once('exit', this.killOnExit);
+
+    try {
+      this.rpc = await this.connectRpc();
+
+      this.faucetSdk = new KaspaSDK(this.network);
+      await this.faucetSdk.initialize(this.rpcUrl);
+      this.faucetWallet = this.faucetSdk.createWallet();
+    } catch (error) {
+      await this.stop();
+      throw new Error(`${(error as Error).message}\nkaspad output:\n${this.output.join('\n')}`);
+    }
+  }
+
+  /**
+   * Mine blocks, paying the coinbase rewards to `payAddress`. Without one the
+   * rewards go to an address of the faucet wallet that is never spent from.
+   */
+  async mineBlocks(count: number = 1, payAddress?: string): Promise<void> {
+    const { rpc, wallet } = this.requireRunning();
+    const address = payAddress || wallet.getReceiveAddress(1);
+
+    for (let i = 0; i < count; i++) {
+      const { block } = await rpc.getBlockTemplate({ payAddress: address, extraData: 'kaspa-wasm-sdk' });
+      const nonce = this.solve(block.header);
+      const { report } = await rpc.submitBlock({
+        block: { ...block, header: { ...block.header, nonce } },
+        allowNonDAABlocks: false
+      });
+      if (report.type !== 'success') {
+        throw new Error(`Block rejected: ${report.reason}`);
+      }
+    }
+  }
+
+  /**
+   * Send `amount` sompi from the faucet to `address` and mine it in.
+   * Returns the transaction ID once the output is in the UTXO index.
+   */
+  async fund(address: string, amount: bigint): Promise<string> {
+    const { sdk, wallet } = this.requireRunning();
+    await this.topUp(amount + FEE_RESERVE);
+
+    const result = await sdk.sendTransaction({ from: wallet.getReceiveAddress(0), to: address, amount });
+    await this.mineBlocks(1);
+    await this.waitForOutput(address, result.transactionId);
+    log.info('Funded address', { address, amount: amount.toString(), txId: result.transactionId });
+    return result.transactionId;
+  }
+
+  /**
+   * Faucet address that fund() spends from
+   */
+  getFaucetAddress(): string {
+    return this.requireRunning().wallet.getReceiveAddress(0);
+  }
+
+  /**
+   * New SDK connected to the node. stop() disposes it.
+   */
+  async createSDK(): Promise<KaspaSDK> {
+    this.requireRunning();
+    const sdk = new KaspaSDK(this.network);
+    await sdk.initialize(this.rpcUrl);
+    this.sdks.push(sdk);
+    return sdk;
+  }
+
+  /**
+   * Recent node output, for diagnosing failures
+   */
+  getOutput(): string[] {
+    return [...this.output];
+  }
+
+  /**
+   * Disconnect every SDK, stop the node and remove a temporary data directory
+   */
+  async stop(): Promise<void> {
+    for (const sdk of [...this.sdks, this.faucetSdk]) {
+      await sdk?.dispose().catch(error => log.warn('Failed to dispose SDK', { error }));
+    }
+    this.sdks = [];
+    this.faucetSdk = undefined;
+    this.faucetWallet = undefined;
+
+    if (this.rpc) {
+      await this.rpc.disconnect().catch(() => undefined);
+      this.rpc.free();
+      this.rpc = undefined;
+    }
+
+    const child = this.child;
+    if (child) {
+      child.kill('SIGINT');
+      const timer = setTimeout(() => child.kill('SIGKILL'), STOP_TIMEOUT_MS);
+      await this.exited;
+      clearTimeout(timer);
+    }
+    process.removeListener('exit', this.killOnExit);
+
+    if (this.ownsDataDir && this.dataDir) {
+      await rm(this.dataDir, { recursive: true, force: true });
+      this.dataDir = undefined;
+    }
+  }
+
+  private killOnExit = (): void => {
+    this.child?.kill('SIGKILL');
+  };
+
+  private requireRunning(): { rpc: kaspa.RpcClient; sdk: KaspaSDK; wallet: KaspaWallet } {
+    if (!this.rpc || !this.faucetSdk || !this.faucetWallet) {
+      throw new Error('Local network is not running. Call start() first.');
+    }
+    return { rpc: this.rpc, sdk: this.faucetSdk, wallet: this.faucetWallet };
+  }
+
+  /**
+   * Connect once the node listens, failing early if it exits
+   */
+  private async connectRpc(): Promise<kaspa.RpcClient> {
+    const rpc = new kaspa.RpcClient({
+      url: this.rpcUrl,
+      encoding: kaspa.Encoding.Borsh,
+      networkId: getWasmNetworkId(this.network)
+    });
+    const deadline = Date.now() + this.startTimeoutMs;
+
+    while (true) {
+      if (!this.child) {
+        rpc.free();
+        throw new Error('kaspad exited during startup');
+      }
+      try {
+        await rpc.connect({ strategy: kaspa.ConnectStrategy.Fallback, timeoutDuration: 1000 });
+        await rpc.getServerInfo();
+        return rpc;
+      } catch (error) {
+        await rpc.disconnect().catch(() => undefined);
+        if (Date.now() > deadline) {
+          rpc.free();
+          throw new Error(`kaspad did not serve RPC at ${this.rpcUrl} within ${this.startTimeoutMs}ms: ${(error as Error).message}`);
+        }
+        await new Promise(resolve => setTimeout(resolve, 500));
+      }
+    }
+  }
+
+  private solve(header: kaspa.IRawHeader): bigint {
+    const pow = new kaspa.PoW(header);
+    try {
+      for (let nonce = BigInt(0); nonce < BigInt(MAX_NONCE_ATTEMPTS); nonce++) {
+        const [valid] = pow.checkWork(nonce);
+        if (valid) {
+          return nonce;
+        }
+      }
+    } finally {
+      pow.free();
+    }
+    throw new Error(`No valid nonce found in ${MAX_NONCE_ATTEMPTS} attempts`);
+  }
+
+  /**
+   * Mine to the faucet until it holds `required` sompi of mature coinbase
+   */
+  private async topUp(required: bigint): Promise<void> {
+    const { sdk } = this.requireRunning();
+    const faucet = this.getFaucetAddress();
+
+    for (let attempt = 0; attempt < MAX_TOP_UPS; attempt++) {
+      const { balance } = await sdk.getBalance(faucet);
+      if (balance >= required) {
+        return;
+      }
+      // Rewards are paid by the blocks that merge these, hence the extra block
+      await this.mineBlocks(TOP_UP_BLOCKS, faucet);
+      await this.mineBlocks(this.coinbaseMaturity + 1);
+    }
+    throw new Error(`Faucet could not mine ${required} sompi in ${MAX_TOP_UPS} top-ups`);
+  }
+
+  private async waitForOutput(address: string, transactionId: string): Promise<void> {
+    const { rpc } = this.requireRunning();
+    const deadline = Date.now() + ACCEPTANCE_TIMEOUT_MS;
+
+    while (Date.now() < deadline) {
+      const { entries } = await rpc.getUtxosByAddresses([address]);
+      if (entries.some(entry => entry.outpoint.transactionId === transactionId)) {
+        return;
+      }
+      await new Promise(resolve => setTimeout(resolve, 200));
+    }
+    throw new Error(`Transaction ${transactionId} was not accepted within ${ACCEPTANCE_TIMEOUT_MS}ms`);
+  }
+}
@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { KaspaSDK } from '../KaspaSDK';
+import { KaspaWallet } from '../wallet/KaspaWallet';
+import { MockKaspaNode } from './MockKaspaNode';
+
+const KAS = BigInt(100000000);
+// BIP39 test vectors, so the addresses are the same on every run
+const SENDER_MNEMONIC = `${'abandon '.repeat(11)}about`;
+const RECIPIENT_MNEMONIC = 'legal winner thank year wave sausage worth useful legal winner thank yellow';
+
+describe('MockKaspaNode', () => {
+  let node: MockKaspaNode;
+  let sdk: KaspaSDK;
+  let sender: string;
+  let recipient: string;
+
+  beforeEach(async () => {
+    node = new MockKaspaNode({ network: 'testnet-10' });
+    sdk = new KaspaSDK('testnet-10');
+    await sdk.initialize(node.url);
+    sender = sdk.createWallet({ mnemonic: SENDER_MNEMONIC }).getReceiveAddress(0);
+    recipient = new KaspaWallet({ mnemonic: RECIPIENT_MNEMONIC, networkType: 'testnet-10' }).getReceiveAddress(0);
+  });
+
+  afterEach(async () => {
+    await sdk.dispose();
+    node.close();
+  });
+
+  it('seeds confirmed balances split over UTXOs in a new block', async () => {
+    const genesis = node.getTip();
+    const block = node.seedBalance(sender, BigInt(10) * KAS, { utxos: 3 });
+
+    expect(block.parentHash).toBe(genesis.hash);
+    expect(block.daaScore).toBe(genesis.daaScore + BigInt(1));
+    expect(node.getBalance(sender)).toBe(BigInt(10) * KAS);
+    expect(await sdk.getBalance(sender)).toMatchObject({ balance: BigInt(10) * KAS, utxoCount: 3 });
+  });
+
+  it('rejects a UTXO split it cannot make', () => {
+    expect(() => node.seedBalance(sender, BigInt(2), { utxos: 3 })).toThrow('Cannot split 2 sompi into 3 UTXOs');
+    expect(() => node.seedBalance(sender, KAS, { utxos: 0 })).toThrow('Invalid UTXO count: 0');
+  });
+
+  it('accepts a signed payment and mines it right away', async () => {
+    node.seedBalance(sender, BigInt(10) * KAS);
+    const result = await sdk.sendFromWallet({ to: recipient, amount: BigInt(3) * KAS });
+
+    expect(node.getMempoolTransactionIds()).toEqual([]);
+    expect(node.getTip().transactionIds).toContain(result.transactionId);
+    expect(node.getBalance(recipient)).toBe(BigInt(3) * KAS);
+    expect(node.getBalance(sender)).toBe(BigInt(0));
+  });
+
+  it('keeps transactions in the mempool until a block is mined when auto-mining is off', async () => {
+    node.seedBalance(sender, BigInt(10) * KAS);
+    node.setAutoMine(false);
+    const result = await sdk.sendFromWallet({ to: recipient, amount: KAS });
+
+    expect(node.getMempoolTransactionIds()).toEqual([result.transactionId]);
+    expect(node.getBalance(recipient)).toBe(BigInt(0));
+
+    const block = node.mineBlock();
+    expect(block.transactionIds).toEqual([result.transactionId]);
+    expect(node.getBalance(recipient)).toBe(KAS);
+  });
+
+  it('returns reorged transactions to the mempool and drops reorged funding', async () => {
+    node.seedBalance(sender, BigInt(10) * KAS);
+    const result = await sdk.sendFromWallet({ to: recipient, amount: KAS });
+
+    const [removed] = node.reorg(1);
+    expect(removed.transactionIds).toContain(result.transactionId);
+    expect(node.getMempoolTransactionIds()).toEqual([result.transactionId]);
+    expect(node.getBalance(recipient)).toBe(BigInt(0));
+
+    node.reorg(1);
+    expect(node.getMempoolTransactionIds()).toEqual([]);
+    expect(node.getBalance(sender)).toBe(BigInt(0));
+    expect(() => node.reorg(1)).toThrow('Cannot reorg 1 blocks');
+  });
+});
@@ -0,0 +1,749 @@
+import { createHash } from 'crypto';
+import * as kaspa from '../../wasm/kaspa';
+import { MockBlock, MockKaspaNodeOptions, NetworkType } from '../types';
+import { getWasmNetworkId } from '../utils/network';
+import { RpcTransport, registerRpcTransport } from './RpcTransport';
+
+const COINBASE_SUBNETWORK_ID = '01' + '00'.repeat(19);
+const NATIVE_SUBNETWORK_ID = '00'.repeat(20);
+
+// Default genesis timestamp, 2024-01-01T00:00:00Z
+const DEFAULT_START_TIME = 1704067200000;
+
+let nodeCount = 0;
+
+interface MockUtxo {
+  address?: string;
+  outpoint: kaspa.ITransactionOutpoint;
+  amount: bigint;
+  scriptPublicKey: kaspa.IScriptPublicKey;
+  blockDaaScore: bigint;
+  isCoinbase: boolean;
+}
+
+interface MockTransaction {
+  id: string;
+  transaction: kaspa.ITransaction;
+  /** Outpoint keys of the spent outputs */
+  inputs: string[];
+  outputs: MockUtxo[];
+  fee: bigint;
+  /** Funding from seedBalance(), which disappears in a reorg instead of returning to the mempool */
+  seeded: boolean;
+}
+
+interface MockBlockRecord extends MockBlock {
+  transactions: MockTransaction[];
+  /** UTXOs the block spent and outpoint keys it created, to undo it in a reorg */
+  spent: MockUtxo[];
+  created: string[];
+  isChainBlock: boolean;
+}
+
+interface MockConnection {
+  connected: boolean;
+  listeners: ((event: any) => void)[];
+  utxoAddresses: Set<string>;
+  blocks: boolean;
+  chain?: { includeAcceptedTransactionIds: boolean };
+}
+
+function outpointKey(transactionId: string, index: number): string {
+  return `${transactionId}:${index}`;
+}
+
+/**
+ * Deterministic in-process Kaspa node for tests. It keeps a UTXO set, a
+ * mempool and a selected chain, and serves them through the RPC calls and
+ * notifications RpcClient uses, so KaspaSDK and the MCP tools run end to end
+ * without a network: pass `node.url` as the RPC URL.
+ *
+ * Signatures, mass and fee rates are not validated; inputs must exist, be
+ * unspent and carry a signature script, and outputs may not exceed inputs.
+ */
+export class MockKaspaNode {
+  readonly url: string;
+  readonly network: NetworkType;
+  private autoMine: boolean;
+  private feerate: number;
+  private synced: boolean = true;
+  private reachable: boolean = true;
+  private counter: number = 0;
+  private chain: MockBlockRecord[] = [];
+  private blockIndex: Map<string, MockBlockRecord> = new Map();
+  private utxos: Map<string, MockUtxo> = new Map();
+  private mempool: Map<string, MockTransaction> = new Map();
+  private connections: Set<MockConnection> = new Set();
+  private unregister: () => void;
+
+  constructor(options: MockKaspaNodeOptions = {}) {
+    this.network = options.network || 'testnet-10';
+    this.url = `mock://${options.name || `node-${++nodeCount}`}`;
+    this.autoMine = options.autoMine ?? true;
+    this.feerate = options.feerate ?? 1;
+
+    const daaScore = options.startDaaScore ?? BigInt(1000);
+    const genesis: MockBlockRecord = {
+      hash: this.nextHash('genesis'),
+      daaScore,
+      blueScore: daaScore,
+      timestamp: BigInt(options.startTime ?? DEFAULT_START_TIME),
+      transactionIds: [],
+      transactions: [],
+      spent: [],
+      created: [],
+      isChainBlock: true
+    };
+    this.chain.push(genesis);
+    this.blockIndex.set(genesis.hash, genesis);
+
+    this.unregister = registerRpcTransport(this.url, () => this.createTransport());
+  }
+
+  // ---- Fixtures ----
+
+  /**
+   * Give an address confirmed UTXOs worth `amount` sompi in total, split over
+   * `utxos` outputs, by mining a block with a funding transaction
+   */
+  seedBalance(address: string, amount: bigint, options: { utxos?: number; isCoinbase?: boolean } = {}): MockBlock {
+    const count = options.utxos ?? 1;
+    if (!Number.isInteger(count) || count < 1) {
+      throw new Error(`Invalid UTXO count: ${count}`);
+    }
+    if (amount < BigInt(count)) {
+      throw new Error(`Cannot split ${amount} sompi into ${count} UTXOs`);
+    }
+
+    const id = this.nextHash('funding');
+    const scriptPublicKey = this.toScriptPublicKey(address);
+    const share = amount / BigInt(count);
+    const outputs: MockUtxo[] = [];
+    for (let index = 0; index < count; index++) {
+      const value = index === count - 1 ? amount - share * BigInt(count - 1) : share;
+      outputs.push({
+        address,
+        outpoint: { transactionId: id, index },
+        amount: value,
+        scriptPublicKey,
+        blockDaaScore: BigInt(0),
+        isCoinbase: options.isCoinbase ?? false
+      });
+    }
+
+    return this.addBlock([{
+      id,
+      transaction: {
+        version: 0,
+        inputs: [],
+        outputs: outputs.map(output => ({ value: output.amount, scriptPublicKey: output.scriptPublicKey })),
+        lockTime: BigInt(0),
+        subnetworkId: COINBASE_SUBNETWORK_ID,
+        gas: BigInt(0),
+        payload: ''
+      },
+      inputs: [],
+      outputs,
+      fee: BigInt(0),
+      seeded: true
+    }]);
+  }
+
+  /**
+   * Mine a block with every mempool transaction, in submission order
+   */
+  mineBlock(): MockBlock {
+    const transactions = Array.from(this.mempool.values());
+    this.mempool.clear();
+    return this.addBlock(transactions);
+  }
+
+  /**
+   * Remove the last `depth` blocks from the selected chain. Their transactions
+   * go back to the mempool unless `dropTransactions` is set; seeded funding
+   * is always dropped. Returns the removed blocks, newest first.
+   */
+  reorg(depth: number = 1, options: { dropTransactions?: boolean } = {}): MockBlock[] {
+    if (!Number.isInteger(depth) || depth < 1 || depth >= this.chain.length) {
+      throw new Error(`Cannot reorg ${depth} blocks; the chain has ${this.chain.length - 1} blocks above genesis`);
+    }
+
+    const removed = this.chain.splice(this.chain.length - depth).reverse();
+    const touched = removed.flatMap(block => [
+      ...block.spent.map(utxo => outpointKey(utxo.outpoint.transactionId, utxo.outpoint.index)),
+      ...block.created
+    ]);
+    const before = this.snapshot(touched);
+
+    for (const block of removed) {
+      block.isChainBlock = false;
+      for (const utxo of block.spent) {
+        this.utxos.set(outpointKey(utxo.outpoint.transactionId, utxo.outpoint.index), utxo);
+      }
+      for (const key of block.created) {
+        this.utxos.delete(key);
+      }
+    }
+
+    // Transactions of the removed blocks go before the ones still waiting
+    const waiting = Array.from(this.mempool.values());
+    this.mempool.clear();
+    const returning = options.dropTransactions ? [] : removed.slice().reverse().flatMap(block => block.transactions);
+    for (const tx of [...returning.filter(tx => !tx.seeded), ...waiting]) {
+      if (tx.inputs.every(key => this.resolveInput(key) && !this.isSpentInMempool(key))) {
+        this.mempool.set(tx.id, tx);
+      }
+    }
+
+    this.notifyUtxoChanges(before);
+    this.notify(connection => connection.chain && {
+      type: 'virtual-chain-changed',
+      data: {
+        removedChainBlockHashes: removed.map(block => block.hash),
+        addedChainBlockHashes: [],
+        acceptedTransactionIds: []
+      }
+    });
+    return removed.map(toMockBlock);
+  }
+
+  /**
+   * Close every open connection as if the socket dropped. Clients can
+   * reconnect right away unless the node is made unreachable first.
+   */
+  dropConnections(): void {
+    for (const connection of this.connections) {
+      if (connection.connected) {
+        this.closeConnection(connection);
+      }
+    }
+  }
+
+  /**
+   * Refuse new connections while unreachable
+   */
+  setReachable(reachable: boolean): void {
+    this.reachable = reachable;
+  }
+
+  /**
+   * Report the node as synced or not in getServerInfo and getInfo
+   */
+  setSynced(synced: boolean): void {
+    this.synced = synced;
+  }
+
+  setFeerate(feerate: number): void {
+    this.feerate = feerate;
+  }
+
+  setAutoMine(autoMine: boolean): void {
+    this.autoMine = autoMine;
+  }
+
+  getBalance(address: string): bigint {
+    return this.getAddressUtxos(address).reduce((sum, utxo) => sum + utxo.amount, BigInt(0));
+  }
+
+  getMempoolTransactionIds(): string[] {
+    return Array.from(this.mempool.keys());
+  }
+
+  getTip(): MockBlock {
+    return toMockBlock(this.chain[this.chain.length - 1]);
+  }
+
+  /**
+   * Selected chain from genesis to the tip
+   */
+  getBlocks(): MockBlock[] {
+    return this.chain.map(toMockBlock);
+  }
+
+  /**
+   * Stop serving the URL and drop every connection
+   */
+  close(): void {
+    this.dropConnections();
+    this.connections.clear();
+    this.unregister();
+  }
+
+  // ---- Chain ----
+
+  private get tip(): MockBlockRecord {
+    return this.chain[this.chain.length - 1];
+  }
+
+  private addBlock(transactions: MockTransaction[]): MockBlock {
+    const parent = this.tip;
+    const block: MockBlockRecord = {
+      hash: this.nextHash('block'),
+      parentHash: parent.hash,
+      daaScore: parent.daaScore + BigInt(1),
+      blueScore: parent.blueScore + BigInt(1),
+      timestamp: parent.timestamp + BigInt(1000),
+      transactionIds: transactions.map(tx => tx.id),
+      transactions,
+      spent: [],
+      created: [],
+      isChainBlock: true
+    };
+
+    const before = this.snapshot(transactions.flatMap(tx => [
+      ...tx.inputs,
+      ...tx.outputs.map(output => outpointKey(output.outpoint.transactionId, output.outpoint.index))
+    ]));
+
+    for (const tx of transactions) {
+      for (const key of tx.inputs) {
+        const utxo = this.utxos.get(key);
+        if (utxo) {
+          block.spent.push(utxo);
+          this.utxos.delete(key);
+        }
+      }
+      for (const output of tx.outputs) {
+        const key = outpointKey(output.outpoint.transactionId, output.outpoint.index);
+        this.utxos.set(key, { ...output, blockDaaScore: block.daaScore });
+        block.created.push(key);
+      }
+    }
+
+    this.chain.push(block);
+    this.blockIndex.set(block.hash, block);
+
+    this.notify(connection => connection.blocks && { type: 'block-added', data: { block: this.toBlockObject(block, true) } });
+    this.notify(connection => connection.chain && {
+      type: 'virtual-chain-changed',
+      data: {
+        removedChainBlockHashes: [],
+        addedChainBlockHashes: [block.hash],
+        acceptedTransactionIds: connection.chain.includeAcceptedTransactionIds
+          ? [{ acceptingBlockHash: block.hash, acceptedTransactionIds: block.transactionIds }]
+          : []
+      }
+    });
+    this.notifyUtxoChanges(before);
+    return toMockBlock(block);
+  }
+
+  /**
+   * Check a submitted transaction against the UTXO set and mempool and add it
+   */
+  private acceptTransaction(transaction: kaspa.Transaction): string {
+    const id = transaction.id;
+    if (this.mempool.has(id) || this.chain.some(block => block.transactionIds.includes(id))) {
+      throw new Error(`Rejected transaction ${id}: transaction is already known`);
+    }
+
+    const inputs: string[] = [];
+    let inputAmount = BigInt(0);
+    transaction.inputs.forEach((input, index) => {
+      const outpoint = input.previousOutpoint;
+      const key = outpointKey(outpoint.transactionId, outpoint.index);
+      const utxo = this.resolveInput(key);
+      if (!utxo) {
+        throw new Error(`Rejected transaction ${id}: input ${index} spends missing or spent outpoint ${key}`);
+      }
+      if (this.isSpentInMempool(key) || inputs.includes(key)) {
+        throw new Error(`Rejected transaction ${id}: input ${index} double spends outpoint ${key}`);
+      }
+      if (!input.signatureScript) {
+        throw new Error(`Rejected transaction ${id}: input ${index} is not signed`);
+      }
+      inputs.push(key);
+      inputAmount += utxo.amount;
+    });
+
+    const outputs: MockUtxo[] = transaction.outputs.map((output, index) => {
+      const scriptPublicKey = { version: output.scriptPublicKey.version, script: output.scriptPublicKey.script };
+      return {
+        address: kaspa.addressFromScriptPublicKey(output.scriptPublicKey, getWasmNetworkId(this.network))?.toString(),
+        outpoint: { transactionId: id, index },
+        amount: output.value,
+        scriptPublicKey,
+        blockDaaScore: BigInt(0),
+        isCoinbase: false
+      };
+    });
+    const outputAmount = outputs.reduce((sum, output) => sum + output.amount, BigInt(0));
+    if (outputAmount > inputAmount) {
+      throw new Error(`Rejected transaction ${id}: outputs (${outputAmount}) exceed inputs (${inputAmount})`);
+    }
+
+    this.mempool.set(id, {
+      id,
+      transaction: {
+        version: transaction.version,
+        inputs: transaction.inputs.map(input => ({
+          previousOutpoint: { transactionId: input.previousOutpoint.transactionId, index: input.previousOutpoint.index },
+          signatureScript: input.signatureScript,
+          sequence: input.sequence,
+          sigOpCount: input.sigOpCount
+        })),
+        outputs: outputs.map(output => ({ value: output.amount, scriptPublicKey: output.scriptPublicKey })),
+        lockTime: transaction.lockTime,
+        subnetworkId: transaction.subnetworkId || NATIVE_SUBNETWORK_ID,
+        gas: transaction.gas,
+        payload: transaction.payload,
+        mass: transaction.mass
+      },
+      inputs,
+      outputs,
+      fee: inputAmount - outputAmount,
+      seeded: false
+    });
+
+    if (this.autoMine) {
+      this.mineBlock();
+    }
+    return id;
+  }
+
+  /**
+   * Confirmed UTXO, or output of a mempool transaction
+   */
+  private resolveInput(key: string): MockUtxo | undefined {
+    const utxo = this.utxos.get(key);
+    if (utxo) {
+      return utxo;
+    }
+    for (const tx of this.mempool.values()) {
+      const output = tx.outputs.find(item => outpointKey(item.outpoint.transactionId, item.outpoint.index) === key);
+      if (output) {
+        return output;
+      }
+    }
+    return undefined;
+  }
+
+  private isSpentInMempool(key: string): boolean {
+    return Array.from(this.mempool.values()).some(tx => tx.inputs.includes(key));
+  }
+
+  private getAddressUtxos(address: string): MockUtxo[] {
+    return Array.from(this.utxos.values()).filter(utxo => utxo.address === address);
+  }
+
+  private toScriptPublicKey(address: string): kaspa.IScriptPublicKey {
+    const script = kaspa.payToAddressScript(address);
+    return { version: script.version, script: script.script };
+  }
+
+  private toUtxoEntry(utxo: MockUtxo): kaspa.IUtxoEntry {
+    return {
+      address: utxo.address ? new kaspa.Address(utxo.address) : undefined,
+      outpoint: { ...utxo.outpoint },
+      amount: utxo.amount,
+      scriptPublicKey: { ...utxo.scriptPublicKey },
+      blockDaaScore: utxo.blockDaaScore,
+      isCoinbase: utxo.isCoinbase
+    };
+  }
+
+  private toBlockObject(block: MockBlockRecord, includeTransactions: boolean): kaspa.IBlock {
+    const children = Array.from(this.blockIndex.values()).filter(item => item.parentHash === block.hash);
+    return {
+      header: {
+        hash: block.hash,
+        version: 1,
+        parentsByLevel: block.parentHash ? [[block.parentHash]] : [],
+        hashMerkleRoot: '00'.repeat(32),
+        acceptedIdMerkleRoot: '00'.repeat(32),
+        utxoCommitment: '00'.repeat(32),
+        timestamp: block.timestamp,
+        bits: 0,
+        nonce: BigInt(0),
+        daaScore: block.daaScore,
+        blueWork: block.blueScore,
+        blueScore: block.blueScore,
+        pruningPoint: this.chain[0].hash
+      },
+      transactions: includeTransactions
+        ? block.transactions.map(tx => ({
+          ...tx.transaction,
+          outputs: tx.transaction.outputs.map((output, index) => ({
+            ...output,
+            verboseData: {
+              scriptPublicKeyType: 'pubkey',
+              scriptPublicKeyAddress: tx.outputs[index].address || ''
+            }
+          })),
+          verboseData: {
+            transactionId: tx.id,
+            hash: tx.id,
+            computeMass: tx.transaction.mass ?? BigInt(0),
+            blockHash: block.hash,
+            blockTime: block.timestamp
+          }
+        }))
+        : [],
+      verboseData: {
+        hash: block.hash,
+        difficulty: 1,
+        selectedParentHash: block.parentHash || '',
+        transactionIds: block.transactionIds,
+        isHeaderOnly: false,
+        blueScore: Number(block.blueScore),
+        childrenHashes: children.map(child => child.hash),
+        mergeSetBluesHashes: [],
+        mergeSetRedsHashes: [],
+        isChainBlock: block.isChainBlock
+      }
+    };
+  }
+
+  private snapshot(keys: string[]): Map<string, MockUtxo | undefined> {
+    return new Map(keys.map(key => [key, this.utxos.get(key)]));
+  }
+
+  /**
+   * Send utxos-changed for the difference between a snapshot and now
+   */
+  private notifyUtxoChanges(before: Map<string, MockUtxo | undefined>): void {
+    const added: MockUtxo[] = [];
+    const removed: MockUtxo[] = [];
+    for (const [key, previous] of before) {
+      const current = this.utxos.get(key);
+      if (previous && previous !== current) {
+        removed.push(previous);
+      }
+      if (current && current !== previous) {
+        added.push(current);
+      }
+    }
+
+    this.notify(connection => {
+      const watched = (utxo: MockUtxo) => utxo.address !== undefined && connection.utxoAddresses.has(utxo.address);
+      const data = {
+        added: added.filter(watched).map(utxo => this.toUtxoEntry(utxo)),
+        removed: removed.filter(watched).map(utxo => this.toUtxoEntry(utxo))
+      };
+      return (data.added.length > 0 || data.removed.length > 0) && { type: 'utxos-changed', data };
+    });
+  }
+
+  private nextHash(kind: string): string {
+    return createHash('sha256').update(`${this.url}:${kind}:${this.counter++}`).digest('hex');
+  }
+
+  // ---- Connections ----
+
+  private notify(select: (connection: MockConnection) => { type: string; data: any } | false | undefined): void {
+    for (const connection of this.connections) {
+      const event = connection.connected ? select(connection) : undefined;
+      if (event) {
+        this.emit(connection, event);
+      }
+    }
+  }
+
+  private emit(connection: MockConnection, event: { type: string; data?: any }): void {
+    for (const listener of connection.listeners) {
+      try {
+        listener(event);
+      } catch {
+        // A failing listener must not break the fixture that triggered it
+      }
+    }
+  }
+
+  private closeConnection(connection: MockConnection): void {
+    connection.connected = false;
+    connection.utxoAddresses.clear();
+    connection.blocks = false;
+    connection.chain = undefined;
+    this.emit(connection, { type: 'disconnect' });
+  }
+
+  /**
+   * One client connection, served from the node's state
+   */
+  private createTransport(): RpcTransport {
+    const node = this;
+    const connection: MockConnection = { connected: false, listeners: [], utxoAddresses: new Set(), blocks: false };
+    this.connections.add(connection);
+
+    const ready = async (): Promise<void> => {
+      if (!connection.connected) {
+        throw new Error(`Not connected to ${node.url}`);
+      }
+    };
+    const addresses = (list: (kaspa.Address | string)[]) => list.map(address => address.toString());
+
+    return {
+      get url() {
+        return node.url;
+      },
+      get isConnected() {
+        return connection.connected;
+      },
+      async connect() {
+        if (!node.reachable) {
+          throw new Error(`${node.url} is not reachable`);
+        }
+        if (!node.connections.has(connection)) {
+          throw new Error(`${node.url} is closed`);
+        }
+        connection.connected = true;
+        node.emit(connection, { type: 'connect' });
+      },
+      async disconnect() {
+        if (connection.connected) {
+          node.closeConnection(connection);
+        }
+      },
+      addEventListener(callback) {
+        connection.listeners.push(callback);
+      },
+      free() {
+        connection.listeners = [];
+        node.connections.delete(connection);
+      },
+      async getServerInfo() {
+        await ready();
+        return {
+          rpcApiVersion: [1],
+          serverVersion: 'mock',
+          networkId: getWasmNetworkId(node.network),
+          hasUtxoIndex: true,
+          isSynced: node.synced,
+          virtualDaaScore: node.tip.daaScore
+        };
+      },
+      async getInfo() {
+        await ready();
+        return {
+          p2pId: node.url,
+          mempoolSize: BigInt(node.mempool.size),
+          serverVersion: 'mock',
+          isUtxoIndexed: true,
+          isSynced: node.synced,
+          hasNotifyCommand: true,
+          hasMessageId: true
+        };
+      },
+      async getCurrentNetwork() {
+        await ready();
+        return { network: getWasmNetworkId(node.network).split('-')[0] };
+      },
+      async getFeeEstimate() {
+        await ready();
+        return {
+          estimate: {
+            priorityBucket: { feerate: node.feerate, estimatedSeconds: 1 },
+            normalBuckets: [{ feerate: node.feerate, estimatedSeconds: 10 }],
+            lowBuckets: [{ feerate: node.feerate, estimatedSeconds: 60 }]
+          }
+        };
+      },
+      async getBlockDagInfo() {
+        await ready();
+        const tip = node.tip;
+        return {
+          network: getWasmNetworkId(node.network),
+          blockCount: BigInt(node.blockIndex.size),
+          headerCount: BigInt(node.blockIndex.size),
+          tipHashes: [tip.hash],
+          difficulty: 1,
+          pastMedianTime: tip.timestamp,
+          virtualParentHashes: [tip.hash],
+          pruningPointHash: node.chain[0].hash,
+          virtualDaaScore: tip.daaScore,
+          sink: tip.hash
+        };
+      },
+      async getBalanceByAddress(request) {
+        await ready();
+        return { balance: node.getBalance(request.address.toString()) };
+      },
+      async getBalancesByAddresses(request) {
+        await ready();
+        return {
+          entries: request.map(address => ({ address: new kaspa.Address(address), balance: node.getBalance(address) }))
+        };
+      },
+      async getUtxosByAddresses(request) {
+        await ready();
+        const entries = request.flatMap(address => node.getAddressUtxos(address).map(utxo => node.toUtxoEntry(utxo)));
+        // Plain entries stand in for UtxoEntryReference, as they do in createTransactions()
+        return { entries: entries as unknown as kaspa.UtxoEntryReference[] };
+      },
+      async getBlock(request) {
+        await ready();
+        const block = node.blockIndex.get(request.hash);
+        if (!block) {
+          throw new Error(`Block ${request.hash} not found`);
+        }
+        return { block: node.toBlockObject(block, request.includeTransactions) };
+      },
+      async getSinkBlueScore() {
+        await ready();
+        return { blueScore: node.tip.blueScore };
+      },
+      async getVirtualChainFromBlock(request) {
+        await ready();
+        const index = node.chain.findIndex(block => block.hash === request.startHash);
+        if (index < 0) {
+          throw new Error(`Block ${request.startHash} is not a chain block`);
+        }
+        const added = node.chain.slice(index + 1);
+        return {
+          removedChainBlockHashes: [],
+          addedChainBlockHashes: added.map(block => block.hash),
+          acceptedTransactionIds: request.includeAcceptedTransactionIds
+            ? added.map(block => ({ acceptingBlockHash: block.hash, acceptedTransactionIds: block.transactionIds }))
+            : []
+        };
+      },
+      async getMempoolEntry(request) {
+        await ready();
+        const tx = node.mempool.get(request.transactionId);
+        if (!tx) {
+          throw new Error(`Transaction ${request.transactionId} is not in the mempool`);
+        }
+        return { mempoolEntry: { fee: tx.fee, transaction: tx.transaction, isOrphan: false } };
+      },
+      async submitTransaction(request) {
+        await ready();
+        return { transactionId: node.acceptTransaction(request.transaction) };
+      },
+      async subscribeUtxosChanged(list) {
+        await ready();
+        addresses(list).forEach(address => connection.utxoAddresses.add(address));
+      },
+      async unsubscribeUtxosChanged(list) {
+        await ready();
+        addresses(list).forEach(address => connection.utxoAddresses.delete(address));
+      },
+      async subscribeBlockAdded() {
+        await ready();
+        connection.blocks = true;
+      },
+      async unsubscribeBlockAdded() {
+        await ready();
+        connection.blocks = false;
+      },
+      async subscribeVirtualChainChanged(includeAcceptedTransactionIds) {
+        await ready();
+        connection.chain = { includeAcceptedTransactionIds };
+      },
+      async unsubscribeVirtualChainChanged() {
+        await ready();
+        connection.chain = undefined;
+      }
+    };
+  }
+}
+
+function toMockBlock(block: MockBlockRecord): MockBlock {
+  return {
+    hash: block.hash,
+    parentHash: block.parentHash,
+    daaScore: block.daaScore,
+    blueScore: block.blueScore,
+    timestamp: block.timestamp,
+    transactionIds: [...block.transactionIds]
+  };
+}
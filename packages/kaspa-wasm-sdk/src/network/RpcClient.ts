@@ -1,60 +1,163 @@
 import * as kaspa from '../../wasm/kaspa';
-import { NetworkType, BalanceInfo, UTXOInfo } from '../types';
+import {
+  NetworkType,
+  BalanceInfo,
+  UTXOInfo,
+  EndpointHealth,
+  HealthCheckOptions,
+  ReconnectOptions,
+  RpcConnectionState,
+  RpcConnectionStatus,
+  RpcDisconnectedEvent,
+  RpcReconnectedEvent
+} from '../types';
 import { Configuration } from '../config';
 import { getWasmNetworkType, getWasmNetworkId } from '../utils/network';
+import { Logger } from '../utils/logger';
+import { RpcTransport, createRpcTransport } from './RpcTransport';
+
+const log = new Logger('rpc');
+
+const DEFAULT_RECONNECT: Required<ReconnectOptions> = {
+  enabled: true,
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+  multiplier: 2,
+  maxAttempts: 0
+};
+
+const DEFAULT_HEALTH_CHECK: Required<HealthCheckOptions> = {
+  intervalMs: 30000,
+  maxLatencyMs: 5000
+};
+
+/**
+ * Fail fast instead of letting the WASM client retry in the background;
+ * reconnecting is handled here so subscriptions can be replayed
+ */
+const CONNECT_OPTIONS: kaspa.IConnectOptions = {
+  strategy: kaspa.ConnectStrategy.Fallback
+};
 
 export class RpcClient {
-  private client: kaspa.RpcClient;
-  private networkId: string;
+  private client: RpcTransport;
+  // Unset when an in-process transport (such as MockKaspaNode) serves the endpoint
+  private wasmClient?: kaspa.RpcClient;
+  private networkId: NetworkType;
   private wasmNetworkType: kaspa.NetworkType;
   private isConnected: boolean = false;
   private eventHandlers: Map<string, Set<Function>> = new Map();
-
-  constructor(networkType: NetworkType, url?: string) {
+  private reconnectOptions: Required<ReconnectOptions>;
+  private state: RpcConnectionState = 'disconnected';
+  // Set by disconnect() so the closed connection is not reconnected
+  private closing: boolean = false;
+  private connectedAt?: number;
+  private disconnectedAt?: number;
+  private nextAttemptAt?: number;
+  private reconnectAttempts: number = 0;
+  private reconnects: number = 0;
+  private lastError?: string;
+  private cancelReconnectDelay?: () => void;
+  // Active subscriptions, replayed after a reconnect
+  private utxoSubscriptions: Set<string> = new Set();
+  private blockSubscription: boolean = false;
+  private chainSubscription?: { includeAcceptedTransactionIds: boolean };
+  // Endpoints in failover order, then public nodes from the resolver
+  private endpoints: string[];
+  private resolver?: kaspa.Resolver;
+  private encoding: kaspa.Encoding;
+  private healthCheck: Required<HealthCheckOptions>;
+  private endpointHealth: Map<string, EndpointHealth> = new Map();
+  private healthTimer?: NodeJS.Timeout;
+  private checkingHealth: boolean = false;
+  // Connected to a degraded fallback; kept until a probe finds a healthy endpoint
+  private degraded: boolean = false;
+
+  constructor(
+    networkType: NetworkType,
+    url?: string,
+    reconnect: ReconnectOptions = Configuration.getReconnectOptions(),
+    healthCheck: HealthCheckOptions = Configuration.getHealthCheckOptions()
+  ) {
     this.networkId = networkType;
     this.wasmNetworkType = getWasmNetworkType(networkType);
+    this.reconnectOptions = { ...DEFAULT_RECONNECT, ...reconnect };
+    this.healthCheck = { ...DEFAULT_HEALTH_CHECK, ...healthCheck };
     
     // Get configuration for the network
     const networkConfig = Configuration.getNetworkConfig(networkType);
+    this.encoding = networkConfig.encoding || kaspa.Encoding.Borsh;
+
+    // An explicit URL is the only endpoint; otherwise use the configured list
+    this.endpoints = url ? [url] : Configuration.getNetworkEndpoints(networkType);
+    if (!url && networkConfig.useResolver) {
+      this.resolver = new kaspa.Resolver(networkConfig.resolverUrls ? { urls: networkConfig.resolverUrls } : undefined);
+    }
+    if (this.endpoints.length === 0 && !this.resolver) {
+      throw new Error(`No RPC endpoint configured for ${networkType}`);
+    }
     
     // Use proper WASM network ID format
     const wasmNetworkId = getWasmNetworkId(networkType);
     
-    this.client = new kaspa.RpcClient({
-      url: url || networkConfig.rpcUrl,
-      networkId: wasmNetworkId,
-      encoding: networkConfig.encoding || kaspa.Encoding.Borsh
-    });
+    // A registered in-process endpoint is used on its own, without failover
+    const transport = createRpcTransport(this.endpoints[0]);
+    if (transport) {
+      this.client = transport;
+      this.endpoints = this.endpoints.slice(0, 1);
+      this.resolver?.free();
+      this.resolver = undefined;
+    } else {
+      this.wasmClient = new kaspa.RpcClient({
+        url: this.endpoints[0],
+        networkId: wasmNetworkId,
+        encoding: this.encoding
+      });
+      this.client = this.wasmClient;
+    }
 
     // Set up internal event handling
     this.client.addEventListener((event: any) => {
+      if (event.type === 'disconnect') {
+        this.handleDisconnect();
+      }
       this.handleEvent(event);
     });
   }
 
 
   /**
-   * Connect to RPC server
+   * Connect to the first healthy endpoint. If the connection drops or the
+   * endpoint turns unhealthy later, it is reconnected with exponential
+   * backoff, failing over to the other endpoints, and active subscriptions
+   * are replayed.
    */
   async connect(): Promise<void> {
-    await this.client.connect();
-    this.isConnected = true;
-
-    // Check if node is synced
-    const serverInfo = await this.client.getServerInfo();
-    if (!serverInfo.isSynced) {
-      console.warn('Warning: Node is not fully synced');
+    this.closing = false;
+    this.state = 'connecting';
+    try {
+      await this.connectToBestEndpoint();
+    } catch (error) {
+      this.state = 'disconnected';
+      this.lastError = errorMessage(error);
+      throw error;
     }
+    this.markConnected();
+    this.startHealthChecks();
   }
 
   /**
    * Disconnect from RPC server
    */
   async disconnect(): Promise<void> {
-    if (this.isConnected) {
+    this.closing = true;
+    this.cancelReconnectDelay?.();
+    this.stopHealthChecks();
+    if (this.isConnected || this.state === 'reconnecting') {
       await this.client.disconnect();
-      this.isConnected = false;
     }
+    this.isConnected = false;
+    this.state = 'disconnected';
   }
 
   /**
@@ -64,6 +167,31 @@ export class RpcClient {
     return this.isConnected;
   }
 
+  /**
+   * Get connection health: state, reconnect progress and active subscriptions
+   */
+  getStatus(): RpcConnectionStatus {
+    const toIso = (time?: number) => time !== undefined ? new Date(time).toISOString() : undefined;
+    return {
+      state: this.state,
+      network: this.networkId,
+      url: this.client.url,
+      connectedAt: toIso(this.connectedAt),
+      disconnectedAt: toIso(this.disconnectedAt),
+      nextAttemptAt: toIso(this.nextAttemptAt),
+      reconnectAttempts: this.reconnectAttempts,
+      reconnects: this.reconnects,
+      lastError: this.lastError,
+      degraded: this.degraded,
+      subscriptions: {
+        utxoAddresses: Array.from(this.utxoSubscriptions),
+        blocks: this.blockSubscription,
+        chainChanges: this.chainSubscription
+      },
+      endpoints: Array.from(this.endpointHealth.values())
+    };
+  }
+
   /**
    * Get server info
    */
@@ -140,6 +268,21 @@ export class RpcClient {
     });
   }
 
+  /**
+   * Get the blue score of the sink, the selected tip of the virtual chain
+   */
+  async getSinkBlueScore(): Promise<bigint> {
+    const response = await this.client.getSinkBlueScore();
+    return response.blueScore;
+  }
+
+  /**
+   * Get the chain blocks added after a block, with the transactions they accepted
+   */
+  async getVirtualChainFromBlock(startHash: string): Promise<kaspa.IGetVirtualChainFromBlockResponse> {
+    return this.client.getVirtualChainFromBlock({ startHash, includeAcceptedTransactionIds: true });
+  }
+
   /**
    * Get transaction from mempool
    */
@@ -162,12 +305,37 @@ export class RpcClient {
     return response.transactionId;
   }
 
+  /**
+   * Wait until an output of the given transaction shows up in the UTXO set
+   * of an address, which means the transaction has been accepted
+   */
+  async waitForTransactionOutput(
+    address: string,
+    transactionId: string,
+    timeoutMs: number = 60000,
+    pollIntervalMs: number = 1000
+  ): Promise<kaspa.IUtxoEntry> {
+    const deadline = Date.now() + timeoutMs;
+
+    while (Date.now() < deadline) {
+      const entries = await this.getUTXOs([address]);
+      const entry = entries.find(utxo => utxo.outpoint.transactionId === transactionId);
+      if (entry) {
+        return entry;
+      }
+      await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
+    }
+
+    throw new Error(`Timed out after ${timeoutMs}ms waiting for transaction ${transactionId} to be accepted`);
+  }
+
   /**
    * Subscribe to UTXO changes for addresses
    */
   async subscribeToUTXOs(addresses: string[]): Promise<void> {
     const addressObjects = addresses.map(addr => new kaspa.Address(addr));
     await this.client.subscribeUtxosChanged(addressObjects);
+    addresses.forEach(address => this.utxoSubscriptions.add(address));
   }
 
   /**
@@ -176,6 +344,7 @@ export class RpcClient {
   async unsubscribeFromUTXOs(addresses: string[]): Promise<void> {
     const addressObjects = addresses.map(addr => new kaspa.Address(addr));
     await this.client.unsubscribeUtxosChanged(addressObjects);
+    addresses.forEach(address => this.utxoSubscriptions.delete(address));
   }
 
   /**
@@ -183,6 +352,7 @@ export class RpcClient {
    */
   async subscribeToChainChanges(includeAcceptedTransactionIds: boolean = false): Promise<void> {
     await this.client.subscribeVirtualChainChanged(includeAcceptedTransactionIds);
+    this.chainSubscription = { includeAcceptedTransactionIds };
   }
 
   /**
@@ -190,6 +360,7 @@ export class RpcClient {
    */
   async unsubscribeFromChainChanges(includeAcceptedTransactionIds: boolean = false): Promise<void> {
     await this.client.unsubscribeVirtualChainChanged(includeAcceptedTransactionIds);
+    this.chainSubscription = undefined;
   }
 
   /**
@@ -197,6 +368,7 @@ export class RpcClient {
    */
   async subscribeToBlocks(): Promise<void> {
     await this.client.subscribeBlockAdded();
+    this.blockSubscription = true;
   }
 
   /**
@@ -204,6 +376,7 @@ export class RpcClient {
    */
   async unsubscribeFromBlocks(): Promise<void> {
     await this.client.unsubscribeBlockAdded();
+    this.blockSubscription = false;
   }
 
   /**
@@ -257,13 +430,387 @@ export class RpcClient {
     }
   }
 
+  private markConnected(): void {
+    this.isConnected = true;
+    this.state = 'connected';
+    this.connectedAt = Date.now();
+    this.disconnectedAt = undefined;
+    this.nextAttemptAt = undefined;
+    this.reconnectAttempts = 0;
+  }
+
+  /**
+   * The socket closed without disconnect() being called
+   */
+  private handleDisconnect(): void {
+    // Attempts that fail while reconnecting close the socket too
+    if (this.closing || this.state !== 'connected') {
+      return;
+    }
+
+    this.isConnected = false;
+    this.state = 'disconnected';
+    this.disconnectedAt = Date.now();
+    const willReconnect = this.reconnectOptions.enabled;
+    log.warn('RPC connection lost', { network: this.networkId, url: this.client.url, willReconnect });
+    this.emitEvent<RpcDisconnectedEvent>('rpc:disconnected', { network: this.networkId, url: this.client.url, willReconnect });
+
+    if (willReconnect) {
+      this.reconnect().catch(error => log.error('RPC reconnect failed', { network: this.networkId, error }));
+    }
+  }
+
+  /**
+   * Reconnect with exponential backoff, then replay the active subscriptions
+   */
+  private async reconnect(): Promise<void> {
+    this.state = 'reconnecting';
+    const { maxAttempts } = this.reconnectOptions;
+
+    while (!this.closing) {
+      await this.delayReconnect(this.getBackoffDelay(this.reconnectAttempts));
+      if (this.closing) {
+        return;
+      }
+
+      try {
+        await this.connectToBestEndpoint();
+        await this.replaySubscriptions();
+      } catch (error) {
+        this.reconnectAttempts++;
+        this.lastError = errorMessage(error);
+        log.warn('RPC reconnect attempt failed', { network: this.networkId, attempt: this.reconnectAttempts, error: this.lastError });
+        if (maxAttempts > 0 && this.reconnectAttempts >= maxAttempts) {
+          this.state = 'disconnected';
+          log.error(`Giving up reconnecting after ${this.reconnectAttempts} attempts`, { network: this.networkId });
+          this.emitEvent<RpcDisconnectedEvent>('rpc:disconnected', {
+            network: this.networkId,
+            url: this.client.url,
+            willReconnect: false,
+            error: this.lastError
+          });
+          return;
+        }
+        continue;
+      }
+
+      const event: RpcReconnectedEvent = {
+        network: this.networkId,
+        url: this.client.url,
+        attempts: this.reconnectAttempts + 1,
+        downtimeMs: Date.now() - (this.disconnectedAt ?? Date.now())
+      };
+      this.markConnected();
+      this.reconnects++;
+      log.info('RPC connection restored', { ...event });
+      this.emitEvent('rpc:reconnected', event);
+      return;
+    }
+  }
+
+  /**
+   * Connect to the first healthy endpoint: the listed ones in order, then a
+   * public node from the resolver. When none is healthy, a reachable node on
+   * the right network that is only unsynced or slow is used with a warning.
+   * A node on another network is never used.
+   */
+  private async connectToBestEndpoint(): Promise<void> {
+    if (this.client.isConnected) {
+      await this.client.disconnect().catch(() => undefined);
+    }
+
+    const candidates: { url?: string; source: EndpointHealth['source'] }[] = this.endpoints.map(url => ({ url, source: 'config' as const }));
+    if (this.resolver) {
+      candidates.push({ source: 'resolver' });
+    }
+
+    const failures: string[] = [];
+    let fallback: EndpointHealth | undefined;
+    for (const candidate of candidates) {
+      let url = candidate.url;
+      if (!url) {
+        try {
+          url = await this.resolver!.getUrl(this.encoding, getWasmNetworkId(this.networkId));
+        } catch (error) {
+          failures.push(`resolver: ${errorMessage(error)}`);
+          continue;
+        }
+      }
+
+      const health = await this.probeEndpoint(url, candidate.source);
+      if (health.healthy) {
+        log.info('Connected to RPC endpoint', { network: this.networkId, url, source: health.source, latencyMs: health.latencyMs });
+        this.degraded = false;
+        return;
+      }
+      failures.push(`${url}: ${health.error}`);
+      log.warn('Skipping RPC endpoint', { network: this.networkId, url, reason: health.error });
+      await this.client.disconnect().catch(() => undefined);
+      if (!fallback && this.isExpectedNetwork(health)) {
+        fallback = health;
+      }
+    }
+
+    if (fallback) {
+      const health = await this.probeEndpoint(fallback.url, fallback.source);
+      if (this.isExpectedNetwork(health)) {
+        log.warn('No healthy RPC endpoint, using a degraded one', { network: this.networkId, url: health.url, reason: health.error });
+        this.degraded = true;
+        return;
+      }
+      await this.client.disconnect().catch(() => undefined);
+      failures.push(`${health.url}: ${health.error}`);
+    }
+
+    throw new Error(`No usable RPC endpoint for ${this.networkId}: ${failures.join('; ')}`);
+  }
+
+  /**
+   * Connect the client to an endpoint and check it
+   */
+  private async probeEndpoint(url: string, source: EndpointHealth['source']): Promise<EndpointHealth> {
+    let health: EndpointHealth;
+    try {
+      await this.client.connect({ ...CONNECT_OPTIONS, url });
+      health = await this.checkServer(url, source);
+    } catch (error) {
+      health = { url, source, healthy: false, checkedAt: new Date().toISOString(), error: errorMessage(error) };
+    }
+    this.endpointHealth.set(url, health);
+    return health;
+  }
+
+  /**
+   * Look for a healthy endpoint other than the connected one. Each candidate
+   * is checked with a client of its own, so the live connection stays up.
+   */
+  private async findHealthyAlternative(currentUrl?: string): Promise<EndpointHealth | undefined> {
+    const candidates: { url?: string; source: EndpointHealth['source'] }[] = this.endpoints
+      .filter(url => url !== currentUrl)
+      .map(url => ({ url, source: 'config' as const }));
+    if (this.resolver) {
+      candidates.push({ source: 'resolver' });
+    }
+
+    const networkId = getWasmNetworkId(this.networkId);
+    for (const candidate of candidates) {
+      let url = candidate.url;
+      if (!url) {
+        try {
+          url = await this.resolver!.getUrl(this.encoding, networkId);
+        } catch (error) {
+          log.debug('Resolver found no alternative RPC endpoint', { network: this.networkId, error: errorMessage(error) });
+          continue;
+        }
+        if (url === currentUrl) {
+          continue;
+        }
+      }
+
+      const probe = new kaspa.RpcClient({ url, networkId, encoding: this.encoding });
+      let health: EndpointHealth;
+      try {
+        await probe.connect({ ...CONNECT_OPTIONS, url });
+        health = await this.checkServer(url, candidate.source, probe);
+      } catch (error) {
+        health = { url, source: candidate.source, healthy: false, checkedAt: new Date().toISOString(), error: errorMessage(error) };
+      } finally {
+        await probe.disconnect().catch(() => undefined);
+        probe.free();
+      }
+      this.endpointHealth.set(url, health);
+      if (health.healthy) {
+        return health;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Check a node, by default the one the client is connected to: network,
+   * sync state and latency
+   */
+  private async checkServer(
+    url: string,
+    source: EndpointHealth['source'],
+    client: RpcTransport = this.client
+  ): Promise<EndpointHealth> {
+    const startedAt = Date.now();
+    const info = await client.getServerInfo();
+    const latencyMs = Date.now() - startedAt;
+
+    const expected = getWasmNetworkId(this.networkId);
+    let error: string | undefined;
+    if (info.networkId !== expected) {
+      error = `node is on ${info.networkId}, expected ${expected}`;
+    } else if (!info.isSynced) {
+      error = 'node is not synced';
+    } else if (latencyMs > this.healthCheck.maxLatencyMs) {
+      error = `latency ${latencyMs}ms exceeds ${this.healthCheck.maxLatencyMs}ms`;
+    }
+
+    return {
+      url,
+      source,
+      healthy: !error,
+      checkedAt: new Date().toISOString(),
+      networkId: info.networkId,
+      isSynced: info.isSynced,
+      latencyMs,
+      error
+    };
+  }
+
+  private isExpectedNetwork(health: EndpointHealth): boolean {
+    return health.networkId === getWasmNetworkId(this.networkId);
+  }
+
+  private startHealthChecks(): void {
+    this.stopHealthChecks();
+    if (this.healthCheck.intervalMs > 0) {
+      this.healthTimer = setInterval(() => {
+        this.checkHealth().catch(error => log.warn('RPC health check failed', { network: this.networkId, error }));
+      }, this.healthCheck.intervalMs);
+      this.healthTimer.unref();
+    }
+  }
+
+  private stopHealthChecks(): void {
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = undefined;
+    }
+  }
+
+  /**
+   * Check the connected endpoint and fail over when it is unhealthy and
+   * there is somewhere else to go. A node that still answers on the right
+   * network but is unsynced or slow is only left once another endpoint is
+   * found healthy, so a degraded fallback is not reconnected every round.
+   */
+  private async checkHealth(): Promise<void> {
+    if (this.checkingHealth || this.state !== 'connected') {
+      return;
+    }
+    this.checkingHealth = true;
+    try {
+      const url = this.client.url || this.endpoints[0];
+      const source = this.endpointHealth.get(url)?.source || 'config';
+      let health: EndpointHealth;
+      try {
+        health = await this.checkServer(url, source);
+      } catch (error) {
+        health = { url, source, healthy: false, checkedAt: new Date().toISOString(), error: errorMessage(error) };
+      }
+      this.endpointHealth.set(url, health);
+
+      if (health.healthy) {
+        if (this.degraded) {
+          log.info('RPC endpoint recovered', { network: this.networkId, url });
+        }
+        this.degraded = false;
+        return;
+      }
+      if (this.state !== 'connected' || (this.endpoints.length <= 1 && !this.resolver)) {
+        return;
+      }
+
+      if (this.isExpectedNetwork(health)) {
+        const alternative = await this.findHealthyAlternative(url);
+        if (this.state !== 'connected') {
+          return;
+        }
+        if (!alternative) {
+          if (!this.degraded) {
+            log.warn('RPC endpoint degraded and no healthy alternative, staying connected', { network: this.networkId, url, reason: health.error });
+          }
+          this.degraded = true;
+          return;
+        }
+      }
+      await this.failover(health.error || 'unhealthy');
+    } finally {
+      this.checkingHealth = false;
+    }
+  }
+
+  /**
+   * Leave an unhealthy endpoint and reconnect to the best available one
+   */
+  private async failover(reason: string): Promise<void> {
+    log.warn('RPC endpoint unhealthy, failing over', { network: this.networkId, url: this.client.url, reason });
+    // Not 'connected', so the socket closing below is not handled as a drop
+    this.state = 'reconnecting';
+    this.isConnected = false;
+    this.disconnectedAt = Date.now();
+    this.lastError = reason;
+    this.emitEvent<RpcDisconnectedEvent>('rpc:disconnected', {
+      network: this.networkId,
+      url: this.client.url,
+      willReconnect: true,
+      error: reason
+    });
+    await this.client.disconnect().catch(() => undefined);
+    await this.reconnect();
+  }
+
+  private async replaySubscriptions(): Promise<void> {
+    if (this.utxoSubscriptions.size > 0) {
+      await this.client.subscribeUtxosChanged(Array.from(this.utxoSubscriptions, address => new kaspa.Address(address)));
+    }
+    if (this.blockSubscription) {
+      await this.client.subscribeBlockAdded();
+    }
+    if (this.chainSubscription) {
+      await this.client.subscribeVirtualChainChanged(this.chainSubscription.includeAcceptedTransactionIds);
+    }
+  }
+
+  /**
+   * Delay before the next attempt, with up to 20% jitter so many clients do
+   * not reconnect in lockstep
+   */
+  private getBackoffDelay(attempt: number): number {
+    const { initialDelayMs, maxDelayMs, multiplier } = this.reconnectOptions;
+    const delay = Math.min(initialDelayMs * Math.pow(multiplier, attempt), maxDelayMs);
+    return Math.round(delay * (0.8 + Math.random() * 0.2));
+  }
+
+  /**
+   * Wait before an attempt; disconnect() ends the wait early
+   */
+  private delayReconnect(delayMs: number): Promise<void> {
+    this.nextAttemptAt = Date.now() + delayMs;
+    return new Promise<void>(resolve => {
+      const timer = setTimeout(() => this.cancelReconnectDelay?.(), delayMs);
+      this.cancelReconnectDelay = () => {
+        clearTimeout(timer);
+        this.cancelReconnectDelay = undefined;
+        this.nextAttemptAt = undefined;
+        resolve();
+      };
+    });
+  }
+
+  private emitEvent<T>(type: string, data: T): void {
+    this.handleEvent({ type, data });
+  }
+
   /**
    * Get internal RPC client
    */
-  getInternalClient(): kaspa.RpcClient {
+  getInternalClient(): RpcTransport {
     return this.client;
   }
 
+  /**
+   * Get the WASM RPC client, which UtxoProcessor needs. Undefined when an
+   * in-process transport serves the endpoint.
+   */
+  getWasmClient(): kaspa.RpcClient | undefined {
+    return this.wasmClient;
+  }
+
   /**
    * Get WASM network type
    */
@@ -277,5 +824,10 @@ export class RpcClient {
   async dispose(): Promise<void> {
     await this.disconnect();
     this.client.free();
+    this.resolver?.free();
   }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
 }
\ No newline at end of file
@@ -0,0 +1,58 @@
+import * as kaspa from '../../wasm/kaspa';
+
+/**
+ * The part of the WASM `kaspa.RpcClient` that RpcClient uses. Anything
+ * implementing it, such as MockKaspaNode connections, can stand in for a node.
+ */
+export interface RpcTransport {
+  readonly url: string | undefined;
+  readonly isConnected: boolean;
+  connect(args?: kaspa.IConnectOptions | null): Promise<void>;
+  disconnect(): Promise<void>;
+  // Receives every notification as `{ type, data }`
+  addEventListener(callback: (event: any) => void): void;
+  free(): void;
+  getServerInfo(): Promise<kaspa.IGetServerInfoResponse>;
+  getInfo(): Promise<kaspa.IGetInfoResponse>;
+  getCurrentNetwork(): Promise<kaspa.IGetCurrentNetworkResponse>;
+  getFeeEstimate(): Promise<kaspa.IGetFeeEstimateResponse>;
+  getBlockDagInfo(): Promise<kaspa.IGetBlockDagInfoResponse>;
+  getBalanceByAddress(request: kaspa.IGetBalanceByAddressRequest): Promise<kaspa.IGetBalanceByAddressResponse>;
+  getBalancesByAddresses(request: string[]): Promise<kaspa.IGetBalancesByAddressesResponse>;
+  getUtxosByAddresses(request: string[]): Promise<kaspa.IGetUtxosByAddressesResponse>;
+  getBlock(request: kaspa.IGetBlockRequest): Promise<kaspa.IGetBlockResponse>;
+  getSinkBlueScore(): Promise<kaspa.IGetSinkBlueScoreResponse>;
+  getVirtualChainFromBlock(request: kaspa.IGetVirtualChainFromBlockRequest): Promise<kaspa.IGetVirtualChainFromBlockResponse>;
+  getMempoolEntry(request: kaspa.IGetMempoolEntryRequest): Promise<kaspa.IGetMempoolEntryResponse>;
+  submitTransaction(request: kaspa.ISubmitTransactionRequest): Promise<kaspa.ISubmitTransactionResponse>;
+  subscribeUtxosChanged(addresses: (kaspa.Address | string)[]): Promise<void>;
+  unsubscribeUtxosChanged(addresses: (kaspa.Address | string)[]): Promise<void>;
+  subscribeBlockAdded(): Promise<void>;
+  unsubscribeBlockAdded(): Promise<void>;
+  subscribeVirtualChainChanged(includeAcceptedTransactionIds: boolean): Promise<void>;
+  unsubscribeVirtualChainChanged(includeAcceptedTransactionIds: boolean): Promise<void>;
+}
+
+const transports = new Map<string, () => RpcTransport>();
+
+/**
+ * Serve an RPC URL from an in-process transport instead of a WebSocket.
+ * Every RpcClient created for the URL gets its own transport from `factory`.
+ * Returns a function that removes the registration again.
+ */
+export function registerRpcTransport(url: string, factory: () => RpcTransport): () => void {
+  transports.set(url, factory);
+  return () => {
+    if (transports.get(url) === factory) {
+      transports.delete(url);
+    }
+  };
+}
+
+/**
+ * New transport for a registered URL, if there is one
+ */
+export function createRpcTransport(url: string | undefined): RpcTransport | undefined {
+  const factory = url !== undefined ? transports.get(url) : undefined;
+  return factory?.();
+}
@@ -0,0 +1,288 @@
+import * as kaspa from '../../wasm/kaspa';
+import { NetworkType, PsktDocument, PsktInput, PsktStatus } from '../types';
+import { bytesToHex, hexToBytes } from '../utils';
+
+/**
+ * Prefix of serialized PSKT strings, followed by the hex encoded document
+ */
+const PSKT_PREFIX = 'PSKT';
+
+/**
+ * Builds, signs, combines and finalizes partially signed Kaspa transactions.
+ * A PSKT carries the unsigned transaction with its UTXO entries plus the
+ * signatures collected so far, so it can be completed on another machine.
+ */
+export class PsktBuilder {
+  private networkType: NetworkType;
+
+  constructor(networkType: NetworkType) {
+    this.networkType = networkType;
+  }
+
+  /**
+   * Create an unsigned PSKT from a pending transaction.
+   * `describeInput` can attach multisig or derivation info for an input address.
+   */
+  create(
+    pendingTx: kaspa.PendingTransaction,
+    describeInput?: (address: string) => Partial<PsktInput> | undefined
+  ): PsktDocument {
+    const transaction = pendingTx.transaction;
+
+    // Converting to the WASM PSKT checks that every input carries its UTXO entry
+    const pskt = new kaspa.PSKT(transaction);
+    pskt.free();
+
+    const inputs: PsktInput[] = transaction.inputs.map((input, index) => {
+      const address = input.utxo?.address?.toString();
+      if (!address) {
+        throw new Error(`Input ${index} has no UTXO entry`);
+      }
+      return {
+        minimumSignatures: 1,
+        ...describeInput?.(address),
+        address,
+        partialSigs: {}
+      };
+    });
+
+    return {
+      version: 1,
+      network: this.networkType,
+      role: 'creator',
+      id: transaction.id,
+      transaction: transaction.serializeToSafeJSON(),
+      inputs
+    };
+  }
+
+  /**
+   * Serialize a PSKT to a portable string
+   */
+  serialize(document: PsktDocument): string {
+    return PSKT_PREFIX + bytesToHex(new TextEncoder().encode(JSON.stringify(document)));
+  }
+
+  /**
+   * Parse and validate a serialized PSKT
+   */
+  deserialize(serialized: string): PsktDocument {
+    const value = serialized.trim();
+    if (!value.startsWith(PSKT_PREFIX) || !/^[0-9a-fA-F]*$/.test(value.slice(PSKT_PREFIX.length))) {
+      throw new Error(`Invalid PSKT: expected "${PSKT_PREFIX}" followed by hex data`);
+    }
+
+    let document: PsktDocument;
+    try {
+      document = JSON.parse(new TextDecoder().decode(hexToBytes(value.slice(PSKT_PREFIX.length))));
+    } catch (error) {
+      throw new Error(`Invalid PSKT: ${(error as Error).message}`);
+    }
+
+    if (document.version !== 1) {
+      throw new Error(`Unsupported PSKT version: ${document.version}`);
+    }
+    if (document.network !== this.networkType) {
+      throw new Error(`PSKT is for ${document.network}, but this SDK is on ${this.networkType}`);
+    }
+
+    const transaction = this.getTransaction(document);
+    const inputCount = transaction.inputs.length;
+    const id = transaction.id;
+    transaction.free();
+
+    if (id !== document.id) {
+      throw new Error(`PSKT id ${document.id} does not match its transaction ${id}`);
+    }
+    if (!Array.isArray(document.inputs) || document.inputs.length !== inputCount) {
+      throw new Error(`PSKT describes ${document.inputs?.length ?? 0} inputs but its transaction has ${inputCount}`);
+    }
+    return document;
+  }
+
+  /**
+   * Add signatures for every input the given keys control
+   */
+  sign(document: PsktDocument, privateKeys: kaspa.PrivateKey[]): { document: PsktDocument; signedInputs: number } {
+    if (document.role === 'finalizer') {
+      throw new Error('PSKT is already finalized');
+    }
+
+    const transaction = this.getTransaction(document);
+    let signedInputs = 0;
+
+    try {
+      const inputs = document.inputs.map((input, index) => {
+        const partialSigs = { ...input.partialSigs };
+        let signed = false;
+
+        for (const privateKey of privateKeys) {
+          const publicKey = privateKey.toPublicKey();
+          const publicKeyHex = publicKey.toString();
+          publicKey.free();
+
+          const controls = input.publicKeys
+            ? input.publicKeys.some(key => this.toXOnly(key) === this.toXOnly(publicKeyHex))
+            : privateKey.toAddress(this.networkType).toString() === input.address;
+
+          if (controls && !partialSigs[publicKeyHex]) {
+            partialSigs[publicKeyHex] = kaspa.createInputSignature(transaction, index, privateKey);
+            signed = true;
+          }
+        }
+
+        if (signed) {
+          signedInputs++;
+        }
+        return { ...input, partialSigs };
+      });
+
+      return {
+        document: { ...document, role: 'signer', inputs },
+        signedInputs
+      };
+    } finally {
+      transaction.free();
+    }
+  }
+
+  /**
+   * Merge the signatures of several copies of the same PSKT
+   */
+  combine(documents: PsktDocument[]): PsktDocument {
+    if (documents.length === 0) {
+      throw new Error('No PSKTs to combine');
+    }
+
+    const [first, ...rest] = documents;
+    for (const document of rest) {
+      if (document.id !== first.id) {
+        throw new Error(`Cannot combine PSKTs of different transactions (${first.id} and ${document.id})`);
+      }
+    }
+
+    const inputs = first.inputs.map((input, index) => {
+      const partialSigs = { ...input.partialSigs };
+      let finalScriptSig = input.finalScriptSig;
+
+      for (const document of rest) {
+        const other = document.inputs[index];
+        for (const [publicKey, signature] of Object.entries(other.partialSigs)) {
+          // Schnorr signatures are randomized; keep the first one seen for a key
+          if (!partialSigs[publicKey]) {
+            partialSigs[publicKey] = signature;
+          }
+        }
+        finalScriptSig = finalScriptSig || other.finalScriptSig;
+      }
+      return { ...input, partialSigs, finalScriptSig };
+    });
+
+    return { ...first, role: 'combiner', inputs };
+  }
+
+  /**
+   * Build the signature script of every input from its collected signatures
+   */
+  finalize(document: PsktDocument): PsktDocument {
+    const inputs = document.inputs.map((input, index) => {
+      if (input.finalScriptSig) {
+        return input;
+      }
+
+      const signatures = Object.entries(input.partialSigs);
+      if (signatures.length < input.minimumSignatures) {
+        throw new Error(`Input ${index} has ${signatures.length} of ${input.minimumSignatures} required signatures`);
+      }
+
+      if (!input.redeemScript) {
+        // A single signature is already a complete pay-to-pubkey signature script
+        return { ...input, finalScriptSig: signatures[0][1] };
+      }
+
+      // Multisig signatures must follow the key order of the redeem script
+      const ordered = (input.publicKeys || [])
+        .map(key => signatures.find(([publicKey]) => this.toXOnly(publicKey) === this.toXOnly(key))?.[1])
+        .filter((signature): signature is string => !!signature)
+        .slice(0, input.minimumSignatures);
+
+      if (ordered.length < input.minimumSignatures) {
+        throw new Error(`Input ${index} has signatures from keys outside its redeem script`);
+      }
+
+      return {
+        ...input,
+        finalScriptSig: kaspa.payToScriptHashSignatureScript(input.redeemScript, ordered.join(''))
+      };
+    });
+
+    return { ...document, role: 'finalizer', inputs };
+  }
+
+  /**
+   * Extract the signed transaction from a finalized PSKT
+   */
+  extract(document: PsktDocument): kaspa.Transaction {
+    if (document.role !== 'finalizer' || document.inputs.some(input => !input.finalScriptSig)) {
+      throw new Error('PSKT is not finalized');
+    }
+
+    const transaction = this.getTransaction(document);
+    const inputs = transaction.inputs;
+    inputs.forEach((input, index) => {
+      input.signatureScript = document.inputs[index].finalScriptSig;
+    });
+    transaction.inputs = inputs;
+    return transaction;
+  }
+
+  /**
+   * Summarize the signing state of a PSKT
+   */
+  getStatus(document: PsktDocument): PsktStatus {
+    const transaction = this.getTransaction(document);
+    const inputAmount = transaction.inputs.reduce((sum, input) => sum + (input.utxo?.amount || BigInt(0)), BigInt(0));
+    const outputAmount = transaction.outputs.reduce((sum, output) => sum + output.value, BigInt(0));
+    const outputCount = transaction.outputs.length;
+    transaction.free();
+
+    const signedInputs = document.inputs.filter(input =>
+      !!input.finalScriptSig || Object.keys(input.partialSigs).length >= input.minimumSignatures
+    ).length;
+
+    return {
+      id: document.id,
+      role: document.role,
+      network: document.network,
+      inputCount: document.inputs.length,
+      outputCount,
+      signedInputs,
+      readyToFinalize: signedInputs === document.inputs.length,
+      finalized: document.role === 'finalizer',
+      fee: inputAmount - outputAmount
+    };
+  }
+
+  /**
+   * Rebuild the WASM transaction carried by a PSKT; the caller frees it
+   */
+  getTransaction(document: PsktDocument): kaspa.Transaction {
+    try {
+      return kaspa.Transaction.deserializeFromSafeJSON(document.transaction);
+    } catch (error) {
+      throw new Error(`Invalid PSKT transaction: ${error}`);
+    }
+  }
+
+  /**
+   * Convert a public key to its x-only (Schnorr) hex form
+   */
+  private toXOnly(publicKey: string): string {
+    const key = new kaspa.PublicKey(publicKey);
+    const xOnly = key.toXOnlyPublicKey();
+    const result = xOnly.toString();
+    xOnly.free();
+    key.free();
+    return result;
+  }
+}
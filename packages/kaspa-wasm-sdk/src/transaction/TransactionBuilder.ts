@@ -3,6 +3,12 @@ import { TransactionConfig, FeeEstimate, SendTransactionResult, NetworkType } fr
 import { bytesToHex, hexToBytes } from '../utils';
 import { getWasmNetworkType, getWasmNetworkId } from '../utils/network';
 
+/**
+ * Storage mass parameter of KIP-9: an output of `amount` sompi adds
+ * STORAGE_MASS_PARAMETER / amount to the mass of its transaction
+ */
+const STORAGE_MASS_PARAMETER = BigInt(10) ** BigInt(12);
+
 export class TransactionBuilder {
   private networkId: string;
   private wasmNetworkType: kaspa.NetworkType;
@@ -60,7 +66,8 @@ export class TransactionBuilder {
     outputs: kaspa.IPaymentOutput[],
     changeAddress: string,
     priorityFee: bigint = BigInt(0),
-    payload?: string | Uint8Array
+    payload?: string | Uint8Array,
+    multisig?: { minimumSignatures: number; sigOpCount: number }
   ): Promise<kaspa.PendingTransaction[]> {
     const settings: kaspa.IGeneratorSettingsObject = {
       entries: utxos,
@@ -68,7 +75,10 @@ export class TransactionBuilder {
       changeAddress,
       priorityFee,
       payload: payload ? (typeof payload === 'string' ? bytesToHex(new TextEncoder().encode(payload)) : bytesToHex(payload)) : undefined,
-      networkId: this.wasmNetworkId
+      networkId: this.wasmNetworkId,
+      // Multisig inputs carry several signatures, which affects the mass estimate
+      minimumSignatures: multisig?.minimumSignatures,
+      sigOpCount: multisig?.sigOpCount
     };
 
     // Create transactions (may split into multiple if needed)
@@ -84,6 +94,43 @@ export class TransactionBuilder {
     }
   }
 
+  /**
+   * Build the UTXO entry for the change output of a pending transaction,
+   * so that a follow-up transaction can spend it before it is accepted
+   */
+  getChangeEntry(
+    pendingTx: kaspa.PendingTransaction,
+    changeAddress: string
+  ): kaspa.IUtxoEntry | undefined {
+    if (pendingTx.changeAmount <= BigInt(0)) {
+      return undefined;
+    }
+
+    // The generator always appends the change output last
+    const transaction = pendingTx.transaction;
+    const index = transaction.outputs.length - 1;
+    const output = transaction.outputs[index];
+
+    return {
+      address: new kaspa.Address(changeAddress),
+      outpoint: {
+        transactionId: transaction.id,
+        index
+      },
+      amount: output.value,
+      scriptPublicKey: output.scriptPublicKey,
+      blockDaaScore: BigInt(0),
+      isCoinbase: false
+    };
+  }
+
+  /**
+   * Get a unique key for the outpoint of a UTXO entry
+   */
+  getOutpointKey(entry: kaspa.IUtxoEntry | kaspa.UtxoEntryReference): string {
+    return `${entry.outpoint.transactionId}:${entry.outpoint.index}`;
+  }
+
   /**
    * Estimate transaction fees
    */
@@ -122,6 +169,66 @@ export class TransactionBuilder {
     return fee;
   }
 
+  /**
+   * Get the fee a transaction actually pays (inputs minus outputs).
+   * Requires the UTXO entries of all inputs.
+   */
+  getPaidFee(transaction: kaspa.Transaction): bigint {
+    let inputAmount = BigInt(0);
+    transaction.inputs.forEach((input, index) => {
+      if (!input.utxo) {
+        throw new Error(`Input ${index} has no UTXO entry`);
+      }
+      inputAmount += input.utxo.amount;
+    });
+    const outputAmount = transaction.outputs.reduce((sum, output) => sum + output.value, BigInt(0));
+    return inputAmount - outputAmount;
+  }
+
+  /**
+   * Get the address an output pays to
+   */
+  getOutputAddress(output: kaspa.TransactionOutput): string | undefined {
+    return kaspa.addressFromScriptPublicKey(output.scriptPublicKey, this.wasmNetworkType)?.toString();
+  }
+
+  /**
+   * Estimate the mass of a transaction that pays `outputs` plus change from a
+   * single input: its compute mass plus the storage mass of the payment
+   * outputs. The storage mass credit of the inputs is left out, so the
+   * estimate errs high.
+   */
+  estimatePaymentMass(outputs: kaspa.IPaymentOutput[], changeAddress: string, payload?: string | Uint8Array): bigint {
+    const transactionOutputs = [...outputs, { address: changeAddress, amount: BigInt(1) }].map(output => {
+      const script = this.createPayToAddressScript(output.address);
+      const scriptPublicKey = { version: script.version, script: script.script };
+      script.free();
+      return { value: output.amount, scriptPublicKey };
+    });
+
+    const computeMass = kaspa.calculateTransactionMass(this.wasmNetworkId, {
+      version: 0,
+      inputs: [{
+        previousOutpoint: { transactionId: '00'.repeat(32), index: 0 },
+        // Room for a Schnorr signature and its sighash type
+        signatureScript: '00'.repeat(66),
+        sequence: BigInt(0),
+        sigOpCount: 1
+      }],
+      outputs: transactionOutputs,
+      lockTime: BigInt(0),
+      subnetworkId: '00'.repeat(20),
+      gas: BigInt(0),
+      payload: payload ? (typeof payload === 'string' ? this.stringToHex(payload) : bytesToHex(payload)) : ''
+    });
+
+    const storageMass = outputs.reduce(
+      (sum, output) => sum + (STORAGE_MASS_PARAMETER + output.amount - BigInt(1)) / output.amount,
+      BigInt(0)
+    );
+    return computeMass + storageMass;
+  }
+
   /**
    * Calculate transaction mass
    */
@@ -5,6 +5,10 @@ export type NetworkType = 'mainnet' | 'testnet-10' | 'devnet' | 'simnet';
 export interface WalletConfig {
   mnemonic?: string;
   privateKey?: string;
+  /** Account-level extended public key (kpub/xpub) for a watch-only HD wallet */
+  xpub?: string;
+  /** Public keys (hex) for a watch-only wallet, one address per key */
+  publicKeys?: string[];
   password?: string;
   accountIndex?: number;
   networkType: NetworkType;
@@ -19,6 +23,7 @@ export interface TransactionConfig {
   customTotalFee?: bigint; // If specified, this will be used as the total fee (base + priority)
   payload?: string | Uint8Array;
   changeAddress?: string | kaspa.Address;
+  dryRun?: boolean; // Build and sign, but do not submit
 }
 
 export interface UTXOInfo {
@@ -47,9 +52,672 @@ export interface FeeEstimate {
   totalFee: bigint;
 }
 
-export interface SendTransactionResult {
+export interface ChainedTransactionInfo {
   transactionId: string;
   fee: bigint;
   mass: bigint;
+  isFinal: boolean; // true for the transaction that carries the actual payment
+}
+
+export interface SendTransactionResult {
+  transactionId: string; // ID of the final (payment) transaction
+  fee: bigint; // total fee across all chained transactions
+  mass: bigint;
   changeAmount?: bigint;
-}
\ No newline at end of file
+  transactions?: ChainedTransactionInfo[]; // every submitted transaction, in submission order
+  simulation?: TransactionSimulation; // set for dry runs, where nothing was submitted
+  tracking?: TrackedTransaction; // state of the payment transaction right after submission
+}
+
+/** Emitted as `transaction:broadcast` after a send was submitted */
+export interface BroadcastEvent {
+  network: NetworkType;
+  /** Spending scope of the SDK, e.g. the MCP session id */
+  scope?: string;
+  transactionId: string;
+  transactions: ChainedTransactionInfo[];
+  payments: SpendPayment[];
+  amount: bigint;
+  fee: bigint;
+}
+
+export interface SimulatedInput {
+  transactionId: string;
+  index: number;
+  address?: string;
+  amount: bigint;
+}
+
+export interface SimulatedOutput {
+  address?: string;
+  amount: bigint;
+  isChange: boolean;
+}
+
+export interface SimulatedTransaction extends ChainedTransactionInfo {
+  inputs: SimulatedInput[];
+  outputs: SimulatedOutput[];
+  /** Transaction in safe JSON form, serialized before signing so a dry run cannot be broadcast */
+  serialized: string;
+}
+
+export interface TransactionSimulation {
+  transactions: SimulatedTransaction[];
+  /** What the spending policy would decide, when one is set */
+  policy?: SpendingPolicyDecision;
+}
+
+export interface BatchPaymentOutput {
+  address: string;
+  amount: bigint;
+  memo?: string;
+}
+
+export interface BatchSendOptions {
+  from?: string | kaspa.PrivateKey; // Spend from this address or key only (default: every discovered wallet address)
+  priorityFee?: bigint;
+  payload?: string | Uint8Array;
+  changeAddress?: string | kaspa.Address; // Default: the sender, or the next unused wallet change address
+  maxOutputsPerTransaction?: number; // Cap on top of the mass limit, which always applies
+  gapLimit?: number;
+  rescan?: boolean; // Re-run wallet address discovery before gathering UTXOs (default: true)
+  dryRun?: boolean; // Build and sign every group, but do not submit
+}
+
+export interface BatchPaymentReport extends BatchPaymentOutput {
+  transactionId: string;
+  /** Position of the payment in the outputs passed to sendBatch() */
+  outputIndex: number;
+  /** Position of the output in the transaction that pays it */
+  transactionOutputIndex: number;
+}
+
+export interface BatchSendResult {
+  transactions: ChainedTransactionInfo[];
+  payments: BatchPaymentReport[];
+  inputAddresses: string[];
+  changeAddress: string;
+  totalAmount: bigint;
+  totalFee: bigint;
+  simulation?: TransactionSimulation; // set for dry runs, where nothing was submitted
+}
+
+export interface AddressDerivation {
+  address: string;
+  change: boolean;
+  index: number;
+  derivationPath?: string; // undefined for single private key wallets
+}
+
+export interface DiscoveredAddress extends AddressDerivation {
+  balance: bigint;
+  utxoCount: number;
+}
+
+export interface WalletDiscoveryOptions {
+  gapLimit?: number; // consecutive unused addresses before a chain is considered exhausted
+  batchSize?: number; // addresses queried per getBalances call
+}
+
+export interface WalletDiscoveryResult {
+  receive: DiscoveredAddress[];
+  change: DiscoveredAddress[];
+  totalBalance: bigint;
+  nextReceiveIndex: number;
+  nextReceiveAddress: string;
+  nextChangeIndex: number;
+  nextChangeAddress: string;
+  scannedReceive: number;
+  scannedChange: number;
+}
+
+export interface WalletSendConfig {
+  to: string | kaspa.Address;
+  amount: bigint;
+  priorityFee?: bigint;
+  customTotalFee?: bigint; // If specified, this will be used as the total fee (base + priority)
+  payload?: string | Uint8Array;
+  gapLimit?: number;
+  rescan?: boolean; // Re-run address discovery before gathering UTXOs (default: true)
+  fromAddresses?: string[]; // Spend only from these wallet addresses (default: every discovered address)
+  dryRun?: boolean; // sendFromWallet only: build and sign, but do not submit
+}
+
+export interface WalletSendResult extends SendTransactionResult {
+  inputAddresses: string[];
+  changeAddress: string;
+}
+
+export interface UnsignedTransactionInfo extends ChainedTransactionInfo {
+  /** Pending transaction in safe JSON form, including the UTXO entries needed for signing */
+  serialized: string;
+}
+
+export interface UnsignedTransactionResult {
+  transactions: UnsignedTransactionInfo[];
+  totalFee: bigint;
+  inputAddresses: string[];
+  changeAddress: string;
+}
+
+export interface MultisigWalletConfig {
+  /** Account-level extended public keys of all cosigners */
+  xpubs: string[];
+  /** Number of signatures (M) required to spend */
+  threshold: number;
+  networkType: NetworkType;
+}
+
+export interface MultisigAddressInfo extends AddressDerivation {
+  /** Cosigner public keys in redeem script order */
+  publicKeys: string[];
+}
+
+export interface MultisigSignature {
+  transactionIndex: number;
+  inputIndex: number;
+  /** Public key of the cosigner that produced the signature */
+  publicKey: string;
+  /** Signature as returned by `createInputSignature` */
+  signature: string;
+}
+
+export interface MultisigTransactionInfo extends UnsignedTransactionInfo {
+  inputCount: number;
+}
+
+export interface MultisigSigningStatus {
+  /** Proposal identifier (the id of the final transaction) */
+  proposalId: string;
+  to: string;
+  amount: bigint;
+  totalFee: bigint;
+  changeAddress: string;
+  threshold: number;
+  cosigners: number;
+  /** Cosigner indices that signed every input */
+  signedBy: number[];
+  complete: boolean;
+  submitted: boolean;
+  transactions: MultisigTransactionInfo[];
+  createdAt: number;
+}
+
+export type PsktRole = 'creator' | 'signer' | 'combiner' | 'finalizer';
+
+export interface PsktInput {
+  /** Address of the UTXO spent by this input */
+  address: string;
+  /** Signatures keyed by public key (hex), as produced by `createInputSignature` */
+  partialSigs: Record<string, string>;
+  /** Signatures required to spend (M for multisig, otherwise 1) */
+  minimumSignatures: number;
+  /** Multisig redeem script (hex) for pay-to-script-hash inputs */
+  redeemScript?: string;
+  /** Cosigner public keys in redeem script order */
+  publicKeys?: string[];
+  /** Wallet derivation of the spent address, so HD signers can find their key */
+  derivation?: { change: boolean; index: number };
+  /** Signature script set by the finalizer */
+  finalScriptSig?: string;
+}
+
+export interface PsktDocument {
+  version: 1;
+  network: NetworkType;
+  role: PsktRole;
+  /** Transaction id (does not change when signatures are added) */
+  id: string;
+  /** Transaction in safe JSON form, including the UTXO entries being spent */
+  transaction: string;
+  inputs: PsktInput[];
+}
+
+export interface PsktStatus {
+  id: string;
+  role: PsktRole;
+  network: NetworkType;
+  inputCount: number;
+  outputCount: number;
+  /** Inputs holding enough signatures to be finalized */
+  signedInputs: number;
+  readyToFinalize: boolean;
+  finalized: boolean;
+  fee: bigint;
+}
+
+export interface SerializedPskt {
+  /** Portable PSKT string */
+  serialized: string;
+  status: PsktStatus;
+}
+
+export interface OfflineTransactionBundle {
+  version: 1;
+  network: NetworkType;
+  to: string;
+  /** Payment amount in sompi as a decimal string */
+  amount: string;
+  /** Change address and where the online wallet derived it */
+  change: AddressDerivation;
+  /** Derivations of every wallet address spent by the transactions */
+  inputs: AddressDerivation[];
+  /** Transactions serialized with `TransactionBuilder.serializeToJSON`, including their UTXO entries */
+  transactions: string[];
+  signed: boolean;
+}
+
+export interface OfflineVerificationResult {
+  to: string;
+  amount: bigint;
+  totalFee: bigint;
+  changeAddress: string;
+  changeAmount: bigint;
+  inputAddresses: string[];
+  transactionCount: number;
+}
+
+export interface OfflineVerificationOptions {
+  /** Highest acceptable total fee; defaults to a multiple of the network minimum */
+  maxFee?: bigint;
+}
+
+export type KeystoreSecretKind = 'mnemonic' | 'privateKey';
+
+export interface KeystoreEntry {
+  name: string;
+  kind: KeystoreSecretKind;
+  /** Random salt mixed into the passphrase before key derivation (hex) */
+  salt: string;
+  /** Wallet credentials encrypted with XChaCha20-Poly1305 (base64) */
+  ciphertext: string;
+  createdAt: string;
+}
+
+export interface KeystoreFile {
+  version: 1;
+  entries: Record<string, KeystoreEntry>;
+}
+
+export interface KeystoreEntryInfo {
+  name: string;
+  kind: KeystoreSecretKind;
+  createdAt: string;
+  unlocked: boolean;
+}
+
+export interface KeystoreOptions {
+  /** Lock unlocked entries again after this many milliseconds (0 disables) */
+  relockAfterMs?: number;
+  /** Called whenever an entry is locked, including automatic relocks */
+  onLock?: (name: string) => void;
+}
+
+/**
+ * Limits of a spending policy. Amounts are in KAS.
+ */
+export interface SpendingLimits {
+  /** Highest total a single send may pay out */
+  maxPerTransaction?: string | number;
+  /** Highest total (amounts plus fees) sent in any rolling 24 hours */
+  dailyCap?: string | number;
+  /** Highest total (amounts plus fees) sent in any rolling 7 days */
+  weeklyCap?: string | number;
+  /** Only these recipients may be paid */
+  allowedRecipients?: string[];
+  /** These recipients may never be paid */
+  deniedRecipients?: string[];
+  /** Highest fee as a percentage of the amount sent */
+  maxFeePercent?: number;
+  /** Networks sends are allowed on */
+  allowedNetworks?: NetworkType[];
+  /** Sends above this amount need human approval before they are submitted */
+  approvalThreshold?: string | number;
+}
+
+export interface SpendingPolicyConfig {
+  /** Limits for every send, summed across all scopes */
+  global?: SpendingLimits;
+  /** Additional limits per scope (e.g. MCP session id) */
+  sessions?: Record<string, SpendingLimits>;
+  /**
+   * Limits for every scope without an entry in `sessions`. Their caps count
+   * the sends of all such scopes together, so a new scope starts with no
+   * fresh allowance.
+   */
+  defaultSession?: SpendingLimits;
+  /** File that keeps the spending history across restarts */
+  ledgerPath?: string;
+}
+
+export type SpendingPolicyRule = keyof SpendingLimits;
+
+export interface SpendingPolicyViolation {
+  rule: SpendingPolicyRule;
+  scope: 'global' | 'session';
+  message: string;
+  limit?: string;
+  actual?: string;
+}
+
+export interface SpendPayment {
+  address: string;
+  amount: bigint;
+}
+
+export interface SpendRequest {
+  /** Scope whose session limits apply */
+  scope?: string;
+  network: NetworkType;
+  payments: SpendPayment[];
+  /** Total fee, when known */
+  fee?: bigint;
+  /** A human approved this send, so the approval threshold does not apply */
+  approved?: boolean;
+}
+
+export interface SpendingPolicyDecision {
+  allowed: boolean;
+  violations: SpendingPolicyViolation[];
+}
+
+export interface SpendRecord {
+  timestamp: number;
+  scope?: string;
+  network: NetworkType;
+  /** Amount plus fee in sompi, as a decimal string */
+  total: string;
+  transactionId?: string;
+  /** Every submitted transaction of a chained send, in order */
+  transactionIds?: string[];
+}
+
+/**
+ * Backoff for reconnecting a dropped RPC connection
+ */
+export interface ReconnectOptions {
+  /** Reconnect after the connection drops (default: true) */
+  enabled?: boolean;
+  /** Delay before the first attempt (default: 1000) */
+  initialDelayMs?: number;
+  /** Longest delay between attempts (default: 30000) */
+  maxDelayMs?: number;
+  /** Factor the delay grows by after each failed attempt (default: 2) */
+  multiplier?: number;
+  /** Give up after this many failed attempts (default: 0, never give up) */
+  maxAttempts?: number;
+}
+
+/**
+ * Health checks used to pick an endpoint and to fail over from it
+ */
+export interface HealthCheckOptions {
+  /** How often the connected endpoint is checked, in ms (default: 30000, 0 disables) */
+  intervalMs?: number;
+  /** Endpoints answering slower than this are only used when nothing better is available (default: 5000) */
+  maxLatencyMs?: number;
+}
+
+export interface EndpointHealth {
+  url: string;
+  /** Listed in the configuration, or discovered through the public-node Resolver */
+  source: 'config' | 'resolver';
+  /** Connected, on the expected network, synced and fast enough */
+  healthy: boolean;
+  /** ISO timestamp */
+  checkedAt: string;
+  networkId?: string;
+  isSynced?: boolean;
+  latencyMs?: number;
+  error?: string;
+}
+
+export type RpcConnectionState = 'connecting' | 'connected' | 'reconnecting' | 'disconnected';
+
+export interface RpcSubscriptions {
+  utxoAddresses: string[];
+  blocks: boolean;
+  /** Set when subscribed to virtual chain changes */
+  chainChanges?: { includeAcceptedTransactionIds: boolean };
+}
+
+export interface RpcConnectionStatus {
+  state: RpcConnectionState;
+  network: NetworkType;
+  url?: string;
+  /** ISO timestamps */
+  connectedAt?: string;
+  disconnectedAt?: string;
+  nextAttemptAt?: string;
+  /** Failed attempts since the connection dropped */
+  reconnectAttempts: number;
+  /** Successful reconnections since connect() */
+  reconnects: number;
+  lastError?: string;
+  /** Connected to an unsynced or slow node because no healthy one was reachable */
+  degraded: boolean;
+  subscriptions: RpcSubscriptions;
+  /** Last health check of every endpoint tried, in failover order */
+  endpoints: EndpointHealth[];
+}
+
+/** Emitted as `rpc:disconnected` when the connection drops or reconnecting gives up */
+export interface RpcDisconnectedEvent {
+  network: NetworkType;
+  url?: string;
+  willReconnect: boolean;
+  error?: string;
+}
+
+/** Emitted as `rpc:reconnected` once the connection is back and subscriptions are replayed */
+export interface RpcReconnectedEvent {
+  network: NetworkType;
+  url?: string;
+  attempts: number;
+  downtimeMs: number;
+}
+
+export type LogLevel = 'off' | 'error' | 'warn' | 'info' | 'debug' | 'trace';
+
+export type LogFormat = 'pretty' | 'json';
+
+/** Structured fields attached to a log record, e.g. session, tool, txId */
+export type LogFields = Record<string, unknown>;
+
+export interface LogRecord {
+  timestamp: string;
+  level: Exclude<LogLevel, 'off'>;
+  /** Name of the component that logged the record */
+  logger: string;
+  /** Message and fields are already redacted */
+  message: string;
+  fields: LogFields;
+}
+
+export type LogSink = (record: LogRecord) => void;
+
+export interface LoggerOptions {
+  level?: LogLevel;
+  format?: LogFormat;
+  /** Write records to stderr (default: true) */
+  console?: boolean;
+  /** Known secrets to redact from every record, e.g. the configured mnemonic */
+  secrets?: () => Iterable<string | undefined>;
+}
+
+export interface MockKaspaNodeOptions {
+  /** Network the node reports (default: testnet-10) */
+  network?: NetworkType;
+  /** Endpoint URL becomes `mock://<name>` (default: a unique name) */
+  name?: string;
+  /** Mine every accepted transaction into its own block right away (default: true) */
+  autoMine?: boolean;
+  /** Feerate in sompi per gram returned by getFeeEstimate (default: 1) */
+  feerate?: number;
+  /** DAA score of the genesis block (default: 1000) */
+  startDaaScore?: bigint;
+  /** Timestamp of the genesis block in ms; blocks follow one second apart (default: 2024-01-01) */
+  startTime?: number;
+}
+
+/** A block mined by MockKaspaNode */
+export interface MockBlock {
+  hash: string;
+  parentHash?: string;
+  daaScore: bigint;
+  blueScore: bigint;
+  /** ms since the epoch */
+  timestamp: bigint;
+  transactionIds: string[];
+}
+
+export interface LocalNetworkOptions {
+  /** Path to the kaspad binary (default: KASPA_KASPAD_PATH) */
+  binaryPath?: string;
+  /** Local network to run (default: simnet) */
+  network?: 'simnet' | 'devnet';
+  /** Node data directory (default: a temporary directory removed by stop()) */
+  dataDir?: string;
+  /** Port for wRPC Borsh connections on 127.0.0.1 (default: 16510 for simnet, 16610 for devnet) */
+  rpcPort?: number;
+  /** Extra kaspad arguments */
+  args?: string[];
+  /** How long start() waits for the node to accept RPC connections (default: 30000) */
+  startTimeoutMs?: number;
+  /** Blocks a coinbase output needs before it can be spent (default: 1000) */
+  coinbaseMaturity?: number;
+}
+
+/** An output of a watched address, keyed by `<transactionId>:<index>` */
+export interface IndexedOutput {
+  outpoint: string;
+  address: string;
+  amount: bigint;
+}
+
+/** A transaction the chain indexer saw accepted, as far as it touches watched addresses */
+export interface IndexedTransaction {
+  transactionId: string;
+  /** Block that contains the transaction */
+  blockHash: string;
+  /** Chain block that accepted it */
+  acceptingBlockHash: string;
+  /** Block time in ms */
+  timestamp: number;
+  /** Outputs of watched addresses it spent */
+  spent: IndexedOutput[];
+  /** Outputs it created for watched addresses */
+  created: IndexedOutput[];
+}
+
+/** One transaction in the history of an address */
+export interface AddressHistoryEntry {
+  transactionId: string;
+  address: string;
+  /** `in` when the address gained funds, `out` when it lost them (the fee included) */
+  direction: 'in' | 'out';
+  /** Net change of the address in sompi, always positive */
+  amount: bigint;
+  received: bigint;
+  sent: bigint;
+  blockHash: string;
+  acceptingBlockHash: string;
+  /** Block time in ms */
+  timestamp: number;
+}
+
+export interface AddressHistoryQuery {
+  direction?: 'in' | 'out';
+  /** Bounds on the net amount in sompi */
+  minAmount?: bigint;
+  maxAmount?: bigint;
+  /** Bounds on the block time in ms */
+  since?: number;
+  until?: number;
+  /** Matching entries to skip, newest first (default: 0) */
+  offset?: number;
+  /** Entries to return (default: 50) */
+  limit?: number;
+}
+
+export interface AddressHistoryPage {
+  address: string;
+  /** Newest first */
+  entries: AddressHistoryEntry[];
+  /** Entries matching the filters, across all pages */
+  total: number;
+  offset: number;
+  /** When indexing of the address started (ms); older transactions are missing */
+  watchedSince?: number;
+  /** Periods since watchedSince in which no indexer ran; transactions accepted then are missing */
+  gaps: HistoryGap[];
+}
+
+/** A period in which no indexer followed the chain */
+export interface HistoryGap {
+  /** Last time the history was known to be complete (ms) */
+  from: number;
+  /** When indexing resumed (ms) */
+  to: number;
+}
+
+/**
+ * Where a transaction stands: accepted by a chain block, waiting in the
+ * mempool, or neither
+ */
+export type ConfirmationStatus = 'accepted' | 'pending' | 'dropped';
+
+export interface TransactionConfirmation {
+  transactionId: string;
+  status: ConfirmationStatus;
+  /** Blue score of the sink minus that of the accepting chain block; 0 unless accepted */
+  confirmations: number;
+  acceptingBlockHash?: string;
+  acceptingBlueScore?: bigint;
+  sinkBlueScore?: bigint;
+  /** Set by waitForConfirmation when the wait ended before enough confirmations */
+  timedOut?: boolean;
+}
+
+/**
+ * Lifecycle of a submitted transaction. `confirmed` means it has at least
+ * the required confirmations; `dropped` that it left the mempool without
+ * being accepted.
+ */
+export type TransactionState = 'submitted' | 'in-mempool' | 'accepted' | 'confirmed' | 'dropped';
+
+export interface TrackedTransaction {
+  transactionId: string;
+  state: TransactionState;
+  confirmations: number;
+  /** Confirmations after which the transaction counts as confirmed */
+  requiredConfirmations: number;
+  acceptingBlockHash?: string;
+  /** When this SDK submitted it (ms); unset for transactions it did not submit */
+  submittedAt?: number;
+  updatedAt: number;
+  /** Every state the transaction went through, oldest first */
+  transitions: { state: TransactionState; at: number }[];
+}
+
+/** Emitted as `transaction:status` when a tracked transaction changes state */
+export interface TransactionStatusEvent extends TrackedTransaction {
+  /** Unset for the first event after submission */
+  previousState?: TransactionState;
+}
+
+/** State of the connected node and the DAG it follows */
+export interface NetworkInfo {
+  network: NetworkType;
+  serverVersion: string;
+  isSynced: boolean;
+  hasUtxoIndex: boolean;
+  virtualDaaScore: bigint;
+  sinkBlueScore: bigint;
+  sink: string;
+  blockCount: bigint;
+  headerCount: bigint;
+  difficulty: number;
+  pastMedianTime: bigint;
+  mempoolSize: bigint;
+}
@@ -0,0 +1,190 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { LogFields, LogFormat, LoggerOptions, LogLevel, LogRecord, LogSink } from '../types';
+import { redactSecrets, REDACTED } from './redaction';
+
+const LEVEL_ORDER: Record<LogLevel, number> = { off: 0, error: 1, warn: 2, info: 3, debug: 4, trace: 5 };
+
+/**
+ * Field names whose values are always replaced, whatever they contain
+ */
+const SENSITIVE_FIELD_PATTERN = /^(mnemonic|privateKeys?|xprv|seed|passphrase|password|secret)$/i;
+
+function parseLevel(value: string | undefined): LogLevel | undefined {
+  return value !== undefined && value in LEVEL_ORDER ? value as LogLevel : undefined;
+}
+
+const settings: Required<Omit<LoggerOptions, 'secrets'>> & Pick<LoggerOptions, 'secrets'> = {
+  level: parseLevel(process.env.KASPA_LOG_LEVEL) || 'info',
+  format: process.env.KASPA_LOG_FORMAT === 'json' ? 'json' : 'pretty',
+  console: true,
+  secrets: undefined
+};
+
+const sinks = new Set<LogSink>();
+const context = new AsyncLocalStorage<LogFields>();
+
+/**
+ * Change the level, output format or redaction of every logger
+ */
+export function configureLogger(options: LoggerOptions): void {
+  if (options.level !== undefined) {
+    if (!parseLevel(options.level)) {
+      throw new Error(`Invalid log level: "${options.level}"`);
+    }
+    settings.level = options.level;
+  }
+  if (options.format !== undefined) {
+    if (options.format !== 'json' && options.format !== 'pretty') {
+      throw new Error(`Invalid log format: "${options.format}"`);
+    }
+    settings.format = options.format;
+  }
+  if (options.console !== undefined) {
+    settings.console = options.console;
+  }
+  if (options.secrets !== undefined) {
+    settings.secrets = options.secrets;
+  }
+}
+
+export function getLogLevel(): LogLevel {
+  return settings.level;
+}
+
+/**
+ * Receive every record that passes the log level, after redaction.
+ * Returns a function that removes the sink again.
+ */
+export function addLogSink(sink: LogSink): () => void {
+  sinks.add(sink);
+  return () => {
+    sinks.delete(sink);
+  };
+}
+
+/**
+ * Run `fn` with fields that are added to every record logged inside it,
+ * including from async work it starts
+ */
+export function withLogContext<T>(fields: LogFields, fn: () => T): T {
+  return context.run({ ...context.getStore(), ...fields }, fn);
+}
+
+/**
+ * Leveled logger with structured fields. Output goes to stderr (stdout may
+ * carry a protocol such as MCP stdio) as pretty text or JSON lines, and
+ * secrets are redacted from messages and fields before any output or sink.
+ */
+export class Logger {
+  constructor(private name: string = 'kaspa', private fields: LogFields = {}) {}
+
+  /**
+   * Logger that adds `fields` to every record
+   */
+  child(fields: LogFields): Logger {
+    return new Logger(this.name, { ...this.fields, ...fields });
+  }
+
+  isEnabled(level: LogLevel): boolean {
+    return level !== 'off' && LEVEL_ORDER[level] <= LEVEL_ORDER[settings.level];
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.log('error', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.log('warn', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.log('info', message, fields);
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.log('debug', message, fields);
+  }
+
+  trace(message: string, fields?: LogFields): void {
+    this.log('trace', message, fields);
+  }
+
+  private log(level: LogRecord['level'], message: string, fields: LogFields = {}): void {
+    if (!this.isEnabled(level)) {
+      return;
+    }
+
+    const secrets = settings.secrets ? Array.from(settings.secrets()) : [];
+    const merged: LogFields = { ...context.getStore(), ...this.fields, ...fields };
+    const record: LogRecord = {
+      timestamp: new Date().toISOString(),
+      level,
+      logger: this.name,
+      message: redactSecrets(message, secrets),
+      fields: {}
+    };
+    for (const [key, value] of Object.entries(merged)) {
+      if (value !== undefined) {
+        record.fields[key] = SENSITIVE_FIELD_PATTERN.test(key) ? REDACTED : toLogValue(value, secrets);
+      }
+    }
+
+    if (settings.console) {
+      process.stderr.write(formatRecord(record, settings.format) + '\n');
+    }
+    for (const sink of sinks) {
+      try {
+        sink(record);
+      } catch {
+        // A failing sink must not break the code that logged
+      }
+    }
+  }
+}
+
+/**
+ * Redacted, JSON-safe copy of a field value
+ */
+function toLogValue(value: unknown, secrets: (string | undefined)[]): unknown {
+  if (value instanceof Error) {
+    return redactSecrets(value.message, secrets);
+  }
+  if (typeof value === 'string') {
+    return redactSecrets(value, secrets);
+  }
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (value === null || typeof value === 'number' || typeof value === 'boolean') {
+    return value;
+  }
+  try {
+    const json = JSON.stringify(value, (key, item) => {
+      if (key && SENSITIVE_FIELD_PATTERN.test(key)) {
+        return REDACTED;
+      }
+      return typeof item === 'bigint' ? item.toString() : item;
+    });
+    return json === undefined ? String(value) : JSON.parse(redactSecrets(json, secrets));
+  } catch {
+    return redactSecrets(String(value), secrets);
+  }
+}
+
+function formatRecord(record: LogRecord, format: LogFormat): string {
+  if (format === 'json') {
+    return JSON.stringify({
+      ...record.fields,
+      timestamp: record.timestamp,
+      level: record.level,
+      logger: record.logger,
+      message: record.message
+    });
+  }
+
+  const fields = Object.entries(record.fields).map(([key, value]) => {
+    const text = typeof value === 'string' ? value : JSON.stringify(value);
+    return `${key}=${/\s/.test(text) ? JSON.stringify(text) : text}`;
+  });
+  return [record.timestamp, record.level.toUpperCase().padEnd(5), `[${record.logger}]`, record.message, ...fields].join(' ');
+}
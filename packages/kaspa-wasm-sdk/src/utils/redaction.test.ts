@@ -0,0 +1,34 @@
+import { describe, expect, it } from '@jest/globals';
+import { REDACTED, redactSecrets } from './redaction';
+
+// The standard BIP39 test vector: eleven times "abandon", then "about"
+const MNEMONIC = `${'abandon '.repeat(11)}about`;
+const XPRV = `kprv${'5'.repeat(107)}`;
+
+describe('redactSecrets', () => {
+  it('replaces every occurrence of a known secret', () => {
+    const secret = 'deadbeefcafebabe';
+    expect(redactSecrets(`key ${secret} and again ${secret}`, [secret])).toBe(`key ${REDACTED} and again ${REDACTED}`);
+  });
+
+  it('replaces the longest secret first', () => {
+    expect(redactSecrets('secret-value-long', ['secret-value', 'secret-value-long'])).toBe(REDACTED);
+  });
+
+  it('ignores empty and very short secrets', () => {
+    expect(redactSecrets('a short text', ['', undefined, 'short'])).toBe('a short text');
+  });
+
+  it('replaces extended private keys without knowing them', () => {
+    expect(redactSecrets(`root: ${XPRV}.`)).toBe(`root: ${REDACTED}.`);
+  });
+
+  it('replaces valid mnemonic phrases inside longer text', () => {
+    expect(redactSecrets(`words: ${MNEMONIC} then more`)).toBe(`words: ${REDACTED} then more`);
+  });
+
+  it('keeps ordinary runs of words', () => {
+    const text = 'the quick brown fox jumps over the lazy dog and keeps on running far away';
+    expect(redactSecrets(text)).toBe(text);
+  });
+});
@@ -0,0 +1,73 @@
+import * as kaspa from '../../wasm/kaspa';
+
+/**
+ * Replacement text for redacted secrets
+ */
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Extended private keys (xprv, kprv, ktrv, tprv) in base58
+ */
+const EXTENDED_PRIVATE_KEY_PATTERN = /\b(?:xprv|kprv|ktrv|tprv)[1-9A-HJ-NP-Za-km-z]{90,}\b/g;
+
+/**
+ * Runs of lowercase words long enough to be a mnemonic phrase
+ */
+const WORD_RUN_PATTERN = /\b[a-z]+(?:\s+[a-z]+){11,}\b/g;
+
+/**
+ * Valid BIP39 phrase lengths
+ */
+const MNEMONIC_WORD_COUNTS = [24, 21, 18, 15, 12];
+
+/**
+ * Replace secrets in a text: every known secret, extended private keys and
+ * any run of words that forms a valid mnemonic phrase
+ */
+export function redactSecrets(text: string, secrets: Iterable<string | undefined> = []): string {
+  let result = text;
+
+  // Longest first, so a secret containing another is replaced whole
+  const known = Array.from(secrets)
+    .filter((secret): secret is string => !!secret && secret.length >= 8)
+    .sort((a, b) => b.length - a.length);
+  for (const secret of known) {
+    result = result.split(secret).join(REDACTED);
+  }
+
+  result = result.replace(EXTENDED_PRIVATE_KEY_PATTERN, REDACTED);
+  return result.replace(WORD_RUN_PATTERN, run => redactMnemonics(run));
+}
+
+/**
+ * Redact every valid mnemonic phrase inside a run of words
+ */
+function redactMnemonics(run: string): string {
+  const words = run.split(/\s+/);
+  const output: string[] = [];
+  let found = false;
+
+  for (let i = 0; i < words.length;) {
+    const count = MNEMONIC_WORD_COUNTS.find(length =>
+      i + length <= words.length && isMnemonic(words.slice(i, i + length).join(' '))
+    );
+    if (count) {
+      output.push(REDACTED);
+      found = true;
+      i += count;
+    } else {
+      output.push(words[i]);
+      i++;
+    }
+  }
+
+  return found ? output.join(' ') : run;
+}
+
+function isMnemonic(phrase: string): boolean {
+  try {
+    return kaspa.Mnemonic.validate(phrase);
+  } catch {
+    return false;
+  }
+}
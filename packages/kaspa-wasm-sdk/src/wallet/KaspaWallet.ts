@@ -1,14 +1,39 @@
 import * as kaspa from '../../wasm/kaspa';
-import { WalletConfig, NetworkType } from '../types';
+import {
+  WalletConfig,
+  NetworkType,
+  AddressDerivation,
+  DiscoveredAddress,
+  WalletDiscoveryOptions,
+  WalletDiscoveryResult
+} from '../types';
 import { validateMnemonic } from '../utils';
+import type { RpcClient } from '../network/RpcClient';
+
+/**
+ * Default number of consecutive unused addresses scanned before a chain is considered exhausted
+ */
+export const DEFAULT_GAP_LIMIT = 20;
+
+/**
+ * BIP44 coin type registered for Kaspa
+ */
+const KASPA_COIN_TYPE = 111111;
 
 export class KaspaWallet {
   private mnemonic?: kaspa.Mnemonic;
+  private password?: string;
   private xprv?: kaspa.XPrv;
   private keyGenerator?: kaspa.PrivateKeyGenerator;
   private privateKey?: kaspa.PrivateKey;
+  private xpub?: string;
+  private publicKeyGenerator?: kaspa.PublicKeyGenerator;
+  private publicKeys?: kaspa.PublicKey[];
   private networkType: NetworkType;
   private accountIndex: bigint;
+  private addressIndex: Map<string, AddressDerivation> = new Map();
+  private usedReceiveIndices: Set<number> = new Set();
+  private usedChangeIndices: Set<number> = new Set();
 
   constructor(config: WalletConfig) {
     this.networkType = config.networkType;
@@ -18,6 +43,10 @@ export class KaspaWallet {
       this.initFromMnemonic(config.mnemonic, config.password);
     } else if (config.privateKey) {
       this.initFromPrivateKey(config.privateKey);
+    } else if (config.xpub) {
+      this.initFromXPub(config.xpub);
+    } else if (config.publicKeys) {
+      this.initFromPublicKeys(config.publicKeys);
     } else {
       this.generateNew(config.password);
     }
@@ -32,6 +61,7 @@ export class KaspaWallet {
     }
     
     this.mnemonic = new kaspa.Mnemonic(mnemonicPhrase);
+    this.password = password;
     const seed = this.mnemonic.toSeed(password);
     this.xprv = new kaspa.XPrv(seed);
     this.keyGenerator = new kaspa.PrivateKeyGenerator(
@@ -48,6 +78,34 @@ export class KaspaWallet {
     this.privateKey = new kaspa.PrivateKey(privateKeyHex);
   }
 
+  /**
+   * Initialize watch-only wallet from an account-level extended public key
+   */
+  private initFromXPub(xpub: string): void {
+    try {
+      this.publicKeyGenerator = kaspa.PublicKeyGenerator.fromXPub(xpub);
+    } catch (error) {
+      throw new Error(`Invalid extended public key: ${error}`);
+    }
+    this.xpub = xpub;
+  }
+
+  /**
+   * Initialize watch-only wallet from a list of public keys
+   */
+  private initFromPublicKeys(publicKeys: string[]): void {
+    if (publicKeys.length === 0) {
+      throw new Error('At least one public key is required');
+    }
+    this.publicKeys = publicKeys.map(key => {
+      try {
+        return new kaspa.PublicKey(key);
+      } catch (error) {
+        throw new Error(`Invalid public key ${key}: ${error}`);
+      }
+    });
+  }
+
   /**
    * Generate new wallet
    */
@@ -69,17 +127,80 @@ export class KaspaWallet {
     return this.mnemonic?.phrase;
   }
 
+  /**
+   * Get the private key of a single-key wallet (hex)
+   */
+  getPrivateKeyHex(): string | undefined {
+    return this.privateKey?.toString();
+  }
+
+  /**
+   * Get the master extended private key (HD wallets only)
+   */
+  getXPrv(): string | undefined {
+    return this.xprv?.intoString(this.networkType === 'mainnet' ? 'kprv' : 'ktrv');
+  }
+
+  /**
+   * Get every form of key material the wallet holds, e.g. to redact it from output
+   */
+  getSecrets(): string[] {
+    return [this.getMnemonic(), this.getPrivateKeyHex(), this.getXPrv(), this.xprv?.toString()]
+      .filter((secret): secret is string => !!secret);
+  }
+
+  /**
+   * Check whether the wallet holds public keys only and cannot sign
+   */
+  isWatchOnly(): boolean {
+    return !this.keyGenerator && !this.privateKey;
+  }
+
+  /**
+   * Get the account-level extended public key (HD wallets only).
+   * It can be shared to create a watch-only copy of this wallet.
+   */
+  getXPub(): string | undefined {
+    if (this.xpub) {
+      return this.xpub;
+    }
+    if (!this.xprv) {
+      return undefined;
+    }
+    const accountKey = this.xprv.derivePath(`m/44'/${KASPA_COIN_TYPE}'/${this.accountIndex}'`);
+    const xpub = accountKey.toXPub();
+    const result = xpub.intoString(this.networkType === 'mainnet' ? 'kpub' : 'ktub');
+    xpub.free();
+    accountKey.free();
+    return result;
+  }
+
   /**
    * Get receive address at specific index
    */
   getReceiveAddress(index: number = 0): string {
     if (this.keyGenerator) {
       const key = this.keyGenerator.receiveKey(index);
-      const address = key.toAddress(this.networkType);
+      const address = key.toAddress(this.networkType).toString();
       key.free();
-      return address.toString();
+      this.recordDerivation(address, false, index);
+      return address;
     } else if (this.privateKey) {
-      return this.privateKey.toAddress(this.networkType).toString();
+      const address = this.privateKey.toAddress(this.networkType).toString();
+      this.recordDerivation(address, false, 0);
+      return address;
+    } else if (this.publicKeyGenerator) {
+      const address = this.publicKeyGenerator.receiveAddressAsString(this.networkType, index);
+      this.recordDerivation(address, false, index);
+      return address;
+    } else if (this.publicKeys) {
+      const publicKey = this.publicKeys[index];
+      if (!publicKey) {
+        throw new Error(`No public key at index ${index} (wallet has ${this.publicKeys.length})`);
+      }
+      const address = publicKey.toAddress(this.networkType).toString();
+      this.recordDerivation(address, false, index);
+      return address;
     }
     throw new Error('Wallet not initialized');
   }
@@ -90,20 +211,255 @@ export class KaspaWallet {
   getChangeAddress(index: number = 0): string {
     if (this.keyGenerator) {
       const key = this.keyGenerator.changeKey(index);
-      const address = key.toAddress(this.networkType);
+      const address = key.toAddress(this.networkType).toString();
       key.free();
-      return address.toString();
-    } else if (this.privateKey) {
-      // For single private key, use same address for change
-      return this.privateKey.toAddress(this.networkType).toString();
+      this.recordDerivation(address, true, index);
+      return address;
+    } else if (this.publicKeyGenerator) {
+      const address = this.publicKeyGenerator.changeAddressAsString(this.networkType, index);
+      this.recordDerivation(address, true, index);
+      return address;
+    } else if (this.privateKey || this.publicKeys) {
+      // Without HD derivation, use the first address for change
+      return this.getReceiveAddress(0);
     }
     throw new Error('Wallet not initialized');
   }
 
+  /**
+   * Get BIP44 derivation path for an address index (HD wallets only)
+   */
+  getDerivationPath(index: number, change: boolean = false): string | undefined {
+    if (!this.isHD()) {
+      return undefined;
+    }
+    return `m/44'/${KASPA_COIN_TYPE}'/${this.accountIndex}'/${change ? 1 : 0}/${index}`;
+  }
+
+  /**
+   * Look up derivation info for a wallet address.
+   * Addresses not seen yet are searched on both chains up to `searchLimit`.
+   */
+  findAddress(address: string, searchLimit: number = DEFAULT_GAP_LIMIT): AddressDerivation | undefined {
+    const known = this.addressIndex.get(address);
+    if (known) {
+      return known;
+    }
+
+    if (!this.isHD()) {
+      const count = this.publicKeys ? this.publicKeys.length : 1;
+      for (let i = 0; i < count; i++) {
+        if (this.getReceiveAddress(i) === address) {
+          return this.addressIndex.get(address);
+        }
+      }
+      return undefined;
+    }
+
+    for (let i = 0; i < searchLimit; i++) {
+      if (this.getReceiveAddress(i) === address || this.getChangeAddress(i) === address) {
+        return this.addressIndex.get(address);
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Get the private key that controls a wallet address
+   */
+  getPrivateKeyForAddress(address: string, searchLimit: number = DEFAULT_GAP_LIMIT): kaspa.PrivateKey {
+    this.assertCanSign();
+    const derivation = this.findAddress(address, searchLimit);
+    if (!derivation) {
+      throw new Error(`Address ${address} not found in wallet. Run a wallet scan or use an address from this wallet.`);
+    }
+    return derivation.change
+      ? this.getChangePrivateKey(derivation.index)
+      : this.getReceivePrivateKey(derivation.index);
+  }
+
+  /**
+   * Get all addresses known to the wallet with their derivation info
+   */
+  getKnownAddresses(): AddressDerivation[] {
+    return Array.from(this.addressIndex.values());
+  }
+
+  /**
+   * Get addresses that were found to be in use by the last discovery
+   */
+  getUsedAddresses(): AddressDerivation[] {
+    return this.getKnownAddresses().filter(info =>
+      info.change ? this.usedChangeIndices.has(info.index) : this.usedReceiveIndices.has(info.index)
+    );
+  }
+
+  /**
+   * Mark a wallet address as used, e.g. after sending change to it
+   */
+  markAddressUsed(address: string): void {
+    const derivation = this.findAddress(address);
+    if (!derivation) {
+      throw new Error(`Address ${address} not found in wallet`);
+    }
+    (derivation.change ? this.usedChangeIndices : this.usedReceiveIndices).add(derivation.index);
+  }
+
+  /**
+   * Get the first receive index after the highest used one
+   */
+  getNextReceiveIndex(): number {
+    return this.usedReceiveIndices.size > 0 ? Math.max(...this.usedReceiveIndices) + 1 : 0;
+  }
+
+  /**
+   * Get the first change index after the highest used one
+   */
+  getNextChangeIndex(): number {
+    return this.usedChangeIndices.size > 0 ? Math.max(...this.usedChangeIndices) + 1 : 0;
+  }
+
+  /**
+   * Discover used addresses by walking the receive and change chains
+   * until `gapLimit` consecutive addresses without funds are found
+   */
+  async discover(rpcClient: RpcClient, options: WalletDiscoveryOptions = {}): Promise<WalletDiscoveryResult> {
+    const gapLimit = options.gapLimit || DEFAULT_GAP_LIMIT;
+    const batchSize = options.batchSize || gapLimit;
+    if (gapLimit < 1 || batchSize < 1) {
+      throw new Error('gapLimit and batchSize must be at least 1');
+    }
+
+    let receive: { used: DiscoveredAddress[]; scanned: number };
+    let change: { used: DiscoveredAddress[]; scanned: number };
+
+    if (this.isHD()) {
+      receive = await this.scanChain(rpcClient, false, gapLimit, batchSize);
+      change = await this.scanChain(rpcClient, true, gapLimit, batchSize);
+    } else {
+      // Without HD derivation there is one address per key
+      const count = this.publicKeys ? this.publicKeys.length : 1;
+      const addresses = Array.from({ length: count }, (_, i) => this.getReceiveAddress(i));
+      receive = await this.scanAddresses(rpcClient, addresses, false, 0);
+      change = { used: [], scanned: 0 };
+    }
+
+    const totalBalance = [...receive.used, ...change.used]
+      .reduce((sum, entry) => sum + entry.balance, BigInt(0));
+
+    const nextReceiveIndex = this.isHD() ? this.getNextReceiveIndex() : 0;
+    const nextChangeIndex = this.isHD() ? this.getNextChangeIndex() : 0;
+
+    return {
+      receive: receive.used,
+      change: change.used,
+      totalBalance,
+      nextReceiveIndex,
+      nextReceiveAddress: this.getReceiveAddress(nextReceiveIndex),
+      nextChangeIndex,
+      nextChangeAddress: this.getChangeAddress(nextChangeIndex),
+      scannedReceive: receive.scanned,
+      scannedChange: change.scanned
+    };
+  }
+
+  /**
+   * Scan one derivation chain in batches until the gap limit is reached
+   */
+  private async scanChain(
+    rpcClient: RpcClient,
+    change: boolean,
+    gapLimit: number,
+    batchSize: number
+  ): Promise<{ used: DiscoveredAddress[]; scanned: number }> {
+    const used: DiscoveredAddress[] = [];
+    let lastUsed = -1;
+    let index = 0;
+
+    while (index - (lastUsed + 1) < gapLimit) {
+      const addresses = this.deriveAddresses(index, batchSize, change);
+      const batch = await this.scanAddresses(rpcClient, addresses, change, index);
+
+      for (const entry of batch.used) {
+        lastUsed = Math.max(lastUsed, entry.index);
+        used.push(entry);
+      }
+      index += batchSize;
+    }
+
+    return { used, scanned: index };
+  }
+
+  /**
+   * Query balances for consecutive addresses and record the used ones
+   */
+  private async scanAddresses(
+    rpcClient: RpcClient,
+    addresses: string[],
+    change: boolean,
+    startIndex: number
+  ): Promise<{ used: DiscoveredAddress[]; scanned: number }> {
+    const balances = await rpcClient.getBalances(addresses);
+    const balanceMap = new Map(balances.map(balance => [balance.address, balance]));
+    const usedIndices = change ? this.usedChangeIndices : this.usedReceiveIndices;
+    const used: DiscoveredAddress[] = [];
+
+    addresses.forEach((address, offset) => {
+      const balance = balanceMap.get(address);
+      if (!balance || (balance.balance === BigInt(0) && balance.utxoCount === 0)) {
+        return;
+      }
+
+      const index = startIndex + offset;
+      usedIndices.add(index);
+      used.push({
+        ...this.recordDerivation(address, change, index),
+        balance: balance.balance,
+        utxoCount: balance.utxoCount
+      });
+    });
+
+    return { used, scanned: addresses.length };
+  }
+
+  /**
+   * Check whether addresses are derived from an extended key
+   */
+  private isHD(): boolean {
+    return !!(this.keyGenerator || this.publicKeyGenerator);
+  }
+
+  /**
+   * Refuse operations that need private keys on watch-only wallets
+   */
+  private assertCanSign(): void {
+    if (this.isWatchOnly()) {
+      throw new Error('Watch-only wallet cannot sign. Build an unsigned transaction and sign it with the wallet holding the private keys.');
+    }
+  }
+
+  /**
+   * Remember where an address comes from so it can be spent from later
+   */
+  private recordDerivation(address: string, change: boolean, index: number): AddressDerivation {
+    let derivation = this.addressIndex.get(address);
+    if (!derivation) {
+      derivation = {
+        address,
+        change,
+        index,
+        derivationPath: this.getDerivationPath(index, change)
+      };
+      this.addressIndex.set(address, derivation);
+    }
+    return derivation;
+  }
+
   /**
    * Get private key for receive address
    */
   getReceivePrivateKey(index: number = 0): kaspa.PrivateKey {
+    this.assertCanSign();
     if (this.keyGenerator) {
       return this.keyGenerator.receiveKey(index);
     } else if (this.privateKey && index === 0) {
@@ -116,6 +472,7 @@ export class KaspaWallet {
    * Get private key for change address
    */
   getChangePrivateKey(index: number = 0): kaspa.PrivateKey {
+    this.assertCanSign();
     if (this.keyGenerator) {
       return this.keyGenerator.changeKey(index);
     } else if (this.privateKey && index === 0) {
@@ -128,17 +485,13 @@ export class KaspaWallet {
    * Derive addresses for a range
    */
   deriveAddresses(startIndex: number, count: number, change: boolean = false): string[] {
-    if (!this.keyGenerator) {
+    if (!this.isHD()) {
       throw new Error('HD wallet not available');
     }
 
     const addresses: string[] = [];
     for (let i = startIndex; i < startIndex + count; i++) {
-      const key = change 
-        ? this.keyGenerator.changeKey(i)
-        : this.keyGenerator.receiveKey(i);
-      addresses.push(key.toAddress(this.networkType).toString());
-      key.free();
+      addresses.push(change ? this.getChangeAddress(i) : this.getReceiveAddress(i));
     }
     return addresses;
   }
@@ -179,6 +532,27 @@ export class KaspaWallet {
     };
   }
 
+  /**
+   * Get the configuration that rebuilds this wallet, e.g. on another network.
+   * Watch-only wallets keep their public keys only.
+   */
+  getRestoreConfig(): Omit<WalletConfig, 'networkType'> {
+    if (this.mnemonic) {
+      return {
+        mnemonic: this.mnemonic.phrase,
+        password: this.password,
+        accountIndex: Number(this.accountIndex)
+      };
+    }
+    if (this.privateKey) {
+      return { privateKey: this.privateKey.toString() };
+    }
+    if (this.xpub) {
+      return { xpub: this.xpub };
+    }
+    return { publicKeys: (this.publicKeys || []).map(key => key.toString()) };
+  }
+
   /**
    * Clean up WASM resources
    */
@@ -203,5 +577,15 @@ export class KaspaWallet {
     } catch (e) {
       // Ignore - may already be freed
     }
+    try {
+      this.publicKeyGenerator?.free();
+      this.publicKeys?.forEach(key => key.free());
+    } catch (e) {
+      // Ignore - may already be freed
+    }
+    this.password = undefined;
+    this.addressIndex.clear();
+    this.usedReceiveIndices.clear();
+    this.usedChangeIndices.clear();
   }
 }
\ No newline at end of file
@@ -0,0 +1,261 @@
+import * as fs from 'fs/promises';
+import { readSync, fstatSync } from 'fs';
+import { randomBytes } from 'crypto';
+import * as kaspa from '../../wasm/kaspa';
+import { WalletCredentials } from '../config/Configuration';
+import {
+  KeystoreEntry,
+  KeystoreEntryInfo,
+  KeystoreFile,
+  KeystoreOptions
+} from '../types';
+
+/**
+ * Lock unlocked entries again after 15 minutes by default
+ */
+export const DEFAULT_RELOCK_MS = 15 * 60 * 1000;
+
+/**
+ * Length of the key derived from the passphrase, in bytes
+ */
+const DERIVED_KEY_LENGTH = 32;
+
+interface UnlockedEntry {
+  credentials: WalletCredentials;
+  timer?: NodeJS.Timeout;
+}
+
+/**
+ * Stores wallet credentials on disk encrypted with a passphrase-derived key.
+ * Each entry has its own salt; the key is derived with argon2 and the
+ * credentials are sealed with XChaCha20-Poly1305. Unlocked credentials live
+ * in memory only until they are locked again or the relock timeout passes.
+ */
+export class Keystore {
+  private filePath: string;
+  private relockAfterMs: number;
+  private onLock?: (name: string) => void;
+  private unlocked: Map<string, UnlockedEntry> = new Map();
+
+  constructor(filePath: string, options: KeystoreOptions = {}) {
+    this.filePath = filePath;
+    this.relockAfterMs = options.relockAfterMs ?? DEFAULT_RELOCK_MS;
+    this.onLock = options.onLock;
+  }
+
+  /**
+   * Read a keystore passphrase from the process environment: from the file
+   * descriptor in KASPA_KEYSTORE_PASSPHRASE_FD, or else from
+   * KASPA_KEYSTORE_PASSPHRASE. A pipe can only be read once; redirect a file
+   * to the descriptor to unlock again after a relock.
+   */
+  static readPassphrase(env: NodeJS.ProcessEnv = process.env): string | undefined {
+    if (env.KASPA_KEYSTORE_PASSPHRASE_FD) {
+      const fd = parseInt(env.KASPA_KEYSTORE_PASSPHRASE_FD, 10);
+      if (isNaN(fd) || fd < 0) {
+        throw new Error(`Invalid KASPA_KEYSTORE_PASSPHRASE_FD: "${env.KASPA_KEYSTORE_PASSPHRASE_FD}"`);
+      }
+
+      // Regular files are read from the start so the passphrase can be read again
+      let position: number | null = fstatSync(fd).isFile() ? 0 : null;
+      const chunks: Buffer[] = [];
+      const buffer = Buffer.alloc(1024);
+      let bytesRead: number;
+      while ((bytesRead = readSync(fd, buffer, 0, buffer.length, position)) > 0) {
+        chunks.push(Buffer.from(buffer.subarray(0, bytesRead)));
+        if (position !== null) {
+          position += bytesRead;
+        }
+      }
+      buffer.fill(0);
+
+      const passphrase = Buffer.concat(chunks).toString('utf-8').replace(/\r?\n$/, '');
+      return passphrase || undefined;
+    }
+
+    return env.KASPA_KEYSTORE_PASSPHRASE || undefined;
+  }
+
+  /**
+   * Encrypt wallet credentials and store them under a new entry name
+   */
+  async create(name: string, credentials: WalletCredentials, passphrase: string): Promise<KeystoreEntryInfo> {
+    if (!name.trim()) {
+      throw new Error('Keystore entry name is required');
+    }
+    if (!passphrase) {
+      throw new Error('Keystore passphrase is required');
+    }
+    if (!credentials.mnemonic && !credentials.privateKey) {
+      throw new Error('Provide either a mnemonic or a private key to store');
+    }
+
+    const file = await this.readFile();
+    if (file.entries[name]) {
+      throw new Error(`Keystore entry "${name}" already exists`);
+    }
+
+    const salt = randomBytes(16).toString('hex');
+    const entry: KeystoreEntry = {
+      name,
+      kind: credentials.mnemonic ? 'mnemonic' : 'privateKey',
+      salt,
+      ciphertext: kaspa.encryptXChaCha20Poly1305(JSON.stringify(credentials), this.deriveKey(passphrase, salt)),
+      createdAt: new Date().toISOString()
+    };
+
+    file.entries[name] = entry;
+    await this.writeFile(file);
+    return this.toInfo(entry);
+  }
+
+  /**
+   * List the entries of the keystore without decrypting them
+   */
+  async list(): Promise<KeystoreEntryInfo[]> {
+    const file = await this.readFile();
+    return Object.values(file.entries).map(entry => this.toInfo(entry));
+  }
+
+  /**
+   * Decrypt an entry and keep its credentials in memory until it is locked.
+   * `relockAfterMs` overrides the keystore's relock timeout for this entry.
+   */
+  async unlock(name: string, passphrase: string, relockAfterMs: number = this.relockAfterMs): Promise<WalletCredentials> {
+    const file = await this.readFile();
+    const entry = file.entries[name];
+    if (!entry) {
+      throw new Error(`Keystore entry "${name}" not found`);
+    }
+
+    let credentials: WalletCredentials;
+    try {
+      credentials = JSON.parse(kaspa.decryptXChaCha20Poly1305(entry.ciphertext, this.deriveKey(passphrase, entry.salt)));
+    } catch {
+      throw new Error(`Incorrect passphrase for keystore entry "${name}"`);
+    }
+
+    this.clearTimer(name);
+    const unlocked: UnlockedEntry = { credentials };
+    if (relockAfterMs > 0) {
+      unlocked.timer = setTimeout(() => this.lock(name), relockAfterMs);
+      // A pending relock must not keep the process alive
+      unlocked.timer.unref();
+    }
+    this.unlocked.set(name, unlocked);
+
+    return credentials;
+  }
+
+  /**
+   * Get the credentials of an unlocked entry
+   */
+  getCredentials(name: string): WalletCredentials | undefined {
+    return this.unlocked.get(name)?.credentials;
+  }
+
+  /**
+   * Check whether an entry is currently unlocked
+   */
+  isUnlocked(name: string): boolean {
+    return this.unlocked.has(name);
+  }
+
+  /**
+   * Forget the decrypted credentials of an entry, or of every entry
+   */
+  lock(name?: string): void {
+    const names = name === undefined ? Array.from(this.unlocked.keys()) : [name];
+    for (const entryName of names) {
+      if (!this.unlocked.has(entryName)) {
+        continue;
+      }
+      this.clearTimer(entryName);
+      this.unlocked.delete(entryName);
+      this.onLock?.(entryName);
+    }
+  }
+
+  /**
+   * Delete an entry from the keystore file
+   */
+  async remove(name: string): Promise<void> {
+    const file = await this.readFile();
+    if (!file.entries[name]) {
+      throw new Error(`Keystore entry "${name}" not found`);
+    }
+    this.lock(name);
+    delete file.entries[name];
+    await this.writeFile(file);
+  }
+
+  /**
+   * Lock every entry
+   */
+  dispose(): void {
+    this.lock();
+  }
+
+  /**
+   * Derive the encryption key for an entry from the passphrase and its salt
+   */
+  private deriveKey(passphrase: string, salt: string): string {
+    return kaspa.argon2sha256ivFromText(`${salt}:${passphrase}`, DERIVED_KEY_LENGTH);
+  }
+
+  private clearTimer(name: string): void {
+    const timer = this.unlocked.get(name)?.timer;
+    if (timer) {
+      clearTimeout(timer);
+    }
+  }
+
+  private toInfo(entry: KeystoreEntry): KeystoreEntryInfo {
+    return {
+      name: entry.name,
+      kind: entry.kind,
+      createdAt: entry.createdAt,
+      unlocked: this.unlocked.has(entry.name)
+    };
+  }
+
+  /**
+   * Read the keystore file; a missing file is an empty keystore
+   */
+  private async readFile(): Promise<KeystoreFile> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { version: 1, entries: {} };
+      }
+      throw new Error(`Failed to read keystore ${this.filePath}: ${error}`);
+    }
+
+    let file: KeystoreFile;
+    try {
+      file = JSON.parse(content);
+    } catch (error) {
+      throw new Error(`Invalid keystore ${this.filePath}: ${(error as Error).message}`);
+    }
+    if (file.version !== 1 || typeof file.entries !== 'object' || !file.entries) {
+      throw new Error(`Unsupported keystore format in ${this.filePath}`);
+    }
+    return file;
+  }
+
+  /**
+   * Write the keystore file atomically, readable by the owner only
+   */
+  private async writeFile(file: KeystoreFile): Promise<void> {
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    try {
+      await fs.writeFile(tempPath, JSON.stringify(file, null, 2), { mode: 0o600 });
+      await fs.rename(tempPath, this.filePath);
+    } catch (error) {
+      await fs.rm(tempPath, { force: true });
+      throw new Error(`Failed to write keystore ${this.filePath}: ${error}`);
+    }
+  }
+}
@@ -0,0 +1,514 @@
+import * as kaspa from '../../wasm/kaspa';
+import {
+  MultisigWalletConfig,
+  MultisigAddressInfo,
+  MultisigSignature,
+  MultisigSigningStatus,
+  NetworkType,
+  DiscoveredAddress,
+  WalletDiscoveryOptions,
+  WalletDiscoveryResult
+} from '../types';
+import { getWasmNetworkType } from '../utils/network';
+import { DEFAULT_GAP_LIMIT } from './KaspaWallet';
+import type { KaspaWallet } from './KaspaWallet';
+import type { RpcClient } from '../network/RpcClient';
+
+/**
+ * Maximum number of public keys in a standard multisig redeem script
+ */
+const MAX_MULTISIG_KEYS = 20;
+
+/**
+ * Script opcode verifying M-of-N Schnorr signatures
+ */
+const OP_CHECKMULTISIG = 0xae;
+
+interface MultisigProposal {
+  to: string;
+  amount: bigint;
+  changeAddress: string;
+  pendingTransactions: kaspa.PendingTransaction[];
+  /** Multisig address spent by each input, per transaction */
+  inputAddresses: MultisigAddressInfo[][];
+  /** Collected signatures per transaction and input, keyed by cosigner index */
+  signatures: Map<number, string>[][];
+  submitted: boolean;
+  createdAt: number;
+}
+
+export class MultisigWallet {
+  private networkType: NetworkType;
+  private threshold: number;
+  private xpubs: string[];
+  private generators: kaspa.PublicKeyGenerator[];
+  private addressIndex: Map<string, MultisigAddressInfo> = new Map();
+  private usedReceiveIndices: Set<number> = new Set();
+  private usedChangeIndices: Set<number> = new Set();
+  private proposals: Map<string, MultisigProposal> = new Map();
+
+  constructor(config: MultisigWalletConfig) {
+    const { xpubs, threshold } = config;
+
+    if (xpubs.length === 0 || xpubs.length > MAX_MULTISIG_KEYS) {
+      throw new Error(`A multisig wallet needs between 1 and ${MAX_MULTISIG_KEYS} extended public keys`);
+    }
+    if (!Number.isInteger(threshold) || threshold < 1 || threshold > xpubs.length) {
+      throw new Error(`Invalid threshold ${threshold}: must be between 1 and ${xpubs.length}`);
+    }
+    if (new Set(xpubs).size !== xpubs.length) {
+      throw new Error('Duplicate extended public keys');
+    }
+
+    this.networkType = config.networkType;
+    this.threshold = threshold;
+
+    // Sort so every cosigner derives the same addresses regardless of input order
+    this.xpubs = [...xpubs].sort();
+    this.generators = this.xpubs.map((xpub, i) => {
+      try {
+        return kaspa.PublicKeyGenerator.fromXPub(xpub);
+      } catch (error) {
+        throw new Error(`Invalid extended public key for cosigner ${i}: ${error}`);
+      }
+    });
+  }
+
+  /**
+   * Get number of signatures required to spend
+   */
+  getThreshold(): number {
+    return this.threshold;
+  }
+
+  /**
+   * Get extended public keys in cosigner order
+   */
+  getXPubs(): string[] {
+    return [...this.xpubs];
+  }
+
+  /**
+   * Get multisig receive address at specific index
+   */
+  getReceiveAddress(index: number = 0): string {
+    return this.deriveAddress(false, index).address;
+  }
+
+  /**
+   * Get multisig change address at specific index
+   */
+  getChangeAddress(index: number = 0): string {
+    return this.deriveAddress(true, index).address;
+  }
+
+  /**
+   * Look up derivation info and cosigner keys for a known multisig address
+   */
+  getAddressInfo(address: string): MultisigAddressInfo | undefined {
+    return this.addressIndex.get(address);
+  }
+
+  /**
+   * Get addresses that were found to be in use by the last discovery
+   */
+  getUsedAddresses(): MultisigAddressInfo[] {
+    return Array.from(this.addressIndex.values()).filter(info =>
+      info.change ? this.usedChangeIndices.has(info.index) : this.usedReceiveIndices.has(info.index)
+    );
+  }
+
+  /**
+   * Mark a multisig address as used, e.g. after sending change to it
+   */
+  markAddressUsed(address: string): void {
+    const info = this.addressIndex.get(address);
+    if (!info) {
+      throw new Error(`Address ${address} not found in multisig wallet`);
+    }
+    (info.change ? this.usedChangeIndices : this.usedReceiveIndices).add(info.index);
+  }
+
+  /**
+   * Get the first receive index after the highest used one
+   */
+  getNextReceiveIndex(): number {
+    return this.usedReceiveIndices.size > 0 ? Math.max(...this.usedReceiveIndices) + 1 : 0;
+  }
+
+  /**
+   * Get the first change index after the highest used one
+   */
+  getNextChangeIndex(): number {
+    return this.usedChangeIndices.size > 0 ? Math.max(...this.usedChangeIndices) + 1 : 0;
+  }
+
+  /**
+   * Discover used multisig addresses by walking the receive and change
+   * chains until `gapLimit` consecutive addresses without funds are found
+   */
+  async discover(rpcClient: RpcClient, options: WalletDiscoveryOptions = {}): Promise<WalletDiscoveryResult> {
+    const gapLimit = options.gapLimit || DEFAULT_GAP_LIMIT;
+    const batchSize = options.batchSize || gapLimit;
+    if (gapLimit < 1 || batchSize < 1) {
+      throw new Error('gapLimit and batchSize must be at least 1');
+    }
+
+    const receive = await this.scanChain(rpcClient, false, gapLimit, batchSize);
+    const change = await this.scanChain(rpcClient, true, gapLimit, batchSize);
+
+    const totalBalance = [...receive.used, ...change.used]
+      .reduce((sum, entry) => sum + entry.balance, BigInt(0));
+
+    const nextReceiveIndex = this.getNextReceiveIndex();
+    const nextChangeIndex = this.getNextChangeIndex();
+
+    return {
+      receive: receive.used,
+      change: change.used,
+      totalBalance,
+      nextReceiveIndex,
+      nextReceiveAddress: this.getReceiveAddress(nextReceiveIndex),
+      nextChangeIndex,
+      nextChangeAddress: this.getChangeAddress(nextChangeIndex),
+      scannedReceive: receive.scanned,
+      scannedChange: change.scanned
+    };
+  }
+
+  /**
+   * Register a built spending transaction chain for co-signing.
+   * The proposal is identified by the id of the final transaction.
+   */
+  addProposal(
+    pendingTransactions: kaspa.PendingTransaction[],
+    to: string,
+    amount: bigint,
+    changeAddress: string
+  ): MultisigSigningStatus {
+    if (pendingTransactions.length === 0) {
+      throw new Error('No transactions to sign');
+    }
+
+    const inputAddresses = pendingTransactions.map((pendingTx, txIndex) => {
+      const entryAddresses = new Map<string, string>();
+      for (const entry of pendingTx.getUtxoEntries()) {
+        entryAddresses.set(`${entry.outpoint.transactionId}:${entry.outpoint.index}`, entry.address?.toString() || '');
+      }
+
+      return pendingTx.transaction.inputs.map((input, inputIndex) => {
+        const outpoint = input.previousOutpoint;
+        const address = entryAddresses.get(`${outpoint.transactionId}:${outpoint.index}`) || '';
+        const info = this.addressIndex.get(address);
+        if (!info) {
+          throw new Error(`Input ${inputIndex} of transaction ${txIndex} does not spend from this multisig wallet`);
+        }
+        return info;
+      });
+    });
+
+    const proposalId = pendingTransactions[pendingTransactions.length - 1].id;
+    this.proposals.set(proposalId, {
+      to,
+      amount,
+      changeAddress,
+      pendingTransactions,
+      inputAddresses,
+      signatures: inputAddresses.map(inputs => inputs.map(() => new Map<number, string>())),
+      submitted: false,
+      createdAt: Date.now()
+    });
+
+    return this.getSigningStatus(proposalId);
+  }
+
+  /**
+   * Sign every input of a proposal with the matching keys of a cosigner wallet.
+   * Returns the cosigner index of the signer.
+   */
+  sign(proposalId: string, signer: KaspaWallet): number {
+    const proposal = this.getOpenProposal(proposalId);
+    const collected: { txIndex: number; inputIndex: number; cosigner: number; signature: string }[] = [];
+    let signerIndex = -1;
+
+    proposal.pendingTransactions.forEach((pendingTx, txIndex) => {
+      proposal.inputAddresses[txIndex].forEach((info, inputIndex) => {
+        const privateKey = info.change
+          ? signer.getChangePrivateKey(info.index)
+          : signer.getReceivePrivateKey(info.index);
+
+        try {
+          const publicKey = privateKey.toPublicKey();
+          const cosigner = this.findCosigner(info, publicKey.toString());
+          publicKey.free();
+          if (cosigner < 0) {
+            throw new Error(`Signer is not a cosigner of multisig address ${info.address}`);
+          }
+
+          collected.push({
+            txIndex,
+            inputIndex,
+            cosigner,
+            signature: pendingTx.createInputSignature(inputIndex, privateKey)
+          });
+          signerIndex = cosigner;
+        } finally {
+          privateKey.free();
+        }
+      });
+    });
+
+    // Only record signatures once every input could be signed
+    for (const entry of collected) {
+      proposal.signatures[entry.txIndex][entry.inputIndex].set(entry.cosigner, entry.signature);
+    }
+    return signerIndex;
+  }
+
+  /**
+   * Add signatures produced elsewhere (e.g. by a cosigner on another machine).
+   * Returns the cosigner indices the signatures were recorded for.
+   */
+  addSignatures(proposalId: string, signatures: MultisigSignature[]): number[] {
+    const proposal = this.getOpenProposal(proposalId);
+    const resolved = signatures.map(entry => {
+      const info = proposal.inputAddresses[entry.transactionIndex]?.[entry.inputIndex];
+      if (!info) {
+        throw new Error(`Proposal has no input ${entry.inputIndex} in transaction ${entry.transactionIndex}`);
+      }
+      const cosigner = this.findCosigner(info, entry.publicKey);
+      if (cosigner < 0) {
+        throw new Error(`Public key ${entry.publicKey} is not a cosigner of multisig address ${info.address}`);
+      }
+      return { ...entry, cosigner };
+    });
+
+    for (const entry of resolved) {
+      proposal.signatures[entry.transactionIndex][entry.inputIndex].set(entry.cosigner, entry.signature);
+    }
+    return Array.from(new Set(resolved.map(entry => entry.cosigner)));
+  }
+
+  /**
+   * Get signing progress of a proposal
+   */
+  getSigningStatus(proposalId: string): MultisigSigningStatus {
+    const proposal = this.proposals.get(proposalId);
+    if (!proposal) {
+      throw new Error(`Unknown multisig proposal: ${proposalId}`);
+    }
+
+    const inputSignatures = proposal.signatures.flat();
+    const signedBy = this.xpubs
+      .map((_, cosigner) => cosigner)
+      .filter(cosigner => inputSignatures.every(signatures => signatures.has(cosigner)));
+
+    return {
+      proposalId,
+      to: proposal.to,
+      amount: proposal.amount,
+      totalFee: proposal.pendingTransactions.reduce((sum, tx) => sum + tx.feeAmount, BigInt(0)),
+      changeAddress: proposal.changeAddress,
+      threshold: this.threshold,
+      cosigners: this.xpubs.length,
+      signedBy,
+      complete: inputSignatures.every(signatures => signatures.size >= this.threshold),
+      submitted: proposal.submitted,
+      transactions: proposal.pendingTransactions.map((pendingTx, i) => ({
+        transactionId: pendingTx.id,
+        fee: pendingTx.feeAmount,
+        mass: pendingTx.mass,
+        isFinal: i === proposal.pendingTransactions.length - 1,
+        inputCount: proposal.inputAddresses[i].length,
+        serialized: pendingTx.serializeToSafeJSON()
+      })),
+      createdAt: proposal.createdAt
+    };
+  }
+
+  /**
+   * Get signing progress of every proposal
+   */
+  listProposals(): MultisigSigningStatus[] {
+    return Array.from(this.proposals.keys()).map(proposalId => this.getSigningStatus(proposalId));
+  }
+
+  /**
+   * Fill every input with M signatures and the redeem script.
+   * Returns the transactions ready to be submitted in order.
+   */
+  finalize(proposalId: string): kaspa.PendingTransaction[] {
+    const proposal = this.getOpenProposal(proposalId);
+    if (!this.getSigningStatus(proposalId).complete) {
+      throw new Error(`Proposal ${proposalId} needs ${this.threshold} signatures on every input`);
+    }
+
+    proposal.pendingTransactions.forEach((pendingTx, txIndex) => {
+      proposal.inputAddresses[txIndex].forEach((info, inputIndex) => {
+        // Signatures must appear in the same order as the keys in the redeem script
+        const signatures = proposal.signatures[txIndex][inputIndex];
+        const ordered = Array.from(signatures.keys())
+          .sort((a, b) => a - b)
+          .slice(0, this.threshold)
+          .map(cosigner => signatures.get(cosigner)!);
+
+        const signatureScript = kaspa.payToScriptHashSignatureScript(
+          this.getRedeemScript(info),
+          ordered.join('')
+        );
+        pendingTx.fillInput(inputIndex, signatureScript);
+      });
+    });
+
+    return proposal.pendingTransactions;
+  }
+
+  /**
+   * Mark a proposal as submitted so it cannot be signed or submitted again
+   */
+  markSubmitted(proposalId: string): void {
+    this.getOpenProposal(proposalId).submitted = true;
+  }
+
+  /**
+   * Build the M-of-N redeem script for a multisig address
+   */
+  getRedeemScript(info: MultisigAddressInfo): string {
+    const builder = new kaspa.ScriptBuilder();
+    builder.addI64(BigInt(this.threshold));
+    for (const key of info.publicKeys) {
+      builder.addData(this.toXOnly(key));
+    }
+    builder.addI64(BigInt(info.publicKeys.length));
+    builder.addOp(OP_CHECKMULTISIG);
+    const script = builder.drain();
+    builder.free();
+    return script;
+  }
+
+  /**
+   * Derive the multisig address for an index from every cosigner key
+   */
+  private deriveAddress(change: boolean, index: number): MultisigAddressInfo {
+    const publicKeys = this.generators.map(generator =>
+      change ? generator.changePubkeyAsString(index) : generator.receivePubkeyAsString(index)
+    );
+    const address = kaspa.createMultisigAddress(
+      this.threshold,
+      publicKeys,
+      getWasmNetworkType(this.networkType)
+    ).toString();
+
+    let info = this.addressIndex.get(address);
+    if (!info) {
+      info = { address, change, index, publicKeys };
+      this.addressIndex.set(address, info);
+    }
+    return info;
+  }
+
+  /**
+   * Scan one derivation chain in batches until the gap limit is reached
+   */
+  private async scanChain(
+    rpcClient: RpcClient,
+    change: boolean,
+    gapLimit: number,
+    batchSize: number
+  ): Promise<{ used: DiscoveredAddress[]; scanned: number }> {
+    const usedIndices = change ? this.usedChangeIndices : this.usedReceiveIndices;
+    const used: DiscoveredAddress[] = [];
+    let lastUsed = -1;
+    let index = 0;
+
+    while (index - (lastUsed + 1) < gapLimit) {
+      const infos = Array.from({ length: batchSize }, (_, offset) => this.deriveAddress(change, index + offset));
+      const balances = await rpcClient.getBalances(infos.map(info => info.address));
+      const balanceMap = new Map(balances.map(balance => [balance.address, balance]));
+
+      for (const info of infos) {
+        const balance = balanceMap.get(info.address);
+        if (!balance || (balance.balance === BigInt(0) && balance.utxoCount === 0)) {
+          continue;
+        }
+        usedIndices.add(info.index);
+        lastUsed = Math.max(lastUsed, info.index);
+        used.push({
+          address: info.address,
+          change,
+          index: info.index,
+          balance: balance.balance,
+          utxoCount: balance.utxoCount
+        });
+      }
+      index += batchSize;
+    }
+
+    return { used, scanned: index };
+  }
+
+  /**
+   * Get a proposal that can still be signed or submitted
+   */
+  private getOpenProposal(proposalId: string): MultisigProposal {
+    const proposal = this.proposals.get(proposalId);
+    if (!proposal) {
+      throw new Error(`Unknown multisig proposal: ${proposalId}`);
+    }
+    if (proposal.submitted) {
+      throw new Error(`Multisig proposal ${proposalId} was already submitted`);
+    }
+    return proposal;
+  }
+
+  /**
+   * Find the cosigner index of a public key in an address's redeem script
+   */
+  private findCosigner(info: MultisigAddressInfo, publicKey: string): number {
+    let xOnly: string;
+    try {
+      xOnly = this.toXOnly(publicKey);
+    } catch (error) {
+      throw new Error(`Invalid public key ${publicKey}: ${error}`);
+    }
+    return info.publicKeys.findIndex(key => this.toXOnly(key) === xOnly);
+  }
+
+  /**
+   * Convert a public key to its x-only (Schnorr) hex form
+   */
+  private toXOnly(publicKey: string): string {
+    const key = new kaspa.PublicKey(publicKey);
+    const xOnly = key.toXOnlyPublicKey();
+    const result = xOnly.toString();
+    xOnly.free();
+    key.free();
+    return result;
+  }
+
+  /**
+   * Clean up WASM resources
+   */
+  dispose(): void {
+    for (const generator of this.generators) {
+      try {
+        generator.free();
+      } catch (e) {
+        // Ignore - may already be freed
+      }
+    }
+    for (const proposal of this.proposals.values()) {
+      for (const pendingTx of proposal.pendingTransactions) {
+        try {
+          pendingTx.free();
+        } catch (e) {
+          // Ignore - may already be freed
+        }
+      }
+    }
+    this.proposals.clear();
+    this.addressIndex.clear();
+    this.usedReceiveIndices.clear();
+    this.usedChangeIndices.clear();
+  }
+}
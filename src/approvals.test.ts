@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ApprovalProposal, ApprovalStore, NewApprovalProposal, digestProposal } from './approvals.js';
+
+const SECRET = 'approval-secret';
+
+const PROPOSAL: NewApprovalProposal = {
+  sessionId: 'default',
+  network: 'testnet-10',
+  to: 'kaspatest:recipient',
+  amount: '30',
+  fee: '0.0001',
+  transactions: ['{"id":"tx1"}'],
+  transactionIds: ['tx1'],
+  inputAddresses: ['kaspatest:sender'],
+  changeAddress: 'kaspatest:change'
+};
+
+describe('ApprovalStore decision signatures', () => {
+  let directory: string;
+  let store: ApprovalStore;
+  let proposal: ApprovalProposal;
+
+  // Apply an approving decision to the proposal, as the server does
+  async function approve(): Promise<ApprovalProposal> {
+    const decision = await store.decide(proposal.id, 'approve', SECRET);
+    const read = await store.readDecision(proposal, SECRET);
+    expect(read).toEqual(decision);
+    return { ...proposal, status: 'approved', decidedAt: decision.decidedAt, approvalSignature: decision.signature };
+  }
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'approvals-'));
+    store = new ApprovalStore(directory);
+    proposal = await store.create(PROPOSAL);
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('accepts a decision signed with the shared secret', async () => {
+    const decision = await store.decide(proposal.id, 'reject', SECRET, { decidedBy: 'alice', reason: 'no' });
+
+    expect(await store.readDecision(proposal, SECRET)).toEqual(decision);
+    expect(decision).toMatchObject({ id: proposal.id, decision: 'reject', decidedBy: 'alice', reason: 'no' });
+  });
+
+  it('ignores and deletes a decision signed with another secret', async () => {
+    await store.decide(proposal.id, 'approve', 'wrong-secret');
+
+    expect(await store.readDecision(proposal, SECRET)).toBeUndefined();
+    await expect(readFile(join(directory, `${proposal.id}.decision.json`))).rejects.toThrow('ENOENT');
+  });
+
+  it('ignores a decision whose verdict was edited', async () => {
+    await store.decide(proposal.id, 'reject', SECRET);
+    const decisionPath = join(directory, `${proposal.id}.decision.json`);
+    const record = JSON.parse(await readFile(decisionPath, 'utf-8'));
+    await writeFile(decisionPath, JSON.stringify({ ...record, decision: 'approve' }));
+
+    expect(await store.readDecision(proposal, SECRET)).toBeUndefined();
+  });
+
+  it('ignores a decision made on a different version of the proposal', async () => {
+    await store.decide(proposal.id, 'approve', SECRET);
+    const changed = { ...proposal, to: 'kaspatest:attacker' };
+    await store.save(changed);
+
+    expect(await store.readDecision(changed, SECRET)).toBeUndefined();
+  });
+
+  it('verifies an approval only while the proposal is unchanged', async () => {
+    const approved = await approve();
+    expect(store.verifyApproval(approved, SECRET)).toBe(true);
+
+    expect(store.verifyApproval({ ...approved, amount: '300' }, SECRET)).toBe(false);
+    expect(store.verifyApproval({ ...approved, changeAddress: 'kaspatest:attacker' }, SECRET)).toBe(false);
+    expect(store.verifyApproval({ ...approved, transactions: ['{"id":"tx2"}'] }, SECRET)).toBe(false);
+    expect(store.verifyApproval(approved, 'wrong-secret')).toBe(false);
+    expect(store.verifyApproval({ ...approved, status: 'pending' }, SECRET)).toBe(false);
+  });
+
+  it('digests the transactions, recipient, amount and change address', () => {
+    const digest = digestProposal(proposal);
+    const repriced: ApprovalProposal = { ...proposal, fee: '1' };
+
+    expect(digestProposal(repriced)).toBe(digest);
+    expect(digestProposal({ ...proposal, to: 'kaspatest:other' })).not.toBe(digest);
+    expect(digestProposal({ ...proposal, amount: '31' })).not.toBe(digest);
+    expect(digestProposal({ ...proposal, changeAddress: 'kaspatest:other' })).not.toBe(digest);
+    expect(digestProposal({ ...proposal, transactions: [] })).not.toBe(digest);
+  });
+
+  it('refuses to decide a proposal twice or after it expired', async () => {
+    await store.save({ ...proposal, status: 'approved' });
+    await expect(store.decide(proposal.id, 'approve', SECRET)).rejects.toThrow('is already approved');
+
+    const expired = await store.create(PROPOSAL, -1);
+    await expect(store.decide(expired.id, 'approve', SECRET)).rejects.toThrow('expired');
+  });
+});
@@ -0,0 +1,258 @@
+import { createHash, createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { mkdir, readFile, readdir, rename, rm, writeFile } from 'fs/promises';
+import { homedir } from 'os';
+import { join } from 'path';
+import { Logger } from 'kaspa-wasm-sdk';
+
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected' | 'submitted' | 'expired' | 'failed';
+
+export type ApprovalDecisionType = 'approve' | 'reject';
+
+// A send above the approval threshold, waiting for a human decision
+export interface ApprovalProposal {
+  id: string;
+  sessionId: string;
+  network: string;
+  status: ApprovalStatus;
+  createdAt: string;
+  expiresAt: string;
+  to: string;
+  /** Amounts in KAS */
+  amount: string;
+  fee: string;
+  payload?: string;
+  /** Unsigned transactions in safe JSON form, in submission order */
+  transactions: string[];
+  transactionIds: string[];
+  inputAddresses: string[];
+  changeAddress: string;
+  decidedAt?: string;
+  decidedBy?: string;
+  reason?: string;
+  /** Signature of the approving decision, checked again before submitting */
+  approvalSignature?: string;
+  submittedAt?: string;
+  transactionId?: string;
+  error?: string;
+}
+
+export type NewApprovalProposal = Omit<ApprovalProposal, 'id' | 'status' | 'createdAt' | 'expiresAt'>;
+
+// Written by the approval CLI next to the proposal, signed with the shared secret
+export interface ApprovalDecision {
+  id: string;
+  decision: ApprovalDecisionType;
+  decidedAt: string;
+  decidedBy?: string;
+  reason?: string;
+  signature: string;
+}
+
+const DEFAULT_TTL_MINUTES = 60;
+
+const log = new Logger('approvals');
+
+// Directory of the approval queue (KASPA_APPROVAL_STORE_PATH, default ~/.kaspa-mcp/approvals)
+export function getApprovalStorePath(): string {
+  return process.env.KASPA_APPROVAL_STORE_PATH || join(homedir(), '.kaspa-mcp', 'approvals');
+}
+
+// Secret shared by the server and the approval CLI; without it no proposal can be approved
+export function getApprovalSecret(): string | undefined {
+  return process.env.KASPA_APPROVAL_SECRET || undefined;
+}
+
+// How long a proposal can wait for a decision (KASPA_APPROVAL_TTL_MINUTES, default 60)
+export function getApprovalTtlMs(): number {
+  const minutes = process.env.KASPA_APPROVAL_TTL_MINUTES ? parseFloat(process.env.KASPA_APPROVAL_TTL_MINUTES) : DEFAULT_TTL_MINUTES;
+  if (isNaN(minutes) || minutes <= 0) {
+    throw new Error(`Invalid KASPA_APPROVAL_TTL_MINUTES: "${process.env.KASPA_APPROVAL_TTL_MINUTES}"`);
+  }
+  return minutes * 60 * 1000;
+}
+
+// Digest of what a decision covers: the transactions and the payment they make
+export function digestProposal(proposal: Pick<ApprovalProposal, 'transactions' | 'to' | 'amount' | 'changeAddress'>): string {
+  return createHash('sha256')
+    .update(JSON.stringify([proposal.transactions, proposal.to, proposal.amount, proposal.changeAddress]))
+    .digest('hex');
+}
+
+function signDecision(
+  secret: string,
+  proposal: ApprovalProposal,
+  decision: ApprovalDecisionType,
+  decidedAt: string
+): string {
+  return createHmac('sha256', secret)
+    .update(`${proposal.id}:${decision}:${decidedAt}:${digestProposal(proposal)}`)
+    .digest('hex');
+}
+
+function isValidSignature(
+  secret: string,
+  proposal: ApprovalProposal,
+  decision: ApprovalDecisionType,
+  decidedAt: string,
+  signature: string
+): boolean {
+  const expected = Buffer.from(signDecision(secret, proposal, decision, decidedAt), 'hex');
+  const actual = Buffer.from(signature, 'hex');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * File-backed approval queue. The server writes one `<id>.json` per proposal;
+ * the approval CLI answers with an `<id>.decision.json` carrying an HMAC of
+ * the decision and of the proposal's transactions and payment, so a decision
+ * written without the shared secret, or a proposal changed after it was
+ * decided, is ignored.
+ */
+export class ApprovalStore {
+  private directory: string;
+
+  constructor(directory: string = getApprovalStorePath()) {
+    this.directory = directory;
+  }
+
+  async create(proposal: NewApprovalProposal, ttlMs: number = getApprovalTtlMs()): Promise<ApprovalProposal> {
+    const now = Date.now();
+    const created: ApprovalProposal = {
+      ...proposal,
+      id: randomUUID(),
+      status: 'pending',
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + ttlMs).toISOString()
+    };
+    await this.save(created);
+    return created;
+  }
+
+  async get(id: string): Promise<ApprovalProposal | undefined> {
+    if (!/^[0-9a-f-]+$/i.test(id)) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(await readFile(this.proposalPath(id), 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw new Error(`Failed to read approval proposal ${id}: ${error}`);
+    }
+  }
+
+  // Every proposal, oldest first
+  async list(): Promise<ApprovalProposal[]> {
+    let files: string[];
+    try {
+      files = await readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw new Error(`Failed to read approval store ${this.directory}: ${error}`);
+    }
+
+    const proposals: ApprovalProposal[] = [];
+    for (const file of files) {
+      if (file.endsWith('.json') && !file.endsWith('.decision.json')) {
+        const proposal = await this.get(file.slice(0, -'.json'.length));
+        if (proposal) {
+          proposals.push(proposal);
+        }
+      }
+    }
+    return proposals.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  // Write a proposal atomically, readable by the owner only
+  async save(proposal: ApprovalProposal): Promise<void> {
+    await mkdir(this.directory, { recursive: true, mode: 0o700 });
+    const filePath = this.proposalPath(proposal.id);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    try {
+      await writeFile(tempPath, JSON.stringify(proposal, null, 2), { mode: 0o600 });
+      await rename(tempPath, filePath);
+    } catch (error) {
+      await rm(tempPath, { force: true });
+      throw new Error(`Failed to write approval proposal ${proposal.id}: ${error}`);
+    }
+  }
+
+  // Record a human decision on a pending proposal; used by the approval CLI
+  async decide(
+    id: string,
+    decision: ApprovalDecisionType,
+    secret: string,
+    details: { decidedBy?: string; reason?: string } = {}
+  ): Promise<ApprovalDecision> {
+    const proposal = await this.get(id);
+    if (!proposal) {
+      throw new Error(`Approval proposal ${id} not found`);
+    }
+    if (proposal.status !== 'pending') {
+      throw new Error(`Approval proposal ${id} is already ${proposal.status}`);
+    }
+    if (Date.parse(proposal.expiresAt) <= Date.now()) {
+      throw new Error(`Approval proposal ${id} expired at ${proposal.expiresAt}`);
+    }
+
+    const decidedAt = new Date().toISOString();
+    const record: ApprovalDecision = {
+      id,
+      decision,
+      decidedAt,
+      ...details,
+      signature: signDecision(secret, proposal, decision, decidedAt)
+    };
+    await writeFile(this.decisionPath(id), JSON.stringify(record, null, 2), { mode: 0o600 });
+    return record;
+  }
+
+  /**
+   * Read the decision on a proposal. A decision with a wrong signature, or
+   * one made on a different version of the proposal, is deleted and reported
+   * as missing.
+   */
+  async readDecision(proposal: ApprovalProposal, secret: string): Promise<ApprovalDecision | undefined> {
+    const id = proposal.id;
+    let record: ApprovalDecision;
+    try {
+      record = JSON.parse(await readFile(this.decisionPath(id), 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      log.warn('Ignoring unreadable approval decision', { proposalId: id, error });
+      await this.removeDecision(id);
+      return undefined;
+    }
+
+    if (record.id !== id || !isValidSignature(secret, proposal, record.decision, String(record.decidedAt), String(record.signature || ''))) {
+      log.warn('Ignoring approval decision with an invalid signature', { proposalId: id });
+      await this.removeDecision(id);
+      return undefined;
+    }
+    return record;
+  }
+
+  // Check that an approved proposal still matches the decision that approved it
+  verifyApproval(proposal: ApprovalProposal, secret: string): boolean {
+    return proposal.status === 'approved'
+      && !!proposal.decidedAt
+      && isValidSignature(secret, proposal, 'approve', proposal.decidedAt, proposal.approvalSignature || '');
+  }
+
+  async removeDecision(id: string): Promise<void> {
+    await rm(this.decisionPath(id), { force: true });
+  }
+
+  private proposalPath(id: string): string {
+    return join(this.directory, `${id}.json`);
+  }
+
+  private decisionPath(id: string): string {
+    return join(this.directory, `${id}.decision.json`);
+  }
+}
@@ -0,0 +1,90 @@
+#!/usr/bin/env node
+
+// Command-line approval channel for sends the spending policy held for a human.
+// It needs KASPA_APPROVAL_SECRET, which is never exposed through the MCP tools.
+
+import { userInfo } from 'os';
+import { ApprovalProposal, ApprovalStore, getApprovalSecret, getApprovalStorePath } from './approvals.js';
+
+const USAGE = `Usage: kaspa-approve <command>
+
+Commands:
+  list [--all]                 List pending proposals (--all includes resolved ones)
+  show <id>                    Show a proposal
+  approve <id> [--reason ...]  Approve a proposal; the server signs and submits it
+  reject <id> [--reason ...]   Reject a proposal
+
+Environment:
+  KASPA_APPROVAL_SECRET        Shared secret, same value as the server (required to decide)
+  KASPA_APPROVAL_STORE_PATH    Approval queue directory (default: ~/.kaspa-mcp/approvals)`;
+
+function formatProposal(proposal: ApprovalProposal): string {
+  return `Proposal: ${proposal.id}
+Status: ${proposal.status}
+Session: ${proposal.sessionId} (${proposal.network})
+To: ${proposal.to}
+Amount: ${proposal.amount} KAS
+Estimated fee: ${proposal.fee} KAS
+From: ${proposal.inputAddresses.join(', ')}
+Transactions: ${proposal.transactionIds.join(', ')}${proposal.payload ? `\nPayload: ${proposal.payload}` : ''}
+Created: ${proposal.createdAt}
+Expires: ${proposal.expiresAt}${proposal.decidedAt ? `\nDecided: ${proposal.decidedAt}${proposal.decidedBy ? ` by ${proposal.decidedBy}` : ''}` : ''}${proposal.reason ? `\nReason: ${proposal.reason}` : ''}${proposal.transactionId ? `\nTransaction ID: ${proposal.transactionId}` : ''}${proposal.error ? `\nError: ${proposal.error}` : ''}`;
+}
+
+function getOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+async function main(args: string[]): Promise<void> {
+  const [command, id] = args;
+  const store = new ApprovalStore();
+
+  switch (command) {
+    case 'list': {
+      const all = args.includes('--all');
+      const proposals = (await store.list()).filter(proposal => all || proposal.status === 'pending');
+      if (proposals.length === 0) {
+        console.log(`No ${all ? '' : 'pending '}proposals in ${getApprovalStorePath()}`);
+        return;
+      }
+      console.log(proposals.map(formatProposal).join('\n\n'));
+      return;
+    }
+    case 'show': {
+      const proposal = id ? await store.get(id) : undefined;
+      if (!proposal) {
+        throw new Error(`Approval proposal ${id ?? ''} not found`);
+      }
+      console.log(formatProposal(proposal));
+      return;
+    }
+    case 'approve':
+    case 'reject': {
+      if (!id) {
+        throw new Error(`Missing proposal ID.\n\n${USAGE}`);
+      }
+      const secret = getApprovalSecret();
+      if (!secret) {
+        throw new Error('KASPA_APPROVAL_SECRET is not set');
+      }
+      const decision = await store.decide(id, command, secret, {
+        decidedBy: userInfo().username,
+        reason: getOption(args, '--reason')
+      });
+      console.log(`${command === 'approve' ? 'Approved' : 'Rejected'} proposal ${decision.id} at ${decision.decidedAt}.`);
+      console.log('The MCP server applies the decision within a few seconds; check it with "kaspa-approve show".');
+      return;
+    }
+    default:
+      console.log(USAGE);
+      if (command && command !== 'help' && command !== '--help') {
+        process.exitCode = 1;
+      }
+  }
+}
+
+main(process.argv.slice(2)).catch(error => {
+  console.error(`Error: ${(error as Error).message}`);
+  process.exit(1);
+});
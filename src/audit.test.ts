@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AuditLog } from './audit.js';
+
+describe('AuditLog.verify', () => {
+  let directory: string;
+  let logPath: string;
+
+  async function writeLog(): Promise<string[]> {
+    const log = new AuditLog(logPath);
+    await log.append('tool_call', { tool: 'kaspa_get_balance', sessionId: 'a' });
+    await log.append('broadcast', { transactionId: 'tx1', sessionId: 'a' });
+    await log.append('tool_call', { tool: 'kaspa_send_transaction', sessionId: 'b' });
+    return (await readFile(logPath, 'utf-8')).trim().split('\n');
+  }
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'audit-'));
+    logPath = join(directory, 'audit.jsonl');
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('accepts a missing log as empty', async () => {
+    expect(await new AuditLog(logPath).verify()).toEqual({ valid: true, entries: 0 });
+  });
+
+  it('accepts an untouched chain, also after reopening it', async () => {
+    await writeLog();
+    const reopened = new AuditLog(logPath);
+    await reopened.append('tool_call', { tool: 'kaspa_get_audit_log' });
+
+    expect(await reopened.verify()).toEqual({ valid: true, entries: 4 });
+  });
+
+  it('keeps reserved fields when an entry passes fields with the same names', async () => {
+    const log = new AuditLog(logPath);
+    const entry = await log.append('tool_call', { seq: 99, event: 'forged', prevHash: 'x' });
+
+    expect(entry).toMatchObject({ seq: 1, event: 'tool_call', prevHash: '0'.repeat(64) });
+    expect((await log.verify()).valid).toBe(true);
+  });
+
+  it('reports an edited entry', async () => {
+    const lines = await writeLog();
+    const edited = { ...JSON.parse(lines[1]), transactionId: 'tx2' };
+    await writeFile(logPath, [lines[0], JSON.stringify(edited), lines[2]].join('\n') + '\n');
+
+    expect(await new AuditLog(logPath).verify()).toEqual({
+      valid: false,
+      entries: 3,
+      brokenAt: 2,
+      reason: 'Entry was modified'
+    });
+  });
+
+  it('reports a removed entry', async () => {
+    const lines = await writeLog();
+    await writeFile(logPath, [lines[0], lines[2]].join('\n') + '\n');
+
+    expect(await new AuditLog(logPath).verify()).toMatchObject({ valid: false, brokenAt: 3, reason: 'Expected sequence 2' });
+  });
+
+  it('reports reordered entries', async () => {
+    const lines = await writeLog();
+    const swapped = [lines[1], lines[0], lines[2]].map(line => JSON.parse(line));
+    swapped[0].seq = 1;
+    swapped[1].seq = 2;
+    await writeFile(logPath, swapped.map(entry => JSON.stringify(entry)).join('\n') + '\n');
+
+    expect(await new AuditLog(logPath).verify()).toMatchObject({ valid: false, brokenAt: 1, reason: 'Previous hash does not match' });
+  });
+
+  it('reports a line that is not JSON', async () => {
+    await writeLog();
+    await writeFile(logPath, 'not json\n', { flag: 'a' });
+
+    expect(await new AuditLog(logPath).verify()).toMatchObject({ valid: false, entries: 0 });
+  });
+});
@@ -0,0 +1,163 @@
+import { createHash } from 'crypto';
+import { appendFile, mkdir, readFile } from 'fs/promises';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+
+// Hash the first entry is chained to
+const GENESIS_HASH = '0'.repeat(64);
+
+interface AuditContent {
+  seq: number;
+  timestamp: string;
+  event: string;
+  sessionId?: string;
+  tool?: string;
+  [field: string]: unknown;
+  prevHash: string;
+}
+
+// One line of the audit log. `hash` covers every other field, including `prevHash`.
+export interface AuditEntry extends AuditContent {
+  hash: string;
+}
+
+export interface AuditQuery {
+  sessionId?: string;
+  tool?: string;
+  event?: string;
+  /** ISO timestamps, inclusive */
+  since?: string;
+  until?: string;
+  /** Most recent entries to return (default: 50) */
+  limit?: number;
+}
+
+export interface AuditVerification {
+  valid: boolean;
+  entries: number;
+  /** Sequence number of the first entry that does not match the chain */
+  brokenAt?: number;
+  reason?: string;
+}
+
+// Audit log file (KASPA_AUDIT_LOG_PATH, default ~/.kaspa-mcp/audit.jsonl)
+export function getAuditLogPath(): string {
+  return process.env.KASPA_AUDIT_LOG_PATH || join(homedir(), '.kaspa-mcp', 'audit.jsonl');
+}
+
+function hashEntry(entry: AuditContent): string {
+  return createHash('sha256').update(JSON.stringify(entry)).digest('hex');
+}
+
+/**
+ * Append-only JSON Lines audit log. Every entry carries the hash of the one
+ * before it, so editing, removing or reordering lines breaks the chain and
+ * shows up in verify().
+ */
+export class AuditLog {
+  private filePath: string;
+  private head?: { seq: number; hash: string };
+  // Appends run one at a time so the chain stays in file order
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(filePath: string = getAuditLogPath()) {
+    this.filePath = filePath;
+  }
+
+  getPath(): string {
+    return this.filePath;
+  }
+
+  append(event: string, fields: Record<string, unknown> = {}): Promise<AuditEntry> {
+    const write = this.queue.then(() => this.write(event, fields));
+    this.queue = write.catch(() => undefined);
+    return write;
+  }
+
+  // Matching entries, oldest first, limited to the most recent ones
+  async query(query: AuditQuery = {}): Promise<AuditEntry[]> {
+    const since = query.since ? Date.parse(query.since) : undefined;
+    const until = query.until ? Date.parse(query.until) : undefined;
+    if (Number.isNaN(since) || Number.isNaN(until)) {
+      throw new Error('since and until must be ISO timestamps');
+    }
+
+    const matches = (await this.readEntries()).filter(entry => {
+      const time = Date.parse(entry.timestamp);
+      return (query.sessionId === undefined || entry.sessionId === query.sessionId) &&
+        (query.tool === undefined || entry.tool === query.tool) &&
+        (query.event === undefined || entry.event === query.event) &&
+        (since === undefined || time >= since) &&
+        (until === undefined || time <= until);
+    });
+    return matches.slice(-(query.limit ?? 50));
+  }
+
+  // Recompute the hash chain from the first entry
+  async verify(): Promise<AuditVerification> {
+    let entries: AuditEntry[];
+    try {
+      entries = await this.readEntries();
+    } catch (error) {
+      return { valid: false, entries: 0, reason: (error as Error).message };
+    }
+
+    let prevHash = GENESIS_HASH;
+    for (const [index, entry] of entries.entries()) {
+      const { hash, ...content } = entry;
+      if (entry.seq !== index + 1) {
+        return { valid: false, entries: entries.length, brokenAt: entry.seq, reason: `Expected sequence ${index + 1}` };
+      }
+      if (entry.prevHash !== prevHash) {
+        return { valid: false, entries: entries.length, brokenAt: entry.seq, reason: 'Previous hash does not match' };
+      }
+      if (hashEntry(content) !== hash) {
+        return { valid: false, entries: entries.length, brokenAt: entry.seq, reason: 'Entry was modified' };
+      }
+      prevHash = hash;
+    }
+    return { valid: true, entries: entries.length };
+  }
+
+  private async write(event: string, fields: Record<string, unknown>): Promise<AuditEntry> {
+    if (!this.head) {
+      const entries = await this.readEntries();
+      const last = entries[entries.length - 1];
+      if (last && (typeof last.seq !== 'number' || typeof last.hash !== 'string')) {
+        throw new Error(`${this.filePath} is not a hash-chained audit log; move it aside to start a new one`);
+      }
+      this.head = last ? { seq: last.seq, hash: last.hash } : { seq: 0, hash: GENESIS_HASH };
+    }
+
+    // Reserved fields go first and cannot be overridden
+    const header = { seq: this.head.seq + 1, timestamp: new Date().toISOString(), event };
+    const content = Object.assign({ ...header }, fields, header, { prevHash: this.head.hash }) as AuditContent;
+    const entry: AuditEntry = { ...content, hash: hashEntry(content) };
+
+    await mkdir(dirname(this.filePath), { recursive: true });
+    await appendFile(this.filePath, JSON.stringify(entry) + '\n', { mode: 0o600 });
+    this.head = { seq: entry.seq, hash: entry.hash };
+    return entry;
+  }
+
+  // Read every entry; a missing file is an empty log
+  private async readEntries(): Promise<AuditEntry[]> {
+    let content: string;
+    try {
+      content = await readFile(this.filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw new Error(`Failed to read audit log ${this.filePath}: ${error}`);
+    }
+
+    return content.split('\n').filter(line => line.trim()).map((line, index) => {
+      try {
+        return JSON.parse(line) as AuditEntry;
+      } catch {
+        throw new Error(`Invalid audit log line ${index + 1} in ${this.filePath}`);
+      }
+    });
+  }
+}
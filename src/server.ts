@@ -0,0 +1,5162 @@
+import { homedir } from 'os';
+import { join } from 'path';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  CallToolRequestSchema,
+  ErrorCode,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  LoggingLevel,
+  McpError,
+  ReadResourceRequestSchema,
+  SetLevelRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import {
+  KaspaSDK,
+  Configuration,
+  SendTransactionResult,
+  DiscoveredAddress,
+  MultisigSigningStatus,
+  SerializedPskt,
+  Keystore,
+  DEFAULT_RELOCK_MS,
+  redactSecrets,
+  SpendingPolicy,
+  SpendingPolicyError,
+  WalletSendConfig,
+  WalletConfig,
+  KaspaWallet,
+  TransactionSimulation,
+  BroadcastEvent,
+  TransactionStatusEvent,
+  REDACTED,
+  Logger,
+  LogRecord,
+  configureLogger,
+  addLogSink,
+  withLogContext,
+  getAddressPrefix
+} from 'kaspa-wasm-sdk';
+import { ApprovalProposal, ApprovalStore, getApprovalSecret } from './approvals.js';
+import { AuditLog } from './audit.js';
+
+// Global SDK instance management
+const sdkInstances = new Map<string, KaspaSDK>();
+const walletInstances = new Map<string, any>();
+
+// Subscription management
+interface SubscriptionInfo {
+  addresses: Set<string>;
+  includeTransactions: boolean;
+  lastBalances: Map<string, bigint>;
+  eventListeners: [string, Function][];
+  // Addresses whose UTXOs changed since the last balance refresh, with the transactions that paid them
+  pendingChanges: Map<string, Set<string>>;
+  refreshTimer?: NodeJS.Timeout;
+  refreshing: Promise<void>;
+}
+
+const subscriptionInstances = new Map<string, SubscriptionInfo>();
+
+// A balance change of a subscribed address, as buffered for kaspa_poll_events
+interface BalanceChangeEvent {
+  id: number;
+  sessionId: string;
+  address: string;
+  previousBalance: bigint;
+  balance: bigint;
+  delta: bigint;
+  transactionIds: string[];
+  timestamp: string;
+}
+
+// Recent balance changes of each session; event IDs keep counting across subscriptions
+const eventBuffers = new Map<string, { events: BalanceChangeEvent[]; nextId: number }>();
+
+// Keystore entry each session's wallet was unlocked from
+const keystoreSessions = new Map<string, string>();
+
+// Resource URIs the client subscribed to with resources/subscribe
+const resourceSubscriptions = new Set<string>();
+
+// Addresses whose UTXO changes each subscribed resource follows, on the SDK that reports them
+const resourceFollows = new Map<string, ResourceFollow>();
+
+// Addresses subscribed at the node for resources, so they are dropped when no resource needs them
+const resourceAddresses = new WeakMap<KaspaSDK, Set<string>>();
+
+// The only tool whose response may contain key material
+const SECRET_EXPORT_TOOL = 'kaspa_export_secret';
+
+// How often decisions from the approval CLI are picked up
+const APPROVAL_POLL_MS = 5000;
+
+// Tool arguments that are never written to the audit log
+const SENSITIVE_ARGUMENTS = new Set(['mnemonic', 'privateKey', 'passphrase', 'password']);
+
+// Longer argument values (PSKTs, bundles) are shortened in the audit log
+const MAX_AUDIT_ARGUMENT_LENGTH = 512;
+
+// Most entries kaspa_get_audit_log returns at once
+const MAX_AUDIT_QUERY_LIMIT = 500;
+
+// Most transactions kaspa_get_address_history returns at once
+const MAX_HISTORY_PAGE_LIMIT = 100;
+
+// Longest wait kaspa_wait_for_confirmation accepts
+const MAX_CONFIRMATION_WAIT_SECONDS = 600;
+
+// UTXO changes within this window are reported as one balance change per address
+const BALANCE_REFRESH_DELAY_MS = 200;
+
+// Balance changes kept per session for kaspa_poll_events, and returned at once
+const MAX_BUFFERED_EVENTS = 1000;
+const MAX_POLL_LIMIT = 500;
+
+// Updates to a resource within this window are sent as one notification
+const RESOURCE_UPDATE_DEBOUNCE_MS = 250;
+
+// Receive addresses kaspa://session/{id}/wallet lists
+const WALLET_RESOURCE_ADDRESSES = 5;
+
+const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: 'kaspa://session/{sessionId}/wallet',
+    name: 'Session wallet',
+    description: 'Addresses, type and extended public key of the wallet of a session; never secrets',
+    mimeType: 'application/json'
+  },
+  {
+    uriTemplate: 'kaspa://session/{sessionId}/balance',
+    name: 'Session balance',
+    description: 'Balances of the wallet and subscribed addresses of a session, updated when they change',
+    mimeType: 'application/json'
+  },
+  {
+    uriTemplate: 'kaspa://address/{address}/utxos',
+    name: 'Address UTXOs',
+    description: 'Unspent outputs of an address, newest first, updated when they change',
+    mimeType: 'application/json'
+  },
+  {
+    uriTemplate: 'kaspa://tx/{transactionId}',
+    name: 'Transaction',
+    description: 'Details and lifecycle state of a transaction, updated when the state changes',
+    mimeType: 'application/json'
+  },
+  {
+    uriTemplate: 'kaspa://network/{network}/info',
+    name: 'Network info',
+    description: 'State of the node a session is connected to on a network',
+    mimeType: 'application/json'
+  }
+];
+
+type ResourceRef =
+  | { kind: 'wallet' | 'balance'; sessionId: string }
+  | { kind: 'utxos'; address: string }
+  | { kind: 'tx'; transactionId: string }
+  | { kind: 'network'; network: string };
+
+interface ResourceFollow {
+  sdk: KaspaSDK;
+  addresses: string[];
+}
+
+// MCP logging levels, least severe first
+const MCP_LOG_LEVELS: LoggingLevel[] = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
+
+// MCP logging level each log record is forwarded as
+const MCP_LEVEL_OF: Record<LogRecord['level'], LoggingLevel> = {
+  error: 'error',
+  warn: 'warning',
+  info: 'info',
+  debug: 'debug',
+  trace: 'debug'
+};
+
+const log = new Logger('kaspa-mcp');
+
+export class KaspaMCPServer {
+  private server: Server;
+  private keystore?: Keystore;
+  private spendingPolicy?: Promise<SpendingPolicy | undefined>;
+  private approvals = new ApprovalStore();
+  private audit = new AuditLog();
+  private approvalProcessing?: Promise<void>;
+  private approvalTimer?: NodeJS.Timeout;
+  private removeLogSink?: () => void;
+  // Resource updates waiting out the debounce window, by URI
+  private resourceUpdateTimers = new Map<string, NodeJS.Timeout>();
+  // Lowest level forwarded to the client; changed with logging/setLevel
+  private clientLogLevel: LoggingLevel = 'info';
+
+  // Session ID normalization helper
+  private normalizeSessionId(sessionId?: string): string {
+    // Normalize empty string, undefined, or null to 'default'
+    return sessionId && sessionId.trim() ? sessionId.trim() : 'default';
+  }
+
+  // Open the encrypted keystore configured by KASPA_KEYSTORE_PATH
+  private getKeystore(): Keystore {
+    if (!this.keystore) {
+      const config = Configuration.getKeystoreConfig();
+      if (!config) {
+        throw new McpError(ErrorCode.InvalidRequest, 'No keystore configured. Set KASPA_KEYSTORE_PATH.');
+      }
+      this.keystore = new Keystore(config.path, {
+        relockAfterMs: config.relockAfterMs,
+        onLock: name => this.closeKeystoreWallets(name)
+      });
+    }
+    return this.keystore;
+  }
+
+  // Drop the wallets of every session unlocked from a keystore entry that was locked
+  private closeKeystoreWallets(name: string): void {
+    for (const [sessionId, entryName] of keystoreSessions) {
+      if (entryName !== name) {
+        continue;
+      }
+      log.info(`Keystore entry "${name}" locked, closing wallet`, { sessionId });
+      sdkInstances.get(sessionId)?.closeWallet();
+      walletInstances.delete(sessionId);
+      this.notifySessionResourcesChanged(sessionId);
+      keystoreSessions.delete(sessionId);
+    }
+  }
+
+  // Load the spending policy configured by KASPA_SPENDING_POLICY_PATH once; it is shared by every session
+  private getSpendingPolicy(): Promise<SpendingPolicy | undefined> {
+    if (!this.spendingPolicy) {
+      const policyPath = Configuration.getSpendingPolicyPath();
+      this.spendingPolicy = policyPath ? SpendingPolicy.loadFromFile(policyPath) : Promise.resolve(undefined);
+      // Retry on the next connect instead of caching a failed load
+      this.spendingPolicy.catch(() => { this.spendingPolicy = undefined; });
+    }
+    return this.spendingPolicy;
+  }
+
+  // Report a send the spending policy rejected, with one reason per violated rule
+  private formatPolicyRejection(error: SpendingPolicyError) {
+    const reasons = error.violations.map(violation => `- [${violation.scope}/${violation.rule}] ${violation.message}`);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `🛑 Transaction rejected by spending policy. Nothing was sent.
+${reasons.join('\n')}
+
+Ask a human to approve a smaller amount, another recipient or a policy change.${
+  error.violations.some(violation => violation.rule === 'approvalThreshold')
+    ? '\nSingle payments above the approval threshold can be proposed for human approval with kaspa_send_transaction or kaspa_send_from_wallet.'
+    : ''
+}`
+        },
+        {
+          type: 'text',
+          text: JSON.stringify({ rejected: true, violations: error.violations }, null, 2)
+        }
+      ],
+      isError: true
+    };
+  }
+
+  // Hold a send above the approval threshold as a proposal for a human instead of submitting it
+  private async proposeIfApprovalRequired(sessionId: string, sdk: KaspaSDK, config: WalletSendConfig) {
+    const policy = sdk.getSpendingPolicy();
+    const network = sdk.getNetworkType();
+    const to = typeof config.to === 'string' ? config.to : config.to.toString();
+    const payments = [{ address: to, amount: config.amount }];
+    // Without the shared secret nothing could approve the proposal; the SDK rejects the send instead
+    if (!policy?.requiresApproval({ scope: sessionId, network, payments }) || !getApprovalSecret()) {
+      return undefined;
+    }
+
+    const unsigned = await sdk.buildUnsignedTransaction(config);
+    // Only propose sends the policy would allow once approved
+    const decision = policy.evaluate({ scope: sessionId, network, payments, fee: unsigned.totalFee, approved: true });
+    if (!decision.allowed) {
+      throw new SpendingPolicyError(decision.violations);
+    }
+
+    const proposal = await this.approvals.create({
+      sessionId,
+      network,
+      to,
+      amount: KaspaSDK.sompiToKas(config.amount),
+      fee: KaspaSDK.sompiToKas(unsigned.totalFee),
+      payload: typeof config.payload === 'string' ? config.payload : undefined,
+      transactions: unsigned.transactions.map(tx => tx.serialized),
+      transactionIds: unsigned.transactions.map(tx => tx.transactionId),
+      inputAddresses: unsigned.inputAddresses,
+      changeAddress: unsigned.changeAddress
+    });
+    await this.audit.append('approval_proposed', {
+      proposalId: proposal.id,
+      sessionId,
+      network,
+      to,
+      amount: proposal.amount,
+      fee: proposal.fee
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `⏳ Send held for human approval. Nothing was sent yet.
+${this.formatApproval(proposal)}
+
+A human has to approve it outside this conversation:
+  kaspa-approve approve ${proposal.id}
+Check progress with kaspa_get_approval_status.`
+        },
+        {
+          type: 'text',
+          text: JSON.stringify({ pendingApproval: true, proposalId: proposal.id, expiresAt: proposal.expiresAt }, null, 2)
+        }
+      ]
+    };
+  }
+
+  // Describe an approval proposal without its transactions
+  private formatApproval(proposal: ApprovalProposal): string {
+    return `Proposal: ${proposal.id}
+Status: ${proposal.status}
+Session: ${proposal.sessionId} (${proposal.network})
+To: ${proposal.to}
+Amount: ${proposal.amount} KAS
+Estimated fee: ${proposal.fee} KAS
+Created: ${proposal.createdAt}
+Expires: ${proposal.expiresAt}${proposal.decidedAt ? `\nDecided: ${proposal.decidedAt}` : ''}${proposal.reason ? `\nReason: ${proposal.reason}` : ''}${proposal.transactionId ? `\nTransaction ID: ${proposal.transactionId}` : ''}${proposal.error ? `\nError: ${proposal.error}` : ''}`;
+  }
+
+  // Apply decisions from the approval CLI; concurrent callers share one pass
+  private processApprovals(): Promise<void> {
+    if (!this.approvalProcessing) {
+      this.approvalProcessing = this.applyApprovalDecisions().finally(() => {
+        this.approvalProcessing = undefined;
+      });
+    }
+    return this.approvalProcessing;
+  }
+
+  private async applyApprovalDecisions(): Promise<void> {
+    const secret = getApprovalSecret();
+    if (!secret) {
+      return;
+    }
+
+    for (const proposal of await this.approvals.list()) {
+      const expired = Date.now() >= Date.parse(proposal.expiresAt);
+
+      if (proposal.status === 'pending') {
+        const decision = await this.approvals.readDecision(proposal, secret);
+        if (decision) {
+          const inTime = Date.parse(decision.decidedAt) < Date.parse(proposal.expiresAt);
+          proposal.status = decision.decision === 'reject' ? 'rejected' : inTime ? 'approved' : 'expired';
+          proposal.decidedAt = decision.decidedAt;
+          proposal.decidedBy = decision.decidedBy;
+          proposal.reason = decision.reason;
+          if (proposal.status === 'approved') {
+            proposal.approvalSignature = decision.signature;
+          }
+        } else if (expired) {
+          proposal.status = 'expired';
+        } else {
+          continue;
+        }
+        await this.approvals.save(proposal);
+        await this.approvals.removeDecision(proposal.id);
+        await this.audit.append(`approval_${proposal.status}`, {
+          proposalId: proposal.id,
+          sessionId: proposal.sessionId,
+          decidedBy: proposal.decidedBy
+        });
+      }
+
+      if (proposal.status === 'approved') {
+        await this.submitApproval(proposal, expired, secret);
+      }
+    }
+  }
+
+  // Sign and submit an approved proposal with the wallet of its session
+  private async submitApproval(proposal: ApprovalProposal, expired: boolean, secret: string): Promise<void> {
+    const sdk = sdkInstances.get(proposal.sessionId);
+    if (!this.approvals.verifyApproval(proposal, secret)) {
+      // The proposal file no longer holds what the human approved
+      proposal.status = 'failed';
+      proposal.error = 'Proposal changed after it was approved; nothing was submitted';
+    } else if (!sdk || !walletInstances.get(proposal.sessionId) || sdk.getNetworkType() !== proposal.network) {
+      // Wait for the session to reconnect or unlock its wallet, until the proposal expires
+      if (!expired) {
+        return;
+      }
+      proposal.status = 'failed';
+      proposal.error = `Session "${proposal.sessionId}" had no ${proposal.network} wallet before the proposal expired`;
+    } else {
+      try {
+        const result = await sdk.submitUnsignedTransaction(
+          proposal.transactions,
+          proposal.inputAddresses,
+          proposal.changeAddress,
+          [{ address: proposal.to, amount: KaspaSDK.kasToSompi(proposal.amount) }]
+        );
+        proposal.status = 'submitted';
+        proposal.submittedAt = new Date().toISOString();
+        proposal.transactionId = result.transactionId;
+      } catch (error) {
+        proposal.status = 'failed';
+        proposal.error = this.redactText((error as Error).message);
+      }
+    }
+
+    await this.approvals.save(proposal);
+    await this.audit.append(`approval_${proposal.status}`, {
+      proposalId: proposal.id,
+      sessionId: proposal.sessionId,
+      transactionId: proposal.transactionId,
+      error: proposal.error
+    });
+  }
+
+  // Every secret the server holds: session wallets, preconfigured credentials and tool arguments
+  private collectSecrets(args?: any): string[] {
+    const secrets: string[] = [];
+    for (const wallet of walletInstances.values()) {
+      secrets.push(...(wallet?.getSecrets?.() || []));
+    }
+    const credentials = Configuration.getWalletCredentials();
+    if (credentials?.mnemonic) secrets.push(credentials.mnemonic);
+    if (credentials?.privateKey) secrets.push(credentials.privateKey);
+    if (typeof args?.mnemonic === 'string') secrets.push(args.mnemonic);
+    if (typeof args?.privateKey === 'string') secrets.push(args.privateKey);
+    return secrets;
+  }
+
+  private redactText(text: string, args?: any): string {
+    return redactSecrets(text, this.collectSecrets(args));
+  }
+
+  // Strip key material from every text item of a tool response
+  private redactResponse(response: any, args?: any): any {
+    if (!Array.isArray(response?.content)) {
+      return response;
+    }
+    const secrets = this.collectSecrets(args);
+    return {
+      ...response,
+      content: response.content.map((item: any) =>
+        item?.type === 'text' && typeof item.text === 'string'
+          ? { ...item, text: redactSecrets(item.text, secrets) }
+          : item
+      )
+    };
+  }
+
+  // Tool arguments as written to the audit log: secrets removed, long values shortened
+  private redactArguments(args: any): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(args || {})) {
+      if (SENSITIVE_ARGUMENTS.has(key)) {
+        result[key] = REDACTED;
+        continue;
+      }
+      const json = this.redactText(JSON.stringify(value) ?? 'null', args);
+      if (json.length > MAX_AUDIT_ARGUMENT_LENGTH) {
+        result[key] = `${json.slice(0, MAX_AUDIT_ARGUMENT_LENGTH)}... (${json.length} characters)`;
+        continue;
+      }
+      try {
+        result[key] = JSON.parse(json);
+      } catch {
+        result[key] = json;
+      }
+    }
+    return result;
+  }
+
+  // Record a tool invocation; a failing audit write is reported but never fails the call
+  private async auditToolCall(name: string, args: any, status: 'ok' | 'rejected' | 'error', startedAt: number, error?: string) {
+    try {
+      await this.audit.append('tool_call', {
+        sessionId: this.normalizeSessionId(args?.sessionId),
+        tool: name,
+        arguments: this.redactArguments(args),
+        status,
+        error,
+        durationMs: Date.now() - startedAt
+      });
+    } catch (auditError) {
+      log.warn('Failed to write audit entry', { tool: name, error: auditError });
+    }
+  }
+
+  // Record a submitted send of a session
+  private auditBroadcast(sessionId: string, event: BroadcastEvent): void {
+    this.audit.append('broadcast', {
+      sessionId,
+      network: event.network,
+      transactionId: event.transactionId,
+      transactionIds: event.transactions.map(tx => tx.transactionId),
+      amount: KaspaSDK.sompiToKas(event.amount),
+      fee: KaspaSDK.sompiToKas(event.fee),
+      recipients: event.payments.map(payment => ({ address: payment.address, amount: KaspaSDK.sompiToKas(payment.amount) }))
+    }).catch(error => log.warn('Failed to write audit entry for broadcast', { sessionId, txId: event.transactionId, error }));
+  }
+
+  // Describe every transaction of a chained send (empty for a single transaction)
+  private formatTransactionChain(result: SendTransactionResult): string {
+    const transactions = result.transactions || [];
+    if (transactions.length <= 1) {
+      return '';
+    }
+
+    const lines = transactions.map((tx, idx) =>
+      `  [${idx}] ${tx.transactionId} (fee: ${KaspaSDK.sompiToKas(tx.fee)} KAS, mass: ${tx.mass})${tx.isFinal ? ' <- payment' : ' (UTXO compounding)'}`
+    );
+    return `\nChained transactions (${transactions.length}):\n${lines.join('\n')}`;
+  }
+
+  // State of the payment transaction right after submission, for send results
+  private formatTracking(result: SendTransactionResult): string {
+    return result.tracking ? `\nStatus: ${result.tracking.state} (follow with kaspa_get_transaction_status)` : '';
+  }
+
+  // Describe a dry run: every transaction with its inputs and outputs, the policy decision and the transactions as JSON
+  private formatSimulation(simulation: TransactionSimulation, summary: string) {
+    const transactionLines = simulation.transactions.map((tx, idx) => [
+      `  [${idx}] ${tx.transactionId} (fee: ${KaspaSDK.sompiToKas(tx.fee)} KAS, mass: ${tx.mass})${tx.isFinal ? ' <- payment' : ' (UTXO compounding)'}`,
+      ...tx.inputs.map(input =>
+        `      in:  ${input.address || 'unknown'} ${KaspaSDK.sompiToKas(input.amount)} KAS (${input.transactionId}:${input.index})`
+      ),
+      ...tx.outputs.map(output =>
+        `      out: ${output.address || 'non-standard script'} ${KaspaSDK.sompiToKas(output.amount)} KAS${output.isChange ? ' (change)' : ''}`
+      )
+    ].join('\n'));
+
+    const { policy } = simulation;
+    let policyText = 'Spending policy: none configured';
+    if (policy?.allowed) {
+      policyText = 'Spending policy: allowed';
+    } else if (policy) {
+      const needsApproval = policy.violations.some(violation => violation.rule === 'approvalThreshold');
+      policyText = `Spending policy: would reject
+${policy.violations.map(violation => `- [${violation.scope}/${violation.rule}] ${violation.message}`).join('\n')}${
+  needsApproval && getApprovalSecret() ? '\nA real send of a single payment would be held for human approval.' : ''
+}`;
+    }
+
+    const totalFee = simulation.transactions.reduce((sum, tx) => sum + tx.fee, BigInt(0));
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `🧪 Dry run: nothing was broadcast.
+${summary}
+Total fees: ${KaspaSDK.sompiToKas(totalFee)} KAS
+Chained transactions: ${simulation.transactions.length}
+
+Transactions:
+${transactionLines.join('\n')}
+
+${policyText}`
+        },
+        {
+          type: 'text',
+          text: JSON.stringify({
+            dryRun: true,
+            totalFee: totalFee.toString(),
+            transactions: simulation.transactions.map(tx => ({
+              transactionId: tx.transactionId,
+              fee: tx.fee.toString(),
+              mass: tx.mass.toString(),
+              isFinal: tx.isFinal,
+              inputs: tx.inputs.map(input => ({ ...input, amount: input.amount.toString() })),
+              outputs: tx.outputs.map(output => ({ ...output, amount: output.amount.toString() })),
+              serialized: tx.serialized
+            })),
+            policy
+          }, null, 2)
+        }
+      ]
+    };
+  }
+
+  // Describe the signing progress of a multisig proposal
+  private formatMultisigStatus(status: MultisigSigningStatus): string {
+    const state = status.submitted
+      ? 'submitted'
+      : status.complete ? 'ready to submit' : 'awaiting signatures';
+    const transactionLines = status.transactions.map((tx, idx) =>
+      `  [${idx}] ${tx.transactionId} (${tx.inputCount} inputs, fee: ${KaspaSDK.sompiToKas(tx.fee)} KAS)${tx.isFinal ? ' <- payment' : ' (UTXO compounding)'}`
+    );
+
+    return `Proposal: ${status.proposalId}
+To: ${status.to}
+Amount: ${KaspaSDK.sompiToKas(status.amount)} KAS
+Total fees: ${KaspaSDK.sompiToKas(status.totalFee)} KAS
+Signatures: ${status.signedBy.length} of ${status.threshold} required (${status.cosigners} cosigners)
+Signed by cosigners: ${status.signedBy.length > 0 ? status.signedBy.join(', ') : 'none'}
+Status: ${state}
+
+Transactions (${status.transactions.length}):
+${transactionLines.join('\n')}`;
+  }
+
+  // Describe a PSKT and its signing state, followed by the portable string
+  private formatPskt(pskt: SerializedPskt): string {
+    const { status } = pskt;
+    return `Transaction ID: ${status.id}
+Role: ${status.role}
+Inputs: ${status.inputCount} (${status.signedInputs} fully signed), Outputs: ${status.outputCount}
+Fee: ${KaspaSDK.sompiToKas(status.fee)} KAS
+Status: ${status.finalized ? 'finalized, ready to broadcast' : status.readyToFinalize ? 'fully signed, ready to finalize' : 'awaiting signatures'}
+
+${pskt.serialized}`;
+  }
+
+  // Get the SDK of a session for PSKT operations
+  private getPsktSdk(args: any): KaspaSDK {
+    const sdk = sdkInstances.get(this.normalizeSessionId(args.sessionId));
+    if (!sdk) {
+      throw new McpError(ErrorCode.InvalidRequest, 'No active connection. Please connect first.');
+    }
+    if (args.pskt !== undefined && typeof args.pskt !== 'string') {
+      throw new McpError(ErrorCode.InvalidParams, 'pskt must be a serialized PSKT string.');
+    }
+    return sdk;
+  }
+
+  constructor() {
+    // Load configuration from environment variables
+    Configuration.loadFromEnv();
+    
+    this.server = new Server(
+      {
+        name: 'kaspa-server',
+        version: '1.0.0',
+      },
+      {
+        capabilities: {
+          tools: {},
+          logging: {},
+          resources: { subscribe: true, listChanged: true },
+        },
+      }
+    );
+
+    configureLogger({ secrets: () => this.collectSecrets() });
+    this.setupLogForwarding();
+    this.setupResourceHandlers();
+    this.setupToolHandlers();
+    this.setupErrorHandling();
+  }
+
+  // Forward log records to the client as MCP logging notifications
+  private setupLogForwarding(): void {
+    this.server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+      this.clientLogLevel = request.params.level;
+      log.info(`Client log level set to ${request.params.level}`);
+      return {};
+    });
+
+    this.removeLogSink = addLogSink(record => {
+      const level = MCP_LEVEL_OF[record.level];
+      if (MCP_LOG_LEVELS.indexOf(level) < MCP_LOG_LEVELS.indexOf(this.clientLogLevel)) {
+        return;
+      }
+      // Not connected yet, or the client went away: stderr still has the record
+      this.server.sendLoggingMessage({
+        level,
+        logger: record.logger,
+        data: { message: record.message, timestamp: record.timestamp, ...record.fields }
+      }).catch(() => undefined);
+    });
+  }
+
+  // Serve sessions, addresses, transactions and networks as MCP resources
+  private setupResourceHandlers(): void {
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+      resources: this.listResources()
+    }));
+
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: RESOURCE_TEMPLATES
+    }));
+
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const { uri } = request.params;
+      const value = await this.readResource(this.parseResourceUri(uri));
+      return {
+        contents: [
+          {
+            uri,
+            mimeType: 'application/json',
+            text: JSON.stringify(value, (_key, item) => typeof item === 'bigint' ? item.toString() : item, 2)
+          }
+        ]
+      };
+    });
+
+    this.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      const { uri } = request.params;
+      const follow = await this.followResource(this.parseResourceUri(uri));
+      if (follow) {
+        resourceFollows.set(uri, follow);
+      }
+      resourceSubscriptions.add(uri);
+      log.debug(`Client subscribed to ${uri}`);
+      return {};
+    });
+
+    this.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      const { uri } = request.params;
+      resourceSubscriptions.delete(uri);
+      clearTimeout(this.resourceUpdateTimers.get(uri));
+      this.resourceUpdateTimers.delete(uri);
+      await this.unfollowResource(uri);
+      return {};
+    });
+  }
+
+  // Resources of the current sessions: their wallets, balances, subscribed addresses and networks
+  private listResources() {
+    const resources: { uri: string; name: string; mimeType: string }[] = [];
+    const networks = new Set<string>();
+
+    for (const [sessionId, sdk] of sdkInstances) {
+      const session = encodeURIComponent(sessionId);
+      if (walletInstances.has(sessionId)) {
+        resources.push({ uri: `kaspa://session/${session}/wallet`, name: `Wallet of session ${sessionId}`, mimeType: 'application/json' });
+      }
+      if (sdk.isOffline()) {
+        continue;
+      }
+      resources.push({ uri: `kaspa://session/${session}/balance`, name: `Balance of session ${sessionId}`, mimeType: 'application/json' });
+      for (const address of subscriptionInstances.get(sessionId)?.addresses || []) {
+        resources.push({ uri: `kaspa://address/${address}/utxos`, name: `UTXOs of ${address}`, mimeType: 'application/json' });
+      }
+      networks.add(sdk.getNetworkType());
+    }
+
+    for (const network of networks) {
+      resources.push({ uri: `kaspa://network/${network}/info`, name: `Kaspa ${network}`, mimeType: 'application/json' });
+    }
+    return resources;
+  }
+
+  private parseResourceUri(uri: string): ResourceRef {
+    const match = /^kaspa:\/\/([^/]+)\/([^/]+)(?:\/([^/]+))?$/.exec(uri);
+    const [, kind, id, field] = match || [];
+    const value = id ? decodeURIComponent(id) : '';
+
+    if (kind === 'session' && (field === 'wallet' || field === 'balance')) {
+      return { kind: field, sessionId: this.normalizeSessionId(value) };
+    }
+    if (kind === 'address' && field === 'utxos') {
+      return { kind: 'utxos', address: value };
+    }
+    if (kind === 'tx' && field === undefined) {
+      return { kind: 'tx', transactionId: value };
+    }
+    if (kind === 'network' && field === 'info') {
+      return { kind: 'network', network: value };
+    }
+    throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+  }
+
+  private async readResource(resource: ResourceRef): Promise<unknown> {
+    try {
+      switch (resource.kind) {
+        case 'wallet': {
+          const wallet = walletInstances.get(resource.sessionId);
+          if (!wallet) {
+            throw new McpError(ErrorCode.InvalidRequest, `Session "${resource.sessionId}" has no wallet.`);
+          }
+          // Single-key wallets have one address
+          const addresses = new Set<string>();
+          for (let i = 0; i < WALLET_RESOURCE_ADDRESSES; i++) {
+            try {
+              addresses.add(wallet.getReceiveAddress(i));
+            } catch {
+              break;
+            }
+          }
+          return {
+            sessionId: resource.sessionId,
+            network: sdkInstances.get(resource.sessionId)?.getNetworkType(),
+            type: wallet.isWatchOnly() ? 'watch-only' : wallet.getMnemonic() ? 'hd' : 'private-key',
+            receiveAddress: wallet.getReceiveAddress(0),
+            changeAddress: wallet.getChangeAddress(0),
+            addresses: Array.from(addresses),
+            xpub: wallet.getXPub() || undefined
+          };
+        }
+        case 'balance': {
+          const sdk = this.getOnlineSdk(resource.sessionId);
+          const balances = await sdk.getBalances(this.getSessionAddresses(resource.sessionId));
+          return {
+            sessionId: resource.sessionId,
+            network: sdk.getNetworkType(),
+            total: balances.reduce((sum, balance) => sum + balance.balance, BigInt(0)),
+            totalKas: KaspaSDK.sompiToKas(balances.reduce((sum, balance) => sum + balance.balance, BigInt(0))),
+            addresses: balances
+          };
+        }
+        case 'utxos': {
+          const sdk = this.getSdkForAddress(resource.address);
+          const utxos = await sdk.getAddressUtxos([resource.address]);
+          return {
+            address: resource.address,
+            network: sdk.getNetworkType(),
+            total: utxos.reduce((sum, utxo) => sum + utxo.amount, BigInt(0)),
+            utxos
+          };
+        }
+        case 'tx':
+          return await this.readTransactionResource(resource.transactionId);
+        case 'network': {
+          const sdk = Array.from(sdkInstances.values())
+            .find(candidate => !candidate.isOffline() && candidate.getNetworkType() === resource.network);
+          if (!sdk) {
+            throw new McpError(ErrorCode.InvalidRequest, `No session is connected to ${resource.network}.`);
+          }
+          return await sdk.getNetworkInfo();
+        }
+      }
+    } catch (error) {
+      if (error instanceof McpError) {
+        throw error;
+      }
+      throw new McpError(ErrorCode.InternalError, `Failed to read resource: ${(error as Error).message}`);
+    }
+  }
+
+  // A transaction from the first connected session that knows it
+  private async readTransactionResource(transactionId: string): Promise<unknown> {
+    let lastError: unknown;
+    for (const sdk of sdkInstances.values()) {
+      if (sdk.isOffline()) {
+        continue;
+      }
+      try {
+        const details = await sdk.getTransactionDetails(transactionId);
+        const status = await sdk.getTransactionStatus(transactionId);
+        return { network: sdk.getNetworkType(), ...details, status };
+      } catch (error) {
+        lastError = error;
+      }
+    }
+    if (lastError) {
+      throw lastError;
+    }
+    throw new McpError(ErrorCode.InvalidRequest, 'No active connection. Please connect first.');
+  }
+
+  private getOnlineSdk(sessionId: string): KaspaSDK {
+    const sdk = sdkInstances.get(sessionId);
+    if (!sdk || sdk.isOffline()) {
+      throw new McpError(ErrorCode.InvalidRequest, `Session "${sessionId}" has no active connection.`);
+    }
+    return sdk;
+  }
+
+  // A connected session on the network of an address
+  private getSdkForAddress(address: string): KaspaSDK {
+    const prefix = address.split(':')[0];
+    const sdk = Array.from(sdkInstances.values())
+      .find(candidate => !candidate.isOffline() && getAddressPrefix(candidate.getNetworkType()) === prefix);
+    if (!sdk) {
+      throw new McpError(ErrorCode.InvalidRequest, `No session is connected to the network of ${address}.`);
+    }
+    return sdk;
+  }
+
+  // Addresses of a session's balance: its wallet's main and used addresses and its subscribed ones
+  private getSessionAddresses(sessionId: string): string[] {
+    const addresses = new Set<string>();
+    const wallet = walletInstances.get(sessionId);
+    if (wallet) {
+      addresses.add(wallet.getReceiveAddress(0));
+      for (const info of wallet.getUsedAddresses()) {
+        addresses.add(info.address);
+      }
+    }
+    for (const address of subscriptionInstances.get(sessionId)?.addresses || []) {
+      addresses.add(address);
+    }
+    if (addresses.size === 0) {
+      throw new McpError(ErrorCode.InvalidRequest, `Session "${sessionId}" has no wallet or subscribed addresses.`);
+    }
+    return Array.from(addresses);
+  }
+
+  // Subscribe to the UTXO changes of the addresses behind a resource, so that it gets updates
+  private async followResource(resource: ResourceRef): Promise<ResourceFollow | undefined> {
+    let sdk: KaspaSDK;
+    let addresses: string[];
+    if (resource.kind === 'utxos') {
+      sdk = this.getSdkForAddress(resource.address);
+      addresses = [resource.address];
+    } else if (resource.kind === 'balance') {
+      sdk = this.getOnlineSdk(resource.sessionId);
+      addresses = this.getSessionAddresses(resource.sessionId);
+    } else {
+      return undefined;
+    }
+
+    const followed = new Set(sdk.getConnectionStatus()?.subscriptions.utxoAddresses || []);
+    const missing = addresses.filter(address => !followed.has(address));
+    if (missing.length > 0) {
+      try {
+        await sdk.subscribeToAddresses(missing);
+      } catch (error) {
+        throw new McpError(ErrorCode.InternalError, `Failed to subscribe: ${(error as Error).message}`);
+      }
+      this.addResourceAddresses(sdk, missing);
+    }
+    return { sdk, addresses };
+  }
+
+  // Drop the node subscriptions made for a resource that nothing else follows any more
+  private async unfollowResource(uri: string): Promise<void> {
+    const follow = resourceFollows.get(uri);
+    resourceFollows.delete(uri);
+    const owned = follow && resourceAddresses.get(follow.sdk);
+    if (!follow || !owned) {
+      return;
+    }
+
+    const unused = follow.addresses.filter(address => owned.has(address) && !this.isAddressFollowed(follow.sdk, address));
+    if (unused.length === 0) {
+      return;
+    }
+    unused.forEach(address => owned.delete(address));
+    // The session may have disconnected since
+    if (!Array.from(sdkInstances.values()).includes(follow.sdk)) {
+      return;
+    }
+    try {
+      await follow.sdk.unsubscribeFromAddresses(unused);
+    } catch (error) {
+      log.warn('Failed to unsubscribe from the addresses of a resource', { uri, error });
+    }
+  }
+
+  private addResourceAddresses(sdk: KaspaSDK, addresses: string[]): void {
+    let owned = resourceAddresses.get(sdk);
+    if (!owned) {
+      owned = new Set();
+      resourceAddresses.set(sdk, owned);
+    }
+    addresses.forEach(address => owned!.add(address));
+  }
+
+  // Whether a subscribed resource or a balance subscription still needs the UTXO changes of an address
+  private isAddressFollowed(sdk: KaspaSDK, address: string): boolean {
+    for (const follow of resourceFollows.values()) {
+      if (follow.sdk === sdk && follow.addresses.includes(address)) {
+        return true;
+      }
+    }
+    for (const [sessionId, candidate] of sdkInstances) {
+      if (candidate === sdk && subscriptionInstances.get(sessionId)?.addresses.has(address)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  // Turn a session's UTXO, balance and transaction events into resource update notifications
+  private publishResourceUpdates(sessionId: string, sdk: KaspaSDK): void {
+    const session = encodeURIComponent(sessionId);
+    const onUtxosChanged = (data: any) => {
+      if (data?.address) {
+        this.notifyResourceUpdated(`kaspa://address/${data.address}/utxos`);
+      }
+      this.notifyResourceUpdated(`kaspa://session/${session}/balance`);
+    };
+    sdk.on('transaction:incoming', onUtxosChanged);
+    sdk.on('transaction:spent', onUtxosChanged);
+    sdk.on('balance:changed', () => this.notifyResourceUpdated(`kaspa://session/${session}/balance`));
+    sdk.on('transaction:status', (event: TransactionStatusEvent) => this.notifyResourceUpdated(`kaspa://tx/${event.transactionId}`));
+  }
+
+  // A session's wallet changed: its resources are different now
+  private notifySessionResourcesChanged(sessionId: string): void {
+    const session = encodeURIComponent(sessionId);
+    this.notifyResourceUpdated(`kaspa://session/${session}/wallet`);
+    this.notifyResourceUpdated(`kaspa://session/${session}/balance`);
+    this.server.sendResourceListChanged().catch(() => undefined);
+  }
+
+  private notifyResourceUpdated(uri: string): void {
+    if (!resourceSubscriptions.has(uri) || this.resourceUpdateTimers.has(uri)) {
+      return;
+    }
+    this.resourceUpdateTimers.set(uri, setTimeout(() => {
+      this.resourceUpdateTimers.delete(uri);
+      // The client may have gone away; it reads the resource again when it comes back
+      this.server.sendResourceUpdated({ uri }).catch(() => undefined);
+    }, RESOURCE_UPDATE_DEBOUNCE_MS));
+  }
+
+  private setupErrorHandling(): void {
+    this.server.onerror = (error) => log.error('MCP protocol error', { error });
+    process.on('SIGINT', async () => {
+      await this.cleanup();
+      process.exit(0);
+    });
+  }
+
+  private async cleanup(): Promise<void> {
+    // Clean up all SDK instances
+    for (const [sessionId, sdk] of sdkInstances) {
+      try {
+        await sdk.dispose();
+      } catch (error) {
+        log.warn('Error disposing SDK', { sessionId, error });
+        // Continue with cleanup even if disposal fails
+      }
+    }
+    
+    // Clean up all wallet instances
+    for (const [sessionId, wallet] of walletInstances) {
+      try {
+        if (wallet && wallet.dispose) {
+          wallet.dispose();
+        }
+      } catch (error) {
+        log.warn('Error disposing wallet', { sessionId, error });
+        // Continue with cleanup even if disposal fails
+      }
+    }
+    
+    for (const subscription of subscriptionInstances.values()) {
+      clearTimeout(subscription.refreshTimer);
+    }
+    sdkInstances.clear();
+    walletInstances.clear();
+    subscriptionInstances.clear();
+    keystoreSessions.clear();
+    resourceSubscriptions.clear();
+    resourceFollows.clear();
+    eventBuffers.clear();
+  }
+
+  private setupToolHandlers(): void {
+    this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: [
+        {
+          name: 'kaspa_connect',
+          description: 'Connect to Kaspa network (mainnet, testnet-10, devnet, simnet)',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              network: {
+                type: 'string',
+                enum: ['mainnet', 'testnet-10', 'devnet', 'simnet'],
+                description: 'Network to connect to',
+                default: 'mainnet'
+              },
+              rpcUrl: {
+                type: 'string',
+                description: 'Optional custom RPC URL. When set, it is the only endpoint; otherwise the configured endpoints are used in order, with automatic failover'
+              },
+              sessionId: {
+                type: 'string',
+                description: 'Session identifier for managing connections',
+                default: 'default'
+              },
+              offline: {
+                type: 'boolean',
+                description: 'Create an air-gapped session that never opens an RPC connection. Use it to verify and sign exported transactions.',
+                default: false
+              }
+            },
+            required: ['network']
+          }
+        },
+        {
+          name: 'kaspa_create_wallet',
+          description: 'Create or import a Kaspa wallet',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'Session identifier',
+                default: 'default'
+              },
+              mnemonic: {
+                type: 'string',
+                description: 'Optional mnemonic phrase to import existing wallet'
+              },
+              privateKey: {
+                type: 'string',
+                description: 'Optional private key to import wallet'
+              }
+            }
+          }
+        },
+        {
+          name: 'kaspa_get_balance',
+          description: 'Get balance for a Kaspa address',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              address: {
+                type: 'string',
+                description: 'Kaspa address to check balance'
+              },
+              sessionId: {
+                type: 'string',
+                description: 'Session identifier',
+                default: 'default'
+              }
+            },
+            required: ['address']
+          }
+        },
+        {
+          name: 'kaspa_send_transaction',
+          description: 'Send a Kaspa transaction. Sends above the spending policy approval threshold are held as proposals until a human approves them.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'Session identifier',
+                default: 'default'
+              },
+              from: {
+                type: 'string',
+                description: 'Sender address (optional - uses wallet\'s first address if not specified)'
+              },
+              to: {
+                type: 'string',
+                description: 'Recipient address'
+              },
+              amount: {
+                type: 'string',
+                description: 'Amount in KAS (e.g., "1.5", "30", "0.001")'
+              },
+              feePriority: {
+                type: 'string',
+                description: 'Fee priority level: "low" (1+ hour), "normal" (1 minute), "high" (immediate)',
+                enum: ['low', 'normal', 'high'],
+                default: 'normal'
+              },
+              customFee: {
+                type: 'string',
+                description: 'Custom fee in KAS (overrides feePriority if specified)'
+              },
+              priorityFee: {
+                type: 'string',
+                description: 'Additional priority fee in KAS (deprecated, use customFee)',
+                default: '0'
+              },
+              payload: {
+                type: 'string',
+                description: 'Optional payload/message to attach'
+              },
+              dryRun: {
+                type: 'boolean',
+                description: 'Build and sign without broadcasting; returns the inputs, outputs (including change), exact fee and mass and the unsigned transactions',
+                default: false
+              }
+            },
+            required: ['to', 'amount']
+          }
+        },
+        {
+          name: 'kaspa_estimate_fee',
+          description: 'Estimate transaction fee',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'Session identifier',
+                default: 'default'
+              },
+              from: {
+                type: 'string',
+                description: 'Sender address'
+              },
+              to: {
+                type: 'string',
+                description: 'Recipient address'  
+              },
+              amount: {
+                type: 'string',
+                description: 'Amount in KAS'
+              }
+            },
+            required: ['from', 'to', 'amount']
+          }
+        },
+        {
+          name: 'kaspa_get_fee_recommendations',
+          description: 'Get fee recommendations for different priority levels',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'Session identifier',
+                default: 'default'
+              },
+              from: {
+                type: 'string',
+                description: 'Sender address'
+              },
+              to: {
+                type: 'string',
+                description: 'Recipient address'  
+              },
+              amount: {
+                type: 'string',
+                description: 'Amount in KAS'
+              }
+            },
+            required: ['from', 'to', 'amount']
+          }
+        },
+        {
+          name: 'kaspa_validate_address',
+          description: 'Validate a Kaspa address',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              address: {
+                type: 'string',
+                description: 'Address to validate'
+              },
+              network: {
+                type: 'string',
+                description: 'Network type for validation',
+                enum: ['mainnet', 'testnet-10', 'devnet', 'simnet']
+              }
+            },
+            required: ['address']
+          }
+        },
+        {
+          name: 'kaspa_get_wallet_info',
+          description: 'Get wallet information (addresses, balance)',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'Session identifier',
+                default: 'default'
+              }
+            }
+          }
+        },
+        {
+          name: 'kaspa_send_from_wallet',
+          description: 'Send Kaspa from your wallet (simplified version). Sends above the spending policy approval threshold are held as proposals until a human approves them.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'Session identifier',
+                default: 'default'
+              },
+              to: {
+                type: 'string',
+                description: 'Recipient address'
+              },
+              amount: {
+                type: 'string',
+                description: 'Amount in KAS (e.g., "1.5", "30", "0.001")'
+              },
+              mode: {
+                type: 'string',
+                description: 'Spending mode: "wallet" gathers UTXOs from every discovered receive and change address and sends change to a fresh change address; "address" spends only from addressIndex. Defaults to "wallet" unless addressIndex is given.',
+                enum: ['wallet', 'address']
+              },
+              addressIndex: {
+                type: 'number',
+                description: 'Wallet address index to send from in "address" mode (default: 0)'
+              },
+              feePriority: {
+                type: 'string',
+                description: 'Fee priority level: "low" (1+ hour), "normal" (1 minute), "high" (immediate)',
+                enum: ['low', 'normal', 'high'],
+                default: 'normal'
+              },
+              customFee: {
+                type: 'string',
+                description: 'Custom fee in KAS (overrides feePriority if specified)'
+              },
+              payload: {
+                type: 'string',
+                description: 'Optional payload/message to attach to the transaction'
+              },
+              dryRun: {
+                type: 'boolean',
+                description: 'Build and sign without broadcasting; returns the inputs, outputs (including change), exact fee and mass and the unsigned transactions',
+                default: false
+              }
+            },
+            required: ['to', 'amount']
+          }
+        },
+        {
+          name: 'kaspa_subscribe_balance',
+          description: 'Subscribe to balance changes for wallet addresses. Each change (address, delta, new balance, transaction IDs) is sent as an MCP logging notification and kept for kaspa_poll_events.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'Session identifier',
+                default: 'default'
+              },
+              addresses: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Array of addresses to monitor (optional - uses wallet addresses if not provided)'
+              },
+              includeTransactions: {
+                type: 'boolean',
+                description: 'Include transaction details in notifications',
+                default: true
+              }
+            }
+          }
+        },
+        {
+          name: 'kaspa_unsubscribe_balance',
+          description: 'Unsubscribe from balance change notifications',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'Session identifier',
+                default: 'default'
+              },
+              addresses: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Array of addresses to stop monitoring (optional - stops all if not provided)'
+              }
+            }
+          }
+        },
+        {
+          name: 'kaspa_get_subscription_status',
+          description: 'Get current subscription status and monitored addresses',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'Session identifier',
+                default: 'default'
+              }
+            }
+          }
+        },
+        {
+          name: 'kaspa_poll_events',
+          description: 'Get the balance changes of subscribed addresses after a cursor, for clients that do not handle server notifications. Pass the returned cursor to the next call to get only newer events.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'Session identifier',
+                default: 'default'
+              },
+              after: {
+                type: 'number',
+                description: 'Return events with a higher ID than this cursor (default: 0, every buffered event)',
+                default: 0
+              },
+              limit: {
+                type: 'number',
+                description: `Maximum events to return (default: 100, max: ${MAX_POLL_LIMIT})`,
+                default: 100
+              }
+            }
+          }
+        },
+        {
+          name: 'kaspa_get_connection_status',
+          description: 'Get the health of the RPC connection: state, reconnect attempts, last error, the subscriptions replayed after a reconnect and the last health check of each endpoint. Dropped or unhealthy connections fail over to the next configured endpoint (or a public node from the Resolver) automatically, never to another network.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'Session identifier',
+                default: 'default'
+              }
+            }
+          }
+        },
+        {
+          name: 'kaspa_get_transaction_details',
+          description: 'Get detailed information about a transaction including sender addresses, amounts, and metadata',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'Session identifier',
+                default: 'default'
+              },
+              transactionId: {
+                type: 'string',
+                description: 'Transaction ID to get details for'
+              }
+            },
+            required: ['transactionId']
+          }
+        },
+        {
+          name: 'kaspa_wait_for_confirmation',
+          description: 'Wait until a transaction reaches a number of confirmations (blue score of the sink minus blue score of the accepting chain block) or the timeout passes. Reports whether it is accepted, pending in the mempool, or dropped.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'Session identifier',
+                default: 'default'
+              },
+              transactionId: {
+                type: 'string',
+                description: 'Transaction ID to wait for'
+              },
+              confirmations: {
+                type: 'number',
+                description: 'Confirmations to wait for; 0 returns as soon as it is accepted',
+                default: 10
+              },
+              timeoutSeconds: {
+                type: 'number',
+                description: `How long to wait at most (default: 60, max: ${MAX_CONFIRMATION_WAIT_SECONDS})`,
+                default: 60
+              }
+            },
+            required: ['transactionId']
+          }
+        },
+        {
+          name: 'kaspa_get_transaction_status',
+          description: 'Get where a transaction stands: submitted, in-mempool, accepted, confirmed (10 or more confirmations) or dropped. Transactions sent in this session are tracked from submission, with every state change.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'Session identifier',
+                default: 'default'
+              },
+              transactionId: {
+                type: 'string',
+                description: 'Transaction ID to look up'
+              }
+            },
+            required: ['transactionId']
+          }
+        },
+        {
+          name: 'kaspa_get_address_history',
+          description: 'List the accepted transactions of an address, newest first, from the local chain indexer. Indexing of an address starts the first time it is queried or subscribed to; older transactions are not included.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'Session identifier',
+                default: 'default'
+              },
+              address: {
+                type: 'string',
+                description: 'Address to list (default: the wallet\'s first receive address)'
+              },
+              direction: {
+                type: 'string',
+                enum: ['in', 'out'],
+                description: 'Only transactions that added funds to the address (in) or took funds from it (out)'
+              },
+              minAmount: {
+                type: 'string',
+                description: 'Only transactions that changed the balance by at least this many KAS'
+              },
+              maxAmount: {
+                type: 'string',
+                description: 'Only transactions that changed the balance by at most this many KAS'
+              },
+              since: {
+                type: 'string',
+                description: 'Only transactions in blocks at or after this ISO timestamp'
+              },
+              until: {
+                type: 'string',
+                description: 'Only transactions in blocks at or before this ISO timestamp'
+              },
+              offset: {
+                type: 'number',
+                description: 'Matching transactions to skip',
+                default: 0
+              },
+              limit: {
+                type: 'number',
+                description: `Transactions to return (default: 20, max: ${MAX_HISTORY_PAGE_LIMIT})`,
+                default: 20
+              }
+            }
+          }
+        },
+        {
+          name: 'kaspa_setup_preconfigured_wallet',
+          description: 'Setup wallet using preconfigured credentials from environment variables (KASPA_WALLET_MNEMONIC or KASPA_WALLET_PRIVATE_KEY), or unlock a named entry of the encrypted keystore. The keystore passphrase is read from KASPA_KEYSTORE_PASSPHRASE_FD or KASPA_KEYSTORE_PASSPHRASE and is never accepted as an argument.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'Session identifier',
+                default: 'default'
+              },
+              keystoreEntry: {
+                type: 'string',
+                description: 'Name of the keystore entry to unlock (requires KASPA_KEYSTORE_PATH)'
+              }
+            }
+          }
+        },
+        {
+          name: 'kaspa_lock_wallet',
+          description: 'Lock the keystore entry of the session wallet. Every wallet unlocked from that entry is closed and its keys are dropped from memory.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'Session identifier',
+                default: 'default'
+              }
+            }
+          }
+        },
+        {
+          name: 'kaspa_scan_wallet',
+          description: 'Scan the wallet\'s receive and change chains for used addresses (gap-limit discovery). Reports balances per index and the next fresh receive address.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'Session identifier',
+                default: 'default'
+              },
+              gapLimit: {
+                type: 'number',
+                description: 'Number of consecutive unused addresses before a chain is considered exhausted',
+                default: 20
+              }
+            }
+          }
+        },
+        {
+          name: 'kaspa_send_batch',
+          description: 'Send Kaspa from your wallet to multiple recipients at once. Spends from every discovered wallet address unless addressIndex is given. Large batches are split into several chained transactions that stay under the mass limit.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'Session identifier',
+                default: 'default'
+              },
+              outputs: {
+                type: 'array',
+                description: 'Recipients to pay',
+                items: {
+                  type: 'object',
+                  properties: {
+                    address: {
+                      type: 'string',
+                      description: 'Recipient address'
+                    },
+                    amount: {
+                      type: 'string',
+                      description: 'Amount in KAS (e.g., "1.5", "30", "0.001")'
+                    },
+                    memo: {
+                      type: 'string',
+                      description: 'Optional note echoed back in the payment report (not stored on-chain)'
+                    }
+                  },
+                  required: ['address', 'amount']
+                }
+              },
+              addressIndex: {
+                type: 'number',
+                description: 'Spend only from this wallet receive address index (default: every discovered wallet address)'
+              },
+              priorityFee: {
+                type: 'string',
+                description: 'Priority fee in KAS added to each transaction',
+                default: '0'
+              },
+              payload: {
+                type: 'string',
+                description: 'Optional payload/message to attach to each transaction'
+              },
+              dryRun: {
+                type: 'boolean',
+                description: 'Build and sign without broadcasting; returns the inputs, outputs (including change), exact fee and mass and the unsigned transactions',
+                default: false
+              }
+            },
+            required: ['outputs']
+          }
+        },
+        {
+          name: 'kaspa_import_watch_only',
+          description: 'Import a watch-only wallet from an account extended public key (kpub/xpub) or a list of public keys. The wallet can check balances and build unsigned transactions but cannot sign.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'Session identifier',
+                default: 'default'
+              },
+              xpub: {
+                type: 'string',
+                description: 'Account-level extended public key (m/44\'/111111\'/account\')'
+              },
+              publicKeys: {
+                type: 'array',
+                description: 'Public keys (hex), one address per key',
+                items: {
+                  type: 'string'
+                }
+              }
+            }
+          }
+        },
+        {
+          name: 'kaspa_build_unsigned_transaction',
+          description: 'Build a payment from all wallet addresses without signing it. Returns the serialized transactions for signing elsewhere; works with watch-only wallets.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'Session identifier',
+                default: 'default'
+              },
+              to: {
+                type: 'string',
+                description: 'Recipient address'
+              },
+              amount: {
+                type: 'string',
+                description: 'Amount in KAS (e.g., "1.5", "30", "0.001")'
+              },
+              priorityFee: {
+                type: 'string',
+                description: 'Priority fee in KAS',
+                default: '0'
+              },
+              payload: {
+                type: 'string',
+                description: 'Optional payload/message to attach'
+              }
+            },
+            required: ['to', 'amount']
+          }
+        },
+        {
+          name: 'kaspa_create_multisig_wallet',
+          description: 'Create an M-of-N multisig wallet for the session from the cosigners\' account extended public keys. Spending requires signatures from `threshold` cosigners.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'Session identifier',
+                default: 'default'
+              },
+              xpubs: {
+                type: 'array',
+                description: 'Account-level extended public keys of the other cosigners',
+                items: {
+                  type: 'string'
+                }
+              },
+              threshold: {
+                type: 'number',
+                description: 'Number of signatures (M) required to spend'
+              },
+              includeSessionWallet: {
+                type: 'boolean',
+                description: 'Add the session wallet\'s own extended public key as a cosigner',
+                default: true
+              }
+            },
+            required: ['xpubs', 'threshold']
+          }
+        },
+        {
+          name: 'kaspa_create_multisig_transaction',
+          description: 'Build a payment from the multisig wallet and open it for co-signing. Returns a proposal ID and the serialized transactions.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'Session identifier',
+                default: 'default'
+              },
+              to: {
+                type: 'string',
+                description: 'Recipient address'
+              },
+              amount: {
+                type: 'string',
+                description: 'Amount in KAS (e.g., "1.5", "30", "0.001")'
+              },
+              priorityFee: {
+                type: 'string',
+                description: 'Priority fee in KAS',
+                default: '0'
+              },
+              payload: {
+                type: 'string',
+                description: 'Optional payload/message to attach'
+              }
+            },
+            required: ['to', 'amount']
+          }
+        },
+        {
+          name: 'kaspa_add_multisig_signature',
+          description: 'Add a cosigner signature to a multisig proposal, either by signing with the wallet of a session or by supplying signatures made elsewhere. The transaction is submitted once the threshold is reached.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'Session holding the multisig wallet',
+                default: 'default'
+              },
+              proposalId: {
+                type: 'string',
+                description: 'Proposal ID returned by kaspa_create_multisig_transaction'
+              },
+              signerSessionId: {
+                type: 'string',
+                description: 'Session whose wallet signs (default: sessionId). Ignored when signatures are given.'
+              },
+              signatures: {
+                type: 'array',
+                description: 'Signatures produced with createInputSignature by a cosigner on another machine',
+                items: {
+                  type: 'object',
+                  properties: {
+                    transactionIndex: {
+                      type: 'number',
+                      description: 'Index of the transaction in the proposal'
+                    },
+                    inputIndex: {
+                      type: 'number',
+                      description: 'Input index within the transaction'
+                    },
+                    publicKey: {
+                      type: 'string',
+                      description: 'Public key of the cosigner'
+                    },
+                    signature: {
+                      type: 'string',
+                      description: 'Signature hex'
+                    }
+                  },
+                  required: ['transactionIndex', 'inputIndex', 'publicKey', 'signature']
+                }
+              },
+              submit: {
+                type: 'boolean',
+                description: 'Submit automatically when enough signatures are collected',
+                default: true
+              }
+            },
+            required: ['proposalId']
+          }
+        },
+        {
+          name: 'kaspa_get_multisig_status',
+          description: 'Show signing progress of multisig proposals. Without proposalId, lists every proposal of the session\'s multisig wallet.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'Session identifier',
+                default: 'default'
+              },
+              proposalId: {
+                type: 'string',
+                description: 'Proposal ID to inspect'
+              }
+            }
+          }
+        },
+        {
+          name: 'kaspa_create_pskt',
+          description: 'Create an unsigned PSKT (partially signed Kaspa transaction) for a payment from the session wallet or its multisig wallet. Returns portable PSKT strings for an offline or hardware signer.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'Session identifier',
+                default: 'default'
+              },
+              to: {
+                type: 'string',
+                description: 'Recipient address'
+              },
+              amount: {
+                type: 'string',
+                description: 'Amount in KAS (e.g., "1.5", "30", "0.001")'
+              },
+              priorityFee: {
+                type: 'string',
+                description: 'Priority fee in KAS',
+                default: '0'
+              },
+              payload: {
+                type: 'string',
+                description: 'Optional payload/message to attach'
+              },
+              multisig: {
+                type: 'boolean',
+                description: 'Spend from the session\'s multisig wallet instead of the regular wallet',
+                default: false
+              }
+            },
+            required: ['to', 'amount']
+          }
+        },
+        {
+          name: 'kaspa_import_pskt',
+          description: 'Import a PSKT (e.g. one signed elsewhere), validate it and show its signing state',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'Session identifier',
+                default: 'default'
+              },
+              pskt: {
+                type: 'string',
+                description: 'Serialized PSKT string'
+              }
+            },
+            required: ['pskt']
+          }
+        },
+        {
+          name: 'kaspa_sign_pskt',
+          description: 'Sign every PSKT input controlled by a session wallet and return the updated PSKT',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'Session identifier',
+                default: 'default'
+              },
+              pskt: {
+                type: 'string',
+                description: 'Serialized PSKT string'
+              },
+              signerSessionId: {
+                type: 'string',
+                description: 'Session whose wallet signs (default: sessionId)'
+              }
+            },
+            required: ['pskt']
+          }
+        },
+        {
+          name: 'kaspa_combine_pskts',
+          description: 'Merge the signatures of several partially signed copies of the same PSKT',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'Session identifier',
+                default: 'default'
+              },
+              pskts: {
+                type: 'array',
+                description: 'Serialized PSKT strings of the same transaction',
+                items: {
+                  type: 'string'
+                }
+              }
+            },
+            required: ['pskts']
+          }
+        },
+        {
+          name: 'kaspa_finalize_pskt',
+          description: 'Finalize a fully signed PSKT by building the signature script of every input',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'Session identifier',
+                default: 'default'
+              },
+              pskt: {
+                type: 'string',
+                description: 'Serialized PSKT string'
+              }
+            },
+            required: ['pskt']
+          }
+        },
+        {
+          name: 'kaspa_broadcast_pskt',
+          description: 'Extract the transaction from a PSKT and submit it to the network. Fully signed PSKTs are finalized first.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'Session identifier',
+                default: 'default'
+              },
+              pskt: {
+                type: 'string',
+                description: 'Serialized PSKT string'
+              }
+            },
+            required: ['pskt']
+          }
+        },
+        {
+          name: 'kaspa_export_offline_transaction',
+          description: 'Build a payment from all wallet addresses and export it as a bundle for signing on an offline machine. Works with watch-only wallets.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'Session identifier',
+                default: 'default'
+              },
+              to: {
+                type: 'string',
+                description: 'Recipient address'
+              },
+              amount: {
+                type: 'string',
+                description: 'Amount in KAS (e.g., "1.5", "30", "0.001")'
+              },
+              priorityFee: {
+                type: 'string',
+                description: 'Priority fee in KAS',
+                default: '0'
+              },
+              payload: {
+                type: 'string',
+                description: 'Optional payload/message to attach'
+              }
+            },
+            required: ['to', 'amount']
+          }
+        },
+        {
+          name: 'kaspa_sign_offline_transaction',
+          description: 'Verify an exported transaction bundle against the session wallet (recipient, amount, change and fee) and sign it. Intended for sessions connected with offline: true.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'Session identifier',
+                default: 'default'
+              },
+              bundle: {
+                type: 'string',
+                description: 'Transaction bundle from kaspa_export_offline_transaction'
+              },
+              maxFee: {
+                type: 'string',
+                description: 'Highest acceptable total fee in KAS (default: 10x the network minimum)'
+              }
+            },
+            required: ['bundle']
+          }
+        },
+        {
+          name: 'kaspa_submit_signed_transaction',
+          description: 'Submit a transaction bundle signed offline. Chained transactions are submitted in order.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'Session identifier',
+                default: 'default'
+              },
+              bundle: {
+                type: 'string',
+                description: 'Signed bundle from kaspa_sign_offline_transaction'
+              }
+            },
+            required: ['bundle']
+          }
+        },
+        {
+          name: 'kaspa_get_spending_policy',
+          description: 'Show the spending limits that apply to the session and how much of the rolling daily and weekly caps is used',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'Session identifier',
+                default: 'default'
+              }
+            }
+          }
+        },
+        {
+          name: 'kaspa_list_pending_approvals',
+          description: 'List sends held for human approval. Proposals are approved or rejected with the kaspa-approve command, which is not available to the model.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'Only list proposals of this session (default: every session)'
+              },
+              includeResolved: {
+                type: 'boolean',
+                description: 'Also list approved, rejected, submitted, expired and failed proposals',
+                default: false
+              }
+            }
+          }
+        },
+        {
+          name: 'kaspa_get_approval_status',
+          description: 'Get the status of a send held for human approval, and its transaction ID once submitted',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              proposalId: {
+                type: 'string',
+                description: 'Proposal ID returned when the send was held'
+              }
+            },
+            required: ['proposalId']
+          }
+        },
+        {
+          name: 'kaspa_get_audit_log',
+          description: 'Query the hash-chained audit log of tool calls and broadcasts, newest entries last, and check that it was not tampered with',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'Only entries of this session (default: every session)'
+              },
+              tool: {
+                type: 'string',
+                description: 'Only calls of this tool, e.g. "kaspa_send_transaction"'
+              },
+              event: {
+                type: 'string',
+                description: 'Only entries of this event, e.g. "tool_call", "broadcast", "secret_export"'
+              },
+              since: {
+                type: 'string',
+                description: 'Only entries at or after this ISO timestamp'
+              },
+              until: {
+                type: 'string',
+                description: 'Only entries at or before this ISO timestamp'
+              },
+              limit: {
+                type: 'number',
+                description: `Most recent entries to return (default: 50, max: ${MAX_AUDIT_QUERY_LIMIT})`,
+                default: 50
+              },
+              verify: {
+                type: 'boolean',
+                description: 'Recompute the hash chain of the whole log',
+                default: true
+              }
+            }
+          }
+        },
+        {
+          name: 'kaspa_export_secret',
+          description: 'Reveal key material of the session wallet for backup. This is the only tool that returns secrets; it is disabled unless the server runs with KASPA_ALLOW_SECRET_EXPORT=true, and every use is written to the audit log.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sessionId: {
+                type: 'string',
+                description: 'Session identifier',
+                default: 'default'
+              },
+              secret: {
+                type: 'string',
+                enum: ['mnemonic', 'privateKey', 'xprv'],
+                description: 'Which secret to export',
+                default: 'mnemonic'
+              },
+              reason: {
+                type: 'string',
+                description: 'Why the secret is needed (recorded in the audit log)'
+              }
+            }
+          }
+        }
+      ]
+    }));
+
+    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params;
+      const context = { sessionId: this.normalizeSessionId(args?.sessionId as string | undefined), tool: name };
+      return withLogContext(context, () => this.handleToolCall(name, args));
+    });
+  }
+
+  // Run a tool with auditing, redaction and error mapping
+  private async handleToolCall(name: string, args: any): Promise<any> {
+    const startedAt = Date.now();
+    log.debug('Tool called');
+
+    try {
+      const response = await this.callTool(name, args);
+      const firstText = response?.content?.find((item: any) => item?.type === 'text')?.text;
+      const rejection = response?.isError && typeof firstText === 'string' ? this.redactText(firstText.split('\n')[0], args) : undefined;
+      await this.auditToolCall(name, args, response?.isError ? 'rejected' : 'ok', startedAt, rejection);
+      if (rejection) {
+        log.warn('Tool call rejected', { reason: rejection, durationMs: Date.now() - startedAt });
+      } else {
+        log.debug('Tool call completed', { durationMs: Date.now() - startedAt });
+      }
+      return name === SECRET_EXPORT_TOOL ? response : this.redactResponse(response, args);
+    } catch (error) {
+      const mcpError = error instanceof McpError
+        ? error
+        : new McpError(ErrorCode.InternalError, `Tool ${name} failed: ${(error as Error).message}`);
+      mcpError.message = this.redactText(mcpError.message, args);
+      await this.auditToolCall(name, args, 'error', startedAt, mcpError.message);
+      const fields = { error: mcpError.message, durationMs: Date.now() - startedAt };
+      if (mcpError.code === ErrorCode.InternalError) {
+        log.error('Tool call failed', fields);
+      } else {
+        log.warn('Tool call failed', fields);
+      }
+      throw mcpError;
+    }
+  }
+
+  private async callTool(name: string, args: any): Promise<any> {
+    switch (name) {
+      case 'kaspa_connect':
+        return await this.handleConnect(args);
+      case 'kaspa_create_wallet':
+        return await this.handleCreateWallet(args);
+      case 'kaspa_get_balance':
+        return await this.handleGetBalance(args);
+      case 'kaspa_send_transaction':
+        return await this.handleSendTransaction(args);
+      case 'kaspa_estimate_fee':
+        return await this.handleEstimateFee(args);
+      case 'kaspa_get_fee_recommendations':
+        return await this.handleGetFeeRecommendations(args);
+      case 'kaspa_validate_address':
+        return await this.handleValidateAddress(args);
+      case 'kaspa_get_wallet_info':
+        return await this.handleGetWalletInfo(args);
+      case 'kaspa_send_from_wallet':
+        return await this.handleSendFromWallet(args);
+      case 'kaspa_subscribe_balance':
+        return await this.handleSubscribeBalance(args);
+      case 'kaspa_unsubscribe_balance':
+        return await this.handleUnsubscribeBalance(args);
+      case 'kaspa_get_subscription_status':
+        return await this.handleGetSubscriptionStatus(args);
+      case 'kaspa_poll_events':
+        return await this.handlePollEvents(args);
+      case 'kaspa_get_connection_status':
+        return await this.handleGetConnectionStatus(args);
+      case 'kaspa_get_transaction_details':
+        return await this.handleGetTransactionDetails(args);
+      case 'kaspa_get_address_history':
+        return await this.handleGetAddressHistory(args);
+      case 'kaspa_wait_for_confirmation':
+        return await this.handleWaitForConfirmation(args);
+      case 'kaspa_get_transaction_status':
+        return await this.handleGetTransactionStatus(args);
+      case 'kaspa_setup_preconfigured_wallet':
+        return await this.handleSetupPreconfiguredWallet(args);
+      case 'kaspa_lock_wallet':
+        return await this.handleLockWallet(args);
+      case 'kaspa_send_batch':
+        return await this.handleSendBatch(args);
+      case 'kaspa_scan_wallet':
+        return await this.handleScanWallet(args);
+      case 'kaspa_import_watch_only':
+        return await this.handleImportWatchOnly(args);
+      case 'kaspa_build_unsigned_transaction':
+        return await this.handleBuildUnsignedTransaction(args);
+      case 'kaspa_create_multisig_wallet':
+        return await this.handleCreateMultisigWallet(args);
+      case 'kaspa_create_multisig_transaction':
+        return await this.handleCreateMultisigTransaction(args);
+      case 'kaspa_add_multisig_signature':
+        return await this.handleAddMultisigSignature(args);
+      case 'kaspa_get_multisig_status':
+        return await this.handleGetMultisigStatus(args);
+      case 'kaspa_create_pskt':
+        return await this.handleCreatePskt(args);
+      case 'kaspa_import_pskt':
+        return await this.handleImportPskt(args);
+      case 'kaspa_sign_pskt':
+        return await this.handleSignPskt(args);
+      case 'kaspa_combine_pskts':
+        return await this.handleCombinePskts(args);
+      case 'kaspa_finalize_pskt':
+        return await this.handleFinalizePskt(args);
+      case 'kaspa_broadcast_pskt':
+        return await this.handleBroadcastPskt(args);
+      case 'kaspa_export_offline_transaction':
+        return await this.handleExportOfflineTransaction(args);
+      case 'kaspa_sign_offline_transaction':
+        return await this.handleSignOfflineTransaction(args);
+      case 'kaspa_submit_signed_transaction':
+        return await this.handleSubmitSignedTransaction(args);
+      case 'kaspa_get_spending_policy':
+        return await this.handleGetSpendingPolicy(args);
+      case 'kaspa_list_pending_approvals':
+        return await this.handleListPendingApprovals(args);
+      case 'kaspa_get_approval_status':
+        return await this.handleGetApprovalStatus(args);
+      case 'kaspa_get_audit_log':
+        return await this.handleGetAuditLog(args);
+      case 'kaspa_export_secret':
+        return await this.handleExportSecret(args);
+      default:
+        throw new McpError(
+          ErrorCode.MethodNotFound,
+          `Unknown tool: ${name}`
+        );
+    }
+  }
+
+  private async handleConnect(args: any) {
+    const sessionId = this.normalizeSessionId(args.sessionId);
+    const { network = 'mainnet', rpcUrl, offline = false } = args;
+
+    try {
+      // Check if we already have a connection to the same network
+      const existingSdk = sdkInstances.get(sessionId);
+      if (existingSdk && existingSdk.getNetworkType() === network && existingSdk.isOffline() === offline) {
+        log.info(`Already connected to ${network} network`);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: offline ? `Already in offline mode for Kaspa ${network}` : `Already connected to Kaspa ${network} network`
+            }
+          ]
+        };
+      }
+
+      // Store the existing wallet's keys (or public keys for watch-only wallets) before disposing SDK
+      let existingWallet: { config: Omit<WalletConfig, 'networkType'>; watchOnly: boolean } | null = null;
+      let walletDropped = false;
+      if (walletInstances.has(sessionId)) {
+        const wallet: KaspaWallet = walletInstances.get(sessionId);
+        try {
+          existingWallet = { config: wallet.getRestoreConfig(), watchOnly: wallet.isWatchOnly() };
+        } catch (error) {
+          log.warn('Could not preserve wallet during reconnection', { error });
+          walletDropped = true;
+        }
+      }
+
+      // Dispose existing SDK if exists
+      if (existingSdk) {
+        log.info('Disposing existing SDK');
+        try {
+          await existingSdk.dispose();
+        } catch (error) {
+          log.warn('Error disposing SDK', { error });
+          // Continue anyway - we'll create a new instance
+        }
+        sdkInstances.delete(sessionId);
+      }
+
+      // Dispose existing wallet since we're changing networks
+      if (walletInstances.has(sessionId)) {
+        log.info('Disposing existing wallet');
+        const wallet = walletInstances.get(sessionId);
+        try {
+          if (wallet && wallet.dispose) {
+            wallet.dispose();
+          }
+        } catch (error) {
+          log.warn('Error disposing wallet', { error });
+          // Continue anyway
+        }
+        walletInstances.delete(sessionId);
+      }
+
+      log.info(`Creating new SDK for ${network} network`);
+      // Ensure configuration is loaded from environment for this SDK
+      Configuration.loadFromEnv();
+      if (!Configuration.getIndexerConfig()) {
+        Configuration.setConfig({ indexer: { path: join(homedir(), '.kaspa-mcp', 'history') } });
+      }
+      // Load the spending policy first so a broken policy file never leaves an unguarded session
+      const spendingPolicy = await this.getSpendingPolicy();
+
+      let sdk: KaspaSDK;
+      if (offline) {
+        // Air-gapped sessions never create an RPC client
+        sdk = KaspaSDK.offline(network);
+      } else {
+        sdk = new KaspaSDK(network);
+        await sdk.initialize(rpcUrl);
+      }
+      sdk.setSpendingPolicy(spendingPolicy, sessionId);
+      sdk.on('transaction:broadcast', (event: BroadcastEvent) => this.auditBroadcast(sessionId, event));
+      this.publishResourceUpdates(sessionId, sdk);
+      
+      sdkInstances.set(sessionId, sdk);
+      this.notifySessionResourcesChanged(sessionId);
+
+      let responseText = offline
+        ? `Offline mode enabled for Kaspa ${network}. No network connection will be made.`
+        : `Successfully connected to Kaspa ${network} network${rpcUrl ? ` using custom RPC: ${rpcUrl}` : ` via ${sdk.getConnectionStatus()?.url}`}`;
+
+      // Recreate wallet if we had one before
+      if (existingWallet) {
+        try {
+          log.info('Recreating wallet for new network');
+          const newWallet = sdk.createWallet(existingWallet.config);
+          walletInstances.set(sessionId, newWallet);
+          
+          const receiveAddress = newWallet.getReceiveAddress(0);
+          responseText += `\n\n${existingWallet.watchOnly ? 'Watch-only wallet' : 'Wallet'} recreated for new network:\nAddress: ${receiveAddress}`;
+        } catch (error) {
+          sdk.closeWallet();
+          walletInstances.delete(sessionId);
+          responseText += `\n\nWarning: Could not recreate wallet, so it was closed: ${(error as Error).message}. Import it again on this network.`;
+        }
+      } else if (walletDropped) {
+        responseText += '\n\nWarning: The previous wallet could not be carried over and was closed. Import it again on this network.';
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: responseText
+          }
+        ]
+      };
+    } catch (error) {
+      log.error('Failed to connect to Kaspa network', { error });
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to connect to Kaspa network: ${(error as Error).message}`
+      );
+    }
+  }
+
+  private async handleCreateWallet(args: any) {
+    const sessionId = this.normalizeSessionId(args.sessionId);
+    const { mnemonic, privateKey } = args;
+    
+
+    let sdk = sdkInstances.get(sessionId);
+    if (!sdk) {
+      // Auto-connect to testnet-10 if no connection exists
+      log.info('No SDK connection found, auto-connecting to testnet-10');
+      try {
+        await this.handleConnect({ 
+          network: 'testnet-10', 
+          sessionId 
+        });
+        sdk = sdkInstances.get(sessionId);
+        if (!sdk) {
+          throw new Error('Failed to auto-connect');
+        }
+      } catch (error) {
+        throw new McpError(
+          ErrorCode.InvalidRequest, 
+          'No active connection and failed to auto-connect. Please connect first using kaspa_connect.'
+        );
+      }
+    }
+
+    try {
+      log.info('Creating wallet');
+      
+      // Dispose existing wallet if exists
+      if (walletInstances.has(sessionId)) {
+        log.info('Disposing existing wallet');
+        walletInstances.get(sessionId)!.dispose();
+        walletInstances.delete(sessionId);
+      }
+
+      const wallet = sdk.createWallet({ mnemonic, privateKey });
+      walletInstances.set(sessionId, wallet);
+      this.notifySessionResourcesChanged(sessionId);
+      
+      log.debug('Wallet created and stored');
+
+      const receiveAddress = wallet.getReceiveAddress(0);
+      const changeAddress = wallet.getChangeAddress(0);
+
+      let responseText = `Wallet created successfully!
+Receive Address: ${receiveAddress}
+Change Address: ${changeAddress}
+${!mnemonic && !privateKey ? 'New mnemonic generated. Back it up with kaspa_export_secret (requires KASPA_ALLOW_SECRET_EXPORT=true).' : 'Wallet imported from provided credentials'}`;
+
+      // Add network info if we auto-connected
+      if (!sdkInstances.has(sessionId)) {
+        responseText += `\n\nNote: Auto-connected to ${sdk.getNetworkType()} network`;
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: responseText
+          }
+        ]
+      };
+    } catch (error) {
+      log.error('Failed to create wallet', { error });
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to create wallet: ${(error as Error).message}`
+      );
+    }
+  }
+
+  private async handleGetBalance(args: any) {
+    const sessionId = this.normalizeSessionId(args.sessionId);
+    const { address } = args;
+
+    const sdk = sdkInstances.get(sessionId);
+    if (!sdk) {
+      throw new McpError(ErrorCode.InvalidRequest, 'No active connection. Please connect first.');
+    }
+
+    try {
+      const balance = await sdk.getBalance(address);
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Balance for ${address}:
+Amount: ${KaspaSDK.sompiToKas(balance.balance)} KAS
+UTXOs: ${balance.utxoCount}
+Raw (sompi): ${balance.balance}`
+          }
+        ]
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to get balance: ${(error as Error).message}`
+      );
+    }
+  }
+
+  private async handleSendTransaction(args: any) {
+    const { 
+      from, 
+      to, 
+      amount, 
+      feePriority = 'normal',
+      customFee,
+      priorityFee = '0', // Deprecated, kept for backward compatibility
+      payload,
+      dryRun = false
+    } = args;
+
+    const sessionId = this.normalizeSessionId(args.sessionId);
+
+    const sdk = sdkInstances.get(sessionId);
+    const wallet = walletInstances.get(sessionId);
+    
+    // Debug: Show all available sessions
+    log.debug('Session lookup', { sdkFound: !!sdk, walletFound: !!wallet });
+    
+    if (!sdk) {
+      throw new McpError(ErrorCode.InvalidRequest, 'No active connection. Please connect first.');
+    }
+
+    if (!wallet) {
+      throw new McpError(ErrorCode.InvalidRequest, 'No wallet available. Please create or import a wallet first.');
+    }
+
+    try {
+      // Validate and format amounts
+      if (!amount || amount === '0') {
+        throw new Error('Invalid amount: must be greater than 0');
+      }
+      
+      const amountStr = String(amount).trim();
+      
+      // Validate amount format (should be a valid number)
+      if (isNaN(parseFloat(amountStr))) {
+        throw new Error(`Invalid amount format: "${amountStr}". Please provide a numeric value.`);
+      }
+      
+      log.debug('Sending transaction', { amount: amountStr, feePriority, customFee });
+      
+      // Convert amount to sompi
+      let amountSompi: bigint;
+      try {
+        amountSompi = KaspaSDK.kasToSompi(amountStr);
+      } catch (error) {
+        log.error('Amount conversion failed', { amount: amountStr, error });
+        throw new Error(`Failed to convert KAS to sompi: ${(error as Error).message}. Input amount was: "${amountStr}"`);
+      }
+      
+      // Calculate or use custom fee
+      let priorityFeeSompi: bigint = BigInt(0);
+      
+      if (customFee) {
+        // Use custom fee if provided
+        const customFeeStr = String(customFee).trim();
+        if (isNaN(parseFloat(customFeeStr)) || parseFloat(customFeeStr) < 0) {
+          throw new Error(`Invalid custom fee: "${customFeeStr}". Must be a non-negative number.`);
+        }
+        
+        try {
+          priorityFeeSompi = KaspaSDK.kasToSompi(customFeeStr);
+          log.debug(`Using custom fee: ${customFeeStr} KAS = ${priorityFeeSompi} sompi`);
+        } catch (error) {
+          throw new Error(`Failed to convert custom fee: ${(error as Error).message}`);
+        }
+      } else if (priorityFee && priorityFee !== '0') {
+        // Use deprecated priorityFee if provided (backward compatibility)
+        const priorityFeeStr = String(priorityFee).trim();
+        try {
+          priorityFeeSompi = KaspaSDK.kasToSompi(priorityFeeStr);
+          log.debug(`Using deprecated priorityFee: ${priorityFeeStr} KAS = ${priorityFeeSompi} sompi`);
+        } catch (error) {
+          throw new Error(`Failed to convert priority fee: ${(error as Error).message}`);
+        }
+      } else {
+        // Calculate fee based on priority level
+        // First, we need to get the sender address to estimate fees
+        let senderAddress: string;
+        if (from) {
+          senderAddress = from;
+        } else {
+          // Get the first wallet address
+          const privKey = wallet.getReceivePrivateKey(0);
+          senderAddress = privKey.toAddress(sdk.getNetworkType()).toString();
+        }
+        
+        log.debug(`Estimating fee for priority level: ${feePriority}`);
+        
+        // Get fee estimate from network
+        const feeEstimate = await sdk.estimateFee(senderAddress, to, amountSompi);
+        
+        // Calculate fee multiplier based on priority
+        let feeMultiplier = 1.0;
+        switch (feePriority) {
+          case 'low':
+            feeMultiplier = 0.5; // 50% of base fee for low priority
+            break;
+          case 'normal':
+            feeMultiplier = 1.0; // Base fee for normal priority
+            break;
+          case 'high':
+            feeMultiplier = 2.0; // 2x base fee for high priority
+            break;
+          default:
+            feeMultiplier = 1.0;
+        }
+        
+        priorityFeeSompi = BigInt(Math.ceil(Number(feeEstimate.baseFee) * feeMultiplier));
+        log.debug(`Calculated ${feePriority} priority fee: ${KaspaSDK.sompiToKas(priorityFeeSompi)} KAS (${priorityFeeSompi} sompi)`);
+      }
+      
+      log.debug('Final amounts in sompi', { amount: amountSompi, fee: priorityFeeSompi });
+
+      // Handle sender address - if not provided, use wallet's first address
+      let senderPrivateKey;
+      let senderAddress: string = '';
+      
+      if (from) {
+        // Resolve the derivation of the specified address (receive or change chain)
+        const derivation = wallet.findAddress(from);
+        if (!derivation) {
+          throw new Error(`Address ${from} not found in wallet. Run kaspa_scan_wallet or use an address from this wallet.`);
+        }
+        senderPrivateKey = wallet.getPrivateKeyForAddress(from);
+        senderAddress = from;
+        log.info(`Sending from wallet ${derivation.change ? 'change' : 'receive'} address[${derivation.index}]: ${senderAddress}`);
+      } else {
+        // Use the first address if no 'from' specified
+        senderPrivateKey = wallet.getReceivePrivateKey(0);
+        senderAddress = senderPrivateKey.toAddress(sdk.getNetworkType()).toString();
+        log.info(`No 'from' address specified, using wallet's first address: ${senderAddress}`);
+      }
+      
+      log.debug(`Using address: ${senderAddress}`);
+
+      const proposal = dryRun ? undefined : await this.proposeIfApprovalRequired(sessionId, sdk, {
+        to,
+        amount: amountSompi,
+        customTotalFee: customFee ? priorityFeeSompi : undefined,
+        priorityFee: customFee ? undefined : priorityFeeSompi,
+        payload,
+        fromAddresses: [senderAddress]
+      });
+      if (proposal) {
+        return proposal;
+      }
+
+      const result = await sdk.sendTransaction({
+        from: senderPrivateKey,  // Pass the private key
+        to,
+        amount: amountSompi,
+        customTotalFee: customFee ? priorityFeeSompi : undefined,
+        priorityFee: customFee ? undefined : priorityFeeSompi,
+        payload,
+        dryRun
+      });
+
+      if (result.simulation) {
+        return this.formatSimulation(result.simulation, `From: ${senderAddress}
+To: ${to}
+Amount: ${amount} KAS${payload ? `\nPayload: ${payload}` : ''}`);
+      }
+
+      // Prepare fee info for response
+      const feeUsed = customFee ? 'custom' : (priorityFee && priorityFee !== '0' ? 'legacy' : feePriority);
+      const feeInfo = customFee 
+        ? `Custom fee: ${customFee} KAS`
+        : (priorityFee && priorityFee !== '0')
+          ? `Priority fee (legacy): ${priorityFee} KAS`
+          : `Fee priority: ${feePriority}`;
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Transaction sent successfully!
+Transaction ID: ${result.transactionId}
+Amount: ${amount} KAS
+Fee paid: ${KaspaSDK.sompiToKas(result.fee)} KAS
+Fee type: ${feeInfo}
+Mass: ${result.mass}${this.formatTransactionChain(result)}${this.formatTracking(result)}
+${payload ? `Payload: ${payload}` : ''}
+Explorer: https://explorer.kaspa.org/txs/${result.transactionId}`
+          }
+        ]
+      };
+    } catch (error) {
+      if (error instanceof SpendingPolicyError) {
+        return this.formatPolicyRejection(error);
+      }
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to send transaction: ${(error as Error).message}`
+      );
+    }
+  }
+
+  private async handleEstimateFee(args: any) {
+    const sessionId = this.normalizeSessionId(args.sessionId);
+    const { from, to, amount } = args;
+
+    const sdk = sdkInstances.get(sessionId);
+    if (!sdk) {
+      throw new McpError(ErrorCode.InvalidRequest, 'No active connection. Please connect first.');
+    }
+
+    try {
+      // Validate and format amount
+      if (!amount || amount === '0') {
+        throw new Error('Invalid amount: must be greater than 0');
+      }
+      
+      const amountStr = String(amount).trim();
+      
+      // Validate amount format
+      if (isNaN(parseFloat(amountStr))) {
+        throw new Error(`Invalid amount format: "${amountStr}". Please provide a numeric value.`);
+      }
+      
+      log.debug(`Estimating fee for amount: "${amountStr}" (type: ${typeof amountStr})`);
+      
+      let amountSompi: bigint;
+      try {
+        amountSompi = KaspaSDK.kasToSompi(amountStr);
+        log.debug(`Amount converted to sompi: ${amountSompi}`);
+      } catch (error) {
+        log.error('Failed to convert amount to sompi', { error });
+        throw new Error(`Failed to convert KAS amount: ${(error as Error).message}. Input amount was: "${amountStr}"`);
+      }
+      
+      log.debug('Calling estimateFee', { from, to, amount: amountSompi });
+      const feeEstimate = await sdk.estimateFee(from, to, amountSompi);
+      
+      log.debug('Fee estimate received', { ...feeEstimate });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Fee estimate for ${amount} KAS transaction:
+Base Fee: ${KaspaSDK.sompiToKas(feeEstimate.baseFee)} KAS
+Total Fee: ${KaspaSDK.sompiToKas(feeEstimate.totalFee)} KAS
+Estimated Mass: ${feeEstimate.estimatedMass}
+Mass Limit: ${feeEstimate.massLimit}`
+          }
+        ]
+      };
+    } catch (error) {
+      log.error('Failed to estimate fee', { error });
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to estimate fee: ${(error as Error).message}`
+      );
+    }
+  }
+
+  private async handleGetFeeRecommendations(args: any) {
+    const sessionId = this.normalizeSessionId(args.sessionId);
+    const { from, to, amount } = args;
+
+    const sdk = sdkInstances.get(sessionId);
+    if (!sdk) {
+      throw new McpError(ErrorCode.InvalidRequest, 'No active connection. Please connect first.');
+    }
+
+    try {
+      // Validate and format amount
+      if (!amount || amount === '0') {
+        throw new Error('Invalid amount: must be greater than 0');
+      }
+      
+      const amountStr = String(amount).trim();
+      
+      // Validate amount format
+      if (isNaN(parseFloat(amountStr))) {
+        throw new Error(`Invalid amount format: "${amountStr}". Please provide a numeric value.`);
+      }
+      
+      log.debug(`Getting fee recommendations for amount: "${amountStr}"`);
+      
+      let amountSompi: bigint;
+      try {
+        amountSompi = KaspaSDK.kasToSompi(amountStr);
+      } catch (error) {
+        log.error('Failed to convert amount to sompi', { error });
+        throw new Error(`Failed to convert KAS amount: ${(error as Error).message}. Input amount was: "${amountStr}"`);
+      }
+      
+      // Get base fee estimate
+      const baseFeeEstimate = await sdk.estimateFee(from, to, amountSompi);
+      const baseFee = baseFeeEstimate.baseFee;
+      
+      // Calculate fees for different priority levels
+      const lowFee = BigInt(Math.ceil(Number(baseFee) * 0.5));
+      const normalFee = baseFee;
+      const highFee = BigInt(Math.ceil(Number(baseFee) * 2.0));
+      
+      const minimumFee = BigInt(Math.max(1, Math.ceil(Number(baseFeeEstimate.estimatedMass) * 1))); // 1 sompi/gram minimum
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `📊 Fee Recommendations for ${amount} KAS Transaction
+
+🐌 LOW Priority (1+ hour): ${KaspaSDK.sompiToKas(lowFee)} KAS
+   Suitable for non-urgent transfers
+
+⚡ NORMAL Priority (~1 minute): ${KaspaSDK.sompiToKas(normalFee)} KAS
+   Recommended for most transactions
+
+🚀 HIGH Priority (immediate): ${KaspaSDK.sompiToKas(highFee)} KAS
+   For urgent/time-sensitive transfers
+
+💰 Minimum Fee: ${KaspaSDK.sompiToKas(minimumFee)} KAS
+   Network minimum (may take very long)
+
+📏 Transaction Mass: ${baseFeeEstimate.estimatedMass}
+📐 Mass Limit: ${baseFeeEstimate.massLimit}
+
+Usage Examples:
+• feePriority: "low" | "normal" | "high"
+• customFee: "${KaspaSDK.sompiToKas(normalFee)}" (or any amount)`
+          }
+        ]
+      };
+    } catch (error) {
+      log.error('Failed to get fee recommendations', { error });
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to get fee recommendations: ${(error as Error).message}`
+      );
+    }
+  }
+
+  private async handleValidateAddress(args: any) {
+    const { address, network } = args;
+
+    try {
+      const isValid = KaspaSDK.validateAddress(address, network);
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Address validation result:
+Address: ${address}
+Valid: ${isValid ? '✅ Yes' : '❌ No'}
+${network ? `Network: ${network}` : ''}`
+          }
+        ]
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to validate address: ${(error as Error).message}`
+      );
+    }
+  }
+
+  private async handleGetWalletInfo(args: any) {
+    const sessionId = this.normalizeSessionId(args.sessionId);
+    
+
+    const sdk = sdkInstances.get(sessionId);
+    const wallet = walletInstances.get(sessionId);
+    
+    log.debug('Session lookup', { sdkFound: !!sdk, walletFound: !!wallet });
+
+    if (!sdk || !wallet) {
+      throw new McpError(ErrorCode.InvalidRequest, 'No active wallet. Please create a wallet first.');
+    }
+
+    try {
+      const receiveAddress = wallet.getReceiveAddress(0);
+      const changeAddress = wallet.getChangeAddress(0);
+      
+      // Get balance for the main address
+      const balance = await sdk.getBalance(receiveAddress);
+      
+      // Get first few addresses if they exist
+      const addresses = [];
+      for (let i = 0; i < 5; i++) {
+        try {
+          const addr = wallet.getReceiveAddress(i);
+          addresses.push(`  [${i}] ${addr}`);
+        } catch (e) {
+          break;
+        }
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Wallet Information:
+Main Address: ${receiveAddress}
+Change Address: ${changeAddress}
+Balance: ${KaspaSDK.sompiToKas(balance.balance)} KAS
+UTXOs: ${balance.utxoCount}
+
+Available Addresses:
+${addresses.join('\n')}
+${wallet.getXPub() ? `\nExtended Public Key: ${wallet.getXPub()}` : ''}
+${wallet.isWatchOnly() ? 'Type: Watch-only (cannot sign)' : `Type: ${wallet.getMnemonic() ? 'HD (mnemonic)' : 'Single private key'}; secrets are never shown here`}`
+          }
+        ]
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to get wallet info: ${(error as Error).message}`
+      );
+    }
+  }
+
+  private async handleSendFromWallet(args: any) {
+    const { to, amount, mode, addressIndex, feePriority = 'normal', customFee, payload, dryRun = false } = args;
+
+    const sessionId = this.normalizeSessionId(args.sessionId);
+
+    const sdk = sdkInstances.get(sessionId);
+    const wallet = walletInstances.get(sessionId);
+    
+    // Debug: Show all available sessions
+    log.debug('Session lookup', { sdkFound: !!sdk, walletFound: !!wallet });
+    
+    if (!sdk) {
+      throw new McpError(ErrorCode.InvalidRequest, 'No active connection. Please connect first.');
+    }
+
+    if (!wallet) {
+      throw new McpError(ErrorCode.InvalidRequest, 'No wallet available. Please create or import a wallet first.');
+    }
+
+    try {
+      // Validate and format amount
+      if (!amount || amount === '0') {
+        throw new Error('Invalid amount: must be greater than 0');
+      }
+      
+      const amountStr = String(amount).trim();
+      
+      // Validate amount format
+      if (isNaN(parseFloat(amountStr))) {
+        throw new Error(`Invalid amount format: "${amountStr}". Please provide a numeric value.`);
+      }
+      
+      // Convert to sompi
+      let amountSompi: bigint;
+      try {
+        amountSompi = KaspaSDK.kasToSompi(amountStr);
+      } catch (error) {
+        log.error('Amount conversion failed', { amount: amountStr, error });
+        throw new Error(`Failed to convert amount: ${(error as Error).message}. Input amount was: "${amountStr}"`);
+      }
+      
+      // Wallet mode spends from every discovered address; address mode from a single index
+      const spendMode = mode || (addressIndex !== undefined ? 'address' : 'wallet');
+      if (spendMode !== 'wallet' && spendMode !== 'address') {
+        throw new Error(`Invalid mode: "${mode}". Use "wallet" or "address".`);
+      }
+
+      let senderPrivateKey: any;
+      let senderAddress = '';
+      let fundedAddresses: string[];
+      let availableBalance: bigint;
+
+      if (spendMode === 'wallet') {
+        const discovery = await sdk.scanWallet();
+        fundedAddresses = [...discovery.receive, ...discovery.change].map(entry => entry.address);
+        availableBalance = discovery.totalBalance;
+
+        if (fundedAddresses.length === 0) {
+          throw new Error('No funds found on any wallet address');
+        }
+        log.info(`Sending from ${fundedAddresses.length} wallet addresses`);
+      } else {
+        // Get the private key for the specified index
+        senderPrivateKey = wallet.getReceivePrivateKey(addressIndex ?? 0);
+        senderAddress = senderPrivateKey.toAddress(sdk.getNetworkType()).toString();
+        fundedAddresses = [senderAddress];
+        availableBalance = (await sdk.getBalance(senderAddress)).balance;
+
+        log.info(`Sending from wallet address[${addressIndex ?? 0}]: ${senderAddress}`);
+      }
+      log.info(`Sending ${amountStr} KAS to ${to}`, { feePriority, customFee });
+
+      // Calculate or use custom fee
+      let priorityFeeSompi: bigint = BigInt(0);
+      
+      if (customFee) {
+        // Use custom fee if provided
+        const customFeeStr = String(customFee).trim();
+        if (isNaN(parseFloat(customFeeStr)) || parseFloat(customFeeStr) < 0) {
+          throw new Error(`Invalid custom fee: "${customFeeStr}". Must be a non-negative number.`);
+        }
+        
+        try {
+          priorityFeeSompi = KaspaSDK.kasToSompi(customFeeStr);
+          log.debug(`Using custom fee in sendFromWallet: ${customFeeStr} KAS = ${priorityFeeSompi} sompi`);
+        } catch (error) {
+          throw new Error(`Failed to convert custom fee: ${(error as Error).message}`);
+        }
+      } else {
+        // Calculate fee based on priority level
+        log.debug(`Estimating fee for priority level in sendFromWallet: ${feePriority}`);
+        
+        // Get fee estimate from network
+        const feeEstimate = await sdk.estimateFee(fundedAddresses, to, amountSompi);
+
+        // Calculate fee multiplier based on priority
+        let feeMultiplier = 1.0;
+        switch (feePriority) {
+          case 'low':
+            feeMultiplier = 0.5; // 50% of base fee for low priority
+            break;
+          case 'normal':
+            feeMultiplier = 1.0; // Base fee for normal priority
+            break;
+          case 'high':
+            feeMultiplier = 2.0; // 2x base fee for high priority
+            break;
+          default:
+            feeMultiplier = 1.0;
+        }
+
+        priorityFeeSompi = BigInt(Math.ceil(Number(feeEstimate.baseFee) * feeMultiplier));
+        log.debug(`Calculated ${feePriority} priority fee in sendFromWallet: ${KaspaSDK.sompiToKas(priorityFeeSompi)} KAS (${priorityFeeSompi} sompi)`);
+      }
+
+      // Check balance before sending (including fee)
+      const totalRequired = amountSompi + priorityFeeSompi;
+      if (availableBalance < totalRequired) {
+        throw new Error(`Insufficient balance. Available: ${KaspaSDK.sompiToKas(availableBalance)} KAS, Required: ${KaspaSDK.sompiToKas(totalRequired)} KAS (amount + fee)`);
+      }
+
+      const proposal = dryRun ? undefined : await this.proposeIfApprovalRequired(sessionId, sdk, {
+        to,
+        amount: amountSompi,
+        customTotalFee: customFee ? priorityFeeSompi : undefined,
+        priorityFee: customFee ? undefined : priorityFeeSompi,
+        payload,
+        rescan: false,
+        fromAddresses: spendMode === 'wallet' ? undefined : [senderAddress]
+      });
+      if (proposal) {
+        return proposal;
+      }
+
+      let result: SendTransactionResult;
+      let fromInfo: string;
+
+      if (spendMode === 'wallet') {
+        const walletResult = await sdk.sendFromWallet({
+          to,
+          amount: amountSompi,
+          customTotalFee: customFee ? priorityFeeSompi : undefined,
+          priorityFee: customFee ? undefined : priorityFeeSompi,
+          payload,
+          rescan: false,
+          dryRun
+        });
+        result = walletResult;
+        fromInfo = `${walletResult.inputAddresses.length} wallet address(es)\n${walletResult.inputAddresses.map(addr => `  ${addr}`).join('\n')}
+Change: ${walletResult.changeAddress}`;
+      } else {
+        result = await sdk.sendTransaction({
+          from: senderPrivateKey,
+          to,
+          amount: amountSompi,
+          customTotalFee: customFee ? priorityFeeSompi : undefined,
+          priorityFee: customFee ? undefined : priorityFeeSompi,
+          payload,
+          dryRun
+        });
+        fromInfo = `${senderAddress} (index ${addressIndex ?? 0})`;
+      }
+
+      if (result.simulation) {
+        return this.formatSimulation(result.simulation, `From: ${fromInfo}
+To: ${to}
+Amount: ${amountStr} KAS${payload ? `\nPayload: ${payload}` : ''}`);
+      }
+
+      // Prepare fee info for response
+      const feeInfo = customFee
+        ? `Custom fee: ${customFee} KAS`
+        : `Fee priority: ${feePriority}`;
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Transaction sent successfully!
+From: ${fromInfo}
+To: ${to}
+Amount: ${amountStr} KAS
+Fee paid: ${KaspaSDK.sompiToKas(result.fee)} KAS
+Fee type: ${feeInfo}
+Transaction ID: ${result.transactionId}
+Mass: ${result.mass}${this.formatTransactionChain(result)}${this.formatTracking(result)}${payload ? `\nPayload: ${payload}` : ''}
+Explorer: https://explorer.kaspa.org/txs/${result.transactionId}`
+          }
+        ]
+      };
+    } catch (error) {
+      if (error instanceof SpendingPolicyError) {
+        return this.formatPolicyRejection(error);
+      }
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to send from wallet: ${(error as Error).message}`
+      );
+    }
+  }
+
+  private async handleScanWallet(args: any) {
+    const { gapLimit } = args;
+
+    const sessionId = this.normalizeSessionId(args.sessionId);
+    const sdk = sdkInstances.get(sessionId);
+    const wallet = walletInstances.get(sessionId);
+
+    if (!sdk) {
+      throw new McpError(ErrorCode.InvalidRequest, 'No active connection. Please connect first.');
+    }
+
+    if (!wallet) {
+      throw new McpError(ErrorCode.InvalidRequest, 'No wallet available. Please create or import a wallet first.');
+    }
+
+    if (gapLimit !== undefined && (!Number.isInteger(gapLimit) || gapLimit < 1)) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid gapLimit: ${gapLimit}. Must be a positive integer.`);
+    }
+
+    try {
+      log.info(`Scanning wallet (gap limit: ${gapLimit || 'default'})`);
+      const result = await sdk.scanWallet({ gapLimit });
+
+      const formatEntries = (entries: DiscoveredAddress[]) => entries.length === 0
+        ? '  (none)'
+        : entries.map(entry =>
+          `  [${entry.index}] ${entry.address}: ${KaspaSDK.sompiToKas(entry.balance)} KAS (${entry.utxoCount} UTXOs)` +
+          `${entry.derivationPath ? `\n      ${entry.derivationPath}` : ''}`
+        ).join('\n');
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `🔎 Wallet Scan Results
+
+Total Balance: ${KaspaSDK.sompiToKas(result.totalBalance)} KAS
+Scanned: ${result.scannedReceive} receive, ${result.scannedChange} change addresses
+
+Used receive addresses (${result.receive.length}):
+${formatEntries(result.receive)}
+
+Used change addresses (${result.change.length}):
+${formatEntries(result.change)}
+
+Next fresh receive address: [${result.nextReceiveIndex}] ${result.nextReceiveAddress}
+Next change address: [${result.nextChangeIndex}] ${result.nextChangeAddress}`
+          }
+        ]
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to scan wallet: ${(error as Error).message}`
+      );
+    }
+  }
+
+  private async handleSendBatch(args: any) {
+    const { outputs, addressIndex, priorityFee = '0', payload, dryRun = false } = args;
+
+    const sessionId = this.normalizeSessionId(args.sessionId);
+
+    const sdk = sdkInstances.get(sessionId);
+    const wallet = walletInstances.get(sessionId);
+
+    if (!sdk) {
+      throw new McpError(ErrorCode.InvalidRequest, 'No active connection. Please connect first.');
+    }
+
+    if (!wallet) {
+      throw new McpError(ErrorCode.InvalidRequest, 'No wallet available. Please create or import a wallet first.');
+    }
+
+    if (!Array.isArray(outputs) || outputs.length === 0) {
+      throw new McpError(ErrorCode.InvalidParams, 'outputs must be a non-empty array of { address, amount, memo }');
+    }
+
+    // Validate every entry up front so nothing is sent for a partially bad batch
+    const network = sdk.getNetworkType();
+    const errors: string[] = [];
+    const batch = outputs.map((output: any, index: number) => {
+      const address = String(output?.address || '').trim();
+      const amountStr = String(output?.amount ?? '').trim();
+
+      if (!KaspaSDK.validateAddress(address, network)) {
+        errors.push(`[${index}] Invalid address for ${network}: "${address}"`);
+      }
+
+      let amount = BigInt(0);
+      if (!amountStr || isNaN(parseFloat(amountStr)) || parseFloat(amountStr) <= 0) {
+        errors.push(`[${index}] Invalid amount: "${amountStr}". Must be greater than 0.`);
+      } else {
+        try {
+          amount = KaspaSDK.kasToSompi(amountStr);
+        } catch (error) {
+          errors.push(`[${index}] Failed to convert amount "${amountStr}": ${(error as Error).message}`);
+        }
+      }
+
+      return {
+        address,
+        amount,
+        memo: output?.memo !== undefined ? String(output.memo) : undefined
+      };
+    });
+
+    if (errors.length > 0) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid batch outputs:\n${errors.join('\n')}`);
+    }
+
+    try {
+      let priorityFeeSompi = BigInt(0);
+      if (priorityFee && priorityFee !== '0') {
+        priorityFeeSompi = KaspaSDK.kasToSompi(String(priorityFee).trim());
+      }
+
+      // Without an address index the batch spends from the whole wallet, like kaspa_send_from_wallet
+      const senderPrivateKey = addressIndex !== undefined ? wallet.getReceivePrivateKey(addressIndex) : undefined;
+      const senderAddress = senderPrivateKey?.toAddress(network).toString();
+
+      log.info(`Sending batch of ${batch.length} outputs from ${senderAddress ? `wallet address[${addressIndex}]: ${senderAddress}` : 'the whole wallet'}`);
+
+      const result = await sdk.sendBatch(batch, {
+        from: senderPrivateKey,
+        priorityFee: priorityFeeSompi,
+        payload,
+        dryRun
+      });
+      const fromLine = senderAddress
+        ? `From: ${senderAddress} (index ${addressIndex})`
+        : `From: ${result.inputAddresses.length} wallet address(es)\nChange address: ${result.changeAddress}`;
+
+      const transactionLines = result.transactions.map((tx, idx) =>
+        `  [${idx}] ${tx.transactionId} (fee: ${KaspaSDK.sompiToKas(tx.fee)} KAS, mass: ${tx.mass})${tx.isFinal ? ' <- payment' : ' (UTXO compounding)'}`
+      );
+      const paymentLines = result.payments.map(payment =>
+        `  [${payment.outputIndex}] ${payment.address}: ${KaspaSDK.sompiToKas(payment.amount)} KAS` +
+        `${payment.memo ? ` (${payment.memo})` : ''}\n      paid by ${payment.transactionId} output #${payment.transactionOutputIndex}`
+      );
+
+      if (result.simulation) {
+        return this.formatSimulation(result.simulation, `${fromLine}
+Recipients: ${result.payments.length}
+Total amount: ${KaspaSDK.sompiToKas(result.totalAmount)} KAS
+
+Payments:
+${paymentLines.join('\n')}`);
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Batch sent successfully!
+${fromLine}
+Recipients: ${result.payments.length}
+Total amount: ${KaspaSDK.sompiToKas(result.totalAmount)} KAS
+Total fees: ${KaspaSDK.sompiToKas(result.totalFee)} KAS
+
+Transactions (${result.transactions.length}):
+${transactionLines.join('\n')}
+
+Payments:
+${paymentLines.join('\n')}`
+          }
+        ]
+      };
+    } catch (error) {
+      if (error instanceof SpendingPolicyError) {
+        return this.formatPolicyRejection(error);
+      }
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to send batch: ${(error as Error).message}`
+      );
+    }
+  }
+
+  private async handleImportWatchOnly(args: any) {
+    const { xpub, publicKeys } = args;
+
+    const sessionId = this.normalizeSessionId(args.sessionId);
+    const sdk = sdkInstances.get(sessionId);
+
+    if (!sdk) {
+      throw new McpError(ErrorCode.InvalidRequest, 'No active connection. Please connect first.');
+    }
+
+    if (!xpub === !publicKeys) {
+      throw new McpError(ErrorCode.InvalidParams, 'Provide either xpub or publicKeys (but not both).');
+    }
+
+    if (publicKeys && (!Array.isArray(publicKeys) || publicKeys.length === 0)) {
+      throw new McpError(ErrorCode.InvalidParams, 'publicKeys must be a non-empty array of hex public keys.');
+    }
+
+    try {
+      log.info('Importing watch-only wallet');
+
+      if (walletInstances.has(sessionId)) {
+        log.info('Disposing existing wallet');
+        walletInstances.get(sessionId)!.dispose();
+        walletInstances.delete(sessionId);
+      }
+
+      const wallet = sdk.createWallet(
+        xpub ? { xpub: String(xpub).trim() } : { publicKeys: publicKeys.map((key: any) => String(key).trim()) }
+      );
+      walletInstances.set(sessionId, wallet);
+      this.notifySessionResourcesChanged(sessionId);
+
+      const addresses = [];
+      const count = publicKeys ? publicKeys.length : 5;
+      for (let i = 0; i < count; i++) {
+        addresses.push(`  [${i}] ${wallet.getReceiveAddress(i)}`);
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `👁️ Watch-only wallet imported from ${xpub ? 'extended public key' : `${publicKeys.length} public key(s)`}
+Network: ${sdk.getNetworkType()}
+Receive Address: ${wallet.getReceiveAddress(0)}
+Change Address: ${wallet.getChangeAddress(0)}
+
+Addresses:
+${addresses.join('\n')}
+
+This wallet cannot sign. Use kaspa_scan_wallet for balances and kaspa_build_unsigned_transaction to prepare payments.`
+          }
+        ]
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to import watch-only wallet: ${(error as Error).message}`
+      );
+    }
+  }
+
+  private async handleBuildUnsignedTransaction(args: any) {
+    const { to, amount, priorityFee = '0', payload } = args;
+
+    const sessionId = this.normalizeSessionId(args.sessionId);
+    const sdk = sdkInstances.get(sessionId);
+    const wallet = walletInstances.get(sessionId);
+
+    if (!sdk) {
+      throw new McpError(ErrorCode.InvalidRequest, 'No active connection. Please connect first.');
+    }
+
+    if (!wallet) {
+      throw new McpError(ErrorCode.InvalidRequest, 'No wallet available. Please create or import a wallet first.');
+    }
+
+    if (!KaspaSDK.validateAddress(String(to || '').trim(), sdk.getNetworkType())) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid recipient address for ${sdk.getNetworkType()}: "${to}"`);
+    }
+
+    const amountStr = String(amount ?? '').trim();
+    if (!amountStr || isNaN(parseFloat(amountStr)) || parseFloat(amountStr) <= 0) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid amount: "${amountStr}". Must be greater than 0.`);
+    }
+
+    try {
+      let priorityFeeSompi = BigInt(0);
+      if (priorityFee && priorityFee !== '0') {
+        priorityFeeSompi = KaspaSDK.kasToSompi(String(priorityFee).trim());
+      }
+
+      const result = await sdk.buildUnsignedTransaction({
+        to: String(to).trim(),
+        amount: KaspaSDK.kasToSompi(amountStr),
+        priorityFee: priorityFeeSompi,
+        payload
+      });
+
+      const transactionLines = result.transactions.map((tx, idx) =>
+        `[${idx}] ${tx.transactionId} (fee: ${KaspaSDK.sompiToKas(tx.fee)} KAS, mass: ${tx.mass})${tx.isFinal ? ' <- payment' : ' (UTXO compounding)'}\n${tx.serialized}`
+      );
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `📝 Unsigned transaction built (not submitted)
+To: ${String(to).trim()}
+Amount: ${amountStr} KAS
+Total fees: ${KaspaSDK.sompiToKas(result.totalFee)} KAS
+Input addresses: ${result.inputAddresses.length}
+Change Address: ${result.changeAddress}
+Transactions: ${result.transactions.length}${result.transactions.length > 1 ? ' (sign and submit in order)' : ''}
+
+${transactionLines.join('\n\n')}`
+          }
+        ]
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to build unsigned transaction: ${(error as Error).message}`
+      );
+    }
+  }
+
+  private async handleCreateMultisigWallet(args: any) {
+    const { xpubs, threshold, includeSessionWallet = true } = args;
+
+    const sessionId = this.normalizeSessionId(args.sessionId);
+    const sdk = sdkInstances.get(sessionId);
+    const wallet = walletInstances.get(sessionId);
+
+    if (!sdk) {
+      throw new McpError(ErrorCode.InvalidRequest, 'No active connection. Please connect first.');
+    }
+
+    if (!Array.isArray(xpubs)) {
+      throw new McpError(ErrorCode.InvalidParams, 'xpubs must be an array of extended public keys.');
+    }
+
+    const cosignerXPubs = xpubs.map((xpub: any) => String(xpub).trim());
+    if (includeSessionWallet) {
+      const ownXPub = wallet?.getXPub();
+      if (!ownXPub) {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          'The session wallet has no extended public key. Create an HD wallet first or set includeSessionWallet to false.'
+        );
+      }
+      cosignerXPubs.push(ownXPub);
+    }
+
+    try {
+      const multisig = sdk.createMultisigWallet({ xpubs: cosignerXPubs, threshold });
+      const cosignerLines = multisig.getXPubs().map((xpub, idx) =>
+        `  [${idx}] ${xpub}${includeSessionWallet && xpub === wallet?.getXPub() ? ' (session wallet)' : ''}`
+      );
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `🔐 ${threshold}-of-${cosignerXPubs.length} multisig wallet created
+Network: ${sdk.getNetworkType()}
+Receive Address: ${multisig.getReceiveAddress(0)}
+Change Address: ${multisig.getChangeAddress(0)}
+
+Cosigners:
+${cosignerLines.join('\n')}`
+          }
+        ]
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to create multisig wallet: ${(error as Error).message}`
+      );
+    }
+  }
+
+  private async handleCreateMultisigTransaction(args: any) {
+    const { to, amount, priorityFee = '0', payload } = args;
+
+    const sessionId = this.normalizeSessionId(args.sessionId);
+    const sdk = sdkInstances.get(sessionId);
+
+    if (!sdk) {
+      throw new McpError(ErrorCode.InvalidRequest, 'No active connection. Please connect first.');
+    }
+
+    if (!sdk.getMultisigWallet()) {
+      throw new McpError(ErrorCode.InvalidRequest, 'No multisig wallet available. Use kaspa_create_multisig_wallet first.');
+    }
+
+    if (!KaspaSDK.validateAddress(String(to || '').trim(), sdk.getNetworkType())) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid recipient address for ${sdk.getNetworkType()}: "${to}"`);
+    }
+
+    const amountStr = String(amount ?? '').trim();
+    if (!amountStr || isNaN(parseFloat(amountStr)) || parseFloat(amountStr) <= 0) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid amount: "${amountStr}". Must be greater than 0.`);
+    }
+
+    try {
+      let priorityFeeSompi = BigInt(0);
+      if (priorityFee && priorityFee !== '0') {
+        priorityFeeSompi = KaspaSDK.kasToSompi(String(priorityFee).trim());
+      }
+
+      const status = await sdk.createMultisigTransaction({
+        to: String(to).trim(),
+        amount: KaspaSDK.kasToSompi(amountStr),
+        priorityFee: priorityFeeSompi,
+        payload
+      });
+
+      const serialized = status.transactions.map((tx, idx) => `[${idx}] ${tx.serialized}`);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `📝 Multisig transaction created (not submitted)
+${this.formatMultisigStatus(status)}
+
+Serialized transactions for offline cosigners:
+${serialized.join('\n\n')}
+
+Collect signatures with kaspa_add_multisig_signature.`
+          }
+        ]
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to create multisig transaction: ${(error as Error).message}`
+      );
+    }
+  }
+
+  private async handleAddMultisigSignature(args: any) {
+    const { proposalId, signatures, submit = true } = args;
+
+    const sessionId = this.normalizeSessionId(args.sessionId);
+    const sdk = sdkInstances.get(sessionId);
+    const multisig = sdk?.getMultisigWallet();
+
+    if (!sdk || !multisig) {
+      throw new McpError(ErrorCode.InvalidRequest, 'No multisig wallet available. Use kaspa_create_multisig_wallet first.');
+    }
+
+    if (!proposalId) {
+      throw new McpError(ErrorCode.InvalidParams, 'proposalId is required.');
+    }
+
+    try {
+      let signedAs: number[];
+      if (signatures !== undefined) {
+        if (!Array.isArray(signatures) || signatures.length === 0) {
+          throw new McpError(ErrorCode.InvalidParams, 'signatures must be a non-empty array.');
+        }
+        signedAs = multisig.addSignatures(proposalId, signatures);
+      } else {
+        const signerSessionId = this.normalizeSessionId(args.signerSessionId || sessionId);
+        const signer = walletInstances.get(signerSessionId);
+        if (!signer) {
+          throw new McpError(ErrorCode.InvalidRequest, `No wallet in signer session "${signerSessionId}".`);
+        }
+        signedAs = [multisig.sign(proposalId, signer)];
+      }
+
+      let status = multisig.getSigningStatus(proposalId);
+      let submission = '';
+      if (status.complete && submit) {
+        log.info('Threshold reached for multisig proposal, submitting', { proposalId });
+        const result = await sdk.submitMultisigTransaction(proposalId);
+        status = multisig.getSigningStatus(proposalId);
+        submission = `\n\n✅ Submitted! Transaction ID: ${result.transactionId}${this.formatTransactionChain(result)}${this.formatTracking(result)}`;
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `✍️ Signature added for cosigner ${signedAs.join(', ')}
+${this.formatMultisigStatus(status)}${submission}`
+          }
+        ]
+      };
+    } catch (error) {
+      if (error instanceof McpError) {
+        throw error;
+      }
+      if (error instanceof SpendingPolicyError) {
+        return this.formatPolicyRejection(error);
+      }
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to add multisig signature: ${(error as Error).message}`
+      );
+    }
+  }
+
+  private async handleGetMultisigStatus(args: any) {
+    const { proposalId } = args;
+
+    const sessionId = this.normalizeSessionId(args.sessionId);
+    const multisig = sdkInstances.get(sessionId)?.getMultisigWallet();
+
+    if (!multisig) {
+      throw new McpError(ErrorCode.InvalidRequest, 'No multisig wallet available. Use kaspa_create_multisig_wallet first.');
+    }
+
+    try {
+      const statuses = proposalId ? [multisig.getSigningStatus(proposalId)] : multisig.listProposals();
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: statuses.length === 0
+              ? `No multisig proposals yet (${multisig.getThreshold()}-of-${multisig.getXPubs().length} wallet ${multisig.getReceiveAddress(0)})`
+              : statuses.map(status => this.formatMultisigStatus(status)).join('\n\n---\n\n')
+          }
+        ]
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to get multisig status: ${(error as Error).message}`
+      );
+    }
+  }
+
+  private async handleCreatePskt(args: any) {
+    const { to, amount, priorityFee = '0', payload, multisig = false } = args;
+
+    const sessionId = this.normalizeSessionId(args.sessionId);
+    const sdk = this.getPsktSdk(args);
+
+    if (multisig ? !sdk.getMultisigWallet() : !walletInstances.get(sessionId)) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        multisig
+          ? 'No multisig wallet available. Use kaspa_create_multisig_wallet first.'
+          : 'No wallet available. Please create or import a wallet first.'
+      );
+    }
+
+    if (!KaspaSDK.validateAddress(String(to || '').trim(), sdk.getNetworkType())) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid recipient address for ${sdk.getNetworkType()}: "${to}"`);
+    }
+
+    const amountStr = String(amount ?? '').trim();
+    if (!amountStr || isNaN(parseFloat(amountStr)) || parseFloat(amountStr) <= 0) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid amount: "${amountStr}". Must be greater than 0.`);
+    }
+
+    try {
+      let priorityFeeSompi = BigInt(0);
+      if (priorityFee && priorityFee !== '0') {
+        priorityFeeSompi = KaspaSDK.kasToSompi(String(priorityFee).trim());
+      }
+
+      const pskts = await sdk.createPskt({
+        to: String(to).trim(),
+        amount: KaspaSDK.kasToSompi(amountStr),
+        priorityFee: priorityFeeSompi,
+        payload
+      }, { multisig });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `📦 Created ${pskts.length} unsigned PSKT${pskts.length > 1 ? 's (sign and broadcast in order)' : ''}
+To: ${String(to).trim()}
+Amount: ${amountStr} KAS
+
+${pskts.map((pskt, idx) => `[${idx}] ${this.formatPskt(pskt)}`).join('\n\n')}`
+          }
+        ]
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to create PSKT: ${(error as Error).message}`
+      );
+    }
+  }
+
+  private async handleImportPskt(args: any) {
+    const sdk = this.getPsktSdk(args);
+
+    try {
+      const pskt = sdk.importPskt(args.pskt);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `📥 PSKT imported\n${this.formatPskt(pskt)}`
+          }
+        ]
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Failed to import PSKT: ${(error as Error).message}`
+      );
+    }
+  }
+
+  private async handleSignPskt(args: any) {
+    const sdk = this.getPsktSdk(args);
+    const signerSessionId = this.normalizeSessionId(args.signerSessionId || args.sessionId);
+    const signer = walletInstances.get(signerSessionId);
+
+    if (!signer) {
+      throw new McpError(ErrorCode.InvalidRequest, `No wallet in signer session "${signerSessionId}".`);
+    }
+
+    try {
+      const pskt = sdk.signPskt(args.pskt, signer);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `✍️ Signed ${pskt.signedInputs} input(s)\n${this.formatPskt(pskt)}`
+          }
+        ]
+      };
+    } catch (error) {
+      if (error instanceof SpendingPolicyError) {
+        return this.formatPolicyRejection(error);
+      }
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to sign PSKT: ${(error as Error).message}`
+      );
+    }
+  }
+
+  private async handleCombinePskts(args: any) {
+    const { pskts } = args;
+    const sdk = this.getPsktSdk(args);
+
+    if (!Array.isArray(pskts) || pskts.length < 2) {
+      throw new McpError(ErrorCode.InvalidParams, 'pskts must contain at least two serialized PSKTs.');
+    }
+
+    try {
+      const pskt = sdk.combinePskts(pskts.map((value: any) => String(value)));
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `🔗 Combined ${pskts.length} PSKTs\n${this.formatPskt(pskt)}`
+          }
+        ]
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to combine PSKTs: ${(error as Error).message}`
+      );
+    }
+  }
+
+  private async handleFinalizePskt(args: any) {
+    const sdk = this.getPsktSdk(args);
+
+    try {
+      const pskt = sdk.finalizePskt(args.pskt);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `✅ PSKT finalized\n${this.formatPskt(pskt)}`
+          }
+        ]
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to finalize PSKT: ${(error as Error).message}`
+      );
+    }
+  }
+
+  private async handleBroadcastPskt(args: any) {
+    const sdk = this.getPsktSdk(args);
+
+    try {
+      const { status } = sdk.importPskt(args.pskt);
+      const serialized = status.finalized ? args.pskt : sdk.finalizePskt(args.pskt).serialized;
+
+      const transactionId = await sdk.broadcastPskt(serialized);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `🚀 Transaction broadcast!
+Transaction ID: ${transactionId}
+Fee: ${KaspaSDK.sompiToKas(status.fee)} KAS`
+          }
+        ]
+      };
+    } catch (error) {
+      if (error instanceof SpendingPolicyError) {
+        return this.formatPolicyRejection(error);
+      }
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to broadcast PSKT: ${(error as Error).message}`
+      );
+    }
+  }
+
+  private async handleExportOfflineTransaction(args: any) {
+    const { to, amount, priorityFee = '0', payload } = args;
+
+    const sessionId = this.normalizeSessionId(args.sessionId);
+    const sdk = sdkInstances.get(sessionId);
+    const wallet = walletInstances.get(sessionId);
+
+    if (!sdk) {
+      throw new McpError(ErrorCode.InvalidRequest, 'No active connection. Please connect first.');
+    }
+
+    if (!wallet) {
+      throw new McpError(ErrorCode.InvalidRequest, 'No wallet available. Please create or import a wallet first.');
+    }
+
+    if (!KaspaSDK.validateAddress(String(to || '').trim(), sdk.getNetworkType())) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid recipient address for ${sdk.getNetworkType()}: "${to}"`);
+    }
+
+    const amountStr = String(amount ?? '').trim();
+    if (!amountStr || isNaN(parseFloat(amountStr)) || parseFloat(amountStr) <= 0) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid amount: "${amountStr}". Must be greater than 0.`);
+    }
+
+    try {
+      let priorityFeeSompi = BigInt(0);
+      if (priorityFee && priorityFee !== '0') {
+        priorityFeeSompi = KaspaSDK.kasToSompi(String(priorityFee).trim());
+      }
+
+      const bundle = await sdk.exportUnsignedTransaction({
+        to: String(to).trim(),
+        amount: KaspaSDK.kasToSompi(amountStr),
+        priorityFee: priorityFeeSompi,
+        payload
+      });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `📤 Transaction exported for offline signing (not submitted)
+To: ${String(to).trim()}
+Amount: ${amountStr} KAS
+
+Sign it in an offline session with kaspa_sign_offline_transaction:
+${bundle}`
+          }
+        ]
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to export transaction: ${(error as Error).message}`
+      );
+    }
+  }
+
+  private async handleSignOfflineTransaction(args: any) {
+    const { bundle, maxFee } = args;
+
+    const sessionId = this.normalizeSessionId(args.sessionId);
+    const sdk = sdkInstances.get(sessionId);
+    const wallet = walletInstances.get(sessionId);
+
+    if (!sdk) {
+      throw new McpError(ErrorCode.InvalidRequest, 'No active session. Connect with offline: true first.');
+    }
+
+    if (!wallet) {
+      throw new McpError(ErrorCode.InvalidRequest, 'No wallet available. Please create or import a wallet first.');
+    }
+
+    try {
+      const { bundle: signed, verification } = sdk.signOfflineTransaction(String(bundle), {
+        maxFee: maxFee !== undefined ? KaspaSDK.kasToSompi(String(maxFee).trim()) : undefined
+      });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `✍️ Transaction verified and signed${sdk.isOffline() ? '' : '\n⚠️ This session is online; offline signing is meant for an air-gapped session'}
+To: ${verification.to}
+Amount: ${KaspaSDK.sompiToKas(verification.amount)} KAS
+Total fees: ${KaspaSDK.sompiToKas(verification.totalFee)} KAS
+Change: ${KaspaSDK.sompiToKas(verification.changeAmount)} KAS to ${verification.changeAddress}
+Input addresses: ${verification.inputAddresses.length}
+Transactions: ${verification.transactionCount}
+
+Submit it from an online session with kaspa_submit_signed_transaction:
+${signed}`
+          }
+        ]
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to sign offline transaction: ${(error as Error).message}`
+      );
+    }
+  }
+
+  private async handleSubmitSignedTransaction(args: any) {
+    const sessionId = this.normalizeSessionId(args.sessionId);
+    const sdk = sdkInstances.get(sessionId);
+
+    if (!sdk) {
+      throw new McpError(ErrorCode.InvalidRequest, 'No active connection. Please connect first.');
+    }
+
+    if (sdk.isOffline()) {
+      throw new McpError(ErrorCode.InvalidRequest, 'This session is offline. Submit the signed bundle from an online session.');
+    }
+
+    try {
+      const result = await sdk.submitSignedTransaction(String(args.bundle));
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `🚀 Transaction submitted!
+Transaction ID: ${result.transactionId}
+Fee: ${KaspaSDK.sompiToKas(result.fee)} KAS${this.formatTransactionChain(result)}${this.formatTracking(result)}`
+          }
+        ]
+      };
+    } catch (error) {
+      if (error instanceof SpendingPolicyError) {
+        return this.formatPolicyRejection(error);
+      }
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to submit signed transaction: ${(error as Error).message}`
+      );
+    }
+  }
+
+  private async handleGetSpendingPolicy(args: any) {
+    const sessionId = this.normalizeSessionId(args.sessionId);
+    const sdk = sdkInstances.get(sessionId);
+
+    if (!sdk) {
+      throw new McpError(ErrorCode.InvalidRequest, 'No active connection. Please connect first.');
+    }
+
+    const policy = sdk.getSpendingPolicy();
+    if (!policy) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: 'No spending policy configured. Set KASPA_SPENDING_POLICY_PATH to enforce limits.'
+          }
+        ]
+      };
+    }
+
+    const network = sdk.getNetworkType();
+    const day = 24 * 60 * 60 * 1000;
+    const { global, sessions } = policy.getConfig();
+    const describe = (label: string, limits: any, spent: (windowMs: number) => bigint) => [
+      `${label}:`,
+      ...Object.entries(limits).map(([rule, value]) => `  ${rule}: ${Array.isArray(value) ? value.join(', ') : value}`),
+      `  sent in last 24 hours: ${KaspaSDK.sompiToKas(spent(day))} KAS`,
+      `  sent in last 7 days: ${KaspaSDK.sompiToKas(spent(7 * day))} KAS`
+    ].join('\n');
+
+    const sections = [];
+    if (global) {
+      sections.push(describe('Global limits', global, windowMs => policy.getSpent(windowMs, network)));
+    }
+    const sessionLimits = policy.getSessionLimits(sessionId);
+    if (sessionLimits) {
+      const label = sessions?.[sessionId]
+        ? `Session "${sessionId}" limits`
+        : 'Default session limits (shared by every session without its own limits)';
+      sections.push(describe(label, sessionLimits, windowMs => policy.getSessionSpent(windowMs, network, sessionId)));
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `📏 Spending policy (${network}, amounts in KAS)
+${sections.length > 0 ? sections.join('\n\n') : 'No limits apply to this session.'}`
+        }
+      ]
+    };
+  }
+
+  private async handleListPendingApprovals(args: any) {
+    const { includeResolved = false } = args;
+
+    try {
+      await this.processApprovals();
+      const proposals = (await this.approvals.list()).filter(proposal =>
+        (includeResolved || proposal.status === 'pending' || proposal.status === 'approved') &&
+        (!args.sessionId || proposal.sessionId === this.normalizeSessionId(args.sessionId))
+      );
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: proposals.length === 0
+              ? `No ${includeResolved ? '' : 'pending '}approval proposals.${getApprovalSecret() ? '' : '\nThe approval queue is disabled; set KASPA_APPROVAL_SECRET to enable it.'}`
+              : `🗳️ Approval proposals (${proposals.length})\n\n${proposals.map(proposal => this.formatApproval(proposal)).join('\n\n')}`
+          }
+        ]
+      };
+    } catch (error) {
+      throw new McpError(ErrorCode.InternalError, `Failed to list approvals: ${(error as Error).message}`);
+    }
+  }
+
+  private async handleGetApprovalStatus(args: any) {
+    const { proposalId } = args;
+    if (!proposalId || typeof proposalId !== 'string') {
+      throw new McpError(ErrorCode.InvalidParams, 'proposalId is required.');
+    }
+
+    let proposal: ApprovalProposal | undefined;
+    try {
+      await this.processApprovals();
+      proposal = await this.approvals.get(proposalId.trim());
+    } catch (error) {
+      throw new McpError(ErrorCode.InternalError, `Failed to get approval status: ${(error as Error).message}`);
+    }
+    if (!proposal) {
+      throw new McpError(ErrorCode.InvalidParams, `Approval proposal ${proposalId} not found.`);
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: this.formatApproval(proposal)
+        },
+        {
+          type: 'text',
+          text: JSON.stringify({
+            proposalId: proposal.id,
+            status: proposal.status,
+            expiresAt: proposal.expiresAt,
+            transactionId: proposal.transactionId,
+            error: proposal.error
+          }, null, 2)
+        }
+      ]
+    };
+  }
+
+  private async handleGetAuditLog(args: any) {
+    const { tool, event, since, until, limit = 50, verify = true } = args;
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_AUDIT_QUERY_LIMIT) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid limit: ${limit}. Must be an integer from 1 to ${MAX_AUDIT_QUERY_LIMIT}.`);
+    }
+
+    try {
+      const entries = await this.audit.query({
+        sessionId: args.sessionId !== undefined ? this.normalizeSessionId(args.sessionId) : undefined,
+        tool,
+        event,
+        since,
+        until,
+        limit
+      });
+
+      let integrity = '';
+      if (verify) {
+        const verification = await this.audit.verify();
+        integrity = verification.valid
+          ? `\nChain intact: ${verification.entries} entries verified ✅`
+          : `\n⚠️ Chain broken${verification.brokenAt !== undefined ? ` at entry ${verification.brokenAt}` : ''}: ${verification.reason}`;
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `📜 Audit log: ${this.audit.getPath()}
+Matching entries: ${entries.length}${integrity}
+
+${entries.length > 0 ? entries.map(entry => JSON.stringify(entry)).join('\n') : '(no entries)'}`
+          }
+        ]
+      };
+    } catch (error) {
+      throw new McpError(ErrorCode.InternalError, `Failed to read audit log: ${(error as Error).message}`);
+    }
+  }
+
+  private async handleExportSecret(args: any) {
+    const { secret = 'mnemonic', reason } = args;
+
+    const sessionId = this.normalizeSessionId(args.sessionId);
+    const sdk = sdkInstances.get(sessionId);
+    const wallet = walletInstances.get(sessionId);
+    const allowed = ['true', '1'].includes(String(process.env.KASPA_ALLOW_SECRET_EXPORT || '').toLowerCase());
+
+    if (!['mnemonic', 'privateKey', 'xprv'].includes(secret)) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid secret: "${secret}". Use mnemonic, privateKey or xprv.`);
+    }
+
+    if (!sdk || !wallet) {
+      throw new McpError(ErrorCode.InvalidRequest, 'No active wallet. Please create a wallet first.');
+    }
+
+    const auditFields = {
+      sessionId,
+      secret,
+      reason: reason ? String(reason) : undefined,
+      network: sdk.getNetworkType(),
+      address: wallet.getReceiveAddress(0)
+    };
+
+    if (!allowed) {
+      await this.audit.append('secret_export_denied', auditFields).catch(error =>
+        log.warn('Failed to write audit entry', { error })
+      );
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        'Secret export is disabled. Start the server with KASPA_ALLOW_SECRET_EXPORT=true to allow it.'
+      );
+    }
+
+    const value = secret === 'mnemonic'
+      ? wallet.getMnemonic()
+      : secret === 'privateKey' ? wallet.getPrivateKeyHex() : wallet.getXPrv();
+    if (!value) {
+      throw new McpError(ErrorCode.InvalidRequest, `The session wallet has no ${secret} to export.`);
+    }
+
+    // Refuse to reveal anything that could not be recorded
+    try {
+      await this.audit.append('secret_export', auditFields);
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Secret export refused: audit log could not be written: ${(error as Error).message}`
+      );
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `🔑 Exported ${secret} for ${auditFields.address}:
+${value}
+
+⚠️ SECURITY WARNING: Anyone with this secret controls the wallet's funds. Store it offline and never share it.
+This export was recorded in the audit log.`
+        }
+      ]
+    };
+  }
+
+  private async handleSubscribeBalance(args: any) {
+    const sessionId = this.normalizeSessionId(args.sessionId);
+    const { addresses, includeTransactions = true } = args;
+
+    const sdk = sdkInstances.get(sessionId);
+    const wallet = walletInstances.get(sessionId);
+    
+    if (!sdk) {
+      throw new McpError(ErrorCode.InvalidRequest, 'No active connection. Please connect first.');
+    }
+
+    try {
+      // Get addresses to monitor
+      let addressesToMonitor: string[];
+      
+      if (addresses && addresses.length > 0) {
+        // Use provided addresses
+        addressesToMonitor = addresses;
+      } else if (wallet) {
+        // Use wallet addresses if no specific addresses provided
+        addressesToMonitor = [];
+        for (let i = 0; i < 5; i++) {
+          try {
+            const addr = wallet.getReceiveAddress(i);
+            addressesToMonitor.push(addr);
+          } catch (e) {
+            break;
+          }
+        }
+      } else {
+        throw new Error('No addresses specified and no wallet available');
+      }
+
+      log.debug(`Subscribing to addresses: ${addressesToMonitor.join(', ')}`);
+
+      // Initialize subscription info
+      const subscriptionInfo: SubscriptionInfo = {
+        addresses: new Set(addressesToMonitor),
+        includeTransactions,
+        lastBalances: new Map(),
+        eventListeners: [],
+        pendingChanges: new Map(),
+        refreshing: Promise.resolve()
+      };
+
+      // Get initial balances
+      for (const address of addressesToMonitor) {
+        try {
+          const balance = await sdk.getBalance(address);
+          subscriptionInfo.lastBalances.set(address, balance.balance);
+        } catch (error) {
+          log.warn(`Error getting initial balance for ${address}`, { error });
+          subscriptionInfo.lastBalances.set(address, BigInt(0));
+        }
+      }
+
+      // Subscribe to addresses in the SDK
+      await sdk.subscribeToAddresses(addressesToMonitor);
+
+      // Their history is indexed from now on as well
+      try {
+        await sdk.watchAddressHistory(addressesToMonitor);
+      } catch (error) {
+        log.warn('Could not index address history', { error });
+      }
+
+      // A new subscription replaces the previous one of the session
+      const previous = subscriptionInstances.get(sessionId);
+      if (previous) {
+        this.stopSubscription(sdk, previous);
+      }
+
+      // Set up event handlers; the UTXO processor's balance events cover every address
+      subscriptionInfo.eventListeners = [
+        ['transaction:incoming', (data: any) => this.handleBalanceChangeEvent(sessionId, data, subscriptionInfo, data?.transactionId)],
+        ['transaction:spent', (data: any) => this.handleBalanceChangeEvent(sessionId, data, subscriptionInfo)],
+        ['balance:changed', () => this.handleBalanceChangeEvent(sessionId, undefined, subscriptionInfo)]
+      ];
+      for (const [event, listener] of subscriptionInfo.eventListeners) {
+        sdk.on(event, listener);
+      }
+      subscriptionInstances.set(sessionId, subscriptionInfo);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `✅ Subscribed to balance changes for ${addressesToMonitor.length} addresses:
+${addressesToMonitor.map((addr, idx) => `  [${idx}] ${addr}`).join('\n')}
+
+Initial balances:
+${Array.from(subscriptionInfo.lastBalances.entries()).map(([addr, bal]) => 
+  `  ${addr}: ${KaspaSDK.sompiToKas(bal)} KAS`
+).join('\n')}
+
+You will receive notifications when balances change. Clients without notifications can use kaspa_poll_events.`
+          }
+        ]
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to subscribe to balance changes: ${(error as Error).message}`
+      );
+    }
+  }
+
+  private async handleUnsubscribeBalance(args: any) {
+    const sessionId = this.normalizeSessionId(args.sessionId);
+    const { addresses } = args;
+
+    const sdk = sdkInstances.get(sessionId);
+    const subscription = subscriptionInstances.get(sessionId);
+    
+    if (!sdk) {
+      throw new McpError(ErrorCode.InvalidRequest, 'No active connection. Please connect first.');
+    }
+
+    if (!subscription) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: '⚠️ No active subscription found'
+          }
+        ]
+      };
+    }
+
+    try {
+      let addressesToUnsubscribe: string[];
+      
+      if (addresses && addresses.length > 0) {
+        // Unsubscribe from specific addresses
+        addressesToUnsubscribe = addresses.filter((addr: string) => subscription.addresses.has(addr));
+      } else {
+        // Unsubscribe from all addresses
+        addressesToUnsubscribe = Array.from(subscription.addresses);
+      }
+
+      if (addressesToUnsubscribe.length === 0) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: '⚠️ No matching addresses found in subscription'
+            }
+          ]
+        };
+      }
+
+      // Remove addresses from subscription
+      for (const address of addressesToUnsubscribe) {
+        subscription.addresses.delete(address);
+        subscription.lastBalances.delete(address);
+      }
+
+      // Addresses a subscribed resource still follows stay subscribed at the node until it is unsubscribed
+      const stillFollowed = addressesToUnsubscribe.filter(address => this.isAddressFollowed(sdk, address));
+      this.addResourceAddresses(sdk, stillFollowed);
+      const unused = addressesToUnsubscribe.filter(address => !stillFollowed.includes(address));
+      if (unused.length > 0) {
+        await sdk.unsubscribeFromAddresses(unused);
+      }
+
+      // If no addresses left, remove the entire subscription
+      if (subscription.addresses.size === 0) {
+        this.stopSubscription(sdk, subscription);
+        subscriptionInstances.delete(sessionId);
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `✅ Unsubscribed from ${addressesToUnsubscribe.length} addresses:
+${addressesToUnsubscribe.join('\n')}
+
+${subscription.addresses.size > 0 ? 
+  `Still monitoring ${subscription.addresses.size} addresses.` : 
+  'All subscriptions removed.'}`
+          }
+        ]
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to unsubscribe: ${(error as Error).message}`
+      );
+    }
+  }
+
+  private async handleGetSubscriptionStatus(args: any) {
+    const sessionId = this.normalizeSessionId(args.sessionId);
+
+    const subscription = subscriptionInstances.get(sessionId);
+    
+    if (!subscription || subscription.addresses.size === 0) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: '📭 No active balance subscriptions'
+          }
+        ]
+      };
+    }
+
+    try {
+      const sdk = sdkInstances.get(sessionId);
+      let balanceInfo = '';
+      
+      if (sdk) {
+        // Get current balances
+        const currentBalances: string[] = [];
+        for (const address of subscription.addresses) {
+          try {
+            const balance = await sdk.getBalance(address);
+            const lastBalance = subscription.lastBalances.get(address) || BigInt(0);
+            const change = balance.balance - lastBalance;
+            
+            currentBalances.push(
+              `  ${address}: ${KaspaSDK.sompiToKas(balance.balance)} KAS` +
+              (change !== BigInt(0) ? ` (${this.formatKasDelta(change)} KAS)` : '')
+            );
+          } catch (error) {
+            currentBalances.push(`  ${address}: Error getting balance`);
+          }
+        }
+        balanceInfo = '\n\nCurrent Balances:\n' + currentBalances.join('\n');
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `📊 Balance Subscription Status
+
+Monitoring: ${subscription.addresses.size} addresses
+Include Transactions: ${subscription.includeTransactions ? 'Yes' : 'No'}
+
+Addresses:
+${Array.from(subscription.addresses).map((addr, idx) => `  [${idx}] ${addr}`).join('\n')}${balanceInfo}`
+          }
+        ]
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to get subscription status: ${(error as Error).message}`
+      );
+    }
+  }
+
+  private async handlePollEvents(args: any) {
+    const sessionId = this.normalizeSessionId(args.sessionId);
+    const { after = 0, limit = 100 } = args;
+
+    if (!Number.isInteger(after) || after < 0) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid after: ${after}. Must be a non-negative integer.`);
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_POLL_LIMIT) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid limit: ${limit}. Must be between 1 and ${MAX_POLL_LIMIT}.`);
+    }
+
+    const buffer = eventBuffers.get(sessionId);
+    const buffered = buffer?.events || [];
+    const newer = buffered.filter(event => event.id > after);
+    const events = newer.slice(0, limit);
+    const cursor = events.length > 0 ? events[events.length - 1].id : Math.max(after, (buffer?.nextId ?? 1) - 1);
+    // Events between the cursor and the oldest buffered one were dropped from the buffer
+    const missed = buffered.length > 0 && buffered[0].id > after + 1 ? buffered[0].id - after - 1 : 0;
+
+    const lines = events.map(event =>
+      `  #${event.id} ${event.timestamp} ${event.address}: ${this.formatKasDelta(event.delta)} KAS, balance ${KaspaSDK.sompiToKas(event.balance)} KAS${event.transactionIds.length > 0 ? ` (tx: ${event.transactionIds.join(', ')})` : ''}`
+    );
+    const subscribed = subscriptionInstances.get(sessionId)?.addresses.size ?? 0;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `📬 Balance events after #${after}: ${events.length}${newer.length > events.length ? ` (${newer.length - events.length} more, poll again)` : ''}
+${missed > 0 ? `⚠️ ${missed} older events were dropped from the buffer
+` : ''}${subscribed > 0 ? `Monitoring ${subscribed} addresses` : 'No active balance subscription'}
+Next cursor: ${cursor}
+${lines.length > 0 ? `
+${lines.join('\n')}` : ''}`
+        },
+        {
+          type: 'text',
+          text: JSON.stringify({
+            events: events.map(event => ({
+              ...event,
+              previousBalance: event.previousBalance.toString(),
+              balance: event.balance.toString(),
+              delta: event.delta.toString()
+            })),
+            cursor,
+            more: newer.length > events.length,
+            missed
+          }, null, 2)
+        }
+      ]
+    };
+  }
+
+  private async handleGetConnectionStatus(args: any) {
+    const sessionId = this.normalizeSessionId(args.sessionId);
+    const sdk = sdkInstances.get(sessionId);
+
+    if (!sdk) {
+      throw new McpError(ErrorCode.InvalidRequest, 'No active connection. Please connect first.');
+    }
+
+    const status = sdk.getConnectionStatus();
+    if (!status) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Session "${sessionId}" is in offline mode on ${sdk.getNetworkType()} and has no RPC connection.`
+          }
+        ]
+      };
+    }
+
+    const icon = status.state === 'connected' ? '🟢' : status.state === 'disconnected' ? '🔴' : '🟡';
+    const lines = [
+      `${icon} RPC connection: ${status.state}`,
+      `Network: ${status.network}`,
+      `URL: ${status.url || 'unknown'}`
+    ];
+    if (status.state === 'connected' && status.connectedAt) {
+      lines.push(`Connected since: ${status.connectedAt}`);
+    }
+    if (status.degraded) {
+      lines.push('⚠️ Degraded: no healthy endpoint was reachable. Staying on this one until another endpoint checks healthy.');
+    }
+    if (status.disconnectedAt) {
+      lines.push(`Disconnected since: ${status.disconnectedAt}`);
+    }
+    if (status.state === 'reconnecting') {
+      lines.push(`Failed reconnect attempts: ${status.reconnectAttempts}${status.nextAttemptAt ? ` (next attempt at ${status.nextAttemptAt})` : ''}`);
+    }
+    lines.push(`Reconnections: ${status.reconnects}`);
+    if (status.lastError) {
+      lines.push(`Last error: ${status.lastError}`);
+    }
+    lines.push(
+      `Subscriptions: ${status.subscriptions.utxoAddresses.length} UTXO addresses, blocks: ${status.subscriptions.blocks ? 'yes' : 'no'}, chain changes: ${status.subscriptions.chainChanges ? 'yes' : 'no'}`
+    );
+    if (status.endpoints.length > 0) {
+      lines.push('', 'Endpoints (last check):');
+      for (const endpoint of status.endpoints) {
+        const details = endpoint.healthy
+          ? `healthy, ${endpoint.latencyMs}ms`
+          : endpoint.error || 'unhealthy';
+        lines.push(`  ${endpoint.url === status.url ? '*' : '-'} ${endpoint.url}${endpoint.source === 'resolver' ? ' (resolver)' : ''}: ${details}`);
+      }
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: lines.join('\n')
+        },
+        {
+          type: 'text',
+          text: JSON.stringify(status, null, 2)
+        }
+      ]
+    };
+  }
+
+  // Note a UTXO change of a subscribed address, or of every address when the UTXO processor reports
+  // a balance change, and refresh their balances once the changes of a block have arrived
+  private handleBalanceChangeEvent(sessionId: string, data: any, subscription: SubscriptionInfo, transactionId?: string) {
+    const addresses = data ? [data.address] : Array.from(subscription.addresses);
+    for (const address of addresses) {
+      if (!address || !subscription.addresses.has(address)) {
+        continue;
+      }
+      const transactions = subscription.pendingChanges.get(address) || new Set<string>();
+      if (transactionId) {
+        transactions.add(transactionId);
+      }
+      subscription.pendingChanges.set(address, transactions);
+    }
+
+    if (subscription.pendingChanges.size === 0 || subscription.refreshTimer) {
+      return;
+    }
+    subscription.refreshTimer = setTimeout(() => {
+      subscription.refreshTimer = undefined;
+      subscription.refreshing = subscription.refreshing
+        .then(() => this.refreshSubscribedBalances(sessionId, subscription))
+        .catch(error => log.error('Error refreshing subscribed balances', { sessionId, tool: undefined, error }));
+    }, BALANCE_REFRESH_DELAY_MS);
+  }
+
+  // Read the current balance of every changed address and report those that moved
+  private async refreshSubscribedBalances(sessionId: string, subscription: SubscriptionInfo): Promise<void> {
+    const changes = subscription.pendingChanges;
+    subscription.pendingChanges = new Map();
+    const sdk = sdkInstances.get(sessionId);
+    const addresses = Array.from(changes.keys()).filter(address => subscription.addresses.has(address));
+    if (!sdk || addresses.length === 0) {
+      return;
+    }
+
+    for (const { address, balance } of await sdk.getBalances(addresses)) {
+      const previousBalance = subscription.lastBalances.get(address) ?? BigInt(0);
+      if (balance === previousBalance) {
+        continue;
+      }
+      subscription.lastBalances.set(address, balance);
+      this.recordBalanceChange({
+        sessionId,
+        address,
+        previousBalance,
+        balance,
+        delta: balance - previousBalance,
+        transactionIds: subscription.includeTransactions ? Array.from(changes.get(address) || []) : []
+      });
+    }
+  }
+
+  // Buffer a balance change for kaspa_poll_events and send it to the client
+  private recordBalanceChange(change: Omit<BalanceChangeEvent, 'id' | 'timestamp'>): void {
+    let buffer = eventBuffers.get(change.sessionId);
+    if (!buffer) {
+      buffer = { events: [], nextId: 1 };
+      eventBuffers.set(change.sessionId, buffer);
+    }
+    const event: BalanceChangeEvent = { id: buffer.nextId++, ...change, timestamp: new Date().toISOString() };
+    buffer.events.push(event);
+    buffer.events.splice(0, Math.max(0, buffer.events.length - MAX_BUFFERED_EVENTS));
+
+    // Events arrive outside of any tool call, so no tool is attached; the log sink
+    // forwards the record to the client as a logging notification
+    log.info('Balance change', {
+      sessionId: change.sessionId,
+      tool: undefined,
+      eventId: event.id,
+      address: change.address,
+      delta: this.formatKasDelta(change.delta),
+      balance: KaspaSDK.sompiToKas(change.balance),
+      txId: change.transactionIds[change.transactionIds.length - 1],
+      transactionIds: change.transactionIds
+    });
+    this.notifyResourceUpdated(`kaspa://session/${encodeURIComponent(change.sessionId)}/balance`);
+  }
+
+  // Signed KAS amount of a balance change; the WASM conversion only takes unsigned amounts
+  private formatKasDelta(delta: bigint): string {
+    return delta < BigInt(0) ? `-${KaspaSDK.sompiToKas(-delta)}` : `+${KaspaSDK.sompiToKas(delta)}`;
+  }
+
+  // Remove a subscription's event handlers and drop its pending refresh
+  private stopSubscription(sdk: KaspaSDK, subscription: SubscriptionInfo): void {
+    for (const [event, listener] of subscription.eventListeners) {
+      sdk.off(event, listener);
+    }
+    clearTimeout(subscription.refreshTimer);
+    subscription.refreshTimer = undefined;
+    subscription.pendingChanges.clear();
+  }
+
+  private async handleGetTransactionDetails(args: any) {
+    const sessionId = this.normalizeSessionId(args.sessionId);
+    const { transactionId } = args;
+    const sdk = sdkInstances.get(sessionId);
+
+    if (!sdk) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        'No active connection. Please connect first.'
+      );
+    }
+
+    if (!transactionId) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        'Transaction ID is required'
+      );
+    }
+
+    try {
+      log.debug(`Getting transaction details for: ${transactionId}`);
+      
+      const details = await sdk.getTransactionDetails(transactionId);
+      
+      // Format the response
+      let response = `🔍 Transaction Details\n\n`;
+      response += `Transaction ID: ${details.transactionId}\n`;
+      
+      if (details.blockHash) {
+        response += `Block Hash: ${details.blockHash}\n`;
+      }
+      
+      if (details.blockTime) {
+        response += `Block Time: ${new Date(Number(details.blockTime)).toLocaleString()}\n`;
+      }
+
+      if (details.acceptingBlockHash) {
+        response += `Accepting Block: ${details.acceptingBlockHash}\n`;
+      }
+      
+      response += `Confirmations: ${details.confirmations}\n`;
+      response += `Mass: ${details.mass}\n`;
+      response += `Fee: ${details.feeKas} KAS (${details.fee} sompi)\n\n`;
+      
+      // Input details (senders)
+      response += `📤 INPUTS (${details.inputs.length}):\n`;
+      if (details.inputs.length === 0) {
+        response += `   (No inputs - coinbase transaction)\n`;
+      } else {
+        for (const input of details.inputs) {
+          response += `   From: ${input.address || 'Unknown'}\n`;
+          response += `   Amount: ${input.amountKas} KAS\n`;
+          response += `   Previous TX: ${input.previousTransactionId}:${input.previousIndex}\n`;
+          response += `   ---\n`;
+        }
+      }
+      
+      response += `\n📥 OUTPUTS (${details.outputs.length}):\n`;
+      for (const output of details.outputs) {
+        response += `   [${output.index}] To: ${output.address}\n`;
+        response += `   Amount: ${output.amountKas} KAS\n`;
+        response += `   ---\n`;
+      }
+      
+      response += `\n💰 AMOUNTS:\n`;
+      response += `   Total Input: ${details.totalInputAmountKas} KAS\n`;
+      response += `   Total Output: ${details.totalOutputAmountKas} KAS\n`;
+      response += `   Fee: ${details.feeKas} KAS\n`;
+      
+      if (details.payload) {
+        response += `\n📝 PAYLOAD:\n${details.payload}\n`;
+      }
+      
+      if (details.lockTime) {
+        response += `\n🔒 Lock Time: ${details.lockTime}\n`;
+      }
+
+      // Add explorer link
+      const network = sdk.getNetworkType();
+      const explorerBase = network === 'mainnet' 
+        ? 'https://explorer.kaspa.org/txs/' 
+        : 'https://explorer-tn10.kaspa.org/txs/';
+      response += `\n🌐 Explorer: ${explorerBase}${transactionId}`;
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: response
+          }
+        ]
+      };
+      
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to get transaction details: ${(error as Error).message}`
+      );
+    }
+  }
+
+  private async handleWaitForConfirmation(args: any) {
+    const sessionId = this.normalizeSessionId(args.sessionId);
+    const { transactionId, confirmations = 10, timeoutSeconds = 60 } = args;
+    const sdk = sdkInstances.get(sessionId);
+
+    if (!sdk) {
+      throw new McpError(ErrorCode.InvalidRequest, 'No active connection. Please connect first.');
+    }
+    if (!transactionId) {
+      throw new McpError(ErrorCode.InvalidParams, 'Transaction ID is required');
+    }
+    if (!Number.isInteger(confirmations) || confirmations < 0) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid confirmations: ${confirmations}. Must be a non-negative integer.`);
+    }
+    if (typeof timeoutSeconds !== 'number' || timeoutSeconds <= 0 || timeoutSeconds > MAX_CONFIRMATION_WAIT_SECONDS) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid timeoutSeconds: ${timeoutSeconds}. Must be more than 0 and at most ${MAX_CONFIRMATION_WAIT_SECONDS}.`);
+    }
+
+    try {
+      log.debug(`Waiting for ${confirmations} confirmations of ${transactionId}`);
+      const result = await sdk.waitForConfirmation(transactionId, confirmations, timeoutSeconds * 1000);
+
+      let summary: string;
+      if (result.status === 'accepted') {
+        summary = result.timedOut
+          ? `⏳ Accepted, but only ${result.confirmations} of ${confirmations} confirmations after ${timeoutSeconds}s`
+          : `✅ Accepted with ${result.confirmations} confirmations`;
+      } else if (result.status === 'pending') {
+        summary = `⏳ Still pending in the mempool after ${timeoutSeconds}s`;
+      } else {
+        summary = '❌ Dropped: neither accepted by the chain nor in the mempool';
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `${summary}
+
+Transaction ID: ${transactionId}
+Status: ${result.status}
+Confirmations: ${result.confirmations}${result.acceptingBlockHash ? `
+Accepting Block: ${result.acceptingBlockHash}
+Accepting Blue Score: ${result.acceptingBlueScore}
+Sink Blue Score: ${result.sinkBlueScore}` : ''}`
+          },
+          {
+            type: 'text',
+            text: JSON.stringify({
+              ...result,
+              acceptingBlueScore: result.acceptingBlueScore?.toString(),
+              sinkBlueScore: result.sinkBlueScore?.toString(),
+              requiredConfirmations: confirmations
+            }, null, 2)
+          }
+        ]
+      };
+    } catch (error) {
+      throw new McpError(ErrorCode.InternalError, `Failed to wait for confirmation: ${(error as Error).message}`);
+    }
+  }
+
+  private async handleGetTransactionStatus(args: any) {
+    const sessionId = this.normalizeSessionId(args.sessionId);
+    const { transactionId } = args;
+    const sdk = sdkInstances.get(sessionId);
+
+    if (!sdk) {
+      throw new McpError(ErrorCode.InvalidRequest, 'No active connection. Please connect first.');
+    }
+    if (!transactionId) {
+      throw new McpError(ErrorCode.InvalidParams, 'Transaction ID is required');
+    }
+
+    try {
+      const status = await sdk.getTransactionStatus(transactionId);
+      const transitions = status.transitions
+        .map(transition => `  ${new Date(transition.at).toISOString()} ${transition.state}`)
+        .join('\n');
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Transaction ${transactionId}
+State: ${status.state}
+Confirmations: ${status.confirmations} of ${status.requiredConfirmations}${status.acceptingBlockHash ? `
+Accepting Block: ${status.acceptingBlockHash}` : ''}
+${status.submittedAt ? `Submitted: ${new Date(status.submittedAt).toISOString()}
+History:
+${transitions}` : 'Not submitted in this session; state looked up now'}`
+          },
+          {
+            type: 'text',
+            text: JSON.stringify(status, null, 2)
+          }
+        ]
+      };
+    } catch (error) {
+      throw new McpError(ErrorCode.InternalError, `Failed to get transaction status: ${(error as Error).message}`);
+    }
+  }
+
+  private async handleGetAddressHistory(args: any) {
+    const sessionId = this.normalizeSessionId(args.sessionId);
+    const { direction, since, until, offset = 0, limit = 20 } = args;
+    const sdk = sdkInstances.get(sessionId);
+    const wallet = walletInstances.get(sessionId);
+
+    if (!sdk) {
+      throw new McpError(ErrorCode.InvalidRequest, 'No active connection. Please connect first.');
+    }
+
+    const address: string | undefined = args.address || wallet?.getReceiveAddress(0);
+    if (!address) {
+      throw new McpError(ErrorCode.InvalidParams, 'No address given and no wallet available');
+    }
+    if (!KaspaSDK.validateAddress(address, sdk.getNetworkType())) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid address for ${sdk.getNetworkType()}: ${address}`);
+    }
+    if (direction !== undefined && direction !== 'in' && direction !== 'out') {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid direction: "${direction}". Use in or out.`);
+    }
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid offset: ${offset}. Must be a non-negative integer.`);
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_HISTORY_PAGE_LIMIT) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid limit: ${limit}. Must be an integer from 1 to ${MAX_HISTORY_PAGE_LIMIT}.`);
+    }
+
+    const parseTime = (value: string | undefined, name: string) => {
+      if (value === undefined) return undefined;
+      const time = Date.parse(value);
+      if (Number.isNaN(time)) {
+        throw new McpError(ErrorCode.InvalidParams, `${name} must be an ISO timestamp`);
+      }
+      return time;
+    };
+    const parseAmount = (value: string | undefined, name: string) => {
+      if (value === undefined) return undefined;
+      try {
+        return KaspaSDK.kasToSompi(value);
+      } catch (error) {
+        throw new McpError(ErrorCode.InvalidParams, `Invalid ${name}: ${(error as Error).message}`);
+      }
+    };
+    const query = {
+      direction,
+      minAmount: parseAmount(args.minAmount, 'minAmount'),
+      maxAmount: parseAmount(args.maxAmount, 'maxAmount'),
+      since: parseTime(since, 'since'),
+      until: parseTime(until, 'until'),
+      offset,
+      limit
+    };
+
+    try {
+      const newlyWatched = !(await sdk.isAddressHistoryWatched(address));
+      // Also starts the indexer for an address watched in an earlier run
+      await sdk.watchAddressHistory([address]);
+      const page = await sdk.getAddressHistory(address, query);
+
+      const lines = page.entries.map(entry =>
+        `${entry.direction === 'in' ? '⬇️ in ' : '⬆️ out'} ${entry.direction === 'in' ? '+' : '-'}${KaspaSDK.sompiToKas(entry.amount)} KAS  ` +
+        `${new Date(entry.timestamp).toISOString()}  ${entry.transactionId}`
+      );
+      const shown = page.entries.length > 0
+        ? ` (showing ${page.offset + 1}-${page.offset + page.entries.length})`
+        : '';
+      const gaps = page.gaps.length > 0
+        ? `\n⚠️ No indexer ran from ${page.gaps.map(gap => `${new Date(gap.from).toISOString()} to ${new Date(gap.to).toISOString()}`).join(', ')}; transactions accepted then are missing.\n`
+        : '';
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `📜 Address history: ${address}
+Indexed since: ${page.watchedSince ? new Date(page.watchedSince).toISOString() : 'now'}
+Matching transactions: ${page.total}${shown}
+${newlyWatched ? '\nIndexing of this address started now. Transactions accepted from here on will show up.\n' : ''}${gaps}
+${lines.length > 0 ? lines.join('\n') : '(no transactions)'}`
+          },
+          {
+            type: 'text',
+            text: JSON.stringify({
+              ...page,
+              entries: page.entries.map(entry => ({
+                ...entry,
+                amount: entry.amount.toString(),
+                amountKas: KaspaSDK.sompiToKas(entry.amount),
+                received: entry.received.toString(),
+                sent: entry.sent.toString()
+              }))
+            }, null, 2)
+          }
+        ]
+      };
+    } catch (error) {
+      throw new McpError(ErrorCode.InternalError, `Failed to get address history: ${(error as Error).message}`);
+    }
+  }
+
+  private async handleSetupPreconfiguredWallet(args: any) {
+    const startTime = Date.now();
+    
+    const sessionId = this.normalizeSessionId(args.sessionId);
+    
+    let sdk = sdkInstances.get(sessionId);
+    if (!sdk) {
+      // Auto-connect to default network if no connection exists
+      log.info('No SDK connection found, auto-connecting to default network');
+      try {
+        const defaultNetwork = Configuration.getDefaultNetwork();
+        log.debug(`Auto-connecting to network: ${defaultNetwork}`);
+        
+        const connectStartTime = Date.now();
+        await this.handleConnect({ 
+          network: defaultNetwork, 
+          sessionId 
+        });
+        const connectDuration = Date.now() - connectStartTime;
+        log.debug(`Auto-connect completed in ${connectDuration}ms`);
+        
+        sdk = sdkInstances.get(sessionId);
+        if (!sdk) {
+          throw new Error('Failed to auto-connect');
+        }
+      } catch (error) {
+        const errorTime = Date.now() - startTime;
+        log.error(`Auto-connect failed after ${errorTime}ms`, { error });
+        throw new McpError(
+          ErrorCode.InvalidRequest, 
+          'No active connection found. Please call kaspa_connect first to establish a connection to the Kaspa network before using wallet operations.'
+        );
+      }
+    } else {
+      log.debug('Using existing SDK connection');
+    }
+
+    if (args.keystoreEntry) {
+      return await this.setupKeystoreWallet(sdk, sessionId, String(args.keystoreEntry));
+    }
+
+    try {
+      log.info('Setting up preconfigured wallet');
+      
+      // Check if preconfigured credentials are available
+      const credentialsCheckTime = Date.now();
+      if (!sdk.hasPreconfiguredWallet()) {
+        throw new Error('No preconfigured wallet credentials found. Please set KASPA_WALLET_MNEMONIC or KASPA_WALLET_PRIVATE_KEY environment variables.');
+      }
+      log.debug(`Credentials check completed in ${Date.now() - credentialsCheckTime}ms`);
+      
+      // Dispose existing wallet if exists
+      if (walletInstances.has(sessionId)) {
+        log.info('Disposing existing wallet');
+        const disposeStartTime = Date.now();
+        walletInstances.get(sessionId)!.dispose();
+        walletInstances.delete(sessionId);
+        keystoreSessions.delete(sessionId);
+        log.debug(`Wallet disposal completed in ${Date.now() - disposeStartTime}ms`);
+      }
+
+      log.info('Creating wallet from preconfigured credentials...');
+      const walletCreateStartTime = Date.now();
+      const wallet = sdk.createPreconfiguredWallet();
+      const walletCreateDuration = Date.now() - walletCreateStartTime;
+      log.debug(`Wallet creation completed in ${walletCreateDuration}ms`);
+      
+      walletInstances.set(sessionId, wallet);
+      this.notifySessionResourcesChanged(sessionId);
+      log.info('Wallet created successfully');
+
+      const addressStartTime = Date.now();
+      const receiveAddress = wallet.getReceiveAddress(0);
+      const changeAddress = wallet.getChangeAddress(0);
+      log.debug(`Address generation completed in ${Date.now() - addressStartTime}ms`);
+
+      const responseText = `Preconfigured wallet setup successfully!
+Receive Address: ${receiveAddress}
+Change Address: ${changeAddress}
+Network: ${sdk.getNetworkType()}
+
+⚠️  Using wallet credentials from environment variables.
+🔒 Private credentials are kept secure and not exposed to AI agents.`;
+
+      const totalDuration = Date.now() - startTime;
+      log.debug(`Total handleSetupPreconfiguredWallet duration: ${totalDuration}ms`);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: responseText
+          }
+        ]
+      };
+    } catch (error) {
+      const totalDuration = Date.now() - startTime;
+      log.error(`Failed to setup preconfigured wallet after ${totalDuration}ms`, { error });
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to setup preconfigured wallet: ${(error as Error).message}`
+      );
+    }
+  }
+
+  private async setupKeystoreWallet(sdk: KaspaSDK, sessionId: string, entryName: string) {
+    const keystore = this.getKeystore();
+
+    try {
+      if (!keystore.isUnlocked(entryName)) {
+        const passphrase = Keystore.readPassphrase();
+        if (!passphrase) {
+          throw new Error('No keystore passphrase available. Set KASPA_KEYSTORE_PASSPHRASE_FD or KASPA_KEYSTORE_PASSPHRASE.');
+        }
+        await keystore.unlock(entryName, passphrase);
+        log.info(`Unlocked keystore entry "${entryName}"`);
+      }
+
+      if (walletInstances.has(sessionId)) {
+        walletInstances.get(sessionId)!.dispose();
+        walletInstances.delete(sessionId);
+      }
+
+      const wallet = sdk.createWalletFromKeystore(keystore, entryName);
+      walletInstances.set(sessionId, wallet);
+      this.notifySessionResourcesChanged(sessionId);
+      keystoreSessions.set(sessionId, entryName);
+
+      const relockAfterMs = Configuration.getKeystoreConfig()?.relockAfterMs ?? DEFAULT_RELOCK_MS;
+      const relockText = relockAfterMs > 0
+        ? `Relocks automatically after ${Math.round(relockAfterMs / 60000)} minute(s), or with kaspa_lock_wallet.`
+        : 'Stays unlocked until kaspa_lock_wallet is called.';
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Keystore wallet "${entryName}" unlocked successfully!
+Receive Address: ${wallet.getReceiveAddress(0)}
+Change Address: ${wallet.getChangeAddress(0)}
+Network: ${sdk.getNetworkType()}
+
+🔒 ${relockText}`
+          }
+        ]
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to unlock keystore wallet: ${(error as Error).message}`
+      );
+    }
+  }
+
+  private async handleLockWallet(args: any) {
+    const sessionId = this.normalizeSessionId(args.sessionId);
+    const entryName = keystoreSessions.get(sessionId);
+
+    if (!entryName) {
+      throw new McpError(ErrorCode.InvalidRequest, `The wallet of session "${sessionId}" was not unlocked from the keystore.`);
+    }
+
+    this.getKeystore().lock(entryName);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `🔒 Keystore entry "${entryName}" locked. Its wallets have been closed.`
+        }
+      ]
+    };
+  }
+
+  // Serve MCP over any transport, e.g. an in-memory one in the e2e harness
+  async connect(transport: Transport): Promise<void> {
+    await this.server.connect(transport);
+    if (getApprovalSecret()) {
+      this.approvalTimer = setInterval(() => {
+        this.processApprovals().catch(error => log.warn('Failed to process approvals', { error }));
+      }, APPROVAL_POLL_MS);
+      this.approvalTimer.unref();
+    }
+  }
+
+  async run(): Promise<void> {
+    await this.connect(new StdioServerTransport());
+    log.info('Kaspa MCP server running on stdio');
+  }
+
+  // Close the transport and dispose every session
+  async close(): Promise<void> {
+    clearInterval(this.approvalTimer);
+    this.resourceUpdateTimers.forEach(timer => clearTimeout(timer));
+    this.resourceUpdateTimers.clear();
+    this.removeLogSink?.();
+    await this.server.close();
+    await this.cleanup();
+  }
+}
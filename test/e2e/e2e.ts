@@ -0,0 +1,391 @@
+#!/usr/bin/env node
+
+// End-to-end check of the MCP tools. Runs KaspaMCPServer over an in-memory
+// MCP transport against a MockKaspaNode and drives the tools the way an LLM
+// client would, asserting on the text, the JSON results and the node state.
+// Build the SDK first (npm run build), then: npm run test:e2e, which
+// compiles this file with test/e2e/tsconfig.json
+// With --local the same flow runs against a kaspad simnet started through
+// LocalNetwork (KASPA_KASPAD_PATH): npm run test:integration
+
+import assert from 'assert/strict';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { LoggingMessageNotificationSchema, ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { KaspaSDK, LocalNetwork, MockKaspaNode, NetworkType, configureLogger } from 'kaspa-wasm-sdk';
+import { KaspaMCPServer } from '../../src/server.js';
+
+const STEP_TIMEOUT_MS = 30000;
+// Mining the faucet's coinbase to maturity takes a while on a real node
+const FUNDING_TIMEOUT_MS = 600000;
+
+// The flow below needs these tools
+const FLOW_TOOLS = [
+  'kaspa_connect',
+  'kaspa_get_connection_status',
+  'kaspa_create_wallet',
+  'kaspa_get_balance',
+  'kaspa_estimate_fee',
+  'kaspa_subscribe_balance',
+  'kaspa_get_subscription_status',
+  'kaspa_send_transaction',
+  'kaspa_get_transaction_details',
+  'kaspa_get_address_history',
+  'kaspa_wait_for_confirmation'
+];
+
+interface ToolResult {
+  text: string;
+  /** Content items after the first one that parse as JSON */
+  json?: any;
+}
+
+/** The node the flow runs against */
+interface Backend {
+  network: NetworkType;
+  url: string;
+  fund(address: string, amount: bigint): Promise<void>;
+  /** Get a sent transaction accepted */
+  settle(transactionId: string): Promise<void>;
+  /** Add chain blocks */
+  mine(count: number): Promise<void>;
+  getBalance(address: string): Promise<bigint>;
+  /** Set when the backend can drop client connections */
+  dropConnections?(): void;
+  close(): Promise<void>;
+}
+
+function mockBackend(): Backend {
+  const node = new MockKaspaNode({ network: 'testnet-10', name: 'e2e' });
+  return {
+    network: node.network,
+    url: node.url,
+    fund: async (address, amount) => {
+      node.seedBalance(address, amount, { utxos: 2 });
+    },
+    settle: async transactionId => {
+      assert.deepEqual(node.getMempoolTransactionIds(), []);
+      assert.ok(node.getTip().transactionIds.includes(transactionId), 'transaction was not mined');
+    },
+    mine: async count => {
+      for (let i = 0; i < count; i++) {
+        node.mineBlock();
+      }
+    },
+    getBalance: async address => node.getBalance(address),
+    dropConnections: () => node.dropConnections(),
+    close: async () => node.close()
+  };
+}
+
+async function localBackend(): Promise<Backend> {
+  const local = new LocalNetwork({ network: 'simnet' });
+  await local.start();
+  const sdk = await local.createSDK();
+  return {
+    network: local.network,
+    url: local.rpcUrl,
+    fund: async (address, amount) => {
+      // Two outputs, like the mock's seeded balance
+      await local.fund(address, amount / BigInt(2));
+      await local.fund(address, amount - amount / BigInt(2));
+    },
+    settle: () => local.mineBlocks(1),
+    mine: count => local.mineBlocks(count),
+    getBalance: async address => (await sdk.getBalance(address)).balance,
+    close: () => local.stop()
+  };
+}
+
+const ADDRESS_PREFIXES: Record<NetworkType, string> = {
+  'mainnet': 'kaspa:',
+  'testnet-10': 'kaspatest:',
+  'devnet': 'kaspadev:',
+  'simnet': 'kaspasim:'
+};
+
+interface LoggedMessage {
+  message: string;
+  [field: string]: unknown;
+}
+
+function parseField(text: string, label: string): string {
+  const escaped = label.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const match = text.match(new RegExp(`${escaped}: (\\S+)`));
+  assert.ok(match, `"${label}" missing from:\n${text}`);
+  return match[1];
+}
+
+function withTimeout<T>(promise: Promise<T>, name: string, timeoutMs: number = STEP_TIMEOUT_MS): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`${name} timed out after ${timeoutMs}ms`)), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+async function waitFor(condition: () => boolean | Promise<boolean>, description: string): Promise<void> {
+  const deadline = Date.now() + STEP_TIMEOUT_MS;
+  while (!(await condition())) {
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for ${description}`);
+    }
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+}
+
+async function main(): Promise<number> {
+  // Keep the audit log and approval queue of this run away from the user's
+  const workDir = await mkdtemp(join(tmpdir(), 'kaspa-mcp-e2e-'));
+  process.env.KASPA_AUDIT_LOG_PATH = join(workDir, 'audit.jsonl');
+  process.env.KASPA_APPROVAL_STORE_PATH = join(workDir, 'approvals');
+  process.env.KASPA_INDEXER_PATH = join(workDir, 'history');
+  configureLogger({ console: process.env.KASPA_E2E_VERBOSE === 'true' });
+
+  const node = process.argv.includes('--local') ? await localBackend() : mockBackend();
+  const server = new KaspaMCPServer();
+  const client = new Client({ name: 'kaspa-e2e', version: '1.0.0' }, { capabilities: {} });
+  const logged: LoggedMessage[] = [];
+  client.setNotificationHandler(LoggingMessageNotificationSchema, notification => {
+    logged.push(notification.params.data as LoggedMessage);
+  });
+  const updatedResources: string[] = [];
+  client.setNotificationHandler(ResourceUpdatedNotificationSchema, notification => {
+    updatedResources.push(notification.params.uri);
+  });
+  const readResource = async (uri: string): Promise<any> => {
+    const { contents } = await client.readResource({ uri });
+    return JSON.parse(contents[0].text as string);
+  };
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  await client.connect(clientTransport);
+
+  const callTool = async (name: string, args: Record<string, unknown> = {}): Promise<ToolResult> => {
+    const result = await client.callTool({ name, arguments: args });
+    const items = (result.content as { type: string; text?: string }[]).filter(item => item.type === 'text');
+    assert.ok(items.length > 0, `${name} returned no text content`);
+    const parsed: ToolResult = { text: items[0].text || '' };
+    for (const item of items.slice(1)) {
+      try {
+        parsed.json = JSON.parse(item.text || '');
+      } catch {
+        // Further text, not a structured result
+      }
+    }
+    return parsed;
+  };
+
+  let failed = false;
+  const step = async (name: string, run: () => Promise<void>, timeoutMs?: number): Promise<void> => {
+    if (failed) {
+      console.log(`- ${name} (skipped)`);
+      return;
+    }
+    try {
+      await withTimeout(run(), name, timeoutMs);
+      console.log(`✓ ${name}`);
+    } catch (error) {
+      failed = true;
+      console.log(`✗ ${name}\n  ${(error as Error).message.split('\n').join('\n  ')}`);
+    }
+  };
+
+  let sender = '';
+  let recipient = '';
+  let transactionId = '';
+  const amountSompi = KaspaSDK.kasToSompi('1');
+
+  await step('lists the tools', async () => {
+    const { tools } = await client.listTools();
+    const names = tools.map(tool => tool.name);
+    for (const tool of FLOW_TOOLS) {
+      assert.ok(names.includes(tool), `${tool} is not listed`);
+    }
+  });
+
+  // Padded session IDs: every tool must normalize them the same way
+  await step('connects sessions to the node', async () => {
+    const { text } = await callTool('kaspa_connect', { network: node.network, rpcUrl: node.url, sessionId: ' e2e ' });
+    assert.match(text, new RegExp(`Successfully connected to Kaspa ${node.network}`));
+    assert.ok(text.includes(node.url), text);
+    await callTool('kaspa_connect', { network: node.network, rpcUrl: node.url, sessionId: 'recipient' });
+
+    const status = await callTool('kaspa_get_connection_status', { sessionId: 'e2e' });
+    assert.equal(status.json?.state, 'connected');
+    assert.equal(status.json?.url, node.url);
+  });
+
+  await step('creates wallets', async () => {
+    const { text } = await callTool('kaspa_create_wallet', { sessionId: 'e2e ' });
+    assert.match(text, /Wallet created successfully/);
+    sender = parseField(text, 'Receive Address');
+    recipient = parseField((await callTool('kaspa_create_wallet', { sessionId: 'recipient' })).text, 'Receive Address');
+    assert.notEqual(sender, recipient);
+    assert.ok(sender.startsWith(ADDRESS_PREFIXES[node.network]), sender);
+  });
+
+  await step('reads a funded balance', async () => {
+    await node.fund(sender, KaspaSDK.kasToSompi('100'));
+    const { text } = await callTool('kaspa_get_balance', { address: sender, sessionId: ' e2e' });
+    assert.equal(parseField(text, 'Raw (sompi)'), KaspaSDK.kasToSompi('100').toString());
+    assert.equal(parseField(text, 'UTXOs'), '2');
+  }, FUNDING_TIMEOUT_MS);
+
+  await step('estimates the fee', async () => {
+    const { text } = await callTool('kaspa_estimate_fee', { from: sender, to: recipient, amount: '1', sessionId: 'e2e' });
+    assert.ok(Number(parseField(text, 'Base Fee')) > 0, text);
+    assert.ok(Number(parseField(text, 'Estimated Mass')) > 0, text);
+  });
+
+  await step('subscribes to balance changes', async () => {
+    const { text } = await callTool('kaspa_subscribe_balance', { addresses: [sender, recipient], sessionId: 'e2e ' });
+    assert.match(text, /Subscribed to balance changes for 2 addresses/);
+    const status = await callTool('kaspa_get_subscription_status', { sessionId: ' e2e' });
+    assert.ok(status.text.includes(sender) && status.text.includes(recipient), status.text);
+  });
+
+  await step('serves resources', async () => {
+    const { resourceTemplates } = await client.listResourceTemplates();
+    assert.equal(resourceTemplates.length, 5);
+    const { resources } = await client.listResources();
+    assert.ok(resources.some(resource => resource.uri === 'kaspa://session/e2e/wallet'), JSON.stringify(resources));
+
+    assert.equal((await readResource('kaspa://session/e2e/wallet')).receiveAddress, sender);
+    assert.equal((await readResource('kaspa://session/e2e/balance')).total, KaspaSDK.kasToSompi('100').toString());
+    assert.equal((await readResource(`kaspa://network/${node.network}/info`)).network, node.network);
+    await assert.rejects(client.readResource({ uri: 'kaspa://nothing/here' }), /Unknown resource/);
+
+    await client.subscribeResource({ uri: `kaspa://address/${recipient}/utxos` });
+    await client.subscribeResource({ uri: 'kaspa://session/e2e/balance' });
+  });
+
+  await step('sends a transaction', async () => {
+    const { text } = await callTool('kaspa_send_transaction', { to: recipient, amount: '1', sessionId: 'e2e' });
+    assert.match(text, /Transaction sent successfully/);
+    assert.match(text, /Status: (submitted|in-mempool|accepted)/);
+    transactionId = parseField(text, 'Transaction ID');
+    const fee = KaspaSDK.kasToSompi(parseField(text, 'Fee paid'));
+
+    await node.settle(transactionId);
+    await waitFor(async () => (await node.getBalance(recipient)) === amountSompi, 'the payment to be accepted');
+    assert.equal(await node.getBalance(sender), KaspaSDK.kasToSompi('100') - amountSompi - fee);
+  });
+
+  await step('notifies the balance change', async () => {
+    await waitFor(
+      () => logged.some(entry => entry.message === 'Balance change' && entry.address === recipient && entry.txId === transactionId),
+      'a balance change notification for the recipient'
+    );
+  });
+
+  await step('buffers balance changes for polling', async () => {
+    const received = (event: any) => event.address === recipient && event.transactionIds.includes(transactionId);
+    await waitFor(async () => ((await callTool('kaspa_poll_events', { sessionId: 'e2e' })).json?.events || []).some(received), 'a buffered balance change');
+    const { json } = await callTool('kaspa_poll_events', { sessionId: 'e2e' });
+    const event = json.events.find(received);
+    assert.equal(event.delta, amountSompi.toString());
+    assert.equal(event.balance, amountSompi.toString());
+    assert.ok(json.events.some((other: any) => other.address === sender && BigInt(other.delta) < BigInt(0)), JSON.stringify(json.events));
+
+    const next = await callTool('kaspa_poll_events', { after: json.cursor, sessionId: 'e2e' });
+    assert.deepEqual(next.json?.events, []);
+  });
+
+  await step('updates subscribed resources', async () => {
+    const utxosUri = `kaspa://address/${recipient}/utxos`;
+    await waitFor(() => updatedResources.includes(utxosUri), 'an update of the recipient UTXOs');
+    await waitFor(() => updatedResources.includes('kaspa://session/e2e/balance'), 'an update of the session balance');
+    const utxos = await readResource(utxosUri);
+    assert.equal(utxos.total, amountSompi.toString());
+    assert.equal(utxos.utxos[0].outpoint.transactionId, transactionId);
+
+    const transaction = await readResource(`kaspa://tx/${transactionId}`);
+    assert.equal(transaction.transactionId, transactionId);
+    assert.ok(transaction.status.state !== 'dropped', JSON.stringify(transaction.status));
+  });
+
+  await step('keeps node subscriptions that a balance subscription still needs', async () => {
+    await client.unsubscribeResource({ uri: `kaspa://address/${recipient}/utxos` });
+    await client.unsubscribeResource({ uri: 'kaspa://session/e2e/balance' });
+    const status = await callTool('kaspa_get_connection_status', { sessionId: 'e2e' });
+    assert.deepEqual(status.json?.subscriptions.utxoAddresses.sort(), [sender, recipient].sort());
+  });
+
+  await step('gets the transaction details', async () => {
+    const { text } = await callTool('kaspa_get_transaction_details', { transactionId, sessionId: 'e2e' });
+    assert.equal(parseField(text, 'Transaction ID'), transactionId);
+    assert.ok(text.includes(`To: ${recipient}`), text);
+  });
+
+  await step('counts confirmations from the accepting block', async () => {
+    const accepted = await callTool('kaspa_wait_for_confirmation', { transactionId, confirmations: 0, sessionId: 'e2e' });
+    assert.equal(accepted.json?.status, 'accepted', accepted.text);
+
+    // Every further chain block adds one
+    const waiting = callTool('kaspa_wait_for_confirmation', { transactionId, confirmations: accepted.json.confirmations + 2, sessionId: 'e2e' });
+    await node.mine(2);
+    const confirmed = await waiting;
+    assert.equal(confirmed.json?.timedOut, undefined, confirmed.text);
+    assert.equal(confirmed.json?.confirmations, accepted.json.confirmations + 2);
+
+    const unknown = await callTool('kaspa_wait_for_confirmation', { transactionId: '00'.repeat(32), timeoutSeconds: 1, sessionId: 'e2e' });
+    assert.equal(unknown.json?.status, 'dropped', unknown.text);
+  });
+
+  await step('tracks the transaction status', async () => {
+    await node.mine(10);
+    const status = () => callTool('kaspa_get_transaction_status', { transactionId, sessionId: 'e2e' });
+    await waitFor(async () => (await status()).json?.state === 'confirmed', 'the transaction to be confirmed');
+    const { json } = await status();
+    assert.equal(json.transitions[0].state, 'submitted');
+    assert.ok(json.submittedAt, 'sent transactions are tracked from submission');
+
+    const unknown = await callTool('kaspa_get_transaction_status', { transactionId: '00'.repeat(32), sessionId: 'e2e' });
+    assert.equal(unknown.json?.state, 'dropped', unknown.text);
+  });
+
+  await step('lists the address history', async () => {
+    // Both addresses are indexed since the subscription
+    const incoming = await callTool('kaspa_get_address_history', { address: recipient, direction: 'in', sessionId: 'e2e' });
+    assert.equal(incoming.json?.total, 1, incoming.text);
+    assert.equal(incoming.json?.entries[0].transactionId, transactionId);
+    assert.equal(incoming.json?.entries[0].amount, amountSompi.toString());
+
+    const outgoing = await callTool('kaspa_get_address_history', { address: sender, sessionId: 'e2e', limit: 1 });
+    assert.equal(outgoing.json?.entries[0].direction, 'out', outgoing.text);
+    const none = await callTool('kaspa_get_address_history', { address: recipient, direction: 'in', minAmount: '2', sessionId: 'e2e' });
+    assert.equal(none.json?.total, 0, none.text);
+  });
+
+  await step('keeps sessions apart', async () => {
+    await assert.rejects(callTool('kaspa_get_balance', { address: sender, sessionId: 'other' }), /No active connection/);
+  });
+
+  const dropConnections = node.dropConnections;
+  if (dropConnections) {
+    await step('reconnects after the node drops the connection', async () => {
+      dropConnections();
+      await waitFor(async () => (await callTool('kaspa_get_connection_status', { sessionId: 'e2e' })).json?.reconnects === 1, 'the reconnect');
+      const status = await callTool('kaspa_get_connection_status', { sessionId: 'e2e' });
+      assert.deepEqual(status.json?.subscriptions.utxoAddresses.sort(), [sender, recipient].sort());
+    });
+  }
+
+  await client.close();
+  await server.close();
+  await node.close();
+  await rm(workDir, { recursive: true, force: true });
+
+  console.log(failed ? '\nE2E run failed' : '\nE2E run passed');
+  return failed ? 1 : 0;
+}
+
+main().then(code => process.exit(code), error => {
+  console.error(`Error: ${(error as Error).message}`);
+  process.exit(1);
+});